@@ -1,38 +1,107 @@
-import type { KeyboardEvent, MouseEvent } from 'react'
-import { useCallback, useContext, useEffect, useMemo, useRef } from 'react'
+import type { KeyboardEvent, MouseEvent, ReactNode } from 'react'
+import { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
 
-import { CellCallbacksContext, RenderCellContentContext, StringifyContext } from '../contexts/CellConfigurationContext.js'
+import { CellCallbacksContext, LocaleContext, RenderCellContentContext, StringifyContext } from '../contexts/CellConfigurationContext.js'
+import { CellEditingContext } from '../contexts/CellEditingContext.js'
+import { CellSelectionContext } from '../contexts/CellSelectionContext.js'
 import { ColumnWidthsContext } from '../contexts/ColumnWidthsContext.js'
+import { RetryRowContext } from '../contexts/LoadingContext.js'
+import { SearchContext } from '../contexts/SearchContext.js'
+import type { CellEditor, CellEditorProps } from '../helpers/columnConfiguration.js'
+import { ariaOffset } from '../helpers/constants.js'
+import type { ColumnType } from '../helpers/dataframe/index.js'
+import type { ColumnFormat } from '../helpers/format.js'
+import { formatCellValue, formatValue } from '../helpers/format.js'
 import { useCellFocus } from '../hooks/useCellFocus.js'
 import { useOnCopy } from '../hooks/useOnCopyToClipboard.js'
+import type { CellContentProps } from '../types.js'
+import CellViewer from './CellViewer.js'
+import TextCellEditor from './TextCellEditor.js'
 
 interface Props {
   /** aria column index */
   ariaColIndex: number
   /** aria row index */
   ariaRowIndex: number
-  /** column index in the original dataframe, used for callbacks like onDoubleClickCell */
+  /** column name */
+  column: string
+  /** column index in the original dataframe, used for the width and for callbacks like onDoubleClickCell */
   columnIndex: number
-  /** index in the visible columns array (used for styling/widths) */
-  visibleColumnIndex: number
+  /** whether the cell can be edited */
+  editable?: boolean
+  /** custom editor, the default text input is used if undefined */
+  editor?: CellEditor
   /** cell value, undefined if the value has not been fetched yet, or if the value is actually undefined. Use hasResolved to distinguish these cases. */
   cellValue?: unknown
   /** whether the cell value has been resolved */
   hasResolved?: boolean
+  /** the error of the last fetch, if the cell value could not be resolved */
+  error?: Error
   /** class name */
   className?: string
+  /** whether the column is pinned to the left */
+  pinned?: 'left'
   /** the row index in the original data, undefined if the value has not been fetched yet */
   rowNumber?: number
+  /** type of the column values, used to format the value if there is no custom cell content */
+  type?: ColumnType
+  /** formatting options of the numbers and the dates of the column, used for display and copy */
+  format?: ColumnFormat
+  /** custom cell content component of the column, it takes precedence over the one of the table */
+  renderCellContent?: (props: CellContentProps) => ReactNode
 }
 
 /**
- * Render a table cell <td> with title and optional custom rendering
+ * Wrap the occurrences of the query (ignoring the letter case) in <mark> elements
  */
-export default function Cell({ cellValue, hasResolved, columnIndex, visibleColumnIndex, className, ariaColIndex, ariaRowIndex, rowNumber }: Props) {
+function highlight(text: string, query: string): ReactNode {
+  const lowerText = text.toLowerCase()
+  const lowerQuery = query.toLowerCase()
+  const parts: ReactNode[] = []
+  let start = 0
+  let index = lowerText.indexOf(lowerQuery)
+  while (index !== -1 && lowerQuery.length > 0) {
+    parts.push(text.slice(start, index))
+    parts.push(<mark key={index}>{text.slice(index, index + query.length)}</mark>)
+    start = index + query.length
+    index = lowerText.indexOf(lowerQuery, start)
+  }
+  parts.push(text.slice(start))
+  return parts
+}
+
+/**
+ * Render the custom editor of the column, or the default text input
+ */
+function Editor({ editor, ...props }: CellEditorProps & { editor?: CellEditor }) {
+  return editor ? editor(props) : <TextCellEditor {...props} />
+}
+
+function stopPropagation(event: { stopPropagation: () => void }) {
+  event.stopPropagation()
+}
+
+/**
+ * Render a table cell <td> with title and optional custom rendering. Without custom rendering, the value is formatted
+ * with the formatting options of the column, or according to the column type, if any.
+ *
+ * If the cell is editable, Enter or F2 start editing, and the editor replaces the content.
+ *
+ * Ctrl+Enter (or Cmd+Enter), or the button shown on hover, opens a viewer with the full value.
+ *
+ * If the cell could not be resolved, the error message is shown, and Enter, or the retry button, fetches it again.
+ */
+export default function Cell({ cellValue, hasResolved, error, column, columnIndex, editable, editor, className, pinned, ariaColIndex, ariaRowIndex, rowNumber, type, format, renderCellContent: columnRenderCellContent }: Props) {
   const { onDoubleClickCell, onMouseDownCell, onKeyDownCell } = useContext(CellCallbacksContext)
   const stringify = useContext(StringifyContext)
-  const renderCellContent = useContext(RenderCellContentContext)
+  const locale = useContext(LocaleContext)
+  const tableRenderCellContent = useContext(RenderCellContentContext)
+  const renderCellContent = columnRenderCellContent ?? tableRenderCellContent
+  const { isCellSelected, onCellMouseDown, onCellMouseEnter } = useContext(CellSelectionContext)
+  const { query, getCellSearchMatch } = useContext(SearchContext)
+  const { canEdit, editingCell, startEditing, stopEditing, commitEdit } = useContext(CellEditingContext)
   const { tabIndex, navigateToCell, focusIfNeeded } = useCellFocus({ ariaColIndex, ariaRowIndex })
+  const retryRow = useContext(RetryRowContext)
 
   const cell = useMemo(() => {
     if (!hasResolved) {
@@ -47,12 +116,15 @@ export default function Cell({ cellValue, hasResolved, columnIndex, visibleColum
     focusIfNeeded?.(ref.current)
   }, [focusIfNeeded])
 
-  // Get the column width from the context (use visibleColumnIndex for styling)
-  const columnStyle = useContext(ColumnWidthsContext).getStyle?.(visibleColumnIndex)
+  // Get the column width from the context (the widths are stored by column index, as for the headers)
+  const columnStyle = useContext(ColumnWidthsContext).getStyle?.(columnIndex)
   // render as truncated text
   const str = useMemo(() => {
-    return stringify(cell?.value)
-  }, [stringify, cell])
+    if (format === undefined || cell === undefined) {
+      return stringify(cell?.value)
+    }
+    return formatValue({ value: cell.value, type, format, locale, stringify })
+  }, [stringify, cell, type, format, locale])
   const title = useMemo(() => {
     if (str === undefined) {
       return undefined
@@ -64,50 +136,213 @@ export default function Cell({ cellValue, hasResolved, columnIndex, visibleColum
       return str
     }
   }, [str])
+  // the displayed text is formatted according to the column type, the title and the copied text are not (only the
+  // formatting options of the column apply to them)
+  const formatted = useMemo(() => {
+    if (type === undefined || cell === undefined) {
+      return str
+    }
+    return formatCellValue({ value: cell.value, type, format, locale, stringify })
+  }, [type, cell, format, locale, stringify, str])
+  const searchMatch = getCellSearchMatch?.({ colIndex: ariaColIndex, rowIndex: ariaRowIndex })
   const content = useMemo(() => {
-    return renderCellContent === undefined
-      ? str
-      : renderCellContent({ cell, stringify, col: columnIndex, row: rowNumber })
-  }, [cell, stringify, columnIndex, rowNumber, renderCellContent, str])
+    if (cell === undefined && error !== undefined) {
+      // error marker, until the cell is fetched again successfully
+      return <span data-error="true">{error.message}</span>
+    }
+    if (renderCellContent !== undefined) {
+      return renderCellContent({ cell, stringify, col: columnIndex, row: rowNumber })
+    }
+    if (cell === undefined) {
+      // skeleton placeholder, until the cell resolves
+      return <span data-skeleton="true" aria-hidden="true" />
+    }
+    // highlight the searched text in the matching cells
+    return searchMatch && formatted !== undefined && query ? highlight(formatted, query) : formatted
+  }, [cell, error, stringify, columnIndex, rowNumber, renderCellContent, formatted, searchMatch, query])
 
   const handleMouseDown = useCallback((event: MouseEvent) => {
+    // before navigating to the cell, since the previous current cell can be the anchor of the selection
+    onCellMouseDown?.(event, { colIndex: ariaColIndex, rowIndex: ariaRowIndex })
     navigateToCell?.()
     if (onMouseDownCell && rowNumber !== undefined) {
       onMouseDownCell(event, columnIndex, rowNumber)
     }
-  }, [navigateToCell, onMouseDownCell, rowNumber, columnIndex])
+  }, [navigateToCell, onMouseDownCell, onCellMouseDown, rowNumber, columnIndex, ariaColIndex, ariaRowIndex])
+  const handleMouseEnter = useMemo(() => {
+    if (!onCellMouseEnter) {
+      return undefined
+    }
+    return (event: MouseEvent) => {
+      onCellMouseEnter(event, { colIndex: ariaColIndex, rowIndex: ariaRowIndex })
+    }
+  }, [onCellMouseEnter, ariaColIndex, ariaRowIndex])
   const handleDoubleClick = useCallback((event: MouseEvent) => {
     navigateToCell?.()
     if (onDoubleClickCell && rowNumber !== undefined) {
       onDoubleClickCell(event, columnIndex, rowNumber)
     }
   }, [navigateToCell, onDoubleClickCell, rowNumber, columnIndex])
+
+  // the value must be resolved to be edited
+  const isEditing = editable === true && cell !== undefined && rowNumber !== undefined
+    && editingCell?.colIndex === ariaColIndex && editingCell.rowIndex === ariaRowIndex
+  // the edition is committed or cancelled only once (the editor is blurred when the cell is focused again)
+  const isEditionDoneRef = useRef(false)
+  const startCellEditing = useMemo(() => {
+    if (!editable || !startEditing || cell === undefined || rowNumber === undefined) {
+      return undefined
+    }
+    return () => {
+      isEditionDoneRef.current = false
+      startEditing({ colIndex: ariaColIndex, rowIndex: ariaRowIndex })
+    }
+  }, [editable, startEditing, cell, rowNumber, ariaColIndex, ariaRowIndex])
+  const finishEditing = useCallback((finish: () => void) => {
+    if (!isEditing || isEditionDoneRef.current) {
+      return
+    }
+    isEditionDoneRef.current = true
+    // focus the cell again, except if the focus left the editor (e.g. the user clicked elsewhere)
+    const hasFocus = ref.current?.contains(document.activeElement) === true
+    finish()
+    if (hasFocus) {
+      ref.current?.focus()
+    }
+  }, [isEditing])
+  const commit = useCallback((value: unknown) => {
+    finishEditing(() => {
+      if (rowNumber !== undefined) {
+        commitEdit?.({ row: ariaRowIndex - ariaOffset, rowNumber, column, value, previousValue: cell?.value })
+      }
+    })
+  }, [finishEditing, commitEdit, ariaRowIndex, rowNumber, column, cell])
+  const cancel = useCallback(() => {
+    finishEditing(() => {
+      stopEditing?.()
+    })
+  }, [finishEditing, stopEditing])
+  const handleEditorKeyDown = useCallback((event: KeyboardEvent) => {
+    // the keys are handled by the editor, not by the cell or the table
+    event.stopPropagation()
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      cancel()
+    }
+  }, [cancel])
+
+  // the full value is shown in a viewer, below the cell
+  const [viewerPosition, setViewerPosition] = useState<{ left: number, top: number } | undefined>(undefined)
+  const canView = cell !== undefined && str !== undefined
+  const openViewer = useMemo(() => {
+    if (!canView) {
+      return undefined
+    }
+    return () => {
+      const rect = ref.current?.getBoundingClientRect()
+      setViewerPosition({ left: rect?.left ?? 0, top: rect?.bottom ?? 0 })
+    }
+  }, [canView])
+  const closeViewer = useCallback(() => {
+    setViewerPosition(undefined)
+    ref.current?.focus()
+  }, [])
+  const handleViewerButtonClick = useCallback((event: MouseEvent) => {
+    event.stopPropagation()
+    openViewer?.()
+  }, [openViewer])
+
+  const retry = useMemo(() => {
+    if (cell !== undefined || error === undefined || !retryRow) {
+      return undefined
+    }
+    return () => {
+      retryRow({ row: ariaRowIndex - ariaOffset, column })
+    }
+  }, [cell, error, retryRow, ariaRowIndex, column])
+  const handleRetryButtonClick = useCallback((event: MouseEvent) => {
+    event.stopPropagation()
+    retry?.()
+  }, [retry])
+
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
+    const { key, altKey, ctrlKey, metaKey, shiftKey } = event
+    if (retry && key === 'Enter' && !altKey && !ctrlKey && !metaKey && !shiftKey) {
+      event.preventDefault()
+      event.stopPropagation()
+      retry()
+      return
+    }
+    if (openViewer && key === 'Enter' && (ctrlKey || metaKey) && !altKey && !shiftKey) {
+      event.preventDefault()
+      event.stopPropagation()
+      openViewer()
+      return
+    }
+    if (startCellEditing && (key === 'Enter' || key === 'F2') && !altKey && !ctrlKey && !metaKey && !shiftKey) {
+      event.preventDefault()
+      event.stopPropagation()
+      startCellEditing()
+      return
+    }
     // No need to navigate to the cell when using the keyboard, it is already focused
     if (onKeyDownCell && rowNumber !== undefined) {
       onKeyDownCell(event, columnIndex, rowNumber)
     }
-  }, [onKeyDownCell, rowNumber, columnIndex])
+  }, [retry, openViewer, startCellEditing, onKeyDownCell, rowNumber, columnIndex])
   const handleCopy = useOnCopy(str)
 
   return (
     <td
       ref={ref}
       role="cell"
-      aria-busy={cell === undefined}
+      aria-busy={cell === undefined && error === undefined}
       aria-rowindex={ariaRowIndex}
       aria-colindex={ariaColIndex}
+      aria-selected={isCellSelected?.({ colIndex: ariaColIndex, rowIndex: ariaRowIndex })}
       data-rownumber={rowNumber}
       tabIndex={tabIndex}
       onCopy={handleCopy}
       onDoubleClick={handleDoubleClick}
       onMouseDown={handleMouseDown}
+      onMouseEnter={handleMouseEnter}
       onKeyDown={handleKeyDown}
       style={columnStyle}
       className={className}
-      title={title}
+      data-pinned={pinned}
+      data-search-match={searchMatch}
+      data-type={type}
+      aria-readonly={canEdit && !editable ? true : undefined}
+      data-editing={isEditing || undefined}
+      title={isEditing ? undefined : title ?? error?.message}
     >
-      {content}
+      {isEditing
+        ? (
+            <div
+              onKeyDown={handleEditorKeyDown}
+              onMouseDown={stopPropagation}
+              onDoubleClick={stopPropagation}
+              onCopy={stopPropagation}
+            >
+              <Editor editor={editor} value={cell.value} column={column} rowNumber={rowNumber} commit={commit} cancel={cancel} />
+            </div>
+          )
+        : (
+            <>
+              {retry && (
+                // hidden from the assistive technologies, which use Enter
+                <button type="button" aria-hidden="true" tabIndex={-1} data-retry="true" title="Retry (Enter)" onClick={handleRetryButtonClick} />
+              )}
+              {canView && (
+                // hidden from the assistive technologies, which use Ctrl+Enter, and without text, to keep the cell name and text
+                <button type="button" aria-hidden="true" tabIndex={-1} title="Show the full value (Ctrl+Enter)" onClick={handleViewerButtonClick} />
+              )}
+              {content}
+            </>
+          )}
+      {viewerPosition && cell && (
+        <CellViewer column={column} value={cell.value} type={type} format={format} position={viewerPosition} close={closeViewer} />
+      )}
     </td>
   )
 }
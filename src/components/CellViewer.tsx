@@ -0,0 +1,125 @@
+import type { KeyboardEvent, MouseEvent } from 'react'
+import { useCallback, useContext, useId, useMemo, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+
+import { LocaleContext, StringifyContext } from '../contexts/CellConfigurationContext.js'
+import { ClipboardContext } from '../contexts/ClipboardContext.js'
+import { PortalContainerContext } from '../contexts/PortalContainerContext.js'
+import type { ColumnType } from '../helpers/dataframe/index.js'
+import type { ColumnFormat, FormatParams } from '../helpers/format.js'
+import { formatValue } from '../helpers/format.js'
+import { useFocusManagement } from '../hooks/useFocusManagement.js'
+
+/**
+ * Format the full value of a cell, as the cell title and the copied text (see formatValue), and pretty-print the
+ * strings that contain JSON objects or arrays.
+ */
+function formatFullValue(params: FormatParams): string {
+  const { value } = params
+  if (typeof value === 'string' && /^\s*[[{]/.test(value)) {
+    try {
+      return JSON.stringify(JSON.parse(value), null, 2)
+    } catch {
+      // not JSON, show the string as is
+    }
+  }
+  return formatValue(params) ?? ''
+}
+
+function stopPropagation(event: { stopPropagation: () => void }) {
+  event.stopPropagation()
+}
+
+interface Props {
+  /** column name */
+  column: string
+  /** cell value */
+  value: unknown
+  /** type of the column values, if any */
+  type?: ColumnType
+  /** formatting options of the column, if any */
+  format?: ColumnFormat
+  /** position of the viewer, in the viewport (below the cell) */
+  position: {
+    left: number
+    top: number
+  }
+  /** close the viewer, and focus the cell again */
+  close: () => void
+}
+
+/**
+ * Render a popover with the full value of a cell, in the portal container, with a button to copy it.
+ *
+ * Escape, or a click outside, closes the viewer. The events don't propagate to the cell.
+ */
+export default function CellViewer({ column, value, type, format, position, close }: Props) {
+  const container = useContext(PortalContainerContext)
+  const stringify = useContext(StringifyContext)
+  const locale = useContext(LocaleContext)
+  const { onCopyError } = useContext(ClipboardContext)
+  const [copied, setCopied] = useState(false)
+  const labelId = useId()
+
+  const dialogRef = useRef<HTMLDivElement | null>(null)
+  const { navigateFocus } = useFocusManagement(true, dialogRef)
+
+  const text = useMemo(() => {
+    return formatFullValue({ value, type, format, locale, stringify })
+  }, [value, type, format, locale, stringify])
+
+  const copy = useCallback(() => {
+    navigator.clipboard.writeText(text).then(() => {
+      setCopied(true)
+    }).catch((err: unknown) => {
+      onCopyError?.(err)
+    })
+  }, [text, onCopyError])
+
+  const handleKeyDown = useCallback((event: KeyboardEvent<HTMLDivElement>) => {
+    event.stopPropagation()
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      close()
+    } else if (event.key === 'Tab') {
+      // keep the focus in the viewer
+      event.preventDefault()
+      navigateFocus(event.shiftKey ? 'previous' : 'next')
+    }
+  }, [close, navigateFocus])
+
+  const handleOverlayClick = useCallback((event: MouseEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    event.stopPropagation()
+    close()
+  }, [close])
+
+  if (!container) {
+    return null
+  }
+
+  return createPortal(
+    <>
+      <div role="presentation" onClick={handleOverlayClick} onMouseDown={stopPropagation} />
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-labelledby={labelId}
+        style={{ top: position.top, left: position.left }}
+        onKeyDown={handleKeyDown}
+        onClick={stopPropagation}
+        onMouseDown={stopPropagation}
+        onDoubleClick={stopPropagation}
+        onCopy={stopPropagation}
+      >
+        <header>
+          <span id={labelId}>{column}</span>
+          <button type="button" title="Copy the value" onClick={copy}>{copied ? 'Copied' : 'Copy'}</button>
+          <button type="button" aria-label="Close the viewer" title="Close (Escape)" onClick={close}>✕</button>
+        </header>
+        <pre tabIndex={0}>{text}</pre>
+      </div>
+    </>,
+    container
+  )
+}
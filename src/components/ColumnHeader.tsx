@@ -1,15 +1,23 @@
-import type { KeyboardEvent, ReactNode } from 'react'
-import { useCallback, useContext, useEffect, useMemo, useRef } from 'react'
+import type { DragEvent, KeyboardEvent, PointerEvent, ReactNode } from 'react'
+import { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
 import { flushSync } from 'react-dom'
 
+import { CellNavigationContext } from '../contexts/CellNavigationContext.js'
+import { ColumnOrderContext } from '../contexts/ColumnOrderContext.js'
+import { ColumnPinningContext } from '../contexts/ColumnPinningContext.js'
+import { ColumnStatsContext } from '../contexts/ColumnStatsContext.js'
 import { ColumnsVisibilityContext } from '../contexts/ColumnsVisibilityContext.js'
 import { ColumnWidthsContext } from '../contexts/ColumnWidthsContext.js'
+import { FiltersContext } from '../contexts/FiltersContext.js'
 import { SortInfoAndActionsByColumnContext } from '../contexts/OrderByContext.js'
 import type { ColumnConfig } from '../helpers/columnConfiguration.js'
+import { ariaOffset } from '../helpers/constants.js'
+import type { ColumnFilter } from '../helpers/filter.js'
 import { getOffsetWidth } from '../helpers/width.js'
 import { useCellFocus } from '../hooks/useCellFocus.js'
 import { useColumnMenu } from '../hooks/useColumnMenu.js'
 import { useOnCopy } from '../hooks/useOnCopyToClipboard.js'
+import ColumnHistogram from './ColumnHistogram.js'
 import type { AriaSort } from './ColumnMenu.js'
 import ColumnMenu from './ColumnMenu.js'
 import ColumnMenuButton from './ColumnMenuButton.js'
@@ -59,16 +67,114 @@ function useSortInformation(columnName: string) {
         // space and avoid layout shift if it becomes sorted.
   return { ariaSort, orderByIndex: sortInfo?.index, sortDescription, sortIndicator, toggleOrderBy }
 }
+
+function useFilterInformation(columnName: string) {
+  const { filters, setColumnFilter } = useContext(FiltersContext)
+
+  const filter = filters[columnName]
+  const setFilter = useMemo(() => {
+    if (!setColumnFilter) {
+      return undefined
+    }
+    return (filter: ColumnFilter | undefined) => {
+      setColumnFilter(columnName, filter)
+    }
+  }, [setColumnFilter, columnName])
+
+  return { filter, setFilter }
+}
+
+// the data type used to transfer the name of a dragged column header
+const columnDataType = 'application/x-hightable-column'
+
+function useColumnDragAndDrop(columnName: string) {
+  const { moveColumn } = useContext(ColumnOrderContext)
+  const [isDropTarget, setIsDropTarget] = useState(false)
+  // the element where the pointer was pressed, to prevent dragging the header from its controls
+  const pointerDownTarget = useRef<EventTarget | null>(null)
+
+  return useMemo(() => {
+    if (!moveColumn) {
+      return { isDropTarget: false }
+    }
+    function isColumnDrag(e: DragEvent) {
+      return e.dataTransfer.types.includes(columnDataType)
+    }
+    return {
+      isDropTarget,
+      onPointerDown: (e: PointerEvent) => {
+        pointerDownTarget.current = e.target
+      },
+      onDragStart: (e: DragEvent) => {
+        const target = pointerDownTarget.current
+        if (target instanceof Element && target.closest('button, [role="spinbutton"], [role="menu"]')) {
+          // the user is interacting with a control (e.g. resizing the column), not moving the column
+          e.preventDefault()
+          return
+        }
+        e.dataTransfer.effectAllowed = 'move'
+        e.dataTransfer.setData(columnDataType, columnName)
+      },
+      onDragOver: (e: DragEvent) => {
+        if (!isColumnDrag(e)) {
+          return
+        }
+        // allow dropping
+        e.preventDefault()
+        e.dataTransfer.dropEffect = 'move'
+        setIsDropTarget(true)
+      },
+      onDragLeave: (e: DragEvent) => {
+        if (e.relatedTarget instanceof Node && e.currentTarget.contains(e.relatedTarget)) {
+          // still over the header
+          return
+        }
+        setIsDropTarget(false)
+      },
+      onDrop: (e: DragEvent) => {
+        setIsDropTarget(false)
+        if (!isColumnDrag(e)) {
+          return
+        }
+        e.preventDefault()
+        moveColumn(e.dataTransfer.getData(columnDataType), columnName)
+      },
+    }
+  }, [moveColumn, columnName, isDropTarget])
+}
+
 export default function ColumnHeader({ columnIndex, columnName, columnConfig, canMeasureWidth, ariaColIndex, ariaRowIndex, className, children }: Props) {
   // The ref is used to position the menu in handleMenuClick, to measure width, and to focus the cell
   const ref = useRef<HTMLTableCellElement | null>(null)
   const { tabIndex, navigateToCell, focusIfNeeded } = useCellFocus({ ariaColIndex, ariaRowIndex })
   const { isOpen, position, menuId, close, handleMenuClick } = useColumnMenu(ref, navigateToCell)
-  const { getHideColumn, showAllColumns } = useContext(ColumnsVisibilityContext)
+  const { getHideColumn, showAllColumns, visibleColumnsParameters } = useContext(ColumnsVisibilityContext)
+  const { moveCell } = useContext(CellNavigationContext)
+  const { moveColumn } = useContext(ColumnOrderContext)
+  const { getPinColumn, getUnpinColumn } = useContext(ColumnPinningContext)
+  const { getColumnStats, requestColumnStats } = useContext(ColumnStatsContext)
 
   // Sorting
   const { ariaSort, orderByIndex, sortDescription, sortIndicator, toggleOrderBy } = useSortInformation(columnName)
 
+  // Filtering
+  const { filter, setFilter } = useFilterInformation(columnName)
+  const filterIndicator = useMemo(() => {
+    if (filter === undefined) {
+      return undefined
+    }
+    return <span role="img" aria-label={`The column ${columnName} is filtered`} data-filter-indicator="true">⛛</span>
+  }, [filter, columnName])
+
+  // Statistics, computed once the header is rendered
+  const hasColumnStats = getColumnStats !== undefined
+  useEffect(() => {
+    requestColumnStats?.(columnName)
+  }, [requestColumnStats, columnName])
+
+  // Reordering
+  const { isDropTarget, ...dragAndDropHandlers } = useColumnDragAndDrop(columnName)
+
   // Focus the cell if needed. We use an effect, as it acts on the DOM element after render.
   useEffect(() => {
     focusIfNeeded?.(ref.current)
@@ -83,11 +189,19 @@ export default function ColumnHeader({ columnIndex, columnName, columnConfig, ca
     return getHideColumn?.(columnName)
   }, [getHideColumn, columnName])
 
+  const pinColumn = useMemo(() => {
+    return getPinColumn?.(columnName)
+  }, [getPinColumn, columnName])
+  const unpinColumn = useMemo(() => {
+    return getUnpinColumn?.(columnName)
+  }, [getUnpinColumn, columnName])
+
   const isMenuEnabled = useMemo(() => {
     const hasCustomMenuGroups = columnConfig.menuGroups && columnConfig.menuGroups.length > 0
-    const hideMenu = !ariaSort && !hideColumn && !showAllColumns && !hasCustomMenuGroups
+    const hasFilterSection = columnConfig.filterTypes && columnConfig.filterTypes.length > 0 && setFilter
+    const hideMenu = !ariaSort && !hideColumn && !showAllColumns && !pinColumn && !unpinColumn && !hasCustomMenuGroups && !hasFilterSection && !hasColumnStats
     return !hideMenu
-  }, [ariaSort, hideColumn, showAllColumns, columnConfig.menuGroups])
+  }, [ariaSort, hideColumn, showAllColumns, pinColumn, unpinColumn, columnConfig.menuGroups, columnConfig.filterTypes, setFilter, hasColumnStats])
 
   // Get the column width from the context
   const { getStyle, getDataFixedWidth, getWidth, setMeasuredWidth, setFixedWidth, releaseWidth } = useContext(ColumnWidthsContext)
@@ -127,21 +241,37 @@ export default function ColumnHeader({ columnIndex, columnName, columnConfig, ca
   }, [tryToMeasureWidth, releaseWidth, columnIndex])
 
   const onKeyDown = useCallback((e: KeyboardEvent) => {
-    if (e.target !== ref.current || !toggleOrderBy) {
-      // only handle keyboard events when the header is focused, the column is sortable and can be toggled
+    if (e.target !== ref.current) {
+      // only handle keyboard events when the header is focused
+      return
+    }
+    if (moveColumn && e.altKey && e.shiftKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+      // move the column before the previous visible column, or after the next one
+      const delta = e.key === 'ArrowLeft' ? -1 : 1
+      const targetColumn = visibleColumnsParameters?.[ariaColIndex - ariaOffset + delta]
+      e.preventDefault()
+      e.stopPropagation()
+      // the pinned columns are always shown first: a column cannot cross the limit without being pinned or unpinned
+      if (targetColumn && targetColumn.pinned === columnConfig.pinned) {
+        moveColumn(columnName, targetColumn.name)
+        // keep the focus on the moved column
+        moveCell?.({ type: 'CELL', colIndex: ariaColIndex + delta, rowIndex: ariaRowIndex })
+      }
       return
     }
-    if (e.key === 'Enter' || e.key === ' ') {
+    if (toggleOrderBy && (e.key === 'Enter' || e.key === ' ')) {
+      // the column is sortable and can be toggled
       e.preventDefault()
       e.stopPropagation()
       toggleOrderBy()
     }
-  }, [toggleOrderBy])
+  }, [toggleOrderBy, moveColumn, moveCell, visibleColumnsParameters, columnName, columnConfig.pinned, ariaColIndex, ariaRowIndex])
   const handleCopy = useOnCopy(columnName)
 
   // If the hightable user provides a custom header component, they can choose where to place these controls inside it
   const controls = useMemo(() => (
     <div role="group">
+      {filterIndicator}
       {sortIndicator
         && (
           <span role="img" aria-hidden="true">{sortIndicator}</span>
@@ -159,7 +289,7 @@ export default function ColumnHeader({ columnIndex, columnName, columnConfig, ca
         )}
     </div>
   ),
-  [isMenuEnabled, handleMenuClick, navigateToCell, tabIndex, isOpen, menuId, columnName, sortIndicator])
+  [isMenuEnabled, handleMenuClick, navigateToCell, tabIndex, isOpen, menuId, columnName, sortIndicator, filterIndicator])
 
   const headerContent = useMemo(() => {
     const { headerComponent } = columnConfig
@@ -179,7 +309,11 @@ export default function ColumnHeader({ columnIndex, columnName, columnConfig, ca
       aria-sort={ariaSort}
       data-can-sort={toggleOrderBy === undefined ? undefined : 'true'}
       data-order-by-index={orderByIndex}
+      data-filtered={filter === undefined ? undefined : 'true'}
       data-functional-header={isFunctionalHeader ? 'true' : undefined}
+      data-drop-target={isDropTarget ? 'true' : undefined}
+      data-pinned={columnConfig.pinned}
+      draggable={moveColumn ? true : undefined}
       aria-label={columnName}
       aria-description={sortDescription}
       aria-rowindex={ariaRowIndex}
@@ -189,11 +323,13 @@ export default function ColumnHeader({ columnIndex, columnName, columnConfig, ca
       onClick={handleClick}
       onCopy={handleCopy}
       onKeyDown={onKeyDown}
+      {...dragAndDropHandlers}
       style={columnStyle}
       className={className}
       data-fixed-width={dataFixedWidth}
     >
       {headerContent}
+      {isFunctionalHeader ? null : filterIndicator}
       {isFunctionalHeader
         ? null
         : isMenuEnabled
@@ -207,6 +343,7 @@ export default function ColumnHeader({ columnIndex, columnName, columnConfig, ca
               aria-label={`Column menu for ${columnName}`}
             />
           )}
+      <ColumnHistogram columnName={columnName} />
       <ColumnResizer
         resizeTo={resizeTo}
         autoResize={autoResize}
@@ -222,6 +359,11 @@ export default function ColumnHeader({ columnIndex, columnName, columnConfig, ca
         toggleOrderBy={toggleOrderBy}
         hideColumn={hideColumn}
         showAllColumns={showAllColumns}
+        pinColumn={pinColumn}
+        unpinColumn={unpinColumn}
+        filterTypes={columnConfig.filterTypes}
+        filter={filter}
+        setFilter={setFilter}
         close={close}
         id={menuId}
         menuGroups={columnConfig.menuGroups}
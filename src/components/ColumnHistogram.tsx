@@ -0,0 +1,49 @@
+import { useContext, useMemo } from 'react'
+
+import { LocaleContext, StringifyContext } from '../contexts/CellConfigurationContext.js'
+import { ColumnStatsContext } from '../contexts/ColumnStatsContext.js'
+
+interface Props {
+  /** column name */
+  columnName: string
+}
+
+/**
+ * Render a mini histogram of the values of a column, under its header, if the column statistics are enabled.
+ *
+ * The bars are the bins of the histogram for the numeric and date columns, and the top values otherwise.
+ * Every bar has a title with its range or value, and its number of rows.
+ */
+export default function ColumnHistogram({ columnName }: Props) {
+  const { getColumnStats } = useContext(ColumnStatsContext)
+  const stringify = useContext(StringifyContext)
+  const locale = useContext(LocaleContext)
+  const columnStats = getColumnStats?.(columnName)
+
+  const bars = useMemo(() => {
+    if (columnStats?.status !== 'resolved') {
+      return undefined
+    }
+    const { histogram, topValues } = columnStats.stats
+    const items = histogram
+      ? histogram.map(({ start, end, count }) => ({ label: `${start.toLocaleString(locale, { maximumFractionDigits: 2 })} – ${end.toLocaleString(locale, { maximumFractionDigits: 2 })}`, count }))
+      : topValues.map(({ value, count }) => ({ label: stringify(value) ?? '', count }))
+    const maxCount = Math.max(...items.map(({ count }) => count), 1)
+    return items.map(({ label, count }) => ({
+      title: `${label}: ${count.toLocaleString(locale)} ${count === 1 ? 'row' : 'rows'}`,
+      height: `${100 * count / maxCount}%`,
+    }))
+  }, [columnStats, stringify, locale])
+
+  if (!columnStats || columnStats.status === 'rejected') {
+    return null
+  }
+
+  return (
+    <div role="img" aria-label={`Distribution of the values of ${columnName}`} aria-busy={columnStats.status === 'pending'} data-column-histogram="true">
+      {bars?.map(({ title, height }, index) => (
+        <span key={index} title={title} style={{ height }} />
+      ))}
+    </div>
+  )
+}
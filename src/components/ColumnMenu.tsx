@@ -1,10 +1,15 @@
-import type { KeyboardEvent, MouseEvent, ReactNode } from 'react'
-import { useCallback, useContext, useId, useMemo, useRef } from 'react'
+import type { ChangeEvent, KeyboardEvent, MouseEvent, ReactNode } from 'react'
+import { useCallback, useContext, useId, useMemo, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
 
+import { LocaleContext, StringifyContext } from '../contexts/CellConfigurationContext.js'
 import { CellNavigationContext } from '../contexts/CellNavigationContext.js'
+import { ColumnParametersContext } from '../contexts/ColumnParametersContext.js'
+import { ColumnStatsContext } from '../contexts/ColumnStatsContext.js'
 import { PortalContainerContext } from '../contexts/PortalContainerContext.js'
 import type { CustomMenuGroup } from '../helpers/columnConfiguration.js'
+import type { ColumnFilter, FilterType } from '../helpers/filter.js'
+import { formatValue } from '../helpers/format.js'
 import { useFocusManagement } from '../hooks/useFocusManagement.js'
 
 export type AriaSort = 'ascending' | 'descending' | 'none'
@@ -20,6 +25,27 @@ function getSortLabel(ariaSort: AriaSort) {
   }
 }
 
+function getFilterTypeLabel(filterType: FilterType) {
+  switch (filterType) {
+    case 'contains':
+      return 'Contains'
+    case 'equals':
+      return 'Equals'
+    case 'range':
+      return 'Between'
+    case 'isNull':
+      return 'Is null'
+    case 'isNotNull':
+      return 'Is not null'
+    case 'in':
+      return 'Is one of'
+  }
+}
+
+function isFormField(target: EventTarget) {
+  return target instanceof HTMLInputElement || target instanceof HTMLSelectElement || target instanceof HTMLTextAreaElement
+}
+
 interface MenuGroupProps {
   title: string
   children: ReactNode
@@ -80,6 +106,178 @@ function MenuItem({ onClick, label }: MenuItemProps) {
   )
 }
 
+interface FilterSectionProps {
+  filterTypes: FilterType[]
+  filter?: ColumnFilter
+  setFilter: (filter: ColumnFilter | undefined) => void
+}
+
+function FilterSection({ filterTypes, filter, setFilter }: FilterSectionProps) {
+  // The form is initialized from the current filter, and only applied on demand.
+  const [filterType, setFilterType] = useState<FilterType | undefined>(() => {
+    return filter && filterTypes.includes(filter.type) ? filter.type : filterTypes[0]
+  })
+  const [text, setText] = useState(filter?.type === 'contains' || filter?.type === 'equals' ? filter.value : '')
+  const [min, setMin] = useState(filter?.type === 'range' ? filter.min?.toString() ?? '' : '')
+  const [max, setMax] = useState(filter?.type === 'range' ? filter.max?.toString() ?? '' : '')
+  const [values, setValues] = useState(filter?.type === 'in' ? filter.values.join('\n') : '')
+
+  const applyFilter = useCallback(() => {
+    switch (filterType) {
+      case undefined:
+        return
+      case 'contains':
+      case 'equals':
+        setFilter({ type: filterType, value: text })
+        return
+      case 'range':
+        setFilter({
+          type: filterType,
+          min: min === '' ? undefined : Number(min),
+          max: max === '' ? undefined : Number(max),
+        })
+        return
+      case 'isNull':
+      case 'isNotNull':
+        setFilter({ type: filterType })
+        return
+      case 'in':
+        setFilter({ type: filterType, values: values.split('\n').filter(value => value !== '') })
+        return
+    }
+  }, [filterType, text, min, max, values, setFilter])
+
+  const clearFilter = useMemo(() => {
+    if (!filter) {
+      return undefined
+    }
+    return () => {
+      setFilter(undefined)
+    }
+  }, [filter, setFilter])
+
+  const onFilterTypeChange = useCallback((e: ChangeEvent<HTMLSelectElement>) => {
+    const { value } = e.target
+    setFilterType(filterTypes.find(filterType => filterType === value))
+  }, [filterTypes])
+
+  const onInputKeyDown = useCallback((e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      e.stopPropagation()
+      applyFilter()
+    }
+  }, [applyFilter])
+
+  return (
+    <MenuGroup title="Filter">
+      <select aria-label="Filter type" value={filterType} onChange={onFilterTypeChange}>
+        {filterTypes.map(filterType => (
+          <option key={filterType} value={filterType}>{getFilterTypeLabel(filterType)}</option>
+        ))}
+      </select>
+      {(filterType === 'contains' || filterType === 'equals')
+        && (
+          <input
+            type="text"
+            aria-label="Filter value"
+            value={text}
+            onChange={(e) => { setText(e.target.value) }}
+            onKeyDown={onInputKeyDown}
+          />
+        )}
+      {filterType === 'range'
+        && (
+          <>
+            <input
+              type="number"
+              aria-label="Minimum value"
+              placeholder="Min"
+              value={min}
+              onChange={(e) => { setMin(e.target.value) }}
+              onKeyDown={onInputKeyDown}
+            />
+            <input
+              type="number"
+              aria-label="Maximum value"
+              placeholder="Max"
+              value={max}
+              onChange={(e) => { setMax(e.target.value) }}
+              onKeyDown={onInputKeyDown}
+            />
+          </>
+        )}
+      {filterType === 'in'
+        && (
+          <textarea
+            aria-label="Filter values, one per line"
+            value={values}
+            onChange={(e) => { setValues(e.target.value) }}
+          />
+        )}
+      <MenuItem onClick={filterType === undefined ? undefined : applyFilter} label="Apply filter" />
+      <MenuItem onClick={clearFilter} label="Clear filter" />
+    </MenuGroup>
+  )
+}
+
+interface StatsSectionProps {
+  columnName: string
+}
+
+function StatsSection({ columnName }: StatsSectionProps) {
+  const { getColumnStats } = useContext(ColumnStatsContext)
+  const columnsParameters = useContext(ColumnParametersContext)
+  const stringify = useContext(StringifyContext)
+  const locale = useContext(LocaleContext)
+  const columnStats = getColumnStats?.(columnName)
+
+  const format = useCallback((value: unknown) => {
+    const { type, format } = columnsParameters.find(({ name }) => name === columnName) ?? {}
+    return formatValue({ value, type, format, locale, stringify })
+  }, [columnsParameters, columnName, locale, stringify])
+
+  if (columnStats?.status === 'rejected') {
+    return (
+      <MenuGroup title="Statistics">
+        <p>The statistics could not be computed.</p>
+      </MenuGroup>
+    )
+  }
+  if (columnStats?.status !== 'resolved') {
+    return (
+      <MenuGroup title="Statistics">
+        <p aria-busy="true">Computing…</p>
+      </MenuGroup>
+    )
+  }
+  const { min, max, nullCount, distinctCount, topValues } = columnStats.stats
+  return (
+    <MenuGroup title="Statistics">
+      <dl aria-label={`Statistics of ${columnName}`}>
+        <dt>Min</dt>
+        <dd>{min === undefined ? '–' : format(min)}</dd>
+        <dt>Max</dt>
+        <dd>{max === undefined ? '–' : format(max)}</dd>
+        <dt>Nulls</dt>
+        <dd>{nullCount.toLocaleString(locale)}</dd>
+        <dt>Distinct</dt>
+        <dd>{distinctCount.toLocaleString(locale)}</dd>
+      </dl>
+      {topValues.length > 0 && (
+        <ol aria-label={`Top values of ${columnName}`}>
+          {topValues.map(({ value, count }, index) => (
+            <li key={index}>
+              <span>{format(value)}</span>
+              <span>{count.toLocaleString(locale)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </MenuGroup>
+  )
+}
+
 interface OverlayProps {
   onClick: (e: MouseEvent<HTMLDivElement>) => void
 }
@@ -99,6 +297,11 @@ interface ColumnMenuProps {
   toggleOrderBy?: () => void
   hideColumn?: () => void // returns a function to hide the column, or undefined if the column cannot be hidden
   showAllColumns?: () => void // returns a function to show all columns, or undefined
+  pinColumn?: () => void // pins the column to the left, or undefined if the column is already pinned
+  unpinColumn?: () => void // unpins the column, or undefined if the column is not pinned
+  filterTypes?: FilterType[] // the filter types proposed in the filter section, if any
+  filter?: ColumnFilter // the current filter of the column, if any
+  setFilter?: (filter: ColumnFilter | undefined) => void // sets or clears the filter of the column, or undefined if the filters are read-only
   close: () => void
   id?: string
   menuGroups?: CustomMenuGroup[]
@@ -112,6 +315,11 @@ export default function ColumnMenu({
   toggleOrderBy,
   hideColumn,
   showAllColumns,
+  pinColumn,
+  unpinColumn,
+  filterTypes,
+  filter,
+  setFilter,
   close,
   id,
   menuGroups,
@@ -124,10 +332,15 @@ export default function ColumnMenu({
 
   const { navigateFocus } = useFocusManagement(isOpen, menuRef)
   const { goToFirstCell } = useContext(CellNavigationContext)
+  const { getColumnStats } = useContext(ColumnStatsContext)
 
   const handleKeyDown = useCallback((e: KeyboardEvent<HTMLDivElement>) => {
-    e.preventDefault()
     e.stopPropagation()
+    if (isFormField(e.target) && e.key !== 'Escape' && e.key !== 'Tab') {
+      // Let the form fields of the filter section handle the other keys (typing, moving the caret, etc.)
+      return
+    }
+    e.preventDefault()
     switch (e.key) {
       case 'Escape':
         close()
@@ -199,6 +412,29 @@ export default function ColumnMenu({
     }
   }, [showAllColumns, close])
 
+  const togglePinnedAndClose = useMemo(() => {
+    const togglePinned = pinColumn ?? unpinColumn
+    if (!togglePinned) {
+      return undefined
+    }
+    return () => {
+      togglePinned()
+      // no need to handle the focus here, since the column will still exist.
+      close()
+    }
+  }, [pinColumn, unpinColumn, close])
+
+  const setFilterAndClose = useMemo(() => {
+    if (!setFilter) {
+      return undefined
+    }
+    return (filter: ColumnFilter | undefined) => {
+      setFilter(filter)
+      // no need to handle the focus here, since the column will still exist.
+      close()
+    }
+  }, [setFilter, close])
+
   if (!isOpen) {
     return null
   }
@@ -250,6 +486,24 @@ export default function ColumnMenu({
                 )}
             </MenuGroup>
           )}
+        {togglePinnedAndClose
+          && (
+            <MenuGroup title="Pinning">
+              <MenuItem
+                onClick={togglePinnedAndClose}
+                label={pinColumn ? 'Pin column' : 'Unpin column'}
+              />
+            </MenuGroup>
+          )}
+        {filterTypes && filterTypes.length > 0 && setFilterAndClose
+          && (
+            <FilterSection
+              filterTypes={filterTypes}
+              filter={filter}
+              setFilter={setFilterAndClose}
+            />
+          )}
+        {getColumnStats && <StatsSection columnName={columnName} />}
         {menuGroups?.map(group => (
           <MenuGroup key={group.title} title={group.title}>
             {group.items.map(item => (
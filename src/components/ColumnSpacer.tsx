@@ -0,0 +1,13 @@
+import { cellStyle } from '../helpers/width.js'
+
+interface Props {
+  /** Total width of the skipped columns, in pixels */
+  width: number
+}
+
+/**
+ * Render an empty cell in place of the columns that are not rendered, when the columns are virtualized.
+ */
+export default function ColumnSpacer({ width }: Props) {
+  return <td role="presentation" aria-hidden="true" data-spacer="true" style={cellStyle(width)} />
+}
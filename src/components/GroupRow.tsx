@@ -0,0 +1,142 @@
+import type { CSSProperties, KeyboardEvent } from 'react'
+import { useCallback, useContext, useEffect, useRef } from 'react'
+
+import { LocaleContext, StringifyContext } from '../contexts/CellConfigurationContext.js'
+import type { ColumnParameters } from '../contexts/ColumnParametersContext.js'
+import { ColumnWidthsContext } from '../contexts/ColumnWidthsContext.js'
+import { GroupByContext } from '../contexts/GroupByContext.js'
+import { ariaOffset } from '../helpers/constants.js'
+import type { AggregateFunction } from '../helpers/dataframe/aggregate.js'
+import { aggregateLabels } from '../helpers/dataframe/aggregate.js'
+import type { Group } from '../helpers/dataframe/group.js'
+import { useCellFocus } from '../hooks/useCellFocus.js'
+import { useRenderedColumns } from '../hooks/useRenderedColumns.js'
+import ColumnSpacer from './ColumnSpacer.js'
+import Row from './Row.js'
+
+interface Props {
+  group: Group
+  columnsParameters: ColumnParameters[]
+  ariaRowIndex: number
+  /** Height of the row in pixels, if it differs from the default row height */
+  height?: number
+}
+
+/**
+ * Render a group header row: a toggle to collapse or expand the group, the grouping column, value and number of rows
+ * in the first visible column, and the aggregates of the group (if any) in the other columns.
+ */
+export default function GroupRow({ group, columnsParameters, ariaRowIndex, height }: Props) {
+  const { toggleGroup } = useContext(GroupByContext)
+  const stringify = useContext(StringifyContext)
+  const locale = useContext(LocaleContext)
+  const { getStyle } = useContext(ColumnWidthsContext)
+  const renderedColumns = useRenderedColumns(columnsParameters)
+
+  const { key, column, value, depth, count, collapsed, aggregates } = group
+  const onToggle = useCallback(() => {
+    toggleGroup?.(key)
+  }, [toggleGroup, key])
+  const label = `${column}: ${stringify(value) ?? ''} (${count.toLocaleString(locale)})`
+
+  return (
+    <Row ariaRowIndex={ariaRowIndex} ariaLevel={depth + 1} ariaExpanded={!collapsed} height={height}>
+      <GroupCell
+        role="rowheader"
+        ariaColIndex={1}
+        ariaRowIndex={ariaRowIndex}
+        onToggle={toggleGroup ? onToggle : undefined}
+        title={collapsed ? 'Expand the group' : 'Collapse the group'}
+        text={collapsed ? '▸' : '▾'}
+      />
+      {renderedColumns.map((renderedColumn) => {
+        if (renderedColumn.type === 'spacer') {
+          return <ColumnSpacer key={renderedColumn.side} width={renderedColumn.width} />
+        }
+        const { column: { name, index: columnIndex, className, pinned }, visibleColumnIndex } = renderedColumn
+        let text: string | undefined = undefined
+        if (visibleColumnIndex === 0) {
+          text = label
+        } else {
+          const columnAggregates = aggregates?.[name]
+          if (columnAggregates) {
+            // undefined results (e.g. the sum of a text column) are left out
+            text = Object.entries(columnAggregates)
+              .filter(([, aggregate]) => aggregate !== undefined)
+              .map(([fn, aggregate]) => `${aggregateLabels[fn as AggregateFunction]}: ${stringify(aggregate) ?? ''}`)
+              .join(' · ')
+          }
+        }
+        return (
+          <GroupCell
+            key={columnIndex}
+            role="cell"
+            ariaColIndex={visibleColumnIndex + ariaOffset}
+            ariaRowIndex={ariaRowIndex}
+            onToggle={toggleGroup ? onToggle : undefined}
+            className={className}
+            pinned={pinned}
+            style={getStyle?.(columnIndex)}
+            title={text}
+            text={text}
+          />
+        )
+      })}
+    </Row>
+  )
+}
+
+interface GroupCellProps {
+  role: 'rowheader' | 'cell'
+  ariaColIndex: number
+  ariaRowIndex: number
+  /** Collapse or expand the group, on click, Enter or Space. Undefined if the collapsed groups are read-only. */
+  onToggle?: () => void
+  className?: string
+  pinned?: ColumnParameters['pinned']
+  style?: CSSProperties
+  title?: string
+  text?: string
+}
+
+function GroupCell({ role, ariaColIndex, ariaRowIndex, onToggle, className, pinned, style, title, text }: GroupCellProps) {
+  const { tabIndex, navigateToCell, focusIfNeeded } = useCellFocus({ ariaColIndex, ariaRowIndex })
+
+  // Focus the cell if needed. We use an effect, as it acts on the DOM element after render.
+  const ref = useRef<HTMLTableCellElement | null>(null)
+  useEffect(() => {
+    focusIfNeeded?.(ref.current)
+  }, [focusIfNeeded])
+
+  const handleClick = useCallback(() => {
+    navigateToCell?.()
+    onToggle?.()
+  }, [navigateToCell, onToggle])
+  const handleKeyDown = useCallback((event: KeyboardEvent) => {
+    if (onToggle && (event.key === 'Enter' || event.key === ' ')) {
+      event.preventDefault()
+      event.stopPropagation()
+      onToggle()
+    }
+  }, [onToggle])
+
+  const Tag = role === 'rowheader' ? 'th' : 'td'
+  return (
+    <Tag
+      ref={ref}
+      scope={role === 'rowheader' ? 'row' : undefined}
+      role={role}
+      aria-colindex={ariaColIndex}
+      aria-rowindex={ariaRowIndex}
+      tabIndex={tabIndex}
+      className={className}
+      data-pinned={pinned}
+      style={style}
+      title={title}
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+    >
+      {role === 'rowheader' ? <span>{text}</span> : text}
+    </Tag>
+  )
+}
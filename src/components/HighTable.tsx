@@ -1,124 +1,217 @@
 import { type ReactNode } from 'react'
 
-import { columnWidthsSuffix } from '../helpers/constants.js'
+import { columnOrderSuffix, columnWidthsSuffix } from '../helpers/constants.js'
 import styles from '../HighTable.module.css'
+import { usePersistedViewState } from '../hooks/usePersistedViewState.js'
+import { AggregatesProvider } from '../providers/AggregatesProvider.js'
 import { CellConfigurationProvider } from '../providers/CellConfigurationProvider.js'
+import { CellEditingProvider } from '../providers/CellEditingProvider.js'
 import { CellNavigationProvider } from '../providers/CellNavigationProvider.js'
+import { CellSelectionProvider } from '../providers/CellSelectionProvider.js'
+import { ClipboardProvider } from '../providers/ClipboardProvider.js'
+import { ColumnOrderProvider } from '../providers/ColumnOrderProvider.js'
 import { ColumnParametersProvider } from '../providers/ColumnParametersProvider.js'
+import { ColumnPinningProvider } from '../providers/ColumnPinningProvider.js'
+import { ColumnStatsProvider } from '../providers/ColumnStatsProvider.js'
 import { ColumnsVisibilityProvider } from '../providers/ColumnsVisibilityProvider.js'
 import { ColumnWidthsProvider } from '../providers/ColumnWidthsProvider.js'
 import { DataProvider } from '../providers/DataProvider.js'
+import { FiltersProvider } from '../providers/FiltersProvider.js'
+import { GroupByProvider } from '../providers/GroupByProvider.js'
+import { HistoryProvider } from '../providers/HistoryProvider.js'
+import { LoadingProvider } from '../providers/LoadingProvider.js'
 import { OrderByProvider } from '../providers/OrderByProvider.js'
+import { RowDetailProvider } from '../providers/RowDetailProvider.js'
 import { ScrollProvider } from '../providers/ScrollProvider.js'
+import { SearchProvider } from '../providers/SearchProvider.js'
 import { SelectionProvider } from '../providers/SelectionProvider.js'
 import { TableCornerSizeProvider } from '../providers/TableCornerSizeProvider.js'
 import { ViewportSizeProvider } from '../providers/ViewportSizeProvider.js'
 import type { HighTableProps } from '../types.js'
+import RowDetailPanel from './RowDetailPanel.js'
 import Scroller from './Scroller.js'
+import SearchBar from './SearchBar.js'
 import Slice from './Slice.js'
 import Table from './Table.js'
 import Wrapper from './Wrapper.js'
 
-export default function HighTable({ data, ...props }: HighTableProps) {
+export default function HighTable({ data, onError, ref, ...props }: HighTableProps) {
+  // outside of the DataProvider: the persisted view state only depends on the cache key, not on the data
+  const viewStateProps = usePersistedViewState(props)
   return (
     // Part of the DataProvider is remounted on data change, so everything inside is recreated.
     // TODO(SL): if this becomes a performance issue, we can revisit this behavior, and update the
     // state more granularly.
-    <DataProvider data={data}>
-      <State {...props}>
+    <DataProvider data={data} onError={onError}>
+      <State data={data} onError={onError} ref={ref} {...props} {...viewStateProps}>
         <DOM {...props} />
       </State>
     </DataProvider>
   )
 }
 
-type StateProps = Pick<HighTableProps, 'columnConfiguration' | 'cacheKey' | 'cellPosition' | 'columnsVisibility' | 'focus' | 'numRowsPerPage' | 'orderBy' | 'overscan' | 'padding' | 'selection' | 'onCellPositionChange' | 'onColumnsVisibilityChange' | 'onDoubleClickCell' | 'onError' | 'onKeyDownCell' | 'onMouseDownCell' | 'onOrderByChange' | 'onSelectionChange' | 'renderCellContent' | 'stringify'>
+type StateProps = Pick<HighTableProps, 'aggregates' | 'aggregateSelectedRows' | 'columnConfiguration' | 'cacheKey' | 'cellPosition' | 'cellSelection' | 'collapsedGroups' | 'columnOrder' | 'columnsVisibility' | 'columnStats' | 'data' | 'estimateRowHeight' | 'fetchRetry' | 'filters' | 'focus' | 'groupAggregates' | 'groupBy' | 'history' | 'locale' | 'numRowsPerPage' | 'orderBy' | 'overscan' | 'padding' | 'ref' | 'rowDetail' | 'rowHeight' | 'selection' | 'onCellEdit' | 'onCellPositionChange' | 'onCellSelectionChange' | 'onCollapsedGroupsChange' | 'onColumnOrderChange' | 'onColumnsVisibilityChange' | 'onDoubleClickCell' | 'onError' | 'onFiltersChange' | 'onHistoryChange' | 'onKeyDownCell' | 'onLoadingChange' | 'onMouseDownCell' | 'onOrderByChange' | 'onSelectionChange' | 'renderCellContent' | 'renderRowDetail' | 'stringify'>
   & { children: ReactNode }
 
 function State({
+  aggregates,
+  aggregateSelectedRows,
   children,
   columnConfiguration,
   cacheKey,
   cellPosition,
+  cellSelection,
+  collapsedGroups,
+  columnOrder,
   columnsVisibility,
+  columnStats,
+  data,
+  estimateRowHeight,
+  fetchRetry,
+  filters,
   focus,
+  groupAggregates,
+  groupBy,
+  history,
+  locale,
   numRowsPerPage,
   orderBy,
   overscan,
   padding,
+  ref,
+  rowDetail,
+  rowHeight,
   selection,
+  onCellEdit,
   onCellPositionChange,
+  onCellSelectionChange,
+  onCollapsedGroupsChange,
+  onColumnOrderChange,
   onColumnsVisibilityChange,
   onDoubleClickCell,
   onError,
+  onFiltersChange,
+  onHistoryChange,
   onKeyDownCell,
+  onLoadingChange,
   onMouseDownCell,
   onOrderByChange,
   onSelectionChange,
   renderCellContent,
+  renderRowDetail,
   stringify,
 }: StateProps) {
   return (
     /* The state is handled with contexts, even if it creates a "Providers hell". No need for state library for now. */
-    <ViewportSizeProvider>
-      <TableCornerSizeProvider>
-        <CellConfigurationProvider
-          onDoubleClickCell={onDoubleClickCell}
-          onKeyDownCell={onKeyDownCell}
-          onMouseDownCell={onMouseDownCell}
-          renderCellContent={renderCellContent}
-          stringify={stringify}
-        >
-          <ColumnParametersProvider columnConfiguration={columnConfiguration}>
-            <ColumnWidthsProvider
-            // Recreate a context if a new cacheKey is provided.
-              key={cacheKey}
-              // TODO(SL): pass cacheKey, memoize
-              localStorageKey={cacheKey ? `${cacheKey}${columnWidthsSuffix}` : undefined}
-            >
-              <ColumnsVisibilityProvider
-                columnsVisibility={columnsVisibility}
-                onColumnsVisibilityChange={onColumnsVisibilityChange}
+    <HistoryProvider history={history} onHistoryChange={onHistoryChange}>
+      <ViewportSizeProvider>
+        <TableCornerSizeProvider>
+          <CellConfigurationProvider
+            locale={locale}
+            onDoubleClickCell={onDoubleClickCell}
+            onKeyDownCell={onKeyDownCell}
+            onMouseDownCell={onMouseDownCell}
+            renderCellContent={renderCellContent}
+            stringify={stringify}
+          >
+            <ColumnParametersProvider columnConfiguration={columnConfiguration}>
+              <ColumnOrderProvider
+                columnOrder={columnOrder}
+                localStorageKey={cacheKey ? `${cacheKey}${columnOrderSuffix}` : undefined}
+                onColumnOrderChange={onColumnOrderChange}
               >
-                <OrderByProvider
-                  orderBy={orderBy}
-                  onOrderByChange={onOrderByChange}
-                >
-                  <SelectionProvider
-                    selection={selection}
-                    onError={onError}
-                    onSelectionChange={onSelectionChange}
+                <ColumnPinningProvider>
+                  <ColumnsVisibilityProvider
+                    columnsVisibility={columnsVisibility}
+                    onColumnsVisibilityChange={onColumnsVisibilityChange}
                   >
-                    <CellNavigationProvider
-                      cellPosition={cellPosition}
-                      focus={focus}
-                      numRowsPerPage={numRowsPerPage}
-                      onCellPositionChange={onCellPositionChange}
+                    <ColumnWidthsProvider
+                      // Recreate a context if a new cacheKey is provided.
+                      key={cacheKey}
+                      // TODO(SL): pass cacheKey, memoize
+                      localStorageKey={cacheKey ? `${cacheKey}${columnWidthsSuffix}` : undefined}
                     >
-                      <ScrollProvider padding={padding} onError={onError} overscan={overscan}>
-                        {children}
-                      </ScrollProvider>
-                    </CellNavigationProvider>
-                  </SelectionProvider>
-                </OrderByProvider>
-              </ColumnsVisibilityProvider>
-            </ColumnWidthsProvider>
-          </ColumnParametersProvider>
-        </CellConfigurationProvider>
-      </TableCornerSizeProvider>
-    </ViewportSizeProvider>
+                      <OrderByProvider
+                        orderBy={orderBy}
+                        onOrderByChange={onOrderByChange}
+                      >
+                        <FiltersProvider
+                          data={data}
+                          filters={filters}
+                          onError={onError}
+                          onFiltersChange={onFiltersChange}
+                        >
+                          <GroupByProvider
+                            collapsedGroups={collapsedGroups}
+                            groupAggregates={groupAggregates}
+                            groupBy={groupBy}
+                            onCollapsedGroupsChange={onCollapsedGroupsChange}
+                            onError={onError}
+                          >
+                            <SelectionProvider
+                              selection={selection}
+                              onError={onError}
+                              onSelectionChange={onSelectionChange}
+                            >
+                              <CellNavigationProvider
+                                cellPosition={cellPosition}
+                                focus={focus}
+                                numRowsPerPage={numRowsPerPage}
+                                onCellPositionChange={onCellPositionChange}
+                              >
+                                <CellSelectionProvider
+                                  cellSelection={cellSelection}
+                                  onCellSelectionChange={onCellSelectionChange}
+                                >
+                                  <ClipboardProvider onError={onError}>
+                                    <SearchProvider onError={onError}>
+                                      <RowDetailProvider onError={onError} renderRowDetail={renderRowDetail} rowDetail={rowDetail}>
+                                        <CellEditingProvider onCellEdit={onCellEdit} onError={onError}>
+                                          <AggregatesProvider
+                                            aggregates={aggregates}
+                                            aggregateSelectedRows={aggregateSelectedRows}
+                                            onError={onError}
+                                          >
+                                            <ColumnStatsProvider columnStats={columnStats} onError={onError}>
+                                              <ScrollProvider padding={padding} ref={ref} rowHeight={rowHeight} estimateRowHeight={estimateRowHeight} fetchRetry={fetchRetry} onError={onError} overscan={overscan}>
+                                                <LoadingProvider onError={onError} onLoadingChange={onLoadingChange}>
+                                                  {children}
+                                                </LoadingProvider>
+                                              </ScrollProvider>
+                                            </ColumnStatsProvider>
+                                          </AggregatesProvider>
+                                        </CellEditingProvider>
+                                      </RowDetailProvider>
+                                    </SearchProvider>
+                                  </ClipboardProvider>
+                                </CellSelectionProvider>
+                              </CellNavigationProvider>
+                            </SelectionProvider>
+                          </GroupByProvider>
+                        </FiltersProvider>
+                      </OrderByProvider>
+                    </ColumnWidthsProvider>
+                  </ColumnsVisibilityProvider>
+                </ColumnPinningProvider>
+              </ColumnOrderProvider>
+            </ColumnParametersProvider>
+          </CellConfigurationProvider>
+        </TableCornerSizeProvider>
+      </ViewportSizeProvider>
+    </HistoryProvider>
   )
 }
 
-type DOMProps = Pick<HighTableProps, 'className' | 'maxRowNumber' | 'styled'>
+type DOMProps = Pick<HighTableProps, 'className' | 'maxRowNumber' | 'rowHeight' | 'styled'>
 
 function DOM({
   className = '',
   maxRowNumber,
+  rowHeight,
   styled = true,
 }: DOMProps) {
   return (
-    <Wrapper styled={styled} maxRowNumber={maxRowNumber} className={className}>
+    <Wrapper styled={styled} maxRowNumber={maxRowNumber} rowHeight={rowHeight} className={className}>
       <div className={styles.topBorder} role="presentation" />
 
       <Scroller>
@@ -129,6 +222,10 @@ function DOM({
 
       {/* puts a background behind the row labels column */}
       <div className={styles.mockRowLabel}>&nbsp;</div>
+
+      <SearchBar />
+
+      <RowDetailPanel />
     </Wrapper>
   )
 }
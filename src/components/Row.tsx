@@ -2,6 +2,12 @@ import type { ReactNode } from 'react'
 
 interface Props {
   children: ReactNode
+  /** Whether the group is expanded, for the group header rows */
+  ariaExpanded?: boolean
+  /** Nesting level of the row, when the rows are grouped (1 for the outermost group headers) */
+  ariaLevel?: number
+  /** Height of the row in pixels, if it differs from the default row height */
+  height?: number
   selected?: boolean
   ariaRowIndex: number
   rowNumber?: number
@@ -10,7 +16,10 @@ interface Props {
 
 export default function Row({
   children,
+  ariaExpanded,
+  ariaLevel,
   ariaRowIndex,
+  height,
   selected,
   rowNumber,
   title,
@@ -19,9 +28,13 @@ export default function Row({
     <tr
       role="row"
       aria-rowindex={ariaRowIndex}
+      aria-level={ariaLevel}
+      aria-expanded={ariaExpanded}
       title={title}
       aria-selected={selected}
       data-rownumber={rowNumber}
+      data-expanded={height !== undefined ? true : undefined}
+      style={height !== undefined ? { height: `${height}px` } : undefined}
     >
       {children}
     </tr>
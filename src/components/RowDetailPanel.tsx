@@ -0,0 +1,83 @@
+import type { KeyboardEvent } from 'react'
+import { Fragment, useCallback, useContext, useMemo } from 'react'
+
+import { LocaleContext, StringifyContext } from '../contexts/CellConfigurationContext.js'
+import { ColumnParametersContext } from '../contexts/ColumnParametersContext.js'
+import { ColumnNamesContext, DataFrameMethodsContext, DataVersionContext } from '../contexts/DataContext.js'
+import { OrderByContext } from '../contexts/OrderByContext.js'
+import { RowDetailContext } from '../contexts/RowDetailContext.js'
+import type { ResolvedValue } from '../helpers/dataframe/index.js'
+import { formatValue } from '../helpers/format.js'
+
+/**
+ * Render the row detail panel, if it's open (Enter on a row header).
+ *
+ * It shows all the columns of the current row in full, including the hidden ones, with the custom renderRowDetail
+ * function if set, or as a list of values, formatted with the formatting options of their column or stringified.
+ * Escape closes the panel.
+ */
+export default function RowDetailPanel() {
+  const { isRowDetailOpen, detailRow, closeRowDetail, renderRowDetail } = useContext(RowDetailContext)
+  const dataFrameMethods = useContext(DataFrameMethodsContext)
+  /** A version number that increments whenever the data frame is updated or resolved, to read the fetched cells */
+  const version = useContext(DataVersionContext)
+  const columnNames = useContext(ColumnNamesContext)
+  const orderBy = useContext(OrderByContext)
+  const stringify = useContext(StringifyContext)
+  const locale = useContext(LocaleContext)
+  const columnsParameters = useContext(ColumnParametersContext)
+
+  const detail = useMemo(() => {
+    if (detailRow === undefined) {
+      return undefined
+    }
+    const cells: Record<string, ResolvedValue | undefined> = {}
+    for (const column of columnNames) {
+      cells[column] = dataFrameMethods.getCell({ row: detailRow, column, orderBy })
+    }
+    return {
+      row: detailRow,
+      rowNumber: dataFrameMethods.getRowNumber({ row: detailRow, orderBy })?.value,
+      cells,
+      version,
+    }
+  }, [detailRow, dataFrameMethods, columnNames, orderBy, version])
+
+  const onKeyDown = useCallback((event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      closeRowDetail?.()
+    }
+  }, [closeRowDetail])
+
+  if (!isRowDetailOpen) {
+    return null
+  }
+
+  return (
+    <aside aria-label="Row detail" aria-busy={detail && Object.values(detail.cells).includes(undefined)} onKeyDown={onKeyDown}>
+      <header>
+        <span>{detail?.rowNumber === undefined ? 'Row detail' : `Row ${(detail.rowNumber + 1).toLocaleString(locale)}`}</span>
+        <button type="button" aria-label="Close the row detail" title="Close (Escape)" onClick={closeRowDetail}>✕</button>
+      </header>
+      {!detail
+        ? <p>Move to a row to show its detail.</p>
+        : renderRowDetail
+          ? renderRowDetail({ row: detail.row, rowNumber: detail.rowNumber, cells: detail.cells, stringify })
+          : (
+              <dl>
+                {columnNames.map((column) => {
+                  const cell = detail.cells[column]
+                  const { type, format } = columnsParameters.find(({ name }) => name === column) ?? {}
+                  return (
+                    <Fragment key={column}>
+                      <dt>{column}</dt>
+                      <dd aria-busy={cell === undefined}>{cell && formatValue({ value: cell.value, type, format, locale, stringify })}</dd>
+                    </Fragment>
+                  )
+                })}
+              </dl>
+            )}
+    </aside>
+  )
+}
@@ -1,13 +1,20 @@
 import type { ChangeEvent, CSSProperties, KeyboardEvent, MouseEvent } from 'react'
-import { useCallback, useEffect, useMemo, useRef } from 'react'
+import { useCallback, useContext, useEffect, useMemo, useRef } from 'react'
 
+import { LocaleContext } from '../contexts/CellConfigurationContext.js'
+import { RetryRowContext } from '../contexts/LoadingContext.js'
+import { ariaOffset } from '../helpers/constants.js'
 import { useCellFocus } from '../hooks/useCellFocus.js'
 import { useOnCopy } from '../hooks/useOnCopyToClipboard.js'
 
 interface Props {
   selected?: boolean
   rowNumber?: number
+  /** the error of the last fetch, if the row number could not be resolved */
+  error?: Error
   onCheckboxPress?: ({ shiftKey }: { shiftKey: boolean }) => void
+  /** Open or close the row detail panel, on Enter. If set, only Space toggles the checkbox from the keyboard. */
+  onRowDetailPress?: () => void
   pendingSelectionGesture?: boolean
   showCheckBox?: boolean
   style?: CSSProperties
@@ -15,14 +22,16 @@ interface Props {
   ariaRowIndex: number
 }
 
-function formatRowNumber(rowIndex?: number): string {
+function formatRowNumber(rowIndex: number | undefined, locale: string): string {
   if (rowIndex === undefined) return ''
   // rowIndex + 1 to display 1-based row numbers
-  return (rowIndex + 1).toLocaleString('en-US')
+  return (rowIndex + 1).toLocaleString(locale)
 }
 
-export default function RowHeader({ onCheckboxPress, pendingSelectionGesture, style, ariaColIndex, ariaRowIndex, selected, rowNumber }: Props) {
+export default function RowHeader({ onCheckboxPress, onRowDetailPress, pendingSelectionGesture, style, ariaColIndex, ariaRowIndex, selected, rowNumber, error }: Props) {
   const { tabIndex, navigateToCell, focusIfNeeded } = useCellFocus({ ariaColIndex, ariaRowIndex })
+  const locale = useContext(LocaleContext)
+  const retryRow = useContext(RetryRowContext)
 
   // Focus the cell if needed. We use an effect, as it acts on the DOM element after render.
   const ref = useRef<HTMLTableCellElement | null>(null)
@@ -34,21 +43,40 @@ export default function RowHeader({ onCheckboxPress, pendingSelectionGesture, st
     navigateToCell?.()
     onCheckboxPress?.({ shiftKey: event.shiftKey })
   }, [onCheckboxPress, navigateToCell])
+  // fetch the row number and the cells of the row again
+  const retry = useMemo(() => {
+    if (rowNumber !== undefined || error === undefined || !retryRow) {
+      return undefined
+    }
+    return () => {
+      retryRow({ row: ariaRowIndex - ariaOffset })
+    }
+  }, [rowNumber, error, retryRow, ariaRowIndex])
+  const handleRetryButtonClick = useCallback((event: MouseEvent) => {
+    event.stopPropagation()
+    retry?.()
+  }, [retry])
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     if (event.key === 'Enter' || event.key === ' ') {
       event.preventDefault()
       // TODO: let the event propagate?
       event.stopPropagation()
-      onCheckboxPress?.({ shiftKey: event.shiftKey })
+      if (retry && event.key === 'Enter') {
+        retry()
+      } else if (onRowDetailPress && event.key === 'Enter') {
+        onRowDetailPress()
+      } else {
+        onCheckboxPress?.({ shiftKey: event.shiftKey })
+      }
     }
-  }, [onCheckboxPress])
+  }, [retry, onCheckboxPress, onRowDetailPress])
   const disabledCheckbox = onCheckboxPress === undefined
   const onChange = useCallback((e: ChangeEvent) => {
     e.preventDefault()
   }, [])
   const str = useMemo(() => {
-    return formatRowNumber(rowNumber)
-  }, [rowNumber])
+    return formatRowNumber(rowNumber, locale)
+  }, [rowNumber, locale])
   const handleCopy = useOnCopy(str)
 
   return (
@@ -60,15 +88,26 @@ export default function RowHeader({ onCheckboxPress, pendingSelectionGesture, st
       onClick={handleClick}
       onCopy={handleCopy}
       onKeyDown={handleKeyDown}
-      aria-busy={rowNumber === undefined}
+      aria-busy={rowNumber === undefined && error === undefined}
       aria-checked={selected}
       aria-rowindex={ariaRowIndex}
       aria-colindex={ariaColIndex}
       aria-disabled={disabledCheckbox}
       tabIndex={tabIndex}
       data-rownumber={rowNumber}
+      title={rowNumber === undefined ? error?.message : undefined}
     >
-      <span>{str}</span>
+      {rowNumber !== undefined
+        ? <span>{str}</span>
+        : error !== undefined
+          // error marker, until the row number is fetched again successfully
+          ? <span data-error="true" aria-hidden="true" />
+          // skeleton placeholder, until the row number resolves
+          : <span data-skeleton="true" aria-hidden="true" />}
+      {retry && (
+        // hidden from the assistive technologies, which use Enter
+        <button type="button" aria-hidden="true" tabIndex={-1} data-retry="true" title="Retry (Enter)" onClick={handleRetryButtonClick} />
+      )}
       {selected !== undefined && (
         <input
           type="checkbox"
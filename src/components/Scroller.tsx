@@ -2,7 +2,7 @@ import type { KeyboardEvent } from 'react'
 import { useCallback, useContext, useMemo } from 'react'
 
 import { CellNavigationContext } from '../contexts/CellNavigationContext.js'
-import { CanvasHeightContext, SetScrollToContext, SetScrollTopContext } from '../contexts/ScrollContext.js'
+import { CanvasHeightContext, SetScrollLeftContext, SetScrollToContext, SetScrollTopContext } from '../contexts/ScrollContext.js'
 import { SetViewportSizeContext } from '../contexts/ViewportSizeContext.js'
 import styles from '../HighTable.module.css'
 
@@ -17,6 +17,7 @@ export default function Scroller({ children }: Props) {
   // TODO(SL): get a stable function to go to current cell (maybe dispatch('ENTER_CELL_NAVIGATION_MODE'), or setMode('cells'))
   const { goToCurrentCell } = useContext(CellNavigationContext)
   const setScrollTop = useContext(SetScrollTopContext)
+  const setScrollLeft = useContext(SetScrollLeftContext)
   const setScrollTo = useContext(SetScrollToContext)
   const canvasHeight = useContext(CanvasHeightContext)
 
@@ -51,6 +52,7 @@ export default function Scroller({ children }: Props) {
     const handleScroll = () => {
       // TODO(SL): throttle? see https://github.com/hyparam/hightable/pull/347
       setScrollTop?.(viewport.scrollTop)
+      setScrollLeft?.(viewport.scrollLeft)
     }
 
     // run once
@@ -87,7 +89,7 @@ export default function Scroller({ children }: Props) {
       resizeObserver?.disconnect()
       viewport.removeEventListener('scroll', handleScroll)
     }
-  }, [setScrollTo, setViewportSize, setScrollTop])
+  }, [setScrollTo, setViewportSize, setScrollTop, setScrollLeft])
 
   // TODO(SL): maybe pass CSS variables instead of inline styles?
   // the viewport div scrollHeight will be equal to canvasHeight (unless custom CSS is messing with it)
@@ -0,0 +1,75 @@
+import type { ChangeEvent, KeyboardEvent } from 'react'
+import { useCallback, useContext, useEffect, useRef } from 'react'
+
+import { LocaleContext } from '../contexts/CellConfigurationContext.js'
+import { SearchContext } from '../contexts/SearchContext.js'
+
+function getStatus({ pendingSearch, numMatches, currentMatchIndex, locale }: { pendingSearch?: boolean, numMatches?: number, currentMatchIndex?: number, locale: string }) {
+  if (pendingSearch) {
+    return 'Searching…'
+  }
+  if (numMatches === undefined) {
+    return ''
+  }
+  if (numMatches === 0) {
+    return 'No results'
+  }
+  return `${currentMatchIndex === undefined ? 0 : currentMatchIndex + 1} of ${numMatches.toLocaleString(locale)}`
+}
+
+/**
+ * Render the search bar, if it's open (Ctrl+F or Cmd+F in the table).
+ *
+ * Enter and Shift+Enter go to the next and previous matches, Escape closes the search bar.
+ */
+export default function SearchBar() {
+  const { isSearchOpen, openCount, query, setQuery, pendingSearch, numMatches, currentMatchIndex, goToNextMatch, goToPreviousMatch, closeSearch } = useContext(SearchContext)
+  const locale = useContext(LocaleContext)
+
+  // Focus the input every time the search bar is opened, even if it's already open
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  useEffect(() => {
+    inputRef.current?.focus()
+    inputRef.current?.select()
+  }, [openCount])
+
+  const onChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    setQuery?.(event.target.value)
+  }, [setQuery])
+
+  const onKeyDown = useCallback((event: KeyboardEvent) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      if (event.shiftKey) {
+        goToPreviousMatch?.()
+      } else {
+        goToNextMatch?.()
+      }
+    } else if (event.key === 'Escape') {
+      event.preventDefault()
+      closeSearch?.()
+    }
+  }, [goToNextMatch, goToPreviousMatch, closeSearch])
+
+  if (!isSearchOpen) {
+    return null
+  }
+
+  return (
+    <div role="search" aria-label="Search in the table" aria-busy={pendingSearch}>
+      <input
+        ref={inputRef}
+        type="search"
+        aria-label="Search"
+        placeholder="Search"
+        value={query}
+        onChange={onChange}
+        onKeyDown={onKeyDown}
+      />
+      <span role="status">{getStatus({ pendingSearch, numMatches, currentMatchIndex, locale })}</span>
+      <button type="button" aria-label="Previous match" title="Previous match (Shift+Enter)" disabled={!goToPreviousMatch} onClick={goToPreviousMatch}>↑</button>
+      <button type="button" aria-label="Next match" title="Next match (Enter)" disabled={!goToNextMatch} onClick={goToNextMatch}>↓</button>
+      <button type="button" aria-label="Close the search" title="Close (Escape)" onClick={closeSearch}>✕</button>
+    </div>
+  )
+}
@@ -1,30 +1,56 @@
 import type { KeyboardEvent } from 'react'
 import { useCallback, useContext, useMemo } from 'react'
 
+import { AggregatesContext } from '../contexts/AggregatesContext.js'
+import { CellEditingContext } from '../contexts/CellEditingContext.js'
 import { CellNavigationContext } from '../contexts/CellNavigationContext.js'
+import { CellSelectionContext } from '../contexts/CellSelectionContext.js'
+import { ClipboardContext } from '../contexts/ClipboardContext.js'
+import type { ColumnParameters } from '../contexts/ColumnParametersContext.js'
 import { ColumnsVisibilityContext } from '../contexts/ColumnsVisibilityContext.js'
 import { DataFrameMethodsContext, DataVersionContext, NumRowsContext } from '../contexts/DataContext.js'
+import { GroupByContext } from '../contexts/GroupByContext.js'
+import { HistoryContext } from '../contexts/HistoryContext.js'
 import { OrderByContext } from '../contexts/OrderByContext.js'
-import { RenderedRowsContext } from '../contexts/ScrollContext.js'
+import { RowDetailContext } from '../contexts/RowDetailContext.js'
+import { RenderedRowsContext, RowHeightsContext } from '../contexts/ScrollContext.js'
+import { SearchContext } from '../contexts/SearchContext.js'
 import { SelectionContext } from '../contexts/SelectionContext.js'
 import { ariaOffset } from '../helpers/constants.js'
+import { useRenderedColumns } from '../hooks/useRenderedColumns.js'
 import Cell from './Cell.js'
+import ColumnSpacer from './ColumnSpacer.js'
+import GroupRow from './GroupRow.js'
 import Row from './Row.js'
 import RowHeader from './RowHeader.js'
 import TableCorner from './TableCorner.js'
+import TableFooter from './TableFooter.js'
 import TableHeader from './TableHeader.js'
 
+const emptyColumnsParameters: ColumnParameters[] = []
+
 export default function Table() {
   const { moveCell } = useContext(CellNavigationContext)
   const orderBy = useContext(OrderByContext)
   const { selectable, toggleAllRows, pendingSelectionGesture, onTableKeyDown: onSelectionTableKeyDown, allRowsSelected, isRowSelected, toggleRowNumber, toggleRangeToRowNumber } = useContext(SelectionContext)
+  const { onTableKeyDown: onCellSelectionTableKeyDown } = useContext(CellSelectionContext)
+  const { pendingCopy, onTableCopy, onTableKeyDown: onClipboardTableKeyDown } = useContext(ClipboardContext)
+  const { onTableKeyDown: onSearchTableKeyDown } = useContext(SearchContext)
+  const { onTableKeyDown: onHistoryTableKeyDown } = useContext(HistoryContext)
   const { visibleColumnsParameters: columnsParameters } = useContext(ColumnsVisibilityContext)
+  /** The visible columns rendered in the DOM, and the spacers that replace the other ones if the columns are virtualized */
+  const renderedColumns = useRenderedColumns(columnsParameters ?? emptyColumnsParameters)
   const { renderedRowsStart, renderedRowsEnd } = useContext(RenderedRowsContext)
+  const rowHeights = useContext(RowHeightsContext)
   /** A version number that increments whenever a data frame is updated or resolved (the key remains the same). */
   const version = useContext(DataVersionContext)
   /** The actual number of rows in the data frame */
   const numRows = useContext(NumRowsContext)
   const dataFrameMethods = useContext(DataFrameMethodsContext)
+  const { functions: aggregateFunctions } = useContext(AggregatesContext)
+  const { canEdit } = useContext(CellEditingContext)
+  const { groupBy } = useContext(GroupByContext)
+  const { toggleRowDetail } = useContext(RowDetailContext)
 
   const onNavigationTableKeyDown = useMemo(() => {
     if (!moveCell) {
@@ -92,13 +118,25 @@ export default function Table() {
   }, [moveCell])
 
   const onTableKeyDown = useMemo(() => {
-    if (onNavigationTableKeyDown || onSelectionTableKeyDown) {
+    if (onClipboardTableKeyDown || onSearchTableKeyDown || onHistoryTableKeyDown || onNavigationTableKeyDown || onSelectionTableKeyDown || onCellSelectionTableKeyDown) {
       return (event: KeyboardEvent) => {
+        onClipboardTableKeyDown?.(event)
+        if (!event.defaultPrevented) {
+          onSearchTableKeyDown?.(event)
+        }
+        if (!event.defaultPrevented) {
+          onHistoryTableKeyDown?.(event)
+        }
+        if (event.defaultPrevented) {
+          // Escape cancelled the pending copy (the selection is kept), Ctrl+F opened the search bar, or Ctrl+Z undid a change
+          return
+        }
         onNavigationTableKeyDown?.(event)
         onSelectionTableKeyDown?.(event)
+        onCellSelectionTableKeyDown?.(event)
       }
     }
-  }, [onNavigationTableKeyDown, onSelectionTableKeyDown])
+  }, [onClipboardTableKeyDown, onSearchTableKeyDown, onHistoryTableKeyDown, onNavigationTableKeyDown, onSelectionTableKeyDown, onCellSelectionTableKeyDown])
 
   const getOnCheckboxPress = useCallback(({ row, rowNumber }: { row: number, rowNumber?: number }) => {
     if (rowNumber === undefined || !toggleRowNumber || !toggleRangeToRowNumber) {
@@ -113,8 +151,7 @@ export default function Table() {
     }
   }, [toggleRowNumber, toggleRangeToRowNumber])
 
-  // Prepare the slice of data to render
-  // TODO(SL): also compute progress percentage here, to show a loading indicator
+  // Prepare the slice of data to render (the loading progress is computed in LoadingProvider)
   const slice = useMemo(() => {
     if (renderedRowsStart === undefined || renderedRowsEnd === undefined) {
       return {
@@ -127,15 +164,27 @@ export default function Table() {
 
     const canMeasureColumn: Record<string, boolean> = {}
     const rowContents = rows.map((row) => {
+      const group = dataFrameMethods.getGroup?.({ row, orderBy })
+      if (group) {
+        return { row, group, cells: [] }
+      }
       const rowNumber = dataFrameMethods.getRowNumber({ row, orderBy })?.value
-      const cells = (columnsParameters ?? []).map(({ name: column, index: originalColumnIndex, className }) => {
+      const rowNumberError = rowNumber === undefined ? dataFrameMethods.getRowNumberError?.({ row, orderBy })?.error : undefined
+      const cells = renderedColumns.map((renderedColumn) => {
+        if (renderedColumn.type === 'spacer') {
+          return renderedColumn
+        }
+        const { column: { name: column, index: originalColumnIndex, className, pinned, editable, editor, type, format, renderCellContent }, visibleColumnIndex } = renderedColumn
         const cell = dataFrameMethods.getCell({ row, column, orderBy })
         canMeasureColumn[column] ||= cell !== undefined
-        return { columnIndex: originalColumnIndex, cell, className }
+        const error = cell === undefined ? dataFrameMethods.getCellError?.({ row, column, orderBy })?.error : undefined
+        return { type: 'column' as const, column, columnIndex: originalColumnIndex, visibleColumnIndex, cell, error, className, pinned, editable: canEdit && editable !== false, editor, columnType: type, format, renderCellContent }
       })
       return {
         row,
         rowNumber,
+        rowNumberError,
+        group,
         cells,
       }
     })
@@ -144,23 +193,26 @@ export default function Table() {
       canMeasureColumn,
       version,
     }
-  }, [dataFrameMethods, columnsParameters, renderedRowsStart, renderedRowsEnd, orderBy, version])
+  }, [dataFrameMethods, renderedColumns, renderedRowsStart, renderedRowsEnd, orderBy, version, canEdit])
 
   // don't render table if the data frame has no visible columns
   // (it can have zero rows, but must have at least one visible column)
   if (!columnsParameters) return
 
   const ariaColCount = columnsParameters.length + 1 // don't forget the selection column
-  const ariaRowCount = numRows + 1 // don't forget the header row
+  const ariaRowCount = numRows + 1 + (aggregateFunctions?.length ?? 0) // don't forget the header row, and the footer rows
+  // when the rows are grouped, the data rows are nested in the innermost groups
+  const dataRowLevel = groupBy.length > 0 ? groupBy.length + 1 : undefined
   return (
     <table
-      aria-readonly={true}
+      aria-readonly={!canEdit}
       aria-colcount={ariaColCount}
       aria-rowcount={ariaRowCount}
       aria-multiselectable={selectable}
-      aria-busy={pendingSelectionGesture /* TODO(SL): add other busy states? Used only for tests right now */}
-      role="grid"
+      aria-busy={pendingSelectionGesture === true || pendingCopy === true /* TODO(SL): add other busy states? */}
+      role={groupBy.length > 0 ? 'treegrid' : 'grid'}
       onKeyDown={onTableKeyDown}
+      onCopyCapture={onTableCopy}
     >
       <caption id="caption" hidden>Virtual-scroll table</caption>
       <thead role="rowgroup">
@@ -180,38 +232,63 @@ export default function Table() {
         </Row>
       </thead>
       <tbody role="rowgroup">
-        {slice.rowContents.map(({ row, rowNumber, cells }) => {
+        {slice.rowContents.map(({ row, rowNumber, rowNumberError, group, cells }) => {
           const ariaRowIndex = row + ariaOffset
+          if (group) {
+            return (
+              <GroupRow
+                key={`${row}`}
+                group={group}
+                columnsParameters={columnsParameters}
+                ariaRowIndex={ariaRowIndex}
+                height={rowHeights?.get(row)}
+              />
+            )
+          }
           const selected = isRowSelected?.({ rowNumber })
           const rowKey = `${row}`
           return (
             <Row
               key={rowKey}
+              ariaLevel={dataRowLevel}
               ariaRowIndex={ariaRowIndex}
+              height={rowHeights?.get(row)}
               selected={selected}
               rowNumber={rowNumber}
-              // title={rowError(row, columns.length)} // TODO(SL): re-enable later?
             >
               <RowHeader
                 selected={selected}
                 rowNumber={rowNumber}
+                error={rowNumberError}
                 onCheckboxPress={getOnCheckboxPress({ rowNumber, row })}
+                onRowDetailPress={toggleRowDetail}
                 pendingSelectionGesture={pendingSelectionGesture}
                 ariaColIndex={1}
                 ariaRowIndex={ariaRowIndex}
               />
-              {cells.map(({ columnIndex, cell, className }, visibleColumnIndex) => {
+              {cells.map((renderedCell) => {
+                if (renderedCell.type === 'spacer') {
+                  return <ColumnSpacer key={renderedCell.side} width={renderedCell.width} />
+                }
+                const { column, columnIndex, visibleColumnIndex, cell, error, className, pinned, editable, editor, columnType, format, renderCellContent } = renderedCell
                 return (
                   <Cell
                     key={columnIndex}
+                    column={column}
                     columnIndex={columnIndex}
-                    visibleColumnIndex={visibleColumnIndex}
+                    editable={editable}
+                    editor={editor}
                     className={className}
+                    pinned={pinned}
                     ariaColIndex={visibleColumnIndex + ariaOffset}
                     ariaRowIndex={ariaRowIndex}
                     cellValue={cell?.value}
                     hasResolved={cell !== undefined}
+                    error={error}
                     rowNumber={rowNumber}
+                    type={columnType}
+                    format={format}
+                    renderCellContent={renderCellContent}
                   />
                 )
               })}
@@ -219,6 +296,7 @@ export default function Table() {
           )
         })}
       </tbody>
+      <TableFooter columnsParameters={columnsParameters} ariaRowIndex={numRows + ariaOffset} />
     </table>
   )
 }
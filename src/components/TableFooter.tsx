@@ -0,0 +1,73 @@
+import { useContext } from 'react'
+
+import { AggregatesContext } from '../contexts/AggregatesContext.js'
+import { StringifyContext } from '../contexts/CellConfigurationContext.js'
+import type { ColumnParameters } from '../contexts/ColumnParametersContext.js'
+import { ColumnWidthsContext } from '../contexts/ColumnWidthsContext.js'
+import { ariaOffset } from '../helpers/constants.js'
+import { aggregateLabels } from '../helpers/dataframe/aggregate.js'
+import { useRenderedColumns } from '../hooks/useRenderedColumns.js'
+import ColumnSpacer from './ColumnSpacer.js'
+import Row from './Row.js'
+
+interface TableFooterProps {
+  columnsParameters: ColumnParameters[]
+  ariaRowIndex: number // aria row index for the first footer row
+}
+
+/**
+ * Render the footer rows of a table: one row per aggregate function, and one cell per column.
+ */
+export default function TableFooter({ columnsParameters, ariaRowIndex }: TableFooterProps) {
+  const { functions, isSelectionAggregated, getColumnAggregates } = useContext(AggregatesContext)
+  const stringify = useContext(StringifyContext)
+  const { getStyle } = useContext(ColumnWidthsContext)
+  const renderedColumns = useRenderedColumns(columnsParameters)
+
+  if (!functions) return
+
+  return (
+    <tfoot role="rowgroup">
+      {functions.map((fn, i) => {
+        const label = aggregateLabels[fn]
+        return (
+          <Row key={fn} ariaRowIndex={ariaRowIndex + i}>
+            <th
+              scope="row"
+              role="rowheader"
+              aria-rowindex={ariaRowIndex + i}
+              aria-colindex={1}
+              title={isSelectionAggregated ? `${label} (selected rows)` : label}
+            >
+              {label}
+            </th>
+            {renderedColumns.map((renderedColumn) => {
+              if (renderedColumn.type === 'spacer') {
+                return <ColumnSpacer key={renderedColumn.side} width={renderedColumn.width} />
+              }
+              const { column: { name, index: columnIndex, pinned }, visibleColumnIndex } = renderedColumn
+              const columnAggregates = getColumnAggregates?.(name)
+              const value = columnAggregates?.status === 'resolved' ? columnAggregates.aggregates[fn] : undefined
+              // undefined results (e.g. the sum of a text column) are left empty
+              const str = value === undefined ? undefined : stringify(value)
+              return (
+                <td
+                  key={columnIndex}
+                  role="cell"
+                  aria-busy={columnAggregates === undefined || columnAggregates.status === 'pending'}
+                  aria-rowindex={ariaRowIndex + i}
+                  aria-colindex={visibleColumnIndex + ariaOffset}
+                  style={getStyle?.(columnIndex)}
+                  data-pinned={pinned}
+                  title={str}
+                >
+                  {str}
+                </td>
+              )
+            })}
+          </Row>
+        )
+      })}
+    </tfoot>
+  )
+}
@@ -1,6 +1,8 @@
 import type { ColumnParameters } from '../contexts/ColumnParametersContext.js'
 import { ariaOffset } from '../helpers/constants.js'
+import { useRenderedColumns } from '../hooks/useRenderedColumns.js'
 import ColumnHeader from './ColumnHeader.js'
+import ColumnSpacer from './ColumnSpacer.js'
 
 interface TableHeaderProps {
   columnsParameters: ColumnParameters[]
@@ -14,7 +16,12 @@ interface TableHeaderProps {
 export default function TableHeader({
   columnsParameters, canMeasureColumn, ariaRowIndex,
 }: TableHeaderProps) {
-  return columnsParameters.map((columnParameters, visibleColumnIndex) => {
+  const renderedColumns = useRenderedColumns(columnsParameters)
+  return renderedColumns.map((renderedColumn) => {
+    if (renderedColumn.type === 'spacer') {
+      return <ColumnSpacer key={renderedColumn.side} width={renderedColumn.width} />
+    }
+    const { column: columnParameters, visibleColumnIndex } = renderedColumn
     const { name, index: columnIndex, className } = columnParameters
     // Note: columnIndex is the index of the column in the dataframe header
     // and not the index of the column in the table (which can be different if
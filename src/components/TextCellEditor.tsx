@@ -0,0 +1,49 @@
+import type { ChangeEvent, KeyboardEvent } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { parseEditedText } from '../helpers/cellEdit.js'
+import type { CellEditorProps } from '../helpers/columnConfiguration.js'
+import { toLosslessText } from '../helpers/dataframe/helpers.js'
+
+/**
+ * Default cell editor: a text input, focused when mounted.
+ *
+ * Enter and blur commit the text, converted back to the type of the previous value if possible.
+ * Escape is handled by the cell, to cancel the edition.
+ */
+export default function TextCellEditor({ value, column, commit }: CellEditorProps) {
+  const [text, setText] = useState(() => toLosslessText(value))
+
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  useEffect(() => {
+    inputRef.current?.focus()
+    inputRef.current?.select()
+  }, [])
+
+  const onChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    setText(event.target.value)
+  }, [])
+
+  const onCommit = useCallback(() => {
+    commit(parseEditedText(text, value))
+  }, [commit, text, value])
+
+  const onKeyDown = useCallback((event: KeyboardEvent) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      onCommit()
+    }
+  }, [onCommit])
+
+  return (
+    <input
+      ref={inputRef}
+      type="text"
+      aria-label={`Edit ${column}`}
+      value={text}
+      onChange={onChange}
+      onKeyDown={onKeyDown}
+      onBlur={onCommit}
+    />
+  )
+}
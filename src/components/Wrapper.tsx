@@ -1,25 +1,35 @@
 import { type CSSProperties, type ReactNode, useContext } from 'react'
 
+import { AggregatesContext } from '../contexts/AggregatesContext.js'
+import { LocaleContext } from '../contexts/CellConfigurationContext.js'
 import { NumRowsContext } from '../contexts/DataContext.js'
+import { LoadingContext } from '../contexts/LoadingContext.js'
 import { PortalContainerContext } from '../contexts/PortalContainerContext.js'
 import { TableCornerHeightContext } from '../contexts/TableCornerSizeContext.js'
+import { getRowHeightPx } from '../helpers/scroll.js'
 import styles from '../HighTable.module.css'
 import { useHTMLElement } from '../hooks/useHTMLElement.js'
 import type { HighTableProps } from '../types.js'
 
-type Props = Pick<HighTableProps, 'className' | 'maxRowNumber' | 'styled'> & {
+type Props = Pick<HighTableProps, 'className' | 'maxRowNumber' | 'rowHeight' | 'styled'> & {
   /** Child components */
   children: ReactNode
 }
 
-export default function Wrapper({ children, className, maxRowNumber, styled }: Props) {
+export default function Wrapper({ children, className, maxRowNumber, rowHeight, styled }: Props) {
   /** Number of rows in the data frame */
   const numRows = useContext(NumRowsContext)
+  const locale = useContext(LocaleContext)
   /** Height of the header, used to set a CSS variable for row height calculation in the cells */
   const headerHeight = useContext(TableCornerHeightContext)
+  const { functions: aggregateFunctions } = useContext(AggregatesContext)
+  const rowHeightPx = getRowHeightPx(rowHeight)
+  const { numCells, numResolvedCells, numFailedCells } = useContext(LoadingContext)
+  // the failed cells are not loading anymore
+  const numSettledCells = numResolvedCells + numFailedCells
 
   // reserve space for at least 3 characters
-  const numCharacters = Math.max((maxRowNumber ?? numRows).toLocaleString('en-US').length, 3)
+  const numCharacters = Math.max((maxRowNumber ?? numRows).toLocaleString(locale).length, 3)
 
   // Get a reference to the container element
   const { element, onMount } = useHTMLElement<HTMLDivElement>()
@@ -31,8 +41,22 @@ export default function Wrapper({ children, className, maxRowNumber, styled }: P
       style={{
         '--column-header-height': `${headerHeight}px`,
         '--row-number-characters': `${numCharacters}`,
+        '--row-height': `${rowHeightPx}px`,
+        // the footer has one row per aggregate function
+        '--column-footer-height': `${(aggregateFunctions?.length ?? 0) * rowHeightPx}px`,
       } as CSSProperties}
     >
+      {numSettledCells < numCells && (
+        // thin progress bar, while the rendered cells are resolving
+        <div
+          role="progressbar"
+          aria-label="Loading the cells"
+          aria-valuemin={0}
+          aria-valuemax={numCells}
+          aria-valuenow={numSettledCells}
+          style={{ '--loading-progress': `${100 * numSettledCells / numCells}%` } as CSSProperties}
+        />
+      )}
       <PortalContainerContext.Provider value={element}>
         {children}
       </PortalContainerContext.Provider>
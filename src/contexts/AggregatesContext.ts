@@ -0,0 +1,29 @@
+import { createContext } from 'react'
+
+import type { AggregateFunction, Aggregates } from '../helpers/dataframe/aggregate.js'
+
+/**
+ * The state of the aggregates of a column.
+ */
+export type ColumnAggregatesState
+  = | { status: 'pending' }
+    | { status: 'resolved', aggregates: Aggregates }
+    | { status: 'rejected' }
+
+interface AggregatesContextType {
+  /** The aggregate functions shown in the footer, one row per function. Undefined if the footer is hidden. */
+  functions?: AggregateFunction[]
+  /** Whether only the selected rows are aggregated */
+  isSelectionAggregated?: boolean
+  /**
+   * Get the state of the aggregates of a column
+   *
+   * @param columnName - The name of the column
+   * @returns The state of the aggregates, or undefined if they are not computed yet
+   */
+  getColumnAggregates?: (columnName: string) => ColumnAggregatesState | undefined
+}
+
+export const defaultAggregatesContext: AggregatesContextType = {}
+
+export const AggregatesContext = createContext<AggregatesContextType>(defaultAggregatesContext)
@@ -2,11 +2,14 @@ import type { KeyboardEvent, MouseEvent, ReactNode } from 'react'
 import { createContext } from 'react'
 
 import type { CellContentProps, StringifyFunction } from '../types.js'
-import { stringify } from '../utils/stringify.js'
+import { defaultLocale, stringify } from '../utils/stringify.js'
 
 /** function to stringify the cell value, used for default rendering and for copy to clipboard */
 export const StringifyContext = createContext<StringifyFunction>(stringify)
 
+/** locale (BCP 47 language tag) used to format the numbers and the dates, including the row numbers */
+export const LocaleContext = createContext<string>(defaultLocale)
+
 /** custom cell content component, if not provided, the default stringified value will be used */
 export const RenderCellContentContext = createContext<((props: CellContentProps) => ReactNode) | undefined>(undefined)
 
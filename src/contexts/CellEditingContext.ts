@@ -0,0 +1,42 @@
+import { createContext } from 'react'
+
+import type { CellPosition } from '../types.js'
+
+/** A committed edit of a cell */
+export interface CellEditCommit {
+  /** The row index in the current order */
+  row: number
+  /** The row index in the original data */
+  rowNumber: number
+  /** The column name */
+  column: string
+  /** The new value */
+  value: unknown
+  /** The value before the edit */
+  previousValue: unknown
+}
+
+interface CellEditingContextType {
+  /** Whether the cells can be edited (the data frame implements setCell, or onCellEdit is set) */
+  canEdit?: boolean
+  /** The position of the cell being edited, undefined if no cell is being edited */
+  editingCell?: CellPosition
+  /**
+   * Start editing a cell. Undefined if the cells cannot be edited.
+   *
+   * @param cellPosition The position of the cell, with 1-based indices (including headers)
+   */
+  startEditing?: (cellPosition: CellPosition) => void
+  /** Stop editing, without changing the value */
+  stopEditing?: () => void
+  /**
+   * Stop editing, and set the new value of the cell if it changed. Undefined if the cells cannot be edited.
+   *
+   * @param commit The cell and its new and previous values
+   */
+  commitEdit?: (commit: CellEditCommit) => void
+}
+
+export const defaultCellEditingContext: CellEditingContextType = {}
+
+export const CellEditingContext = createContext<CellEditingContextType>(defaultCellEditingContext)
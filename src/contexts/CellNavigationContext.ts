@@ -12,6 +12,8 @@ export type MoveCellAction = {
   type: 'CELL'
   colIndex: number
   rowIndex: number
+  /** If false, the cell is scrolled into view but not focused, e.g. to keep the focus in the search input. Defaults to true. */
+  focus?: boolean
 }
 
 export interface FocusState {
@@ -49,7 +51,7 @@ interface CellNavigationContextType {
   /** State of the scroll+focus process */
   focusState: FocusState
   /**
-   * Focus the current cell.
+   * Focus the current cell (or only scroll it into view, if it was moved with `focus: false`).
    *
    * If the current cell does not need to be focused, the function is undefined.
    *
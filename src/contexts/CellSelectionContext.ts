@@ -0,0 +1,41 @@
+import type { KeyboardEvent, MouseEvent } from 'react'
+import { createContext } from 'react'
+
+import type { CellSelection } from '../helpers/selection.js'
+import type { CellPosition } from '../types.js'
+
+interface CellSelectionContextType {
+  /** The current cell selection. Undefined if the cell selection is disabled. */
+  cellSelection?: CellSelection
+  /**
+   * Function to check if a cell is in the selected range
+   *
+   * @param cell The cell position (1-based indices, including the headers)
+   * @returns True if the cell is selected, false if it is not selected. Undefined if the cell selection is disabled.
+   */
+  isCellSelected?: (cell: CellPosition) => boolean
+  /**
+   * Function to call on mouse down on a data cell, before the cell becomes the current navigation cell.
+   *
+   * It starts a drag gesture, or extends the selection with Shift.
+   *
+   * undefined if the cell selection or the onCellSelectionChange callback are not defined.
+   */
+  onCellMouseDown?: (event: MouseEvent, cell: CellPosition) => void
+  /**
+   * Function to call when the mouse enters a data cell. It extends the selection if a drag gesture is in progress.
+   *
+   * undefined if the cell selection or the onCellSelectionChange callback are not defined.
+   */
+  onCellMouseEnter?: (event: MouseEvent, cell: CellPosition) => void
+  /**
+   * Function to call when a key is pressed on the table (Shift+Arrow to extend the selection, Escape to clear it)
+   *
+   * undefined if the cell selection or the onCellSelectionChange callback are not defined.
+   */
+  onTableKeyDown?: (event: KeyboardEvent) => void
+}
+
+export const defaultCellSelectionContext: CellSelectionContextType = {}
+
+export const CellSelectionContext = createContext<CellSelectionContextType>(defaultCellSelectionContext)
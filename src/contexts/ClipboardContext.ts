@@ -0,0 +1,30 @@
+import type { ClipboardEvent, KeyboardEvent } from 'react'
+import { createContext } from 'react'
+
+interface ClipboardContextType {
+  /** True if a copy of the selected rows or cells is pending, meaning that the cells are being fetched */
+  pendingCopy?: boolean
+  /**
+   * Function to call on the copy event of the table, in the capture phase.
+   *
+   * If some rows or a range of cells are selected, it copies them instead of the focused cell.
+   */
+  onTableCopy?: (event: ClipboardEvent) => void
+  /**
+   * Function to call when a key is pressed on the table (Escape to cancel the pending copy)
+   *
+   * @param event The keyboard event
+   */
+  onTableKeyDown?: (event: KeyboardEvent) => void
+  /**
+   * Function to call when a value cannot be written to the clipboard outside of the copy event, e.g. by the copy
+   * button of the cell viewer. The error is passed to onError.
+   *
+   * @param error The error
+   */
+  onCopyError?: (error: unknown) => void
+}
+
+export const defaultClipboardContext: ClipboardContextType = {}
+
+export const ClipboardContext = createContext<ClipboardContextType>(defaultClipboardContext)
@@ -0,0 +1,18 @@
+import { createContext } from 'react'
+
+interface ColumnOrderContextType {
+  /**
+   * Move a column to the position of another column. The column is inserted before the target
+   * if it moves to the left, and after the target if it moves to the right.
+   *
+   * undefined if the column order is controlled and onColumnOrderChange is not defined (read-only).
+   *
+   * @param columnName The name of the column to move
+   * @param targetColumnName The name of the column whose position is taken
+   */
+  moveColumn?: (columnName: string, targetColumnName: string) => void
+}
+
+export const defaultColumnOrderContext: ColumnOrderContextType = {}
+
+export const ColumnOrderContext = createContext<ColumnOrderContextType>(defaultColumnOrderContext)
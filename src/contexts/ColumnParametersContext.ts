@@ -9,7 +9,7 @@ import type { ColumnDescriptor } from '../helpers/dataframe/index.js'
  * The column parameters don't include the `metadata` field from `ColumnDescriptor`
  */
 export interface ColumnParameters extends ColumnConfig, Pick<ColumnDescriptor, 'name'> {
-  /** Position of the column in the current order */
+  /** Index of the column in the data frame column descriptors. It does not change when the columns are reordered. */
   index: number
 }
 
@@ -0,0 +1,22 @@
+import { createContext } from 'react'
+
+interface ColumnPinningContextType {
+  /**
+   * Get a function to pin a column to the left
+   *
+   * @param columnName - The name of the column to pin
+   * @returns A function which pins the column when called, or undefined if the column is already pinned
+   */
+  getPinColumn?: (columnName: string) => undefined | (() => void)
+  /**
+   * Get a function to unpin a column
+   *
+   * @param columnName - The name of the column to unpin
+   * @returns A function which unpins the column when called, or undefined if the column is not pinned
+   */
+  getUnpinColumn?: (columnName: string) => undefined | (() => void)
+}
+
+export const defaultColumnPinningContext: ColumnPinningContextType = {}
+
+export const ColumnPinningContext = createContext<ColumnPinningContextType>(defaultColumnPinningContext)
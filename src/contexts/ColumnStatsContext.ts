@@ -0,0 +1,32 @@
+import { createContext } from 'react'
+
+import type { ColumnStats } from '../helpers/dataframe/stats.js'
+
+/**
+ * The state of the statistics of a column.
+ */
+export type ColumnStatsState
+  = | { status: 'pending' }
+    | { status: 'resolved', stats: ColumnStats }
+    | { status: 'rejected' }
+
+interface ColumnStatsContextType {
+  /**
+   * Get the state of the statistics of a column. Undefined if the column statistics are disabled.
+   *
+   * @param columnName - The name of the column
+   * @returns The state of the statistics, or undefined if they have not been requested yet
+   */
+  getColumnStats?: (columnName: string) => ColumnStatsState | undefined
+  /**
+   * Request the statistics of a column, e.g. when its header is rendered. They are only computed once for the
+   * current data. Undefined if the column statistics are disabled.
+   *
+   * @param columnName - The name of the column
+   */
+  requestColumnStats?: (columnName: string) => void
+}
+
+export const defaultColumnStatsContext: ColumnStatsContextType = {}
+
+export const ColumnStatsContext = createContext<ColumnStatsContextType>(defaultColumnStatsContext)
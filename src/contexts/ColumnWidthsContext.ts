@@ -2,6 +2,13 @@ import type { CSSProperties } from 'react'
 import { createContext } from 'react'
 
 interface ColumnWidthsContextType {
+  /**
+   * The left offsets of the visible columns, in pixels, from the left of the table (the row headers included), in
+   * the display order, followed by the total width of the table. Unknown widths are assumed to be the minimum width.
+   *
+   * They give the width of the columns that are not rendered, when the columns are virtualized.
+   */
+  columnOffsets?: number[]
   /**
    * Get the width of a column by its index.
    *
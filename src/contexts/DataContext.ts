@@ -1,14 +1,14 @@
 import { createContext } from 'react'
 
-import type { DataFrame } from '../helpers/dataframe/types.js'
+import type { ColumnType, DataFrame } from '../helpers/dataframe/types.js'
 
 /**
- * The data frame, limited to the getRowNumber, getCell, and fetch methods.
+ * The data frame, limited to the getRowNumber, getCell, getRowNumberError, getCellError, fetch, setCell, aggregate, columnStats, search and getGroup methods.
  *
  * The methods might change over time, without the data frame instance changing.
  */
-export type DataFrameMethods = Pick<DataFrame, 'getRowNumber' | 'getCell' | 'fetch'>
-export type DataFrameWithoutMethods = Omit<DataFrame, 'getRowNumber' | 'getCell' | 'fetch'>
+export type DataFrameMethods = Pick<DataFrame, 'getRowNumber' | 'getCell' | 'getRowNumberError' | 'getCellError' | 'fetch' | 'setCell' | 'aggregate' | 'columnStats' | 'search' | 'getGroup'>
+export type DataFrameWithoutMethods = Omit<DataFrame, 'getRowNumber' | 'getCell' | 'getRowNumberError' | 'getCellError' | 'fetch' | 'setCell' | 'aggregate' | 'columnStats' | 'search' | 'getGroup'>
 
 /**
  * The version of the data frame (incremented on each update or resolve event).
@@ -26,18 +26,26 @@ export const ColumnNamesContext = createContext<readonly string[]>([])
  * A set of the names of the sortable columns, used to check if a column is sortable.
  */
 export const SortableColumnsContext = createContext<ReadonlySet<string>>(new Set())
+/**
+ * The types of the columns, keyed by column name, for the columns that have a type in their descriptor.
+ */
+export const ColumnTypesContext = createContext<ReadonlyMap<string, ColumnType>>(new Map())
 /**
  * Whether the table is in exclusive sort mode, which means that only one column can be sorted at a time.
  */
 export const ExclusiveSortContext = createContext<boolean>(false)
 /**
- * The data frame methods (getRowNumber, getCell, and fetch) are provided together.
+ * The data frame methods (getRowNumber, getCell, getRowNumberError, getCellError, fetch, setCell, aggregate, columnStats, search and getGroup) are provided together.
  * They might change over time with the context staying the same.
  */
 export const DataFrameMethodsContext = createContext<DataFrameMethods>({
   getRowNumber: () => undefined,
   getCell: () => undefined,
 })
+/**
+ * The data frame after the filters, for the providers that wrap it (e.g. to group the rows).
+ */
+export const FilteredDataFrameContext = createContext<DataFrame | undefined>(undefined)
 /**
  * A stable key for the data instance, used in tests to check if the data frame has changed.
  */
@@ -0,0 +1,19 @@
+import { createContext } from 'react'
+
+import type { ColumnFilter, Filters } from '../helpers/filter.js'
+
+interface FiltersContextType {
+  /** The active filters, keyed by column name. The columns that don't exist are not included. */
+  filters: Filters
+  /**
+   * Set or clear the filter of a column.
+   *
+   * If undefined, the filters are read-only and cannot be changed through the interface.
+   *
+   * @param columnName The name of the column
+   * @param filter The new filter, or undefined to clear the filter of the column
+   */
+  setColumnFilter?: (columnName: string, filter: ColumnFilter | undefined) => void
+}
+
+export const FiltersContext = createContext<FiltersContextType>({ filters: {} })
@@ -0,0 +1,16 @@
+import { createContext } from 'react'
+
+interface GroupByContextType {
+  /** The grouping columns, from the outermost group to the innermost one. Empty if the rows are not grouped. */
+  groupBy: string[]
+  /**
+   * Collapse the group if it's expanded, or expand it if it's collapsed.
+   *
+   * If undefined, the rows are not grouped, or the collapsed groups are read-only.
+   *
+   * @param key The key of the group
+   */
+  toggleGroup?: (key: string) => void
+}
+
+export const GroupByContext = createContext<GroupByContextType>({ groupBy: [] })
@@ -0,0 +1,36 @@
+import type { KeyboardEvent } from 'react'
+import { createContext } from 'react'
+
+import type { AppliedChanges, HistoryEntry, HistoryEntryType } from '../helpers/history.js'
+
+interface HistoryContextType {
+  /** Undo the most recent change. Undefined if there is nothing to undo. */
+  undo?: () => void
+  /** Redo the most recently undone change. Undefined if there is nothing to redo. */
+  redo?: () => void
+  /**
+   * Record a change in the history. Undefined if the history is read-only.
+   *
+   * @param entry The type of change, and the values before and after the change
+   * @param options.mergeKey If set, and if the previous change had the same key and was recorded less than one second
+   * ago, the changes are merged into one (e.g. the successive widths while resizing a column)
+   */
+  record?: <K extends HistoryEntryType>(entry: Omit<HistoryEntry<K>, 'timestamp'>, options?: { mergeKey?: string }) => void
+  /**
+   * The last undone or redone change of every type. Every undo and redo creates a change with a new id, so that the
+   * providers can set the value back once, without recording it. The providers ignore the changes applied before
+   * they were mounted (e.g. when a provider is recreated for a new cacheKey).
+   */
+  appliedChanges?: AppliedChanges
+  /**
+   * Function to call when a key is pressed on the table (Ctrl+Z or Cmd+Z to undo, Ctrl+Shift+Z, Cmd+Shift+Z
+   * or Ctrl+Y to redo)
+   *
+   * @param event The keyboard event
+   */
+  onTableKeyDown?: (event: KeyboardEvent) => void
+}
+
+export const defaultHistoryContext: HistoryContextType = {}
+
+export const HistoryContext = createContext<HistoryContextType>(defaultHistoryContext)
@@ -0,0 +1,28 @@
+import { createContext } from 'react'
+
+/**
+ * The loading progress of the required cells: the cells and the row numbers of the rendered rows.
+ */
+export interface LoadingState {
+  /** The number of required cells */
+  numCells: number
+  /** The number of required cells that have resolved */
+  numResolvedCells: number
+  /** The number of required cells that have failed to resolve */
+  numFailedCells: number
+}
+
+export const defaultLoadingState: LoadingState = { numCells: 0, numResolvedCells: 0, numFailedCells: 0 }
+
+export const LoadingContext = createContext<LoadingState>(defaultLoadingState)
+
+/**
+ * Fetch again a row that has failed: the given column, or the row number and the rendered columns if the column is undefined.
+ */
+export type RetryRow = ({ row, column }: { row: number, column?: string }) => void
+
+/**
+ * The function to retry the failed cells, undefined if the data frame cannot be fetched.
+ * Separated from the loading state, which changes every time a cell resolves.
+ */
+export const RetryRowContext = createContext<RetryRow | undefined>(undefined)
@@ -0,0 +1,24 @@
+import type { ReactNode } from 'react'
+import { createContext } from 'react'
+
+import type { RowDetailProps } from '../types.js'
+
+interface RowDetailContextType {
+  /** Whether the row detail panel is open */
+  isRowDetailOpen?: boolean
+  /**
+   * The row shown in the detail panel: the row of the current cell, as an index in the current order. Undefined if
+   * the panel is closed, or if the current cell is not in a data row (header, footer or group header row).
+   */
+  detailRow?: number
+  /** Open or close the row detail panel. Undefined if the row detail is disabled. */
+  toggleRowDetail?: () => void
+  /** Close the row detail panel and focus the current cell */
+  closeRowDetail?: () => void
+  /** Custom content of the row detail panel, if not provided, the stringified values are shown */
+  renderRowDetail?: (props: RowDetailProps) => ReactNode
+}
+
+export const defaultRowDetailContext: RowDetailContextType = {}
+
+export const RowDetailContext = createContext<RowDetailContextType>(defaultRowDetailContext)
@@ -1,6 +1,8 @@
 import type { Dispatch, SetStateAction } from 'react'
 import { createContext } from 'react'
 
+import type { RenderedColumns } from '../helpers/scroll.js'
+
 /**
  * Function to call when the current scroll top position changes (on scroll)
  *
@@ -8,6 +10,13 @@ import { createContext } from 'react'
  */
 export const SetScrollTopContext = createContext<((scrollTop: number) => void) | undefined>(undefined)
 
+/**
+ * Function to call when the current scroll left position changes (on scroll)
+ *
+ * @param scrollLeft The new scroll left position in pixels
+ */
+export const SetScrollLeftContext = createContext<((scrollLeft: number) => void) | undefined>(undefined)
+
 /**
  * Function to set the scrollTo function
  *
@@ -27,3 +36,9 @@ export const RenderedRowsContext = createContext<{
   /** Index of the last row rendered in the DOM as a table row (exclusive). */
   renderedRowsEnd?: number
 }>({})
+
+/** Heights of the rows that differ from the default row height, in pixels, keyed by row index */
+export const RowHeightsContext = createContext<ReadonlyMap<number, number> | undefined>(undefined)
+
+/** The visible columns rendered in the DOM, if the columns are virtualized. Undefined if all the visible columns are rendered. */
+export const RenderedColumnsContext = createContext<RenderedColumns | undefined>(undefined)
@@ -0,0 +1,49 @@
+import type { KeyboardEvent } from 'react'
+import { createContext } from 'react'
+
+import type { CellPosition } from '../types.js'
+
+interface SearchContextType {
+  /** Whether the search bar is open */
+  isSearchOpen?: boolean
+  /** A counter incremented every time the search bar is opened, even if it's already open, to focus its input */
+  openCount?: number
+  /** The searched text */
+  query?: string
+  /**
+   * Set the searched text. The search starts again, and the pending search is aborted.
+   *
+   * @param query The text to search
+   */
+  setQuery?: (query: string) => void
+  /** Whether the search is pending, meaning that the cells are being fetched and compared */
+  pendingSearch?: boolean
+  /** The number of matching cells, undefined if the search is pending or the query is empty */
+  numMatches?: number
+  /** The index of the current match (0-based), undefined if there is no current match */
+  currentMatchIndex?: number
+  /** Go to the next match (or the first one, after the last one). Undefined if there are no matches. */
+  goToNextMatch?: () => void
+  /** Go to the previous match (or the last one, before the first one). Undefined if there are no matches. */
+  goToPreviousMatch?: () => void
+  /** Close the search bar and focus the current cell */
+  closeSearch?: () => void
+  /**
+   * Tell if a cell matches the search.
+   *
+   * @param cellPosition The position of the cell, with 1-based indices (including headers)
+   * @returns 'current' for the current match, 'match' for the other matches, and undefined otherwise
+   */
+  getCellSearchMatch?: (cellPosition: CellPosition) => 'current' | 'match' | undefined
+  /**
+   * Function to call when a key is pressed on the table (Ctrl+F or Cmd+F to open the search bar, F3 and Shift+F3 to go
+   * to the next and previous matches)
+   *
+   * @param event The keyboard event
+   */
+  onTableKeyDown?: (event: KeyboardEvent) => void
+}
+
+export const defaultSearchContext: SearchContextType = {}
+
+export const SearchContext = createContext<SearchContextType>(defaultSearchContext)
@@ -1,6 +1,8 @@
 import type { KeyboardEvent } from 'react'
 import { createContext } from 'react'
 
+import type { Selection } from '../helpers/selection.js'
+
 interface SelectionContextType {
   /** True if all rows are selected, false if none are selected, undefined if the selection is not defined. */
   allRowsSelected?: boolean
@@ -8,6 +10,10 @@ interface SelectionContextType {
   pendingSelectionGesture?: boolean
   /** True if rows can be selected */
   selectable?: boolean
+  /** The current selection, undefined if the selection is not defined. */
+  selection?: Selection
+  /** The number of selected rows, undefined if the selection is not defined. */
+  numSelectedRows?: number
   /**
    * Function to check if a row is selected
    *
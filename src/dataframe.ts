@@ -6,28 +6,50 @@
  *
  * @example
  * ```ts
- * import { arrayDataFrame, sortableDataFrame } from 'hightable/dataframe'
+ * import { arrayDataFrame, exportDataFrame, filterableDataFrame, sortableDataFrame } from 'hightable/dataframe'
  * ```
  */
 
 // Dataframe implementations and utilities
+export type { Aggregate, AggregateFunction, AggregateOptions, AggregateParams, Aggregates } from './helpers/dataframe/aggregate.js'
+export { aggregateDataFrame, aggregateFunctions } from './helpers/dataframe/aggregate.js'
 export { arrayDataFrame } from './helpers/dataframe/array.js'
+export type { CachedDataFrameOptions, FetchRows } from './helpers/dataframe/cached.js'
+export { cachedDataFrame } from './helpers/dataframe/cached.js'
+export type { ExportFormat, ExportOptions } from './helpers/dataframe/export.js'
+export { exportDataFrame } from './helpers/dataframe/export.js'
+export type { RowPredicate } from './helpers/dataframe/filter.js'
+export { filterableDataFrame } from './helpers/dataframe/filter.js'
+export type { GetGroup, Group, GroupedDataFrame } from './helpers/dataframe/group.js'
+export { getGroupKey, groupedDataFrame } from './helpers/dataframe/group.js'
 export { checkSignal, createGetRowNumber, validateColumn, validateFetchParams, validateGetCellParams, validateGetRowNumberParams, validateOrderBy, validateRow } from './helpers/dataframe/helpers.js'
+export type { Search, SearchMatch, SearchOptions, SearchParams } from './helpers/dataframe/search.js'
+export { searchDataFrame } from './helpers/dataframe/search.js'
 export { fetchIndexes, sortableDataFrame } from './helpers/dataframe/sort.js'
+export type { ColumnStats, ColumnStatsOptions, ColumnStatsParams, ComputeColumnStats, HistogramBin, TopValue } from './helpers/dataframe/stats.js'
+export { columnStatsDataFrame } from './helpers/dataframe/stats.js'
 
 // Types
-export type { Cells, ColumnDescriptor, DataFrame, DataFrameEvents, Fetch, Obj, ResolvedValue } from './helpers/dataframe/types.js'
+export type { Cells, ColumnDescriptor, ColumnType, DataFrame, DataFrameEvents, Fetch, Obj, RejectedValue, ResolvedValue, SetCell } from './helpers/dataframe/types.js'
 
 // Sort utilities
 export type { ColumnOrderBy, Direction, OrderBy } from './helpers/sort.js'
 export { areEqualOrderBy, computeRanks, deserializeOrderBy, partitionOrderBy, serializeOrderBy, toggleColumn, toggleColumnExclusive, validateOrderByAgainstSortableColumns } from './helpers/sort.js'
 
+// Filter utilities
+export type { ColumnFilter, Filters, FilterType } from './helpers/filter.js'
+export { createFiltersPredicate, matchesFilter } from './helpers/filter.js'
+
 // Event target utilities
 export type { CustomEventTarget } from './helpers/typedEventTarget.js'
 export { createEventTarget, TypedCustomEvent } from './helpers/typedEventTarget.js'
 
 // Selection utilities (pure functions, no React)
-export type { Selection } from './helpers/selection.js'
+export type { CellRange, CellSelection, Selection } from './helpers/selection.js'
+
+// Format utilities (pure functions, no React)
+export type { ColumnFormat } from './helpers/format.js'
+export { formatValue } from './helpers/format.js'
 
 // Stringify utility (pure function, no dependencies)
-export { stringify } from './utils/stringify.js'
+export { createStringify, stringify } from './utils/stringify.js'
@@ -0,0 +1,42 @@
+/**
+ * Parse the text of the default cell editor, keeping the type of the previous value if possible.
+ *
+ * - an empty text gives null (or undefined if the previous value was undefined), except for strings
+ * - numbers, bigints, booleans and dates are parsed, and the text is kept as is if it's not valid
+ * - objects and arrays are parsed as JSON, and the text is kept as is if it's not valid
+ *
+ * @param text The text entered in the editor
+ * @param previousValue The value of the cell before the edit
+ * @returns The new cell value
+ */
+export function parseEditedText(text: string, previousValue: unknown): unknown {
+  if (typeof previousValue === 'string') return text
+  if (text.trim() === '') return previousValue === undefined ? undefined : null
+  if (typeof previousValue === 'number') {
+    const value = Number(text)
+    return Number.isNaN(value) ? text : value
+  }
+  if (typeof previousValue === 'bigint') {
+    try {
+      return BigInt(text.trim())
+    } catch {
+      return text
+    }
+  }
+  if (typeof previousValue === 'boolean') {
+    const lowerText = text.trim().toLowerCase()
+    return lowerText === 'true' ? true : lowerText === 'false' ? false : text
+  }
+  if (previousValue instanceof Date) {
+    const value = new Date(text)
+    return Number.isNaN(value.getTime()) ? text : value
+  }
+  if (typeof previousValue === 'object' && previousValue !== null) {
+    try {
+      return JSON.parse(text) as unknown
+    } catch {
+      return text
+    }
+  }
+  return text
+}
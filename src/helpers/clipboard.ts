@@ -0,0 +1,56 @@
+/**
+ * The content to write to the clipboard: the column names, and the stringified cells of each row.
+ */
+export interface ClipboardContent {
+  columns: string[]
+  rows: string[][]
+}
+
+function escapeTsvField(field: string): string {
+  // same convention as spreadsheets: quote the fields that contain a tab, a newline or a quote, and double the quotes
+  if (/[\t\n\r"]/.test(field)) {
+    return `"${field.replace(/"/g, '""')}"`
+  }
+  return field
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Format a line of tab-separated values.
+ *
+ * @param fields The fields of the line
+ * @returns The TSV line, without the trailing newline
+ */
+export function toTsvLine(fields: string[]): string {
+  return fields.map(escapeTsvField).join('\t')
+}
+
+/**
+ * Format the content as tab-separated values, with a header line.
+ *
+ * @param content The content to format
+ * @returns The TSV string, with lines separated by '\n'
+ */
+export function toTsv({ columns, rows }: ClipboardContent): string {
+  return [columns, ...rows].map(toTsvLine).join('\n')
+}
+
+/**
+ * Format the content as an HTML table, with a header row.
+ *
+ * @param content The content to format
+ * @returns The HTML string
+ */
+export function toHtmlTable({ columns, rows }: ClipboardContent): string {
+  const header = `<tr>${columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr>`
+  const body = rows.map(cells => `<tr>${cells.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')
+  return `<table><thead>${header}</thead><tbody>${body}</tbody></table>`
+}
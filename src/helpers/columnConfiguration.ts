@@ -1,5 +1,10 @@
 import type { ReactNode } from 'react'
 
+import type { CellContentProps } from '../types.js'
+import type { ColumnType } from './dataframe/types.js'
+import type { FilterType } from './filter.js'
+import type { ColumnFormat } from './format.js'
+
 // Single column config
 /**
  * A React node representing the header controls (sort arrow, column menu).
@@ -40,6 +45,34 @@ export interface CustomMenuGroup {
   items: CustomMenuItem[]
 }
 
+/**
+ * Props of a custom cell editor.
+ */
+export interface CellEditorProps {
+  /** The current value of the cell */
+  value: unknown
+  /** The column name */
+  column: string
+  /** The row index in the original data */
+  rowNumber: number
+  /**
+   * Set the new value and stop editing.
+   *
+   * @param value The new value of the cell
+   */
+  commit: (value: unknown) => void
+  /** Stop editing without changing the value */
+  cancel: () => void
+}
+
+/**
+ * A function that returns a React node to edit a cell, e.g. an input or a select element.
+ *
+ * The editor is rendered inside the cell. It should take the focus when mounted, and call `commit` or `cancel`.
+ * Escape cancels the edition in any case.
+ */
+export type CellEditor = (props: CellEditorProps) => ReactNode
+
 /**
  * Configuration options for a single column.
  */
@@ -52,6 +85,13 @@ export interface ColumnConfig {
   minWidth?: number
   /** Whether the column is initially hidden (default false) */
   initiallyHidden?: boolean
+  /**
+   * Pin the column to the left (default: not pinned). A pinned column stays visible, beside the row headers,
+   * when scrolling horizontally. The pinned columns are shown first, in the current column order.
+   *
+   * It only sets the initial state: the columns can be pinned and unpinned from the column menu.
+   */
+  pinned?: 'left'
   /** Optional CSS class name for the column */
   className?: string
   /**
@@ -60,10 +100,39 @@ export interface ColumnConfig {
    * Each group has a title and a list of menu items with labels and onClick callbacks.
    */
   menuGroups?: CustomMenuGroup[]
+  /**
+   * The filter types proposed in the column menu for this column, in order.
+   *
+   * If undefined or empty, the column menu has no filter section. The column can still be filtered with the `filters` prop.
+   */
+  filterTypes?: FilterType[]
+  /**
+   * Whether the cells of the column can be edited (default true). It only applies if the data frame implements
+   * setCell, or if the onCellEdit prop is passed.
+   */
+  editable?: boolean
+  /**
+   * Custom editor for the cells of the column. If undefined, a text input is used, and the text is converted
+   * back to the type of the previous value if possible (number, bigint, boolean, date or JSON).
+   */
+  editor?: CellEditor
+  /**
+   * Type of the values of the column, to pick the default cell renderer (see ColumnType). It overrides the type
+   * of the column descriptor.
+   */
+  type?: ColumnType
+  /**
+   * Formatting options of the numbers and the dates of the column (see ColumnFormat), with the locale of the table.
+   * They apply to the rendered cells, to the copied values and to the exported values.
+   */
+  format?: ColumnFormat
+  /**
+   * Custom cell content component for the cells of the column. It takes precedence over the renderCellContent prop
+   * and over the default renderer of the column type.
+   */
+  renderCellContent?: (props: CellContentProps) => ReactNode
   // TODO(SL): add more configuration options here:
   // hideable?: boolean;
-  // filters: Some filter structure
-  // cellRenderer?: (value: unknown, row: Row) => React.ReactNode;
 }
 
 /**
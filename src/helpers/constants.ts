@@ -1,11 +1,21 @@
-export const rowHeight = 33 // row height px
+export const rowHeight = 33 // default row height px ('normal' density)
+export const rowHeightByDensity = { compact: 29, normal: rowHeight, comfortable: 41 } // row height px for each density preset
 
 export const defaultPadding = 20
 export const defaultOverscan = 20
+export const maxConcurrentFetches = 2 // maximum number of concurrent fetch requests for the visible, overscan and predicted rows
+export const largeScrollFetchDelayMs = 100 // delay before fetching the rows after a large scroll, to skip the intermediate ranges while dragging the scrollbar
+export const defaultMaxFetchRetries = 3 // number of automatic retries of a failed fetch request
+export const defaultFetchRetryDelayMs = 1_000 // delay before the first automatic retry, doubled on every retry
+export const defaultMaxFetchRetryDelayMs = 30_000 // maximum delay before an automatic retry
+export const columnPadding = 3 // number of columns to render beyond the visible ones, on each side, when the columns are virtualized
 export const defaultNumRowsPerPage = 20 // number of rows per page for keyboard navigation
 
 const columnWidthsFormatVersion = '2' // increase in case of breaking changes in the column widths format
 export const columnWidthsSuffix = `:${columnWidthsFormatVersion}:column:widths` // suffix used to store the column widths in local storage
+const columnOrderFormatVersion = '1' // increase in case of breaking changes in the column order format
+export const columnOrderSuffix = `:${columnOrderFormatVersion}:column:order` // suffix used to store the column order in local storage
+export const viewStateSuffix = ':view:state' // suffix used to store the view state in local storage. The version is stored in the value, to migrate the previous versions (see parseViewState)
 
 export const ariaOffset = 2 // 1-based index, +1 for the header
 
@@ -0,0 +1,194 @@
+import type { Selection } from '../selection.js'
+import { isSelected } from '../selection.js'
+import { checkSignal, compareValues, getDistinctKey, validateColumn } from './helpers.js'
+import type { DataFrame, Obj } from './types.js'
+
+/**
+ * The aggregate functions.
+ *
+ * - count: number of rows
+ * - nullCount: number of null or undefined values
+ * - min, max: extreme values, ignoring the null and undefined values (see compareValues)
+ * - sum, mean: sum and mean of the numeric values (numbers and bigints), ignoring the other values
+ * - distinctCount: number of distinct values, ignoring the null and undefined values
+ */
+export type AggregateFunction = 'count' | 'nullCount' | 'min' | 'max' | 'sum' | 'mean' | 'distinctCount'
+
+export const aggregateFunctions: AggregateFunction[] = ['count', 'nullCount', 'min', 'max', 'sum', 'mean', 'distinctCount']
+
+/** The short labels of the aggregate functions, shown in the table */
+export const aggregateLabels: Record<AggregateFunction, string> = {
+  count: 'count',
+  nullCount: 'nulls',
+  min: 'min',
+  max: 'max',
+  sum: 'sum',
+  mean: 'mean',
+  distinctCount: 'distinct',
+}
+
+/**
+ * The results of the aggregate functions, keyed by function.
+ *
+ * A result is undefined if there is no value to aggregate (e.g. the min of an empty or all-null column,
+ * or the sum of a column without numeric values).
+ */
+export type Aggregates = Partial<Record<AggregateFunction, unknown>>
+
+export interface AggregateParams {
+  /** The column to aggregate */
+  column: string
+  /** The aggregate functions to compute */
+  functions: AggregateFunction[]
+  /** If defined, only the selected rows are aggregated. The ranges contain row numbers (indexes in the underlying data). */
+  selection?: Selection
+  /** A signal to cancel the computation. If it's aborted, the promise rejects with an AbortError DOMException. */
+  signal?: AbortSignal
+}
+
+export type Aggregate = (params: AggregateParams) => Promise<Aggregates>
+
+export interface AggregateOptions extends AggregateParams {
+  /** The number of rows fetched at once, when the data frame has no aggregate method. Defaults to 1000. */
+  chunkSize?: number
+}
+
+const defaultChunkSize = 1000
+
+/**
+ * Compute the aggregates of a column.
+ *
+ * If the data frame implements the aggregate method, it's used. Otherwise, the rows are fetched
+ * page by page (see the chunkSize option), and aggregated as they arrive.
+ *
+ * @example
+ * ```ts
+ * const { min, max } = await aggregateDataFrame(data, { column: 'price', functions: ['min', 'max'] })
+ * ```
+ *
+ * @param data The data frame
+ * @param options The aggregate options
+ * @returns A promise that resolves to the results, keyed by function
+ */
+export async function aggregateDataFrame<M extends Obj, C extends Obj>(
+  data: DataFrame<M, C>, options: AggregateOptions
+): Promise<Aggregates> {
+  const { column, functions, selection, signal, chunkSize } = options
+  validateColumn({ column, data })
+  for (const fn of functions) {
+    if (!aggregateFunctions.includes(fn)) {
+      throw new Error(`Invalid aggregate function: ${fn}. It must be one of ${aggregateFunctions.join(', ')}.`)
+    }
+  }
+  checkSignal(signal)
+  if (data.aggregate) {
+    return data.aggregate({ column, functions, selection, signal })
+  }
+  return scanAggregates({ data, numRows: data.numRows, column, functions, selection, signal, chunkSize })
+}
+
+/**
+ * Compute the aggregates of a column by fetching all the rows, in chunks.
+ *
+ * It's the fallback when the data frame has no aggregate method. The order of the rows does not matter.
+ */
+export async function scanAggregates(
+  { data, numRows, column, functions, selection, signal, chunkSize = defaultChunkSize }: AggregateOptions & {
+    data: Pick<DataFrame, 'getCell' | 'getRowNumber' | 'fetch' | 'getGroup'>
+    numRows: number
+  }
+): Promise<Aggregates> {
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new Error(`Invalid chunk size: ${chunkSize}. It must be a positive integer.`)
+  }
+  const accumulator = createAccumulator(functions)
+  for (let rowStart = 0; rowStart < numRows; rowStart += chunkSize) {
+    const rowEnd = Math.min(rowStart + chunkSize, numRows)
+    // the row numbers are fetched along with the cells
+    await data.fetch?.({ rowStart, rowEnd, columns: [column], signal })
+    checkSignal(signal)
+    for (let row = rowStart; row < rowEnd; row++) {
+      if (data.getGroup?.({ row })) {
+        // the group header rows have no cell values and no row number
+        continue
+      }
+      if (selection) {
+        const rowNumber = data.getRowNumber({ row })?.value
+        if (rowNumber === undefined) {
+          throw new Error(`Row number is undefined for row ${row}`)
+        }
+        if (!isSelected({ ranges: selection.ranges, index: rowNumber })) {
+          continue
+        }
+      }
+      const cell = data.getCell({ row, column })
+      if (!cell) {
+        throw new Error(`Cell not found for row ${row} and column ${column}`)
+      }
+      accumulator.add(cell.value)
+    }
+  }
+  return accumulator.getAggregates()
+}
+
+/**
+ * Compute the aggregates of a list of values, already fetched.
+ */
+export function aggregateValues({ values, functions }: { values: Iterable<unknown>, functions: AggregateFunction[] }): Aggregates {
+  const accumulator = createAccumulator(functions)
+  for (const value of values) {
+    accumulator.add(value)
+  }
+  return accumulator.getAggregates()
+}
+
+function createAccumulator(functions: AggregateFunction[]) {
+  const needsDistinct = functions.includes('distinctCount')
+  let count = 0
+  let nullCount = 0
+  let min: unknown = undefined
+  let max: unknown = undefined
+  let numberSum = 0
+  let numberCount = 0
+  let bigintSum = 0n
+  let bigintCount = 0
+  const distinctKeys = new Set<unknown>()
+
+  function add(value: unknown) {
+    count++
+    if (value === null || value === undefined) {
+      nullCount++
+      return
+    }
+    if (min === undefined || compareValues(value, min) < 0) min = value
+    if (max === undefined || compareValues(value, max) > 0) max = value
+    if (typeof value === 'number') {
+      numberSum += value
+      numberCount++
+    } else if (typeof value === 'bigint') {
+      bigintSum += value
+      bigintCount++
+    }
+    if (needsDistinct) {
+      distinctKeys.add(getDistinctKey(value))
+    }
+  }
+
+  function getAggregates(): Aggregates {
+    const numericCount = numberCount + bigintCount
+    // the sum of bigints stays a bigint, except if there are also numbers
+    const sum = numericCount === 0 ? undefined : numberCount === 0 ? bigintSum : numberSum + Number(bigintSum)
+    const results: Required<Aggregates> = {
+      count,
+      nullCount,
+      min,
+      max,
+      sum,
+      mean: sum === undefined ? undefined : Number(sum) / numericCount,
+      distinctCount: distinctKeys.size,
+    }
+    return Object.fromEntries(functions.map(fn => [fn, results[fn]]))
+  }
+
+  return { add, getAggregates }
+}
@@ -13,6 +13,7 @@ interface ArrayData {
 // We also don't check if rowNumbers have the same length as the array, or if they are valid indices,
 // except when accessing them in getRowNumber. If the array length changes, the user is responsible for updating rowNumbers accordingly.
 // Both are exposed as _array and _rowNumbers if needed. Mutations on _array are proxied to emit events.
+// setCell replaces the row object through the proxy (the other rows are not copied), so that 'update' is dispatched.
 export function arrayDataFrame<M extends Obj, C extends Obj>(
   array: Record<string, any>[],
   rowNumbers?: number[],
@@ -44,6 +45,7 @@ export function arrayDataFrame<M extends Obj, C extends Obj>(
     columnDescriptors,
     getRowNumber,
     getCell,
+    setCell,
     get numRows() {
       return this._array.length
     },
@@ -80,6 +82,20 @@ export function arrayDataFrame<M extends Obj, C extends Obj>(
     return { value: cells[column] }
   }
 
+  function setCell({ row, column, value, orderBy }: { row: number, column: string, value: unknown, orderBy?: OrderBy }): Promise<void> {
+    // the errors thrown in the executor reject the promise
+    return new Promise((resolve) => {
+      // numRows is Infinity because the array size can change dynamically.
+      validateGetCellParams({ column, row, orderBy, data: { numRows: Infinity, columnDescriptors } })
+      const cells = array[row]
+      if (!cells) {
+        throw new Error(`Invalid row index: ${row}, numRows: ${array.length}`)
+      }
+      arrayProxy[row] = { ...cells, [column]: value }
+      resolve()
+    })
+  }
+
   return data
 }
 
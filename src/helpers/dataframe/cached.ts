@@ -0,0 +1,304 @@
+import type { OrderBy } from '../sort.js'
+import { createEventTarget } from '../typedEventTarget.js'
+import { checkSignal, createGetRowNumber, toError, validateFetchParams, validateGetCellParams } from './helpers.js'
+import type { Cells, ColumnDescriptor, DataFrame, DataFrameEvents, Obj, RejectedValue, ResolvedValue } from './types.js'
+
+/**
+ * Fetch the rows of a remote source.
+ *
+ * @param rowStart The start row index (inclusive, 0 = first row).
+ * @param rowEnd The end row index (exclusive).
+ * @param columns The columns to fetch (not empty).
+ * @param signal An AbortSignal, aborted when no caller waits for the rows anymore.
+ * @returns A promise that resolves to the rows, in order, with at least the requested columns.
+ */
+export type FetchRows = ({ rowStart, rowEnd, columns, signal }: { rowStart: number, rowEnd: number, columns: string[], signal: AbortSignal }) => Promise<Cells[]>
+
+export interface CachedDataFrameOptions<M extends Obj, C extends Obj> {
+  /** The number of rows of the source */
+  numRows: number
+  /** The descriptors of the columns of the source */
+  columnDescriptors: ColumnDescriptor<C>[]
+  /** Custom metadata about the data frame */
+  metadata?: M
+  /** The number of rows of a chunk. The rows are fetched by whole chunks, aligned on multiples of chunkSize. Defaults to 100. */
+  chunkSize?: number
+  /** The maximum number of rows kept in the cache. The least recently used chunks are evicted beyond. Defaults to 10,000. */
+  maxCachedRows?: number
+}
+
+const defaultChunkSize = 100
+const defaultMaxCachedRows = 10_000
+
+/** An in-flight request for some columns of a chunk, shared by the fetch calls that need them */
+interface PendingRequest {
+  chunkIndex: number
+  columns: string[]
+  promise: Promise<void>
+  controller: AbortController
+  /** The number of fetch calls waiting for the request. It's aborted when the last one is aborted. */
+  numWaiting: number
+}
+
+/**
+ * Create a DataFrame from a function that fetches the rows of a remote source, caching the fetched rows.
+ *
+ * The fetch requests are split into chunks aligned on multiples of chunkSize, so that overlapping requests share
+ * the same chunks. A chunk column that is already being fetched is not requested again, and the request is only
+ * aborted once all the fetch calls that wait for it are aborted. A "resolve" event is dispatched every time a
+ * chunk arrives, or fails. The error of a failed chunk is returned by getCellError, until the chunk is fetched again
+ * successfully.
+ *
+ * The least recently used chunks (fetched or read with getCell) are evicted when the cache holds more than
+ * maxCachedRows rows. The chunks needed by an ongoing fetch call are not evicted, so that the cache can hold more
+ * rows while a large range is fetched (e.g. to sort or search a column).
+ *
+ * The data frame is not sortable, wrap it with sortableDataFrame to sort the rows.
+ *
+ * @example
+ * ```ts
+ * const data = cachedDataFrame(
+ *   ({ rowStart, rowEnd, columns, signal }) => fetch(`/rows?start=${rowStart}&end=${rowEnd}&columns=${columns.join(',')}`, { signal }).then(response => response.json()),
+ *   { numRows: 1_000_000, columnDescriptors: [{ name: 'id' }, { name: 'name' }], chunkSize: 500 }
+ * )
+ * ```
+ *
+ * @param fetchRows The function that fetches the rows.
+ * @param options The number of rows, the column descriptors, and the cache options.
+ * @returns A DataFrame that fetches the rows on demand.
+ */
+export function cachedDataFrame<M extends Obj, C extends Obj>(
+  fetchRows: FetchRows, options: CachedDataFrameOptions<M, C>
+): DataFrame<M, C> {
+  const { numRows, columnDescriptors, metadata, chunkSize = defaultChunkSize, maxCachedRows = defaultMaxCachedRows } = options
+  if (!Number.isInteger(numRows) || numRows < 0) {
+    throw new Error(`Invalid number of rows: ${numRows}. It must be a non-negative integer.`)
+  }
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new Error(`Invalid chunk size: ${chunkSize}. It must be a positive integer.`)
+  }
+  if (maxCachedRows < 0 || isNaN(maxCachedRows)) {
+    throw new Error(`Invalid maximum number of cached rows: ${maxCachedRows}. It must be a non-negative number.`)
+  }
+
+  const eventTarget = createEventTarget<DataFrameEvents>()
+  const data = { numRows, columnDescriptors }
+
+  // The cached chunks, keyed by chunk index, in the order of their last use (the least recently used first).
+  // Every chunk holds the values of the fetched columns, keyed by column name.
+  const chunks = new Map<number, Map<string, unknown[]>>()
+  let numCachedRows = 0
+  // The in-flight requests, keyed by chunk index and column name
+  const pendingRequests = new Map<string, PendingRequest>()
+  // The errors of the failed requests, keyed by chunk index and column name
+  const failedRequests = new Map<string, Error>()
+  // The number of ongoing fetch calls that need each chunk, keyed by chunk index
+  const pinnedChunks = new Map<number, number>()
+
+  function getChunkRange(chunkIndex: number) {
+    const rowStart = chunkIndex * chunkSize
+    return { rowStart, rowEnd: Math.min(rowStart + chunkSize, numRows) }
+  }
+
+  function getChunkLength(chunkIndex: number) {
+    const { rowStart, rowEnd } = getChunkRange(chunkIndex)
+    return rowEnd - rowStart
+  }
+
+  function getPendingKey(chunkIndex: number, column: string) {
+    return `${chunkIndex}:${column}`
+  }
+
+  // mark the chunk as the most recently used one
+  function touchChunk(chunkIndex: number, chunk: Map<string, unknown[]>) {
+    chunks.delete(chunkIndex)
+    chunks.set(chunkIndex, chunk)
+  }
+
+  function evictChunks() {
+    for (const chunkIndex of chunks.keys()) {
+      if (numCachedRows <= maxCachedRows) {
+        return
+      }
+      if (!pinnedChunks.has(chunkIndex)) {
+        chunks.delete(chunkIndex)
+        numCachedRows -= getChunkLength(chunkIndex)
+      }
+    }
+  }
+
+  function storeChunk({ chunkIndex, columns, rows }: { chunkIndex: number, columns: string[], rows: Cells[] }) {
+    let chunk = chunks.get(chunkIndex)
+    if (!chunk) {
+      chunk = new Map()
+      numCachedRows += getChunkLength(chunkIndex)
+    }
+    for (const column of columns) {
+      chunk.set(column, rows.map(cells => cells[column]))
+    }
+    touchChunk(chunkIndex, chunk)
+    evictChunks()
+  }
+
+  function deletePendingRequest(request: PendingRequest) {
+    for (const column of request.columns) {
+      const key = getPendingKey(request.chunkIndex, column)
+      if (pendingRequests.get(key) === request) {
+        pendingRequests.delete(key)
+      }
+    }
+  }
+
+  function requestChunk({ chunkIndex, columns }: { chunkIndex: number, columns: string[] }) {
+    const { rowStart, rowEnd } = getChunkRange(chunkIndex)
+    const controller = new AbortController()
+    const promise = fetchRows({ rowStart, rowEnd, columns, signal: controller.signal }).then((rows) => {
+      if (rows.length !== rowEnd - rowStart) {
+        throw new Error(`Invalid number of rows fetched: ${rows.length} for the rows ${rowStart} - ${rowEnd}`)
+      }
+      storeChunk({ chunkIndex, columns, rows })
+      for (const column of columns) {
+        failedRequests.delete(getPendingKey(chunkIndex, column))
+      }
+      eventTarget.dispatchEvent(new CustomEvent('resolve'))
+    }).catch((error: unknown) => {
+      // the aborted requests have not failed, they will be requested again if needed
+      if (!controller.signal.aborted) {
+        for (const column of columns) {
+          failedRequests.set(getPendingKey(chunkIndex, column), toError(error))
+        }
+        eventTarget.dispatchEvent(new CustomEvent('resolve'))
+      }
+      throw error
+    }).finally(() => {
+      // on failure, the next fetch calls will request the chunk again
+      deletePendingRequest(request)
+    })
+    // the errors are handled by the waiting fetch calls, if any
+    promise.catch(() => undefined)
+    const request: PendingRequest = { chunkIndex, columns, promise, controller, numWaiting: 0 }
+    for (const column of columns) {
+      pendingRequests.set(getPendingKey(chunkIndex, column), request)
+    }
+  }
+
+  async function waitForRequests({ requests, signal }: { requests: Set<PendingRequest>, signal?: AbortSignal }): Promise<void> {
+    for (const request of requests) {
+      request.numWaiting++
+    }
+    let rejectAborted: (reason: Error) => void = () => undefined
+    const aborted = new Promise<never>((_, reject) => {
+      rejectAborted = reject
+    })
+    function onAbort() {
+      rejectAborted(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+    signal?.addEventListener('abort', onAbort)
+    try {
+      await Promise.race([Promise.all([...requests].map(({ promise }) => promise)), aborted])
+    } finally {
+      signal?.removeEventListener('abort', onAbort)
+      for (const request of requests) {
+        request.numWaiting--
+        if (request.numWaiting === 0 && signal?.aborted) {
+          // no fetch call waits for the request anymore: cancel it, and let the next fetch calls request the chunk again
+          request.controller.abort()
+          deletePendingRequest(request)
+        }
+      }
+    }
+  }
+
+  function getRowNumber({ row, orderBy }: { row: number, orderBy?: OrderBy }): ResolvedValue<number> | undefined {
+    return createGetRowNumber(data)({ row, orderBy })
+  }
+
+  function getCell({ row, column, orderBy }: { row: number, column: string, orderBy?: OrderBy }): ResolvedValue | undefined {
+    validateGetCellParams({ row, column, orderBy, data })
+    if (orderBy && orderBy.length > 0) {
+      throw new Error('orderBy is not supported in cachedDataFrame, wrap it with sortableDataFrame.')
+    }
+    const chunkIndex = Math.floor(row / chunkSize)
+    const chunk = chunks.get(chunkIndex)
+    const values = chunk?.get(column)
+    if (!chunk || !values) {
+      return undefined
+    }
+    touchChunk(chunkIndex, chunk)
+    return { value: values[row - chunkIndex * chunkSize] }
+  }
+
+  function getCellError({ row, column, orderBy }: { row: number, column: string, orderBy?: OrderBy }): RejectedValue | undefined {
+    validateGetCellParams({ row, column, orderBy, data })
+    if (orderBy && orderBy.length > 0) {
+      throw new Error('orderBy is not supported in cachedDataFrame, wrap it with sortableDataFrame.')
+    }
+    const chunkIndex = Math.floor(row / chunkSize)
+    if (chunks.get(chunkIndex)?.has(column)) {
+      return undefined
+    }
+    const error = failedRequests.get(getPendingKey(chunkIndex, column))
+    return error ? { error } : undefined
+  }
+
+  async function fetch({ rowStart, rowEnd, columns, orderBy, signal }: { rowStart: number, rowEnd: number, columns?: string[], orderBy?: OrderBy, signal?: AbortSignal }): Promise<void> {
+    validateFetchParams({ rowStart, rowEnd, columns, orderBy, data })
+    if (orderBy && orderBy.length > 0) {
+      throw new Error('orderBy is not supported in cachedDataFrame, wrap it with sortableDataFrame.')
+    }
+    checkSignal(signal)
+    if (rowStart === rowEnd || !columns || columns.length === 0) {
+      // the row numbers are always available
+      return
+    }
+
+    const chunkIndexes: number[] = []
+    for (let chunkIndex = Math.floor(rowStart / chunkSize); chunkIndex * chunkSize < rowEnd; chunkIndex++) {
+      chunkIndexes.push(chunkIndex)
+    }
+    for (const chunkIndex of chunkIndexes) {
+      pinnedChunks.set(chunkIndex, (pinnedChunks.get(chunkIndex) ?? 0) + 1)
+    }
+    try {
+      const requests = new Set<PendingRequest>()
+      for (const chunkIndex of chunkIndexes) {
+        const chunk = chunks.get(chunkIndex)
+        const missingColumns = columns.filter(column => !chunk?.has(column) && !pendingRequests.has(getPendingKey(chunkIndex, column)))
+        if (missingColumns.length > 0) {
+          requestChunk({ chunkIndex, columns: missingColumns })
+        }
+        for (const column of columns) {
+          const request = pendingRequests.get(getPendingKey(chunkIndex, column))
+          if (request) {
+            requests.add(request)
+          }
+        }
+        if (chunk) {
+          touchChunk(chunkIndex, chunk)
+        }
+      }
+      await waitForRequests({ requests, signal })
+    } finally {
+      for (const chunkIndex of chunkIndexes) {
+        const count = pinnedChunks.get(chunkIndex) ?? 0
+        if (count <= 1) {
+          pinnedChunks.delete(chunkIndex)
+        } else {
+          pinnedChunks.set(chunkIndex, count - 1)
+        }
+      }
+      // the chunks that were pinned are not evicted right away, since the caller reads them after the fetch resolves
+    }
+  }
+
+  return {
+    numRows,
+    columnDescriptors,
+    metadata,
+    getRowNumber,
+    getCell,
+    getCellError,
+    fetch,
+    eventTarget,
+  }
+}
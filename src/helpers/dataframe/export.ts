@@ -0,0 +1,169 @@
+import { toTsvLine } from '../clipboard.js'
+import type { ColumnFormat } from '../format.js'
+import { formatValue } from '../format.js'
+import type { Selection } from '../selection.js'
+import { isSelected } from '../selection.js'
+import type { OrderBy } from '../sort.js'
+import { bigintReplacer, checkSignal, getContinuousRanges, toLosslessText, validateColumn } from './helpers.js'
+import type { DataFrame, Obj } from './types.js'
+
+/**
+ * The text formats supported by exportDataFrame.
+ *
+ * - csv: comma-separated values, with a header line (RFC 4180 quoting)
+ * - tsv: tab-separated values, with a header line (same quoting as spreadsheets)
+ * - jsonl: one JSON object per line, keyed by column name, without header
+ */
+export type ExportFormat = 'csv' | 'jsonl' | 'tsv'
+
+export interface ExportOptions {
+  /** The output format */
+  format: ExportFormat
+  /** The columns to export, in order. Defaults to all the columns of the data frame. */
+  columns?: string[]
+  /** The order of the rows. Defaults to the data frame order. */
+  orderBy?: OrderBy
+  /** If defined, only the selected rows are exported. The ranges contain row numbers (indexes in the underlying data). */
+  selection?: Selection
+  /** A signal to cancel the export. If it's aborted, the iteration rejects with an AbortError DOMException. */
+  signal?: AbortSignal
+  /**
+   * Function to convert the cell values to text, for the csv and tsv formats. The jsonl format serializes the raw values.
+   *
+   * Defaults to a lossless conversion: null and undefined give an empty field, numbers are not localized,
+   * dates use the ISO format and objects are serialized as JSON.
+   */
+  stringify?: (value: unknown) => string | undefined
+  /**
+   * Formatting options of the numbers and the dates, keyed by column name (see ColumnFormat), for the csv and tsv
+   * formats. They take precedence over the stringify function, for the values they apply to. The types of the column
+   * descriptors tell which columns contain dates.
+   */
+  columnFormats?: Record<string, ColumnFormat>
+  /** The locale used by the formatting options. Defaults to 'en-US'. */
+  locale?: string
+  /** The number of rows fetched at once. Defaults to 1000. */
+  chunkSize?: number
+}
+
+const defaultChunkSize = 1000
+
+/**
+ * Export a data frame as text, in chunks.
+ *
+ * The rows are fetched page by page (see the chunkSize option), so that the whole data frame is never held in memory.
+ * Every chunk ends with a newline. The first chunk is the header line, except for the jsonl format.
+ *
+ * It only depends on the DataFrame interface, and works in Node.js without React.
+ *
+ * @example
+ * ```ts
+ * let csv = ''
+ * for await (const chunk of exportDataFrame(data, { format: 'csv', orderBy: [{ column: 'name', direction: 'ascending' }] })) {
+ *   csv += chunk
+ * }
+ * // or, as a stream:
+ * const stream = ReadableStream.from(exportDataFrame(data, { format: 'jsonl' }))
+ * ```
+ *
+ * @param data The data frame to export
+ * @param options The export options
+ * @returns An async iterable of text chunks
+ */
+export async function* exportDataFrame<M extends Obj, C extends Obj>(
+  data: DataFrame<M, C>, options: ExportOptions
+): AsyncGenerator<string, void, undefined> {
+  const { format, orderBy, selection, signal, stringify = toLosslessText, columnFormats, locale, chunkSize = defaultChunkSize } = options
+  const columns = options.columns ?? data.columnDescriptors.map(c => c.name)
+  const columnTypes = columns.map(column => data.columnDescriptors.find(c => c.name === column)?.type)
+  for (const column of columns) {
+    validateColumn({ column, data })
+  }
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new Error(`Invalid chunk size: ${chunkSize}. It must be a positive integer.`)
+  }
+  checkSignal(signal)
+
+  function formatRow(values: unknown[]): string {
+    if (format === 'jsonl') {
+      return toJsonLine(Object.fromEntries(columns.map((column, i) => [column, values[i]])))
+    }
+    const fields = values.map((value, i) => {
+      const column = columns[i]
+      return formatValue({ value, type: columnTypes[i], format: column === undefined ? undefined : columnFormats?.[column], locale, stringify }) ?? ''
+    })
+    return format === 'csv' ? toCsvLine(fields) : toTsvLine(fields)
+  }
+
+  if (format !== 'jsonl') {
+    yield `${format === 'csv' ? toCsvLine(columns) : toTsvLine(columns)}\n`
+  }
+
+  const { numRows } = data
+  for (let chunkStart = 0; chunkStart < numRows; chunkStart += chunkSize) {
+    const chunkEnd = Math.min(chunkStart + chunkSize, numRows)
+    const rows = selection
+      ? await fetchSelectedRows({ data, rowStart: chunkStart, rowEnd: chunkEnd, orderBy, selection, signal })
+      : Array.from({ length: chunkEnd - chunkStart }, (_, i) => chunkStart + i)
+    const { fetch } = data
+    if (fetch) {
+      await Promise.all(getContinuousRanges(rows).map(({ rowStart, rowEnd }) => fetch({ rowStart, rowEnd, columns, orderBy, signal })))
+    }
+    checkSignal(signal)
+    // the group header rows have no cell values, they are not exported
+    const lines = rows.filter(row => !data.getGroup?.({ row, orderBy })).map((row) => {
+      const values = columns.map((column) => {
+        const cell = data.getCell({ row, column, orderBy })
+        if (!cell) {
+          throw new Error(`Cell not found for row ${row} and column ${column}`)
+        }
+        return cell.value
+      })
+      return `${formatRow(values)}\n`
+    })
+    if (lines.length > 0) {
+      yield lines.join('')
+    }
+  }
+}
+
+// get the rows of the chunk whose row number is selected, fetching the row numbers if needed
+async function fetchSelectedRows<M extends Obj, C extends Obj>(
+  { data, rowStart, rowEnd, orderBy, selection, signal }: { data: DataFrame<M, C>, rowStart: number, rowEnd: number, orderBy?: OrderBy, selection: Selection, signal?: AbortSignal }
+): Promise<number[]> {
+  await data.fetch?.({ rowStart, rowEnd, orderBy, signal })
+  checkSignal(signal)
+  const rows: number[] = []
+  for (let row = rowStart; row < rowEnd; row++) {
+    if (data.getGroup?.({ row, orderBy })) {
+      // the group header rows have no row number, and cannot be selected
+      continue
+    }
+    const rowNumber = data.getRowNumber({ row, orderBy })?.value
+    if (rowNumber === undefined) {
+      throw new Error(`Row number is undefined for row ${row} with orderBy ${JSON.stringify(orderBy ?? [])}`)
+    }
+    if (isSelected({ ranges: selection.ranges, index: rowNumber })) {
+      rows.push(row)
+    }
+  }
+  return rows
+}
+
+function toCsvLine(fields: string[]): string {
+  return fields.map((field) => {
+    if (/[",\n\r]/.test(field)) {
+      return `"${field.replace(/"/g, '""')}"`
+    }
+    return field
+  }).join(',')
+}
+
+/** Serialize the bigints as strings (see bigintReplacer), and the undefined values as null, since JSON omits them */
+function jsonReplacer(key: string, value: unknown): unknown {
+  return value === undefined ? null : bigintReplacer(key, value)
+}
+
+function toJsonLine(row: Record<string, unknown>): string {
+  return JSON.stringify(row, jsonReplacer)
+}
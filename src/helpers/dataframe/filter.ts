@@ -0,0 +1,307 @@
+import type { OrderBy } from '../sort.js'
+import { deserializeOrderBy, serializeOrderBy } from '../sort.js'
+import { createEventTarget, TypedCustomEvent } from '../typedEventTarget.js'
+import { checkSignal, createSharedComputations, getContinuousRanges, validateColumn, validateFetchParams, validateRow } from './helpers.js'
+import type { Cells, DataFrame, DataFrameEvents, Obj, RejectedValue, ResolvedValue, SetCell } from './types.js'
+
+/**
+ * A predicate to select the rows of a DataFrame.
+ *
+ * @param cells The values of the row, keyed by column name. Only the columns passed in the `columns` option are included (all by default).
+ * @returns true if the row must be kept, false otherwise.
+ */
+export type RowPredicate = (cells: Cells) => boolean
+
+// The number of rows on which the predicate is evaluated at once, and fetched again if some cells were evicted.
+const filterChunkSize = 1000
+
+/**
+ * Wrap a DataFrame to expose only the rows matching the predicate.
+ * This helper might not be efficient for large datasets, use with caution.
+ *
+ * The order of the rows is preserved, and orderBy is passed to the upstream data frame,
+ * so that it can be composed with sortableDataFrame in either order.
+ *
+ * The number of rows is only known once the predicate has been evaluated on all the rows. If the upstream data
+ * frame has no fetch method, it's done synchronously. Otherwise, numRows is 0 until the first call to fetch resolves,
+ * and a "numrowschange" event is dispatched when it changes. The matching rows are computed again when the upstream
+ * data frame dispatches "update" or "numrowschange". If it fails, an "error" event is dispatched, with the error as detail.
+ * Abort the signal option when the wrapper is discarded, to stop listening to the upstream events.
+ *
+ * @param data The DataFrame to wrap.
+ * @param predicate The function that decides which rows to keep.
+ * @param options Optional parameters.
+ * @param options.columns The columns required by the predicate. If not provided, all the columns are fetched and passed to the predicate.
+ * @param options.signal A signal to dispose the wrapper. When it's aborted, the upstream event listeners are removed.
+ *
+ * @returns A new DataFrame that only contains the matching rows.
+ */
+export function filterableDataFrame<M extends Obj, C extends Obj>(
+  data: DataFrame<M, C>, predicate: RowPredicate, options?: { columns?: string[], signal?: AbortSignal }
+): DataFrame<M, C> {
+  const predicateColumns = options?.columns ?? data.columnDescriptors.map(c => c.name)
+  const disposeSignal = options?.signal
+  // Validate that all the predicate columns are present in the header.
+  for (const column of predicateColumns) {
+    validateColumn({ column, data: { columnDescriptors: data.columnDescriptors } })
+  }
+
+  const columnDescriptors = data.columnDescriptors.map(({ name, sortable, type, metadata }) => ({
+    name,
+    sortable,
+    type,
+    metadata: structuredClone(metadata), // Create a deep copy of the column metadata to avoid mutating the original
+  }))
+  const metadata = structuredClone(data.metadata) // Create a deep copy of the metadata to avoid mutating the original
+  const eventTarget = createEventTarget<DataFrameEvents>()
+
+  // The cache cannot be erased publicly. But it will be refreshed on each data change
+  // The upstream row indexes of the matching rows, for every orderBy.
+  const indexesByOrderBy = new Map<string, number[]>()
+  let numRows = 0
+
+  function setIndexes({ orderBy, indexes }: { orderBy: OrderBy, indexes: number[] }) {
+    indexesByOrderBy.set(serializeOrderBy(orderBy), indexes)
+    // The number of matching rows does not depend on the order.
+    if (indexes.length !== numRows) {
+      numRows = indexes.length
+      return true
+    }
+    return false
+  }
+  // The pending computations of the matching rows, shared by the concurrent calls with the same orderBy.
+  const pendingIndexes = createSharedComputations<number[]>()
+  function computeCache({ orderBy, signal, refresh }: { orderBy: OrderBy, signal?: AbortSignal, refresh?: boolean }): Promise<number[]> {
+    const serializedOrderBy = serializeOrderBy(orderBy)
+    function compute(signal?: AbortSignal) {
+      return fetchFilteredIndexes({
+        orderBy,
+        signal,
+        setIndexes: ({ orderBy, indexes }) => {
+          const hasNumRowsChanged = setIndexes({ orderBy, indexes })
+          if (!refresh) {
+            // Notify the event target that the number of rows and the indexes have been updated.
+            if (hasNumRowsChanged) {
+              eventTarget.dispatchEvent(new CustomEvent('numrowschange'))
+            }
+            eventTarget.dispatchEvent(new CustomEvent('resolve'))
+          }
+        },
+        predicate,
+        predicateColumns,
+        data,
+      })
+    }
+    if (refresh) {
+      // The pending computation might be based on stale upstream data: the next calls start a new one.
+      pendingIndexes.drop(serializedOrderBy)
+      return compute(signal)
+    }
+    const indexes = indexesByOrderBy.get(serializedOrderBy)
+    if (indexes) {
+      return Promise.resolve(indexes)
+    }
+    return pendingIndexes.run({ key: serializedOrderBy, signal, compute })
+  }
+  async function refreshCaches() {
+    const previousNumRows = numRows
+    await Promise.all([...indexesByOrderBy.keys()].map(serializedOrderBy =>
+      computeCache({ orderBy: deserializeOrderBy(serializedOrderBy), refresh: true })
+    ))
+    if (numRows !== previousNumRows) {
+      eventTarget.dispatchEvent(new CustomEvent('numrowschange'))
+    }
+  }
+  function refreshAfterUpstreamChange() {
+    refreshCaches().then(() => {
+      eventTarget.dispatchEvent(new CustomEvent('update'))
+    }).catch((error: unknown) => {
+      if (disposeSignal?.aborted) {
+        // The wrapper has been discarded in the meantime, nobody listens to its errors anymore.
+        return
+      }
+      // The listeners cannot return the error, so it's dispatched instead.
+      eventTarget.dispatchEvent(new TypedCustomEvent('error', { detail: error }))
+    })
+  }
+  data.eventTarget?.addEventListener('update', () => {
+    // the update notification might be delayed if refreshing the caches takes time
+    // it might not be optimal to refresh all caches on every update, but it's the simplest way to ensure consistency
+    // also: during the refresh, the data might be in an inconsistent state
+    refreshAfterUpstreamChange()
+  }, { signal: disposeSignal })
+  data.eventTarget?.addEventListener('numrowschange', () => {
+    // the upstream rows have changed, so the set of matching rows might have changed too.
+    // "numrowschange" is dispatched in refreshCaches if the number of matching rows has changed.
+    refreshAfterUpstreamChange()
+  }, { signal: disposeSignal })
+
+  if (!data.fetch) {
+    // All the upstream cells are available synchronously: compute the matching rows right away, to know numRows.
+    const indexes = filterIndexes({ data, predicate, predicateColumns, rowStart: 0, rowEnd: data.numRows })
+    if (!indexes) {
+      throw new Error('Some cells are not available synchronously, but the data frame has no fetch method')
+    }
+    setIndexes({ orderBy: [], indexes })
+  }
+
+  const getUpstreamRow: ({ row, orderBy }: { row: number, orderBy?: OrderBy }) => ResolvedValue<number> | undefined = function ({ row, orderBy }) {
+    // numRows: Infinity because the upstream data size can change dynamically.
+    validateRow({ row, data: { numRows: Infinity } })
+    const indexes = indexesByOrderBy.get(serializeOrderBy(orderBy ?? []))
+    const upstreamRow = indexes?.[row]
+    if (upstreamRow === undefined) {
+      return undefined
+    }
+    return { value: upstreamRow }
+  }
+
+  const getRowNumber: ({ row, orderBy }: { row: number, orderBy?: OrderBy }) => ResolvedValue<number> | undefined = function ({ row, orderBy }) {
+    const upstreamRow = getUpstreamRow({ row, orderBy })
+    if (!upstreamRow) {
+      // If we can't resolve the upstream row, we return undefined.
+      return undefined
+    }
+    return data.getRowNumber({ row: upstreamRow.value, orderBy })
+  }
+
+  const getCell: ({ row, column, orderBy }: { row: number, column: string, orderBy?: OrderBy }) => ResolvedValue | undefined = function ({ row, column, orderBy }) {
+    validateColumn({ column, data: { columnDescriptors } })
+    const upstreamRow = getUpstreamRow({ row, orderBy })
+    if (!upstreamRow) {
+      // If we can't resolve the upstream row, we return undefined.
+      return undefined
+    }
+    return data.getCell({ row: upstreamRow.value, column, orderBy })
+  }
+
+  const getRowNumberError: ({ row, orderBy }: { row: number, orderBy?: OrderBy }) => RejectedValue | undefined = function ({ row, orderBy }) {
+    const upstreamRow = getUpstreamRow({ row, orderBy })
+    return upstreamRow && data.getRowNumberError?.({ row: upstreamRow.value, orderBy })
+  }
+
+  const getCellError: ({ row, column, orderBy }: { row: number, column: string, orderBy?: OrderBy }) => RejectedValue | undefined = function ({ row, column, orderBy }) {
+    validateColumn({ column, data: { columnDescriptors } })
+    const upstreamRow = getUpstreamRow({ row, orderBy })
+    return upstreamRow && data.getCellError?.({ row: upstreamRow.value, column, orderBy })
+  }
+
+  const fetch: ({ rowStart, rowEnd, columns, orderBy, signal }: { rowStart: number, rowEnd: number, columns?: string[], orderBy?: OrderBy, signal?: AbortSignal }) => Promise<void> = async function ({ rowStart, rowEnd, columns, orderBy, signal }) {
+    // numRows: Infinity because the number of matching rows is not known before the first fetch.
+    validateFetchParams({ rowStart, rowEnd, columns, orderBy, data: { numRows: Infinity, columnDescriptors } })
+    function callback() {
+      eventTarget.dispatchEvent(new CustomEvent('resolve'))
+    }
+    data.eventTarget?.addEventListener('resolve', callback)
+
+    try {
+      // Ensure the matching rows are known, even if the range is empty, since it gives the number of rows.
+      const indexes = await computeCache({ orderBy: orderBy ?? [], signal })
+
+      if (rowStart === rowEnd || !data.fetch) {
+        // Nothing more to fetch.
+        return
+      }
+
+      // Ensure cells and row numbers are available, grouping the fetches by consecutive upstream rows.
+      // The indexes are sorted since the filter preserves the upstream order.
+      const ranges = getContinuousRanges(indexes.slice(rowStart, rowEnd))
+      const { fetch } = data
+      await Promise.all(ranges.map(({ rowStart, rowEnd }) => fetch({ rowStart, rowEnd, columns, orderBy, signal })))
+    } finally {
+      data.eventTarget?.removeEventListener('resolve', callback)
+    }
+  }
+
+  const upstreamSetCell = data.setCell?.bind(data)
+  const setCell: SetCell | undefined = upstreamSetCell && async function ({ row, column, value, orderBy }) {
+    validateColumn({ column, data: { columnDescriptors } })
+    const upstreamRow = getUpstreamRow({ row, orderBy })
+    if (!upstreamRow) {
+      throw new Error(`Row ${row} is not resolved yet with orderBy ${JSON.stringify(orderBy ?? [])}`)
+    }
+    // the matching rows are computed again on the upstream "update" event
+    await upstreamSetCell({ row: upstreamRow.value, column, value, orderBy })
+  }
+
+  return {
+    metadata,
+    columnDescriptors,
+    getRowNumber,
+    getCell,
+    getRowNumberError,
+    getCellError,
+    fetch,
+    setCell,
+    eventTarget,
+    exclusiveSort: data.exclusiveSort,
+    get numRows() {
+      return numRows
+    },
+  }
+}
+
+/**
+ * Get the upstream row indexes of the rows matching the predicate, fetching the required cells if needed.
+ *
+ * @param {Object} params
+ * @param {OrderBy} params.orderBy The order of the upstream rows.
+ * @param {AbortSignal} [params.signal] A signal to cancel the computation. If the signal is aborted, the function rejects with an AbortError DOMException.
+ * @param {Function} [params.setIndexes] A function to store the computed indexes.
+ * @param {RowPredicate} params.predicate The function that decides which rows to keep.
+ * @param {string[]} params.predicateColumns The columns passed to the predicate.
+ * @param {DataFrame} params.data The upstream data frame.
+ *
+ * @returns {Promise<number[]>} A promise that resolves to the sorted list of the upstream row indexes that match the predicate.
+ */
+async function fetchFilteredIndexes<M extends Obj, C extends Obj>(
+  { orderBy, signal, setIndexes, predicate, predicateColumns, data }: { orderBy: OrderBy, signal?: AbortSignal, setIndexes?: ({ orderBy, indexes }: { orderBy: OrderBy, indexes: number[] }) => void, predicate: RowPredicate, predicateColumns: string[], data: DataFrame<M, C> }
+): Promise<number[]> {
+  // First, fetch the predicate columns for all the upstream rows.
+  const { numRows } = data
+  await data.fetch?.({ rowStart: 0, rowEnd: numRows, columns: predicateColumns, orderBy, signal })
+  checkSignal(signal)
+  // Then, evaluate the predicate by chunks. The upstream data frame might have evicted some cells from its cache
+  // in the meantime (see cachedDataFrame): the chunk is fetched again in that case.
+  const indexes: number[] = []
+  for (let rowStart = 0; rowStart < numRows; rowStart += filterChunkSize) {
+    const rowEnd = Math.min(rowStart + filterChunkSize, numRows)
+    let chunkIndexes = filterIndexes({ data, predicate, predicateColumns, orderBy, rowStart, rowEnd })
+    if (!chunkIndexes && data.fetch) {
+      await data.fetch({ rowStart, rowEnd, columns: predicateColumns, orderBy, signal })
+      checkSignal(signal)
+      chunkIndexes = filterIndexes({ data, predicate, predicateColumns, orderBy, rowStart, rowEnd })
+    }
+    if (!chunkIndexes) {
+      throw new Error(`Cells not found between rows ${rowStart} and ${rowEnd}`)
+    }
+    indexes.push(...chunkIndexes)
+  }
+  setIndexes?.({ orderBy, indexes })
+  return indexes
+}
+
+/**
+ * Get the upstream row indexes of the rows matching the predicate, in a range of rows.
+ *
+ * @returns The matching row indexes, or undefined if some cells are not available.
+ */
+function filterIndexes<M extends Obj, C extends Obj>(
+  { data, predicate, predicateColumns, orderBy, rowStart, rowEnd }: { data: DataFrame<M, C>, predicate: RowPredicate, predicateColumns: string[], orderBy?: OrderBy, rowStart: number, rowEnd: number }
+): number[] | undefined {
+  const indexes: number[] = []
+  for (let row = rowStart; row < rowEnd; row++) {
+    const cells: Cells = {}
+    for (const column of predicateColumns) {
+      const cell = data.getCell({ row, column, orderBy })
+      if (!cell) {
+        return undefined
+      }
+      cells[column] = cell.value
+    }
+    if (predicate(cells)) {
+      indexes.push(row)
+    }
+  }
+  return indexes
+}
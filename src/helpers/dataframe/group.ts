@@ -0,0 +1,457 @@
+import type { OrderBy } from '../sort.js'
+import { computeRanks, deserializeOrderBy, serializeOrderBy } from '../sort.js'
+import { createEventTarget, TypedCustomEvent } from '../typedEventTarget.js'
+import type { AggregateFunction, Aggregates } from './aggregate.js'
+import { aggregateDataFrame, aggregateValues } from './aggregate.js'
+import { bigintReplacer, checkSignal, createSharedComputations, getContinuousRanges, validateColumn, validateFetchParams, validateRow } from './helpers.js'
+import { columnStatsDataFrame } from './stats.js'
+import type { DataFrame, DataFrameEvents, Obj, RejectedValue, ResolvedValue, SetCell } from './types.js'
+
+/**
+ * A group of rows, that have the same values in the grouping columns.
+ *
+ * The groups are nested: a group at depth 1 is a subgroup of a group at depth 0, etc.
+ */
+export interface Group {
+  /**
+   * The key of the group, unique in the data frame: the JSON serialization of the values of the grouping columns,
+   * from the outermost group to this one (see getGroupKey). It's used to collapse and expand the group.
+   */
+  key: string
+  /** The grouping column */
+  column: string
+  /** The value of the grouping column, shared by all the rows of the group */
+  value: unknown
+  /** The nesting level of the group, 0 for the outermost groups */
+  depth: number
+  /** The number of data rows in the group, including the collapsed ones */
+  count: number
+  /** Whether the group is collapsed, i.e. its rows and subgroups are hidden */
+  collapsed: boolean
+  /** The aggregates of the rows of the group, keyed by column, if the aggregates option is set */
+  aggregates?: Record<string, Aggregates>
+}
+
+export type GetGroup = ({ row, orderBy }: { row: number, orderBy?: OrderBy }) => Group | undefined
+
+/**
+ * A data frame grouped with groupedDataFrame.
+ */
+export type GroupedDataFrame<M extends Obj = Obj, C extends Obj = Obj> = DataFrame<M, C> & {
+  getGroup: GetGroup
+  /**
+   * Collapse or expand the groups, without computing the groups again.
+   *
+   * It dispatches the "numrowschange" event if the number of rows has changed, and the "update" event.
+   *
+   * @param collapsedGroups The keys of the collapsed groups (see getGroupKey)
+   */
+  setCollapsedGroups: (collapsedGroups: string[]) => void
+}
+
+/**
+ * The rows of a grouped data frame: a group header, or a data row, with its index in the upstream data frame.
+ */
+type GroupedRow = { group: Group } | { upstreamRow: number }
+/**
+ * The rows of a grouped data frame before collapsing the groups, with the keys of the groups that contain the row,
+ * from the outermost to the innermost one.
+ */
+type GroupedEntry = ({ group: Omit<Group, 'collapsed'> } | { upstreamRow: number }) & { parentKeys: string[] }
+
+/**
+ * Get the key of a group, from the values of the grouping columns, from the outermost group to this one.
+ *
+ * The null and undefined values are in the same group, and so are the dates with the same time.
+ *
+ * @param values The values of the grouping columns
+ * @returns The key of the group
+ */
+export function getGroupKey(values: unknown[]): string {
+  return JSON.stringify(values.map(toGroupingValue), bigintReplacer)
+}
+
+/**
+ * Wrap a DataFrame to group its rows by the values of one or more columns.
+ * This helper might not be efficient for large datasets, use with caution.
+ *
+ * Every group is preceded by a group header row (see getGroup), and the groups are sorted by value, in ascending
+ * order, with the null values last. Inside a group, the rows keep the order of the upstream data frame, so that
+ * orderBy sorts the rows of every group. The rows of the collapsed groups are not included. The groups can be
+ * collapsed and expanded later with setCollapsedGroups.
+ *
+ * The group header rows have no cell values (getCell returns undefined values) and no row number (getRowNumber
+ * returns undefined): use getGroup to tell them apart from the data rows.
+ *
+ * As for filterableDataFrame, the groups are only known once the grouping columns have been fetched for all the rows.
+ * If the upstream data frame has no fetch method, it's done synchronously. Otherwise, numRows is 0 until the first
+ * call to fetch resolves, and a "numrowschange" event is dispatched when it changes. The groups are computed again
+ * when the upstream data frame dispatches "update" or "numrowschange". If it fails, an "error" event is dispatched,
+ * with the error as detail. Abort the signal option when the wrapper is discarded, to stop listening to the upstream
+ * events.
+ *
+ * @param data The DataFrame to wrap.
+ * @param options The grouping options.
+ * @param options.groupBy The grouping columns, from the outermost group to the innermost one.
+ * @param options.collapsedGroups The keys of the collapsed groups (see getGroupKey). Defaults to none.
+ * @param options.aggregates The aggregate functions to compute for every group. Defaults to none.
+ * @param options.aggregatedColumns The columns to aggregate. Defaults to all the columns, except the grouping ones.
+ * @param options.signal A signal to dispose the wrapper. When it's aborted, the upstream event listeners are removed.
+ *
+ * @returns A new DataFrame with the group header rows, that implements getGroup and setCollapsedGroups.
+ */
+export function groupedDataFrame<M extends Obj, C extends Obj>(
+  data: DataFrame<M, C>,
+  options: { groupBy: string[], collapsedGroups?: string[], aggregates?: AggregateFunction[], aggregatedColumns?: string[], signal?: AbortSignal }
+): GroupedDataFrame<M, C> {
+  const { groupBy, aggregates, signal: disposeSignal } = options
+  if (groupBy.length === 0) {
+    throw new Error('groupBy must contain at least one column')
+  }
+  const aggregatedColumns = aggregates && aggregates.length > 0
+    ? options.aggregatedColumns ?? data.columnDescriptors.map(c => c.name).filter(name => !groupBy.includes(name))
+    : []
+  // Validate that all the grouping and aggregated columns are present in the header.
+  for (const column of [...groupBy, ...aggregatedColumns]) {
+    validateColumn({ column, data: { columnDescriptors: data.columnDescriptors } })
+  }
+  let collapsedGroups = new Set(options.collapsedGroups)
+
+  const columnDescriptors = data.columnDescriptors.map(({ name, sortable, type, metadata }) => ({
+    name,
+    sortable,
+    type,
+    metadata: structuredClone(metadata), // Create a deep copy of the column metadata to avoid mutating the original
+  }))
+  const metadata = structuredClone(data.metadata) // Create a deep copy of the metadata to avoid mutating the original
+  const eventTarget = createEventTarget<DataFrameEvents>()
+
+  // The cache cannot be erased publicly. But it will be refreshed on each data change
+  // The grouped rows, with all the groups expanded, and the visible rows, for every orderBy.
+  const entriesByOrderBy = new Map<string, GroupedEntry[]>()
+  const rowsByOrderBy = new Map<string, GroupedRow[]>()
+  let numRows = 0
+
+  function setEntries({ orderBy, entries }: { orderBy: OrderBy, entries: GroupedEntry[] }) {
+    const serializedOrderBy = serializeOrderBy(orderBy)
+    entriesByOrderBy.set(serializedOrderBy, entries)
+    const rows = collapseGroups({ entries, collapsedGroups })
+    rowsByOrderBy.set(serializedOrderBy, rows)
+    // The number of rows does not depend on the order.
+    if (rows.length !== numRows) {
+      numRows = rows.length
+      return true
+    }
+    return false
+  }
+  // The pending computations of the groups, shared by the concurrent calls with the same orderBy.
+  const pendingEntries = createSharedComputations<GroupedEntry[]>()
+  function computeCache({ orderBy, signal, refresh }: { orderBy: OrderBy, signal?: AbortSignal, refresh?: boolean }): Promise<GroupedEntry[]> {
+    const serializedOrderBy = serializeOrderBy(orderBy)
+    async function compute(signal?: AbortSignal) {
+      // Fetch the grouping and aggregated columns for all the upstream rows.
+      await data.fetch?.({ rowStart: 0, rowEnd: data.numRows, columns: [...groupBy, ...aggregatedColumns], orderBy, signal })
+      checkSignal(signal)
+      const entries = groupRows({ data, groupBy, aggregates, aggregatedColumns, orderBy })
+      const hasNumRowsChanged = setEntries({ orderBy, entries })
+      if (!refresh) {
+        // Notify the event target that the number of rows and the groups have been updated.
+        if (hasNumRowsChanged) {
+          eventTarget.dispatchEvent(new CustomEvent('numrowschange'))
+        }
+        eventTarget.dispatchEvent(new CustomEvent('resolve'))
+      }
+      return entries
+    }
+    if (refresh) {
+      // The pending computation might be based on stale upstream data: the next calls start a new one.
+      pendingEntries.drop(serializedOrderBy)
+      return compute(signal)
+    }
+    const cachedEntries = entriesByOrderBy.get(serializedOrderBy)
+    if (cachedEntries) {
+      return Promise.resolve(cachedEntries)
+    }
+    return pendingEntries.run({ key: serializedOrderBy, signal, compute })
+  }
+  async function refreshCaches() {
+    const previousNumRows = numRows
+    await Promise.all([...rowsByOrderBy.keys()].map(serializedOrderBy =>
+      computeCache({ orderBy: deserializeOrderBy(serializedOrderBy), refresh: true })
+    ))
+    if (numRows !== previousNumRows) {
+      eventTarget.dispatchEvent(new CustomEvent('numrowschange'))
+    }
+  }
+  function refreshAfterUpstreamChange() {
+    refreshCaches().then(() => {
+      eventTarget.dispatchEvent(new CustomEvent('update'))
+    }).catch((error: unknown) => {
+      if (disposeSignal?.aborted) {
+        // The wrapper has been discarded in the meantime, nobody listens to its errors anymore.
+        return
+      }
+      // The listeners cannot return the error, so it's dispatched instead.
+      eventTarget.dispatchEvent(new TypedCustomEvent('error', { detail: error }))
+    })
+  }
+  data.eventTarget?.addEventListener('update', () => {
+    // the values of the grouping columns might have changed, so the groups are computed again
+    refreshAfterUpstreamChange()
+  }, { signal: disposeSignal })
+  data.eventTarget?.addEventListener('numrowschange', () => {
+    // "numrowschange" is dispatched in refreshCaches if the number of grouped rows has changed.
+    refreshAfterUpstreamChange()
+  }, { signal: disposeSignal })
+
+  if (!data.fetch) {
+    // All the upstream cells are available synchronously: compute the groups right away, to know numRows.
+    setEntries({ orderBy: [], entries: groupRows({ data, groupBy, aggregates, aggregatedColumns }) })
+  }
+
+  function setCollapsedGroups(keys: string[]) {
+    collapsedGroups = new Set(keys)
+    const previousNumRows = numRows
+    for (const [serializedOrderBy, entries] of entriesByOrderBy) {
+      const rows = collapseGroups({ entries, collapsedGroups })
+      rowsByOrderBy.set(serializedOrderBy, rows)
+      numRows = rows.length
+    }
+    if (numRows !== previousNumRows) {
+      eventTarget.dispatchEvent(new CustomEvent('numrowschange'))
+    }
+    eventTarget.dispatchEvent(new CustomEvent('update'))
+  }
+
+  function getGroupedRow({ row, orderBy }: { row: number, orderBy?: OrderBy }): GroupedRow | undefined {
+    // numRows: Infinity because the upstream data size can change dynamically.
+    validateRow({ row, data: { numRows: Infinity } })
+    return rowsByOrderBy.get(serializeOrderBy(orderBy ?? []))?.[row]
+  }
+
+  const getGroup: GetGroup = function ({ row, orderBy }) {
+    const groupedRow = getGroupedRow({ row, orderBy })
+    return groupedRow && 'group' in groupedRow ? groupedRow.group : undefined
+  }
+
+  const getRowNumber: ({ row, orderBy }: { row: number, orderBy?: OrderBy }) => ResolvedValue<number> | undefined = function ({ row, orderBy }) {
+    const groupedRow = getGroupedRow({ row, orderBy })
+    if (!groupedRow || 'group' in groupedRow) {
+      // If we can't resolve the grouped row, or if it's a group header row, we return undefined.
+      return undefined
+    }
+    return data.getRowNumber({ row: groupedRow.upstreamRow, orderBy })
+  }
+
+  const getCell: ({ row, column, orderBy }: { row: number, column: string, orderBy?: OrderBy }) => ResolvedValue | undefined = function ({ row, column, orderBy }) {
+    validateColumn({ column, data: { columnDescriptors } })
+    const groupedRow = getGroupedRow({ row, orderBy })
+    if (!groupedRow) {
+      // If we can't resolve the grouped row, we return undefined.
+      return undefined
+    }
+    if ('group' in groupedRow) {
+      // The group header rows have no cell values.
+      return { value: undefined }
+    }
+    return data.getCell({ row: groupedRow.upstreamRow, column, orderBy })
+  }
+
+  const getRowNumberError: ({ row, orderBy }: { row: number, orderBy?: OrderBy }) => RejectedValue | undefined = function ({ row, orderBy }) {
+    const groupedRow = getGroupedRow({ row, orderBy })
+    if (!groupedRow || 'group' in groupedRow) {
+      return undefined
+    }
+    return data.getRowNumberError?.({ row: groupedRow.upstreamRow, orderBy })
+  }
+
+  const getCellError: ({ row, column, orderBy }: { row: number, column: string, orderBy?: OrderBy }) => RejectedValue | undefined = function ({ row, column, orderBy }) {
+    validateColumn({ column, data: { columnDescriptors } })
+    const groupedRow = getGroupedRow({ row, orderBy })
+    if (!groupedRow || 'group' in groupedRow) {
+      return undefined
+    }
+    return data.getCellError?.({ row: groupedRow.upstreamRow, column, orderBy })
+  }
+
+  const fetch: ({ rowStart, rowEnd, columns, orderBy, signal }: { rowStart: number, rowEnd: number, columns?: string[], orderBy?: OrderBy, signal?: AbortSignal }) => Promise<void> = async function ({ rowStart, rowEnd, columns, orderBy, signal }) {
+    // numRows: Infinity because the number of grouped rows is not known before the first fetch.
+    validateFetchParams({ rowStart, rowEnd, columns, orderBy, data: { numRows: Infinity, columnDescriptors } })
+    function callback() {
+      eventTarget.dispatchEvent(new CustomEvent('resolve'))
+    }
+    data.eventTarget?.addEventListener('resolve', callback)
+
+    try {
+      // Ensure the groups are known, even if the range is empty, since they give the number of rows.
+      await computeCache({ orderBy: orderBy ?? [], signal })
+      const rows = rowsByOrderBy.get(serializeOrderBy(orderBy ?? [])) ?? []
+
+      if (rowStart === rowEnd || !data.fetch) {
+        // Nothing more to fetch.
+        return
+      }
+
+      // Ensure cells and row numbers are available, grouping the fetches by consecutive upstream rows.
+      // The group header rows have nothing to fetch.
+      const upstreamRows = rows.slice(rowStart, rowEnd).flatMap(groupedRow => 'group' in groupedRow ? [] : [groupedRow.upstreamRow])
+      const ranges = getContinuousRanges(upstreamRows.sort((a, b) => a - b))
+      const { fetch } = data
+      await Promise.all(ranges.map(({ rowStart, rowEnd }) => fetch({ rowStart, rowEnd, columns, orderBy, signal })))
+    } finally {
+      data.eventTarget?.removeEventListener('resolve', callback)
+    }
+  }
+
+  const upstreamSetCell = data.setCell?.bind(data)
+  const setCell: SetCell | undefined = upstreamSetCell && async function ({ row, column, value, orderBy }) {
+    validateColumn({ column, data: { columnDescriptors } })
+    const groupedRow = getGroupedRow({ row, orderBy })
+    if (!groupedRow) {
+      throw new Error(`Row ${row} is not resolved yet with orderBy ${JSON.stringify(orderBy ?? [])}`)
+    }
+    if ('group' in groupedRow) {
+      throw new Error(`Row ${row} is a group header row, its cells cannot be set`)
+    }
+    // the groups are computed again on the upstream "update" event
+    await upstreamSetCell({ row: groupedRow.upstreamRow, column, value, orderBy })
+  }
+
+  return {
+    metadata,
+    columnDescriptors,
+    getGroup,
+    setCollapsedGroups,
+    getRowNumber,
+    getCell,
+    getRowNumberError,
+    getCellError,
+    fetch,
+    setCell,
+    // the group header rows must not be aggregated nor counted in the statistics: the upstream rows are used instead
+    aggregate: params => aggregateDataFrame(data, params),
+    columnStats: params => columnStatsDataFrame(data, params),
+    eventTarget,
+    exclusiveSort: data.exclusiveSort,
+    get numRows() {
+      return numRows
+    },
+  }
+}
+
+/**
+ * Group the upstream rows, and insert the group header rows.
+ *
+ * The groups are sorted by the ranks of the grouping values (see computeRanks), and the rows of a group keep their
+ * upstream order. All the groups are expanded (see collapseGroups).
+ */
+function groupRows<M extends Obj, C extends Obj>(
+  { data, groupBy, aggregates, aggregatedColumns, orderBy }: { data: DataFrame<M, C>, groupBy: string[], aggregates?: AggregateFunction[], aggregatedColumns: string[], orderBy?: OrderBy }
+): GroupedEntry[] {
+  function getColumnValues(column: string): unknown[] {
+    return Array.from({ length: data.numRows }, (_, row) => {
+      const cell = data.getCell({ row, column, orderBy })
+      if (!cell) {
+        throw new Error(`Cell not found for row ${row} and column ${column}`)
+      }
+      return cell.value
+    })
+  }
+  const valuesByLevel = groupBy.map(getColumnValues)
+  const ranksByLevel = valuesByLevel.map(values => computeRanks(values.map(toGroupingValue)))
+
+  // Sort the upstream rows by group. Inside a group, the upstream order is kept.
+  const upstreamRows = Array.from({ length: data.numRows }, (_, i) => i).sort((a, b) => {
+    for (const ranks of ranksByLevel) {
+      const rankA = ranks[a]
+      const rankB = ranks[b]
+      if (rankA === undefined || rankB === undefined) {
+        throw new Error('Invalid ranks')
+      }
+      if (rankA !== rankB) return rankA - rankB
+    }
+    return a - b
+  })
+
+  const entries: GroupedEntry[] = []
+  // The upstream rows of every group, to compute the aggregates
+  const groupUpstreamRows = new Map<Omit<Group, 'collapsed'>, number[]>()
+  // The groups that contain the current row, from the outermost to the innermost one
+  const openGroups: Omit<Group, 'collapsed'>[] = []
+  let parentKeys: string[] = []
+  let previousRow: number | undefined = undefined
+  for (const upstreamRow of upstreamRows) {
+    // The first level where the row is not in the same group as the previous row (-1 if it's in the same groups)
+    const previous = previousRow
+    const newGroupsDepth = previous === undefined
+      ? 0
+      : ranksByLevel.findIndex(ranks => ranks[upstreamRow] !== ranks[previous])
+    if (newGroupsDepth !== -1) {
+      openGroups.length = newGroupsDepth
+      for (const [depth, column] of groupBy.entries()) {
+        if (depth < newGroupsDepth) {
+          continue
+        }
+        const group = {
+          key: getGroupKey(valuesByLevel.slice(0, depth + 1).map(values => values[upstreamRow])),
+          column,
+          value: valuesByLevel[depth]?.[upstreamRow],
+          depth,
+          count: 0,
+        }
+        entries.push({ group, parentKeys: openGroups.map(({ key }) => key) })
+        openGroups.push(group)
+        groupUpstreamRows.set(group, [])
+      }
+      // shared by all the rows of the group
+      parentKeys = openGroups.map(({ key }) => key)
+    }
+    for (const group of openGroups) {
+      group.count++
+      groupUpstreamRows.get(group)?.push(upstreamRow)
+    }
+    entries.push({ upstreamRow, parentKeys })
+    previousRow = upstreamRow
+  }
+
+  if (aggregates && aggregates.length > 0) {
+    const valuesByColumn = new Map(aggregatedColumns.map(column => [column, getColumnValues(column)]))
+    for (const [group, groupRows] of groupUpstreamRows) {
+      group.aggregates = Object.fromEntries([...valuesByColumn].map(([column, values]) => [
+        column,
+        aggregateValues({ values: groupRows.map(row => values[row]), functions: aggregates }),
+      ]))
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Skip the rows and the subgroups of the collapsed groups.
+ */
+function collapseGroups({ entries, collapsedGroups }: { entries: GroupedEntry[], collapsedGroups: Set<string> }): GroupedRow[] {
+  const rows: GroupedRow[] = []
+  for (const entry of entries) {
+    if (entry.parentKeys.some(key => collapsedGroups.has(key))) {
+      continue
+    }
+    if ('group' in entry) {
+      rows.push({ group: { ...entry.group, collapsed: collapsedGroups.has(entry.group.key) } })
+    } else {
+      rows.push({ upstreamRow: entry.upstreamRow })
+    }
+  }
+  return rows
+}
+
+/**
+ * Convert a value to a value that can be compared with === to group the rows: the null and undefined values
+ * are grouped together, the dates are compared by time, and the objects by their serialization.
+ */
+function toGroupingValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return value.getTime()
+  if (typeof value === 'object') return JSON.stringify(value, bigintReplacer)
+  return value
+}
@@ -59,6 +59,70 @@ export function checkSignal(signal?: AbortSignal): void {
   }
 }
 
+/** Wrap the thrown values that are not errors (e.g. strings), so that they can be reported with a message */
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
+
+/** A JSON.stringify replacer that serializes the bigints as strings, since JSON does not support them */
+export function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value
+}
+
+/**
+ * Convert a value to text without losing information, so that it can be parsed back (e.g. when editing or
+ * exporting a cell). Unlike the displayed text, it's not formatted (no thousands separators).
+ *
+ * The dates are converted to ISO strings, and the objects and arrays to JSON. Null, undefined and the values that
+ * cannot be converted (e.g. functions) give an empty text.
+ *
+ * @param value The value
+ * @returns The text
+ */
+export function toLosslessText(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'number' || typeof value === 'bigint' || typeof value === 'boolean') return value.toString()
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') return JSON.stringify(value, bigintReplacer)
+  return ''
+}
+
+/**
+ * Get a key that identifies a value, to count the distinct values with a Set or a Map: the dates and the objects are
+ * keyed by their serialization, the other values by identity.
+ */
+export function getDistinctKey(value: unknown): unknown {
+  if (value instanceof Date) return `date:${value.getTime()}`
+  if (typeof value === 'object' && value !== null) return `json:${JSON.stringify(value, bigintReplacer)}`
+  return value
+}
+
+/**
+ * Compare two values, to find the min and max of a column: the numbers and bigints by value, the strings by UTF-16 code
+ * units, the dates by time, and the other values by their string representation. The values of different types are
+ * compared by their string representation.
+ *
+ * @param a The first value, not null or undefined
+ * @param b The second value, not null or undefined
+ * @returns A negative number if a < b, a positive number if a > b, and 0 if they are equal
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const x = toComparable(a)
+  const y = toComparable(b)
+  if (typeof x === 'string' || typeof y === 'string') {
+    const [s, t] = [String(x), String(y)]
+    return s < t ? -1 : s > t ? 1 : 0
+  }
+  return x < y ? -1 : x > y ? 1 : 0
+}
+
+function toComparable(value: unknown): number | bigint | string {
+  if (typeof value === 'number' || typeof value === 'bigint' || typeof value === 'string') return value
+  if (value instanceof Date) return value.getTime()
+  return String(value)
+}
+
 export function getContinuousRanges(sortedRows: number[]): { rowStart: number, rowEnd: number }[] {
   // We assume sortedRows is already sorted and contains unique values.
   const ranges: { rowStart: number, rowEnd: number }[] = []
@@ -81,3 +145,67 @@ export function getContinuousRanges(sortedRows: number[]): { rowStart: number, r
   }
   return ranges
 }
+
+interface SharedComputation<T> {
+  promise: Promise<T>
+  controller: AbortController
+  numWaiting: number
+}
+
+/**
+ * Share the pending computations by key (e.g. the serialized orderBy), so that the concurrent calls with the same key
+ * wait for the same computation instead of starting their own.
+ *
+ * The computation is removed when it settles, or with drop (e.g. on refresh, since its result might be stale). It's
+ * only aborted when all the calls that wait for it are aborted.
+ */
+export function createSharedComputations<T>() {
+  const computations = new Map<string, SharedComputation<T>>()
+
+  function start({ key, compute }: { key: string, compute: (signal: AbortSignal) => Promise<T> }): SharedComputation<T> {
+    const controller = new AbortController()
+    const promise = compute(controller.signal).finally(() => {
+      if (computations.get(key) === computation) {
+        computations.delete(key)
+      }
+    })
+    // the errors are handled by the waiting calls
+    promise.catch(() => undefined)
+    const computation: SharedComputation<T> = { promise, controller, numWaiting: 0 }
+    computations.set(key, computation)
+    return computation
+  }
+
+  async function run({ key, signal, compute }: { key: string, signal?: AbortSignal, compute: (signal: AbortSignal) => Promise<T> }): Promise<T> {
+    checkSignal(signal)
+    const computation = computations.get(key) ?? start({ key, compute })
+    computation.numWaiting++
+    let rejectAborted: (reason: Error) => void = () => undefined
+    const aborted = new Promise<never>((_, reject) => {
+      rejectAborted = reject
+    })
+    function onAbort() {
+      rejectAborted(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+    signal?.addEventListener('abort', onAbort)
+    try {
+      return await Promise.race([computation.promise, aborted])
+    } finally {
+      signal?.removeEventListener('abort', onAbort)
+      computation.numWaiting--
+      if (computation.numWaiting === 0 && signal?.aborted) {
+        // no call waits for the computation anymore: cancel it, and let the next calls start it again
+        computation.controller.abort()
+        if (computations.get(key) === computation) {
+          computations.delete(key)
+        }
+      }
+    }
+  }
+
+  function drop(key: string) {
+    computations.delete(key)
+  }
+
+  return { run, drop }
+}
@@ -1,4 +1,18 @@
+export type { Aggregate, AggregateFunction, AggregateOptions, AggregateParams, Aggregates } from './aggregate.js'
+export { aggregateDataFrame, aggregateFunctions } from './aggregate.js'
 export { arrayDataFrame } from './array.js'
+export type { CachedDataFrameOptions, FetchRows } from './cached.js'
+export { cachedDataFrame } from './cached.js'
+export type { ExportFormat, ExportOptions } from './export.js'
+export { exportDataFrame } from './export.js'
+export type { RowPredicate } from './filter.js'
+export { filterableDataFrame } from './filter.js'
+export type { GetGroup, Group, GroupedDataFrame } from './group.js'
+export { getGroupKey, groupedDataFrame } from './group.js'
 export { checkSignal, createGetRowNumber, validateColumn, validateFetchParams, validateGetCellParams, validateGetRowNumberParams, validateOrderBy, validateRow } from './helpers.js'
+export type { Search, SearchMatch, SearchOptions, SearchParams } from './search.js'
+export { searchDataFrame } from './search.js'
 export { fetchIndexes, sortableDataFrame } from './sort.js'
-export type { Cells, ColumnDescriptor, DataFrame, DataFrameEvents, Fetch, Obj, ResolvedValue } from './types.js'
+export type { ColumnStats, ColumnStatsOptions, ColumnStatsParams, ComputeColumnStats, HistogramBin, TopValue } from './stats.js'
+export { columnStatsDataFrame } from './stats.js'
+export type { Cells, ColumnDescriptor, ColumnType, DataFrame, DataFrameEvents, Fetch, Obj, RejectedValue, ResolvedValue, SetCell } from './types.js'
@@ -0,0 +1,120 @@
+import { stringify as defaultStringify } from '../../utils/stringify.js'
+import type { OrderBy } from '../sort.js'
+import { checkSignal, validateColumn } from './helpers.js'
+import type { DataFrame, Obj } from './types.js'
+
+/**
+ * A cell that matches the search query.
+ */
+export interface SearchMatch {
+  /** The row index in the data frame, sorted by orderBy if defined (same as the row parameter of getCell) */
+  row: number
+  /** The column name */
+  column: string
+}
+
+export interface SearchParams {
+  /** The text to search. A cell matches if its text contains the query. */
+  query: string
+  /** The columns to search, in order. Defaults to all the columns of the data frame. */
+  columns?: string[]
+  /** The order of the rows. Defaults to the data frame order. */
+  orderBy?: OrderBy
+  /** If true, the letter case must match. Defaults to false. */
+  caseSensitive?: boolean
+  /** A signal to cancel the search. If it's aborted, the promise rejects with an AbortError DOMException. */
+  signal?: AbortSignal
+}
+
+export type Search = (params: SearchParams) => Promise<SearchMatch[]>
+
+export interface SearchOptions extends SearchParams {
+  /**
+   * Function to convert the cell values to text, when the data frame has no search method.
+   * Defaults to the stringify function used to display the cells.
+   */
+  stringify?: (value: unknown) => string | undefined
+  /** The number of rows fetched at once, when the data frame has no search method. Defaults to 1000. */
+  chunkSize?: number
+}
+
+const defaultChunkSize = 1000
+
+/**
+ * Search a text in the cells of a data frame.
+ *
+ * If the data frame implements the search method, it's used. Otherwise, the rows are fetched
+ * page by page (see the chunkSize option), and the stringified values are compared to the query.
+ *
+ * The matches are sorted by row, then by column (in the order of the columns option).
+ * An empty query matches nothing.
+ *
+ * @example
+ * ```ts
+ * const matches = await searchDataFrame(data, { query: 'john', columns: ['name', 'email'] })
+ * ```
+ *
+ * @param data The data frame
+ * @param options The search options
+ * @returns A promise that resolves to the matching cells
+ */
+export async function searchDataFrame<M extends Obj, C extends Obj>(
+  data: DataFrame<M, C>, options: SearchOptions
+): Promise<SearchMatch[]> {
+  const { query, orderBy, caseSensitive, signal, stringify, chunkSize } = options
+  const columns = options.columns ?? data.columnDescriptors.map(c => c.name)
+  for (const column of columns) {
+    validateColumn({ column, data })
+  }
+  checkSignal(signal)
+  if (query === '' || columns.length === 0) {
+    return []
+  }
+  if (data.search) {
+    return data.search({ query, columns, orderBy, caseSensitive, signal })
+  }
+  return scanSearch({ data, numRows: data.numRows, query, columns, orderBy, caseSensitive, signal, stringify, chunkSize })
+}
+
+/**
+ * Search a text by fetching all the rows, in chunks, and comparing the stringified values to the query.
+ *
+ * It's the fallback when the data frame has no search method.
+ */
+export async function scanSearch(
+  { data, numRows, query, columns, orderBy, caseSensitive, signal, stringify = defaultStringify, chunkSize = defaultChunkSize }: SearchOptions & {
+    data: Pick<DataFrame, 'getCell' | 'fetch'>
+    numRows: number
+    columns: string[]
+  }
+): Promise<SearchMatch[]> {
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new Error(`Invalid chunk size: ${chunkSize}. It must be a positive integer.`)
+  }
+  const matches: SearchMatch[] = []
+  if (query === '') {
+    return matches
+  }
+  const normalizedQuery = caseSensitive ? query : query.toLowerCase()
+  for (let rowStart = 0; rowStart < numRows; rowStart += chunkSize) {
+    const rowEnd = Math.min(rowStart + chunkSize, numRows)
+    await data.fetch?.({ rowStart, rowEnd, columns, orderBy, signal })
+    checkSignal(signal)
+    for (let row = rowStart; row < rowEnd; row++) {
+      for (const column of columns) {
+        const cell = data.getCell({ row, column, orderBy })
+        if (!cell) {
+          throw new Error(`Cell not found for row ${row} and column ${column}`)
+        }
+        const text = stringify(cell.value)
+        if (text === undefined) {
+          continue
+        }
+        if ((caseSensitive ? text : text.toLowerCase()).includes(normalizedQuery)) {
+          matches.push({ row, column })
+        }
+      }
+    }
+  }
+  return matches
+}
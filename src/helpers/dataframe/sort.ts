@@ -1,8 +1,9 @@
 import type { OrderBy } from '../sort.js'
 import { computeRanks, deserializeOrderBy, serializeOrderBy, validateOrderByAgainstSortableColumns } from '../sort.js'
 import { createEventTarget } from '../typedEventTarget.js'
-import { checkSignal, validateColumn, validateFetchParams, validateRow } from './helpers.js'
-import type { DataFrame, DataFrameEvents, Obj, ResolvedValue } from './types.js'
+import { checkSignal, toError, validateColumn, validateFetchParams, validateRow } from './helpers.js'
+import type { Search } from './search.js'
+import type { DataFrame, DataFrameEvents, Obj, RejectedValue, ResolvedValue, SetCell } from './types.js'
 
 /**
  * Wrap a DataFrame to make it sortable on the specified columns.
@@ -39,9 +40,10 @@ export function sortableDataFrame<M extends Obj, C extends Obj>(
     return data
   }
 
-  const columnDescriptors = data.columnDescriptors.map(({ name, metadata }) => ({
+  const columnDescriptors = data.columnDescriptors.map(({ name, type, metadata }) => ({
     name,
     sortable: sortableColumns.has(name),
+    type,
     metadata: structuredClone(metadata), // Create a deep copy of the column metadata to avoid mutating the original
   }))
   const metadata = structuredClone(data.metadata) // Create a deep copy of the metadata to avoid mutating the original
@@ -50,6 +52,8 @@ export function sortableDataFrame<M extends Obj, C extends Obj>(
   // The cache cannot be erased publicly. But it will be refreshed on each data change
   const ranksByColumn = new Map<string, number[]>()
   const indexesByOrderBy = new Map<string, number[]>()
+  // The errors of the sorts that failed, until they are computed successfully
+  const errorsByOrderBy = new Map<string, Error>()
   function computeCache({ orderBy, signal, refresh }: { orderBy: OrderBy, signal?: AbortSignal, refresh?: boolean }) {
     return fetchIndexes({
       orderBy,
@@ -59,6 +63,7 @@ export function sortableDataFrame<M extends Obj, C extends Obj>(
       setIndexes: ({ orderBy, indexes }) => {
         // Store the indexes in the map.
         indexesByOrderBy.set(serializeOrderBy(orderBy), indexes)
+        errorsByOrderBy.delete(serializeOrderBy(orderBy))
         if (!refresh) {
           // Notify the event target that the indexes have been updated.
           eventTarget.dispatchEvent(new CustomEvent('resolve'))
@@ -127,6 +132,26 @@ export function sortableDataFrame<M extends Obj, C extends Obj>(
     return data.getCell({ row: upstreamRow.value, column })
   }
 
+  const getRowNumberError: ({ row, orderBy }: { row: number, orderBy?: OrderBy }) => RejectedValue | undefined = function ({ row, orderBy }) {
+    const upstreamRow = getUpstreamRow({ row, orderBy })
+    if (!upstreamRow) {
+      // The rows could not be sorted.
+      const error = errorsByOrderBy.get(serializeOrderBy(orderBy ?? []))
+      return error ? { error } : undefined
+    }
+    return data.getRowNumberError?.({ row: upstreamRow.value })
+  }
+
+  const getCellError: ({ row, column, orderBy }: { row: number, column: string, orderBy?: OrderBy }) => RejectedValue | undefined = function ({ row, column, orderBy }) {
+    validateColumn({ column, data: { columnDescriptors } })
+    const upstreamRow = getUpstreamRow({ row, orderBy })
+    if (!upstreamRow) {
+      // The cells cannot be resolved if the rows could not be sorted.
+      return getRowNumberError({ row, orderBy })
+    }
+    return data.getCellError?.({ row: upstreamRow.value, column })
+  }
+
   const fetch: ({ rowStart, rowEnd, columns, orderBy, signal }: { rowStart: number, rowEnd: number, columns?: string[], orderBy?: OrderBy, signal?: AbortSignal }) => Promise<void> = async function ({ rowStart, rowEnd, columns, orderBy, signal }) {
     // numRows: Infinity because the upstream data size can change dynamically.
     validateFetchParams({ rowStart, rowEnd, columns, orderBy, data: { numRows: Infinity, columnDescriptors } })
@@ -147,7 +172,13 @@ export function sortableDataFrame<M extends Obj, C extends Obj>(
       }
 
       // Ensure row numbers are available
-      const indexes = await computeCache({ orderBy, signal })
+      const indexes = await computeCache({ orderBy, signal }).catch((error: unknown) => {
+        if (!signal?.aborted) {
+          errorsByOrderBy.set(serializeOrderBy(orderBy), toError(error))
+          eventTarget.dispatchEvent(new CustomEvent('resolve'))
+        }
+        throw error
+      })
 
       // Ensure cells are available
       if (columns && columns.length > 0 && data.fetch) {
@@ -158,12 +189,50 @@ export function sortableDataFrame<M extends Obj, C extends Obj>(
     }
   }
 
+  const upstreamSetCell = data.setCell?.bind(data)
+  const setCell: SetCell | undefined = upstreamSetCell && async function ({ row, column, value, orderBy }) {
+    validateColumn({ column, data: { columnDescriptors } })
+    const upstreamRow = getUpstreamRow({ row, orderBy })
+    if (!upstreamRow) {
+      throw new Error(`Row ${row} is not resolved yet with orderBy ${JSON.stringify(orderBy ?? [])}`)
+    }
+    // the caches are refreshed on the upstream "update" event
+    await upstreamSetCell({ row: upstreamRow.value, column, value })
+  }
+
+  const upstreamSearch = data.search?.bind(data)
+  const search: Search | undefined = upstreamSearch && async function ({ query, columns, orderBy, caseSensitive, signal }) {
+    validateOrderByAgainstSortableColumns({ orderBy, sortableColumns, exclusiveSort })
+    const matches = await upstreamSearch({ query, columns, caseSensitive, signal })
+    if (!orderBy || orderBy.length === 0) {
+      return matches
+    }
+    // Convert the upstream rows to the sorted rows, and sort the matches again.
+    const indexes = await computeCache({ orderBy, signal })
+    const rowsByUpstreamRow = new Map(indexes.map((upstreamRow, row) => [upstreamRow, row]))
+    const columnNames = columns ?? columnDescriptors.map(c => c.name)
+    return matches.map(({ row, column }) => {
+      const sortedRow = rowsByUpstreamRow.get(row)
+      if (sortedRow === undefined) {
+        throw new Error(`Invalid row in the search results: ${row}`)
+      }
+      return { row: sortedRow, column }
+    }).sort((a, b) => a.row - b.row || columnNames.indexOf(a.column) - columnNames.indexOf(b.column))
+  }
+
   return {
     metadata,
     columnDescriptors,
     getRowNumber,
     getCell,
+    getRowNumberError,
+    getCellError,
     fetch,
+    setCell,
+    // the aggregates and the statistics don't depend on the order of the rows
+    aggregate: data.aggregate?.bind(data),
+    columnStats: data.columnStats?.bind(data),
+    search,
     eventTarget,
     exclusiveSort,
     get numRows() {
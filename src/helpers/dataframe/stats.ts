@@ -0,0 +1,224 @@
+import { checkSignal, compareValues, getDistinctKey, validateColumn } from './helpers.js'
+import type { DataFrame, Obj } from './types.js'
+
+/** A bin of the histogram of a column: the number of values between start (inclusive) and end (exclusive, inclusive for the last bin) */
+export interface HistogramBin {
+  start: number
+  end: number
+  count: number
+}
+
+/** A frequent value of a column, and its number of occurrences */
+export interface TopValue {
+  value: unknown
+  count: number
+}
+
+/**
+ * The statistics of a column.
+ */
+export interface ColumnStats {
+  /** The number of rows */
+  count: number
+  /** The number of null or undefined values */
+  nullCount: number
+  /** The number of distinct values, ignoring the null and undefined values */
+  distinctCount: number
+  /** The minimum value, ignoring the null and undefined values (see compareValues). Undefined if there is no value. */
+  min?: unknown
+  /** The maximum value, ignoring the null and undefined values (see compareValues). Undefined if there is no value. */
+  max?: unknown
+  /** The most frequent values, sorted by decreasing number of occurrences. Empty if there is no value. */
+  topValues: TopValue[]
+  /**
+   * The histogram of the values, in bins of equal width, if all the values (ignoring the null and undefined values)
+   * are numbers, bigints or dates. The dates are binned by their timestamp in milliseconds.
+   */
+  histogram?: HistogramBin[]
+}
+
+export interface ColumnStatsParams {
+  /** The column */
+  column: string
+  /** A signal to cancel the computation. If it's aborted, the promise rejects with an AbortError DOMException. */
+  signal?: AbortSignal
+}
+
+export type ComputeColumnStats = (params: ColumnStatsParams) => Promise<ColumnStats>
+
+export interface ColumnStatsOptions extends ColumnStatsParams {
+  /** The number of rows fetched at once, when the data frame has no columnStats method. Defaults to 1000. */
+  chunkSize?: number
+  /** The number of bins of the histogram, when the data frame has no columnStats method. Defaults to 20. */
+  numBins?: number
+  /** The number of top values, when the data frame has no columnStats method. Defaults to 5. */
+  numTopValues?: number
+}
+
+const defaultChunkSize = 1000
+const defaultNumBins = 20
+const defaultNumTopValues = 5
+
+/**
+ * Compute the statistics of a column: counts, extreme values, top values and histogram.
+ *
+ * If the data frame implements the columnStats method, it's used. Otherwise, the rows are fetched
+ * page by page (see the chunkSize option), and the statistics are updated with every page.
+ *
+ * @example
+ * ```ts
+ * const { min, max, topValues, histogram } = await columnStatsDataFrame(data, { column: 'price' })
+ * ```
+ *
+ * @param data The data frame
+ * @param options The column statistics options
+ * @returns A promise that resolves to the statistics of the column
+ */
+export async function columnStatsDataFrame<M extends Obj, C extends Obj>(
+  data: DataFrame<M, C>, options: ColumnStatsOptions
+): Promise<ColumnStats> {
+  const { column, signal } = options
+  validateColumn({ column, data })
+  checkSignal(signal)
+  if (data.columnStats) {
+    return data.columnStats({ column, signal })
+  }
+  return scanColumnStats({ ...options, data, numRows: data.numRows })
+}
+
+/**
+ * Compute the statistics of a column by fetching all the rows, in chunks.
+ *
+ * It's the fallback when the data frame has no columnStats method. The order of the rows does not matter.
+ */
+export async function scanColumnStats(
+  { data, numRows, column, signal, chunkSize = defaultChunkSize, numBins, numTopValues }: ColumnStatsOptions & {
+    data: Pick<DataFrame, 'getCell' | 'fetch' | 'getGroup'>
+    numRows: number
+  }
+): Promise<ColumnStats> {
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new Error(`Invalid chunk size: ${chunkSize}. It must be a positive integer.`)
+  }
+  const accumulator = createAccumulator({ numBins, numTopValues })
+  for (let rowStart = 0; rowStart < numRows; rowStart += chunkSize) {
+    const rowEnd = Math.min(rowStart + chunkSize, numRows)
+    await data.fetch?.({ rowStart, rowEnd, columns: [column], signal })
+    checkSignal(signal)
+    for (let row = rowStart; row < rowEnd; row++) {
+      if (data.getGroup?.({ row })) {
+        // the group header rows have no cell values
+        continue
+      }
+      const cell = data.getCell({ row, column })
+      if (!cell) {
+        throw new Error(`Cell not found for row ${row} and column ${column}`)
+      }
+      accumulator.add(cell.value)
+    }
+  }
+  return accumulator.getStats()
+}
+
+/**
+ * Compute the statistics of a list of values, already fetched.
+ */
+export function computeValuesStats(
+  { values, numBins, numTopValues }: { values: Iterable<unknown>, numBins?: number, numTopValues?: number }
+): ColumnStats {
+  const accumulator = createAccumulator({ numBins, numTopValues })
+  for (const value of values) {
+    accumulator.add(value)
+  }
+  return accumulator.getStats()
+}
+
+function createAccumulator({ numBins = defaultNumBins, numTopValues = defaultNumTopValues }: { numBins?: number, numTopValues?: number }) {
+  if (!Number.isInteger(numBins) || numBins <= 0) {
+    throw new Error(`Invalid number of bins: ${numBins}. It must be a positive integer.`)
+  }
+  let count = 0
+  let nullCount = 0
+  let min: unknown = undefined
+  let max: unknown = undefined
+  // the occurrences of the distinct values, keyed as in the aggregates (see getDistinctKey)
+  const occurrences = new Map<unknown, TopValue>()
+  // the occurrences of the values as numbers, for the histogram, or undefined if a value is not numeric
+  let numericOccurrences: Map<number, number> | undefined = new Map()
+
+  function add(value: unknown) {
+    count++
+    if (value === null || value === undefined) {
+      nullCount++
+      return
+    }
+    if (min === undefined || compareValues(value, min) < 0) min = value
+    if (max === undefined || compareValues(value, max) > 0) max = value
+
+    const key = getDistinctKey(value)
+    const occurrence = occurrences.get(key)
+    if (occurrence) {
+      occurrence.count++
+    } else {
+      occurrences.set(key, { value, count: 1 })
+    }
+
+    if (numericOccurrences) {
+      const numericValue = toNumber(value)
+      if (numericValue === undefined) {
+        numericOccurrences = undefined
+      } else {
+        numericOccurrences.set(numericValue, (numericOccurrences.get(numericValue) ?? 0) + 1)
+      }
+    }
+  }
+
+  function getStats(): ColumnStats {
+    // the sort is stable: the values with the same count keep the order of their first occurrence
+    const topValues = [...occurrences.values()].sort((a, b) => b.count - a.count).slice(0, numTopValues)
+    const histogram = numericOccurrences && numericOccurrences.size > 0 ? computeHistogram(numericOccurrences, numBins) : undefined
+    return { count, nullCount, distinctCount: occurrences.size, min, max, topValues, histogram }
+  }
+
+  return { add, getStats }
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return isFinite(value) ? value : undefined
+  if (typeof value === 'bigint') return Number(value)
+  if (value instanceof Date) {
+    const time = value.getTime()
+    return isNaN(time) ? undefined : time
+  }
+}
+
+/**
+ * Compute the histogram from the number of occurrences of every numeric value, once their range is known.
+ */
+function computeHistogram(occurrences: Map<number, number>, numBins: number): HistogramBin[] {
+  let min = Infinity
+  let max = -Infinity
+  let total = 0
+  for (const [value, count] of occurrences) {
+    if (value < min) min = value
+    if (value > max) max = value
+    total += count
+  }
+  if (min === max) {
+    // a single bin for a constant column
+    return [{ start: min, end: max, count: total }]
+  }
+  const width = (max - min) / numBins
+  const bins = Array.from({ length: numBins }, (_, i) => ({
+    start: min + i * width,
+    end: i === numBins - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }))
+  for (const [value, count] of occurrences) {
+    // the maximum value is in the last bin
+    const index = Math.min(Math.floor((value - min) / width), numBins - 1)
+    const bin = bins[index]
+    if (bin) bin.count += count
+  }
+  return bins
+}
@@ -1,5 +1,9 @@
 import type { OrderBy } from '../sort.js'
 import type { CustomEventTarget } from '../typedEventTarget.js'
+import type { Aggregate } from './aggregate.js'
+import type { GetGroup } from './group.js'
+import type { Search } from './search.js'
+import type { ComputeColumnStats } from './stats.js'
 
 export type Obj = Record<string, any>
 
@@ -13,6 +17,14 @@ export interface ResolvedValue<T = any> {
   value: T
 }
 
+/**
+ * A rejected value, when the value could not be fetched.
+ */
+export interface RejectedValue {
+  /** The error of the last failed fetch. */
+  error: Error
+}
+
 /**
  * Events emitted by DataFrame instances.
  */
@@ -22,15 +34,31 @@ export interface DataFrameEvents {
    */
   numrowschange: undefined
   /**
-   * Emitted when a cell value has resolved.
+   * Emitted when a cell value has resolved, or has failed to resolve.
    */
   resolve: undefined
   /**
    * Emitted when some data has been updated (e.g. a cell value).
    */
   update: undefined
+  /**
+   * Emitted when an asynchronous operation fails outside of a method call (e.g. refreshing the rows after an
+   * upstream update). The detail is the error.
+   */
+  error: unknown
 }
 
+/**
+ * The type of the values of a column, used to pick a default cell renderer:
+ * - 'number': right-aligned
+ * - 'boolean': centered
+ * - 'date' and 'timestamp': formatted as a date, or a date and a time, in UTC
+ * - 'json', 'list' and 'struct': collapsed on a single line
+ * - 'binary': hexadecimal preview of the first bytes
+ * - 'string': stringified, as the columns without type
+ */
+export type ColumnType = 'string' | 'number' | 'boolean' | 'date' | 'timestamp' | 'json' | 'binary' | 'list' | 'struct'
+
 /**
  * Descriptor for a single column in a DataFrame.
  */
@@ -39,16 +67,21 @@ export interface ColumnDescriptor<C extends Obj = Obj> {
   name: string
   /** Whether the column is sortable. Defaults to false. */
   sortable?: boolean
+  /** Type of the values, used to pick a default cell renderer. Can be overridden in the column configuration. */
+  type?: ColumnType
   /** Custom metadata extendable by the user */
   metadata?: C
 }
 
 export type Fetch = ({ rowStart, rowEnd, columns, orderBy, signal }: { rowStart: number, rowEnd: number, columns?: string[], orderBy?: OrderBy, signal?: AbortSignal }) => Promise<void>
 
-// TODO(SL): here, we mention "immutable data", but we have an event "update" in DataFrameEvents. Clarify.
+export type SetCell = ({ row, column, value, orderBy }: { row: number, column: string, value: unknown, orderBy?: OrderBy }) => Promise<void>
 
 /**
- * DataFrame is an interface for a data structure that represents a table of immutable data.
+ * DataFrame is an interface for a data structure that represents a table of data.
+ *
+ * The data is read-only, unless the data frame implements the setCell method. It can also be updated
+ * by the data source, in which case the "update" event is dispatched.
  *
  * The data can be fetched in chunks, and the table can subscribe to changes using the eventTarget.
  *
@@ -113,6 +146,33 @@ export interface DataFrame<M extends Obj = Obj, C extends Obj = Obj> {
     orderBy?: OrderBy
   }): ResolvedValue<number> | undefined
 
+  /**
+   * Get the error of a cell that could not be fetched, at the given row and column, optionally sorted by orderBy.
+   *
+   * This method is optional. If it's implemented, the table shows an error marker with the message instead of
+   * a loading placeholder, and a button to fetch the cell again.
+   *
+   * getCellError does NOT initiate a fetch. The error is kept until the cell is fetched again successfully, and the
+   * "resolve" event is dispatched when the error is set.
+   *
+   * @param row - The row index in the data frame (0 = first row).
+   * @param column - The column name.
+   * @param orderBy - Optional sorting criteria.
+   * @returns The rejected value, or undefined if the cell has not failed (pending or resolved).
+   */
+  getCellError?({ row, column, orderBy }: { row: number, column: string, orderBy?: OrderBy }): RejectedValue | undefined
+
+  /**
+   * Get the error of a row number that could not be fetched, e.g. if the rows could not be sorted.
+   *
+   * This method is optional, see getCellError.
+   *
+   * @param row - The row index in the data frame (0 = first row).
+   * @param orderBy - Optional sorting criteria.
+   * @returns The rejected value, or undefined if the row number has not failed (pending or resolved).
+   */
+  getRowNumberError?({ row, orderBy }: { row: number, orderBy?: OrderBy }): RejectedValue | undefined
+
   /**
    * Fetch the required data (the required columns and the row numbers) asynchronously.
    *
@@ -139,6 +199,96 @@ export interface DataFrame<M extends Obj = Obj, C extends Obj = Obj> {
    */
   fetch?: Fetch
 
+  /**
+   * Set the value of a cell asynchronously.
+   *
+   * This method is optional. If it's implemented, the cells can be edited in the table (see the `editable`
+   * column configuration).
+   *
+   * It's responsible for dispatching the "update" event once the new value is available synchronously with getCell.
+   *
+   * It rejects if the value cannot be set (e.g. invalid value or row not loaded yet).
+   *
+   * @param row - The row index in the data frame (0 = first row), sorted by orderBy if defined.
+   * @param column - The column name.
+   * @param value - The new value.
+   * @param orderBy - Optional sorting criteria.
+   * @returns A promise that resolves when the value has been set.
+   */
+  setCell?: SetCell
+
+  /**
+   * Compute aggregates (count, null count, min, max, sum, mean, distinct count) of a column asynchronously.
+   *
+   * This method is optional. If it's not implemented, the aggregates are computed by fetching all the rows
+   * in chunks (see aggregateDataFrame). Implement it if the data source can compute them more efficiently,
+   * e.g. from file statistics or with a query.
+   *
+   * The order of the rows does not matter. Only the functions in the `functions` parameter must be computed.
+   *
+   * It rejects on the first error, which can be the signal abort (it must throw `AbortError`).
+   *
+   * @param column - The column name.
+   * @param functions - The aggregate functions to compute.
+   * @param selection - If defined, only the rows whose row number is selected must be aggregated.
+   * @param signal - Optional AbortSignal to cancel the computation.
+   * @returns A promise that resolves to the results, keyed by function.
+   */
+  aggregate?: Aggregate
+
+  /**
+   * Compute the statistics of a column asynchronously: counts, extreme values, top values and histogram.
+   *
+   * This method is optional. If it's not implemented, the statistics are computed by fetching all the rows
+   * in chunks (see columnStatsDataFrame). Implement it if the data source can compute them more efficiently,
+   * e.g. from the Parquet statistics or with a query.
+   *
+   * The order of the rows does not matter. The histogram is optional, and the number of bins and of top values
+   * is up to the implementation.
+   *
+   * It rejects on the first error, which can be the signal abort (it must throw `AbortError`).
+   *
+   * @param column - The column name.
+   * @param signal - Optional AbortSignal to cancel the computation.
+   * @returns A promise that resolves to the statistics of the column.
+   */
+  columnStats?: ComputeColumnStats
+
+  /**
+   * Search a text in the cells asynchronously.
+   *
+   * This method is optional. If it's not implemented, the search is done by fetching all the rows
+   * in chunks and comparing the stringified values (see searchDataFrame). Implement it if the data source
+   * can search more efficiently, e.g. with a query.
+   *
+   * A cell matches if its text contains the query (ignoring the letter case, unless caseSensitive is true).
+   * The matches must be sorted by row, then by column in the order of the `columns` parameter.
+   *
+   * It rejects on the first error, which can be the signal abort (it must throw `AbortError`).
+   *
+   * @param query - The text to search (not empty).
+   * @param columns - The columns to search.
+   * @param orderBy - Optional sorting criteria. The row of the matches is the row index in the sorted data frame.
+   * @param caseSensitive - If true, the letter case must match.
+   * @param signal - Optional AbortSignal to cancel the search.
+   * @returns A promise that resolves to the matching cells.
+   */
+  search?: Search
+
+  /**
+   * Get the group of a group header row.
+   *
+   * This method is optional. It's implemented by the data frames that contain group header rows (see
+   * groupedDataFrame). The table renders the group header rows with a toggle to collapse or expand the group.
+   *
+   * getGroup does NOT initiate a fetch, it just returns resolved data.
+   *
+   * @param row - The row index in the data frame (0 = first row).
+   * @param orderBy - Optional sorting criteria.
+   * @returns The group, or undefined if the row is a data row, or if it's not resolved yet.
+   */
+  getGroup?: GetGroup
+
   /**
    * Event target to subscribe to DataFrame events.
    *
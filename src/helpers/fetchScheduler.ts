@@ -0,0 +1,295 @@
+/** The priority of a fetched range of rows, from the highest to the lowest */
+export type FetchPriority = 'visible' | 'overscan' | 'prediction'
+
+const priorities: FetchPriority[] = ['visible', 'overscan', 'prediction']
+
+interface RowRange {
+  /** The first row (inclusive) */
+  rowStart: number
+  /** The last row (exclusive) */
+  rowEnd: number
+}
+
+/** A range of rows to fetch */
+export interface FetchRange extends RowRange {
+  priority: FetchPriority
+}
+
+export type ScrollDirection = 'up' | 'down'
+
+/**
+ * Get the ranges of rows to fetch, by decreasing priority:
+ * - the visible rows,
+ * - the overscan rows, in the scroll direction first,
+ * - the predicted rows: the next page of rows in the scroll direction, beyond the overscan rows.
+ *
+ * The empty ranges are omitted, except the visible range: fetching an empty range can still be needed to resolve
+ * the number of rows (see filterableDataFrame).
+ *
+ * @param params
+ * @param params.visibleRowsStart The first visible row (inclusive)
+ * @param params.visibleRowsEnd The last visible row (exclusive)
+ * @param params.overscan The number of rows to fetch before and after the visible rows
+ * @param params.numRows The number of rows of the data frame
+ * @param params.direction The scroll direction, if any. No rows are predicted if undefined.
+ * @returns The ranges, sorted by priority
+ */
+export function getFetchRanges({ visibleRowsStart, visibleRowsEnd, overscan, numRows, direction }: {
+  visibleRowsStart: number
+  visibleRowsEnd: number
+  overscan: number
+  numRows: number
+  direction?: ScrollDirection
+}): FetchRange[] {
+  const rowStart = Math.max(0, Math.min(visibleRowsStart, numRows))
+  const rowEnd = Math.max(rowStart, Math.min(visibleRowsEnd, numRows))
+  const overscanStart = Math.max(0, rowStart - overscan)
+  const overscanEnd = Math.min(numRows, rowEnd + overscan)
+  const pageSize = rowEnd - rowStart
+
+  const before: FetchRange = { rowStart: overscanStart, rowEnd: rowStart, priority: 'overscan' }
+  const after: FetchRange = { rowStart: rowEnd, rowEnd: overscanEnd, priority: 'overscan' }
+  const ranges: FetchRange[] = [
+    { rowStart, rowEnd, priority: 'visible' },
+    ...direction === 'up' ? [before, after] : [after, before],
+  ]
+  if (direction === 'down') {
+    ranges.push({ rowStart: overscanEnd, rowEnd: Math.min(numRows, overscanEnd + pageSize), priority: 'prediction' })
+  } else if (direction === 'up') {
+    ranges.push({ rowStart: Math.max(0, overscanStart - pageSize), rowEnd: overscanStart, priority: 'prediction' })
+  }
+  return ranges.filter(range => range.priority === 'visible' || range.rowStart < range.rowEnd)
+}
+
+/** Fetch the columns of a range of rows. The promise rejects with an AbortError if the signal is aborted. */
+type FetchRows = ({ rowStart, rowEnd, columns, signal }: { rowStart: number, rowEnd: number, columns: string[], signal: AbortSignal }) => Promise<void>
+
+/** The options of the automatic retries of the failed requests */
+export interface FetchRetryOptions {
+  /** The maximum number of retries of a failed request. 0 disables the automatic retries. */
+  maxRetries?: number
+  /** The delay before the first retry, in milliseconds. It doubles on every retry (exponential backoff). */
+  initialDelayMs?: number
+  /** The maximum delay before a retry, in milliseconds. */
+  maxDelayMs?: number
+}
+
+/** A failed request: the range of rows, the columns, and the attempt number (1 = first request, 2 = first retry, etc.) */
+export interface FetchAttempt {
+  rowStart: number
+  rowEnd: number
+  columns: string[]
+  attempt: number
+}
+
+export interface FetchScheduler {
+  /**
+   * Replace the ranges to fetch, and the columns.
+   *
+   * The ongoing requests that still overlap one of the ranges, and share a column, are kept, even if only partly
+   * useful, and the other ones are aborted. The same goes for the failed requests, waiting to be retried or not. The
+   * parts of the ranges, and the columns, that are not being fetched are queued by priority, and fetched as soon as
+   * the concurrency limit allows. For example, after a horizontal scroll, only the new columns of the rows that are
+   * being fetched are requested.
+   */
+  schedule: ({ ranges, columns, onError }: { ranges: FetchRange[], columns: string[], onError?: (error: unknown, attempt: FetchAttempt) => void }) => void
+  /** Fetch the failed requests again now, including the ones waiting for an automatic retry. The attempts are counted from 1 again. */
+  retryFailed: () => void
+  /**
+   * Abort the ongoing requests, empty the queue, and cancel the automatic retries. The failed requests are kept, to be
+   * fetched again with retryFailed. The scheduler can be used again afterwards.
+   */
+  abort: () => void
+}
+
+/** A range of rows, with the columns to fetch */
+interface CellsRange extends FetchRange {
+  columns: string[]
+}
+
+/** A range of rows and columns, with its attempt number */
+interface Attempt extends CellsRange {
+  attempt: number
+}
+
+interface Request extends Attempt {
+  controller: AbortController
+}
+
+interface PendingRetry extends Attempt {
+  timeout: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Create a scheduler that fetches the columns of prioritized ranges of rows, with a limited number of concurrent requests.
+ *
+ * A failed request is retried after a delay that doubles on every attempt, up to the maximum number of retries.
+ * Past it, the range is not requested again while it's scheduled, until retryFailed is called. The aborted requests
+ * are not retried.
+ *
+ * @param params
+ * @param params.fetchRows The function that fetches the columns of a range of rows
+ * @param params.maxConcurrentFetches The maximum number of ongoing requests
+ * @param params.retry The options of the automatic retries. No request is retried if undefined.
+ * @returns The scheduler
+ */
+export function createFetchScheduler({ fetchRows, maxConcurrentFetches, retry }: { fetchRows: FetchRows, maxConcurrentFetches: number, retry?: Required<FetchRetryOptions> }): FetchScheduler {
+  if (!Number.isInteger(maxConcurrentFetches) || maxConcurrentFetches < 1) {
+    throw new Error(`Invalid maximum number of concurrent fetches: ${maxConcurrentFetches}. It must be a positive integer.`)
+  }
+  const { maxRetries, initialDelayMs, maxDelayMs } = retry ?? { maxRetries: 0, initialDelayMs: 0, maxDelayMs: 0 }
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new Error(`Invalid maximum number of retries: ${maxRetries}. It must be a non-negative integer.`)
+  }
+  if (!(initialDelayMs >= 0) || !(maxDelayMs >= 0)) {
+    throw new Error(`Invalid retry delays: ${initialDelayMs}, ${maxDelayMs}. They must be non-negative numbers.`)
+  }
+  let ongoing: Request[] = []
+  let queue: Attempt[] = []
+  // the failed requests, waiting for an automatic retry
+  let pendingRetries: PendingRetry[] = []
+  // the failed requests, past the maximum number of retries
+  let failed: CellsRange[] = []
+  let handleError: ((error: unknown, attempt: FetchAttempt) => void) | undefined
+
+  function launch() {
+    let range = ongoing.length < maxConcurrentFetches ? queue.shift() : undefined
+    while (range) {
+      const request: Request = { ...range, controller: new AbortController() }
+      const { rowStart, rowEnd, columns, attempt } = request
+      ongoing.push(request)
+      fetchRows({ rowStart, rowEnd, columns, signal: request.controller.signal }).catch((error: unknown) => {
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          return
+        }
+        handleError?.(error, { rowStart, rowEnd, columns, attempt })
+        if (!request.controller.signal.aborted) {
+          retryLater(request)
+        }
+      }).finally(() => {
+        ongoing = ongoing.filter(r => r !== request)
+        launch()
+      })
+      range = ongoing.length < maxConcurrentFetches ? queue.shift() : undefined
+    }
+  }
+
+  function enqueue(ranges: Attempt[]) {
+    queue = [...queue, ...ranges].sort((a, b) => priorities.indexOf(a.priority) - priorities.indexOf(b.priority))
+    launch()
+  }
+
+  function retryLater({ rowStart, rowEnd, priority, columns, attempt }: Attempt) {
+    if (attempt > maxRetries) {
+      failed.push({ rowStart, rowEnd, priority, columns })
+      return
+    }
+    const range: Attempt = { rowStart, rowEnd, priority, columns, attempt: attempt + 1 }
+    const delay = Math.min(initialDelayMs * 2 ** (attempt - 1), maxDelayMs)
+    const pendingRetry: PendingRetry = {
+      ...range,
+      timeout: setTimeout(() => {
+        pendingRetries = pendingRetries.filter(r => r !== pendingRetry)
+        enqueue([range])
+      }, delay),
+    }
+    pendingRetries.push(pendingRetry)
+  }
+
+  function schedule({ ranges, columns, onError }: { ranges: FetchRange[], columns: string[], onError?: (error: unknown, attempt: FetchAttempt) => void }) {
+    handleError = onError
+    function isScheduled(other: CellsRange) {
+      return ranges.some(range => overlaps(range, other)) && sharesColumns(other.columns, columns)
+    }
+    ongoing = ongoing.filter((request) => {
+      if (isScheduled(request)) {
+        return true
+      }
+      request.controller.abort()
+      return false
+    })
+    pendingRetries = pendingRetries.filter((pendingRetry) => {
+      if (isScheduled(pendingRetry)) {
+        return true
+      }
+      clearTimeout(pendingRetry.timeout)
+      return false
+    })
+    failed = failed.filter(isScheduled)
+    queue = []
+    enqueue(ranges.flatMap(range => subtractRanges({ ...range, columns, attempt: 1 }, [...ongoing, ...pendingRetries, ...failed])))
+  }
+
+  function retryFailed() {
+    for (const pendingRetry of pendingRetries) {
+      clearTimeout(pendingRetry.timeout)
+    }
+    const ranges = [...pendingRetries, ...failed].map(({ rowStart, rowEnd, priority, columns }) => ({ rowStart, rowEnd, priority, columns, attempt: 1 }))
+    pendingRetries = []
+    failed = []
+    enqueue(ranges)
+  }
+
+  function abort() {
+    for (const request of ongoing) {
+      request.controller.abort()
+    }
+    for (const pendingRetry of pendingRetries) {
+      clearTimeout(pendingRetry.timeout)
+    }
+    // the failed requests are only forgotten when the scheduler is replaced, so that retryFailed can fetch them again
+    failed = [...failed, ...pendingRetries.map(({ rowStart, rowEnd, priority, columns }) => ({ rowStart, rowEnd, priority, columns }))]
+    ongoing = []
+    queue = []
+    pendingRetries = []
+  }
+
+  return { schedule, retryFailed, abort }
+}
+
+/**
+ * Whether two ranges of rows overlap.
+ *
+ * An empty range (see getFetchRanges) only overlaps the identical range, so that its request is not aborted and
+ * sent again on every schedule.
+ */
+function overlaps(a: RowRange, b: RowRange): boolean {
+  if (a.rowStart === a.rowEnd || b.rowStart === b.rowEnd) {
+    return a.rowStart === b.rowStart && a.rowEnd === b.rowEnd
+  }
+  return a.rowStart < b.rowEnd && b.rowStart < a.rowEnd
+}
+
+/**
+ * Whether a request of some columns is useful to fetch other columns: if they share a column, or if one of them has
+ * no columns, since it resolves the row numbers, which every request needs.
+ */
+function sharesColumns(columns: string[], otherColumns: string[]): boolean {
+  return columns.length === 0 || otherColumns.length === 0 || columns.some(column => otherColumns.includes(column))
+}
+
+/**
+ * Get the parts of a range that are not covered by the other ranges: the rows outside of the other ranges, with all
+ * the columns, and the rows inside them, with the missing columns only.
+ */
+function subtractRanges<T extends CellsRange>(range: T, others: CellsRange[]): T[] {
+  let parts = [range]
+  for (const other of others) {
+    parts = parts.flatMap((part) => {
+      if (!overlaps(part, other)) {
+        return [part]
+      }
+      const outside = [
+        { ...part, rowEnd: other.rowStart },
+        { ...part, rowStart: other.rowEnd },
+      ].filter(({ rowStart, rowEnd }) => rowStart < rowEnd)
+      const missingColumns = part.columns.filter(column => !other.columns.includes(column))
+      if (missingColumns.length === 0) {
+        return outside
+      }
+      const inside = { ...part, rowStart: Math.max(part.rowStart, other.rowStart), rowEnd: Math.min(part.rowEnd, other.rowEnd), columns: missingColumns }
+      return [...outside, inside]
+    })
+  }
+  return parts
+}
@@ -0,0 +1,119 @@
+import type { RowPredicate } from './dataframe/filter.js'
+import type { Cells } from './dataframe/types.js'
+
+/** Keep the rows whose stringified value contains the text (case-insensitive). */
+interface ContainsFilter {
+  type: 'contains'
+  /** The text to search for. */
+  value: string
+}
+
+/** Keep the rows whose stringified value is equal to the text. The numbers are stringified without locale, e.g. "1000.5". */
+interface EqualsFilter {
+  type: 'equals'
+  /** The expected stringified value. */
+  value: string
+}
+
+/** Keep the rows whose numeric value is in the range. The non-numeric values are excluded. */
+interface RangeFilter {
+  type: 'range'
+  /** Inclusive lower limit. No lower limit if undefined. */
+  min?: number
+  /** Inclusive upper limit. No upper limit if undefined. */
+  max?: number
+}
+
+/** Keep the rows whose value is null or undefined. */
+interface IsNullFilter {
+  type: 'isNull'
+}
+
+/** Keep the rows whose value is neither null nor undefined. */
+interface IsNotNullFilter {
+  type: 'isNotNull'
+}
+
+/** Keep the rows whose stringified value is one of the values of the list. The numbers are stringified without locale, as for EqualsFilter. */
+interface InFilter {
+  type: 'in'
+  /** The list of accepted stringified values. */
+  values: string[]
+}
+
+/** A filter on the values of a column. */
+export type ColumnFilter = ContainsFilter | EqualsFilter | RangeFilter | IsNullFilter | IsNotNullFilter | InFilter
+
+/** The type of a column filter. */
+export type FilterType = ColumnFilter['type']
+
+/**
+ * Filters is a record of column filters, keyed by column name. The rows must match all the filters.
+ *
+ * For example, to keep the rows where column "A" contains "foo" and column "B" is not null:
+ * ```ts
+ * const filters: Filters = {
+ *   A: { type: 'contains', value: 'foo' },
+ *   B: { type: 'isNotNull' },
+ * }
+ * ```
+ */
+export type Filters = Record<string, ColumnFilter | undefined>
+
+/**
+ * Check if a value matches a column filter.
+ *
+ * @param params
+ * @param params.value The cell value.
+ * @param params.filter The column filter.
+ * @param params.stringify The function used to stringify the value, for the text filters. For the equals and in filters,
+ * the numbers are stringified without locale instead, so that the filters don't depend on the locale.
+ * @returns true if the value matches the filter.
+ */
+export function matchesFilter({ value, filter, stringify }: { value: unknown, filter: ColumnFilter, stringify: (value: unknown) => string | undefined }): boolean {
+  switch (filter.type) {
+    case 'contains':
+      return stringify(value)?.toLowerCase().includes(filter.value.toLowerCase()) ?? false
+    case 'equals':
+      return toExactText({ value, stringify }) === filter.value
+    case 'range': {
+      if (typeof value !== 'number' && typeof value !== 'bigint') {
+        return false
+      }
+      const number = Number(value)
+      return (filter.min === undefined || number >= filter.min) && (filter.max === undefined || number <= filter.max)
+    }
+    case 'isNull':
+      return value === null || value === undefined
+    case 'isNotNull':
+      return value !== null && value !== undefined
+    case 'in': {
+      const str = toExactText({ value, stringify })
+      return str !== undefined && filter.values.includes(str)
+    }
+  }
+}
+
+/**
+ * Stringify a value for the exact match filters (equals and in). The numbers and bigints are stringified without
+ * locale, e.g. without thousands separators, so that a filter matches the same rows whatever the locale.
+ */
+function toExactText({ value, stringify }: { value: unknown, stringify: (value: unknown) => string | undefined }): string | undefined {
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString()
+  }
+  return stringify(value)
+}
+
+/**
+ * Create a row predicate, for filterableDataFrame, that keeps the rows matching all the filters.
+ *
+ * @param params
+ * @param params.filters The filters, keyed by column name. The undefined filters are ignored.
+ * @param params.stringify The function used to stringify the values, for the text filters.
+ * @returns The row predicate.
+ */
+export function createFiltersPredicate({ filters, stringify }: { filters: Filters, stringify: (value: unknown) => string | undefined }): RowPredicate {
+  const entries = Object.entries(filters).filter((entry): entry is [string, ColumnFilter] => entry[1] !== undefined)
+  return (cells: Cells) => entries.every(([column, filter]) => matchesFilter({ value: cells[column], filter, stringify }))
+}
@@ -0,0 +1,208 @@
+import type { StringifyFunction } from '../types.js'
+import { defaultLocale } from '../utils/stringify.js'
+import type { ColumnType } from './dataframe/types.js'
+
+/** Maximum number of bytes shown in the hexadecimal preview of the binary values */
+export const maxBinaryPreviewBytes = 8
+
+/**
+ * Formatting options of a column, applied with the Intl API when rendering, copying and exporting the values.
+ */
+export interface ColumnFormat {
+  /** Options of Intl.NumberFormat for the numbers and the bigints, e.g. { style: 'currency', currency: 'EUR' } */
+  number?: Intl.NumberFormatOptions
+  /**
+   * Options of Intl.DateTimeFormat for the dates, e.g. { dateStyle: 'medium', timeZone: 'Europe/Paris' }. They apply
+   * to the Date values, and to all the values of the columns with the date or timestamp type. The time zone defaults
+   * to UTC.
+   */
+  date?: Intl.DateTimeFormatOptions
+}
+
+// the Intl formatters are costly to create, and the same ones are used for all the cells of a column
+const numberFormats = new Map<string, Intl.NumberFormat>()
+const dateTimeFormats = new Map<string, Intl.DateTimeFormat>()
+
+function getNumberFormat(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = `${locale}:${JSON.stringify(options)}`
+  let numberFormat = numberFormats.get(key)
+  if (!numberFormat) {
+    numberFormat = new Intl.NumberFormat(locale, options)
+    numberFormats.set(key, numberFormat)
+  }
+  return numberFormat
+}
+
+function getDateTimeFormat(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  const key = `${locale}:${JSON.stringify(options)}`
+  let dateTimeFormat = dateTimeFormats.get(key)
+  if (!dateTimeFormat) {
+    dateTimeFormat = new Intl.DateTimeFormat(locale, { timeZone: 'UTC', ...options })
+    dateTimeFormats.set(key, dateTimeFormat)
+  }
+  return dateTimeFormat
+}
+
+/**
+ * Convert a value to a date: Date objects are kept, numbers and bigints are milliseconds since the epoch,
+ * and strings are parsed.
+ *
+ * @returns The date, or undefined if the value is not a valid date
+ */
+function toDate(value: unknown): Date | undefined {
+  let date: Date | undefined = undefined
+  if (value instanceof Date) {
+    date = value
+  } else if (typeof value === 'number' || typeof value === 'bigint' || typeof value === 'string') {
+    date = new Date(typeof value === 'bigint' ? Number(value) : value)
+  }
+  return date && !isNaN(date.getTime()) ? date : undefined
+}
+
+/**
+ * Format a date in UTC, as YYYY-MM-DD, or YYYY-MM-DD HH:MM:SS with the time
+ */
+function formatDate(date: Date, { withTime }: { withTime: boolean }): string {
+  const iso = date.toISOString()
+  return withTime ? `${iso.slice(0, 10)} ${iso.slice(11, 19)}` : iso.slice(0, 10)
+}
+
+/**
+ * Get the bytes of a binary value: an ArrayBuffer, or a typed array or DataView on it. The checks don't use instanceof,
+ * to support the values created in another realm (e.g. a worker or an iframe).
+ *
+ * @returns The bytes, or undefined if the value is not binary
+ */
+function toBytes(value: unknown): Uint8Array | undefined {
+  if (ArrayBuffer.isView(value)) {
+    return new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+  }
+  if (Object.prototype.toString.call(value) === '[object ArrayBuffer]') {
+    return new Uint8Array(value as ArrayBuffer)
+  }
+}
+
+/**
+ * Format the first bytes of a binary value in hexadecimal, e.g. "48 65 6c 6c 6f (5 bytes)"
+ */
+function formatBinary(bytes: Uint8Array, locale: string): string {
+  const hex = Array.from(bytes.subarray(0, maxBinaryPreviewBytes), byte => byte.toString(16).padStart(2, '0')).join(' ')
+  const ellipsis = bytes.length > maxBinaryPreviewBytes ? ' …' : ''
+  return `${hex}${ellipsis} (${bytes.length.toLocaleString(locale)} ${bytes.length === 1 ? 'byte' : 'bytes'})`
+}
+
+/**
+ * Format a value as JSON on a single line. The strings that contain JSON are parsed first, and the bigints are
+ * converted to numbers.
+ *
+ * @returns The JSON string, or undefined if the value is a string that does not contain JSON, or cannot be serialized
+ */
+function formatCollapsedJson(value: unknown): string | undefined {
+  let parsed = value
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value)
+    } catch {
+      // not JSON
+      return undefined
+    }
+  }
+  try {
+    return JSON.stringify(parsed, (_, v: unknown) => typeof v === 'bigint' ? Number(v) : v)
+  } catch {
+    // e.g. circular references
+    return undefined
+  }
+}
+
+/**
+ * Apply the formatting options of the column to a value.
+ *
+ * @returns The formatted value, or undefined if no option applies to the value
+ */
+function applyFormat({ value, type, format, locale }: { value: unknown, type?: ColumnType, format?: ColumnFormat, locale: string }): string | undefined {
+  if (format?.date) {
+    const date = value instanceof Date ? value : type === 'date' || type === 'timestamp' ? toDate(value) : undefined
+    if (date) {
+      return getDateTimeFormat(locale, format.date).format(date)
+    }
+  }
+  if (format?.number && (typeof value === 'number' || typeof value === 'bigint')) {
+    return getNumberFormat(locale, format.number).format(value)
+  }
+}
+
+export interface FormatParams {
+  /** The cell value */
+  value: unknown
+  /** The type of the column, if any */
+  type?: ColumnType
+  /** The formatting options of the column, if any */
+  format?: ColumnFormat
+  /** The locale used by the formatting options, 'en-US' by default */
+  locale?: string
+  /** The function to stringify the values */
+  stringify: StringifyFunction
+}
+
+/**
+ * Format a value as text, for copying and exporting: the formatting options of the column apply, and the other
+ * values are stringified.
+ *
+ * The type of the column only tells which values are dates. The display formats of the types (e.g. the binary
+ * preview) are not applied, since they lose information.
+ *
+ * @param params The value, the type, the formatting options, the locale and the stringify function
+ * @returns The formatted value
+ */
+export function formatValue({ value, type, format, locale = defaultLocale, stringify }: FormatParams): string | undefined {
+  return applyFormat({ value, type, format, locale }) ?? stringify(value)
+}
+
+/**
+ * Format a cell value for display, with the formatting options of the column if they apply (see formatValue),
+ * otherwise according to the type of the column.
+ *
+ * The values that don't match the type (e.g. an invalid date) are stringified, as the values of the columns without
+ * type, and so are null and undefined.
+ *
+ * @param params The value, the type, the formatting options, the locale and the stringify function
+ * @returns The formatted value
+ */
+export function formatCellValue({ value, type, format, locale = defaultLocale, stringify }: FormatParams): string | undefined {
+  if (value === null || value === undefined) {
+    return stringify(value)
+  }
+  const formatted = applyFormat({ value, type, format, locale })
+  if (formatted !== undefined) {
+    return formatted
+  }
+  switch (type) {
+    case 'date':
+    case 'timestamp': {
+      const date = toDate(value)
+      if (date) {
+        return formatDate(date, { withTime: type === 'timestamp' })
+      }
+      break
+    }
+    case 'binary': {
+      const bytes = toBytes(value)
+      if (bytes) {
+        return formatBinary(bytes, locale)
+      }
+      break
+    }
+    case 'json':
+    case 'list':
+    case 'struct':
+      return formatCollapsedJson(value) ?? stringify(value)
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case undefined:
+      // the numbers and the booleans are only aligned differently
+      break
+  }
+  return stringify(value)
+}
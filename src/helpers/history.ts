@@ -0,0 +1,108 @@
+import type { ColumnsVisibility } from '../providers/ColumnsVisibilityProvider.js'
+import type { Selection } from './selection.js'
+import type { OrderBy } from './sort.js'
+
+/**
+ * The values recorded in the interaction history, keyed by type of change.
+ *
+ * The column widths are the fixed widths (set by the user), by column index in the data frame. The undefined
+ * widths are automatic.
+ */
+export interface HistoryValues {
+  orderBy: OrderBy
+  columnsVisibility: ColumnsVisibility
+  selection: Selection
+  columnWidths: (number | undefined)[]
+}
+
+export type HistoryEntryType = keyof HistoryValues
+
+/**
+ * A change made by the user, with the values before and after the change.
+ */
+export type HistoryEntry<K extends HistoryEntryType = HistoryEntryType> = {
+  [T in K]: {
+    /** The type of change */
+    type: T
+    /** The value before the change */
+    previous: HistoryValues[T]
+    /** The value after the change */
+    next: HistoryValues[T]
+    /** When the change was made, in milliseconds since the epoch */
+    timestamp: number
+  }
+}[K]
+
+/**
+ * A value to set back, after a change has been undone or redone.
+ */
+export interface AppliedChange<K extends HistoryEntryType = HistoryEntryType> {
+  /** The identifier of the change, incremented on every undo and redo */
+  id: number
+  /** The value to set */
+  value: HistoryValues[K]
+}
+
+/**
+ * The last undone or redone change of every type.
+ */
+export type AppliedChanges = {
+  [K in HistoryEntryType]?: AppliedChange<K>
+}
+
+/**
+ * The interaction history.
+ */
+export interface History {
+  /** The changes that can be undone, from the oldest to the most recent */
+  past: HistoryEntry[]
+  /** The undone changes that can be redone, from the most recent undo to the oldest one */
+  future: HistoryEntry[]
+}
+
+/** The maximum number of changes that can be undone */
+export const maxHistoryLength = 100
+
+export function getDefaultHistory(): History {
+  return { past: [], future: [] }
+}
+
+/**
+ * Add a change to the history, and clear the changes that could be redone.
+ *
+ * If merge is true, the change replaces the most recent one, keeping its previous value (e.g. while resizing a column).
+ * The oldest changes are dropped beyond maxHistoryLength.
+ */
+export function pushHistoryEntry({ history, entry, merge }: { history: History, entry: HistoryEntry, merge?: boolean }): History {
+  const last = history.past.at(-1)
+  if (merge && last?.type === entry.type) {
+    return { past: [...history.past.slice(0, -1), { ...entry, previous: last.previous } as HistoryEntry], future: [] }
+  }
+  return { past: [...history.past, entry].slice(-maxHistoryLength), future: [] }
+}
+
+/**
+ * Move the most recent change to the changes that can be redone.
+ *
+ * @returns The new history and the undone change, or undefined if there is nothing to undo
+ */
+export function undoHistoryEntry(history: History): { history: History, entry: HistoryEntry } | undefined {
+  const entry = history.past.at(-1)
+  if (!entry) {
+    return undefined
+  }
+  return { history: { past: history.past.slice(0, -1), future: [entry, ...history.future] }, entry }
+}
+
+/**
+ * Move the most recently undone change back to the changes that can be undone.
+ *
+ * @returns The new history and the redone change, or undefined if there is nothing to redo
+ */
+export function redoHistoryEntry(history: History): { history: History, entry: HistoryEntry } | undefined {
+  const entry = history.future[0]
+  if (!entry) {
+    return undefined
+  }
+  return { history: { past: [...history.past, entry], future: history.future.slice(1) }, entry }
+}
@@ -1,11 +1,16 @@
-import { ariaOffset, largeScrollPx } from './constants.js'
+import type { RowDensity } from '../types.js'
+import { ariaOffset, largeScrollPx, rowHeight as defaultRowHeight, rowHeightByDensity } from './constants.js'
 
 interface ScaleParameters {
   clientHeight: number
+  /** Height of the sticky footer, below the rows. Defaults to 0. */
+  footerHeight?: number
   headerHeight: number
   maxElementHeight: number
   numRows: number
   rowHeight: number
+  /** Heights of the rows that differ from rowHeight, keyed by row index. The other rows have rowHeight. */
+  rowHeights?: ReadonlyMap<number, number>
 }
 
 export interface Scale {
@@ -15,6 +20,87 @@ export interface Scale {
   canvasHeight: number
   virtualCanvasHeight: number
   parameters: ScaleParameters
+  /** Height of a data row, in pixels */
+  getRowHeight: (row: number) => number
+  /** Offset of the top of a data row from the bottom of the header, in virtual pixels. getRowTop(numRows) is the height of all the rows. */
+  getRowTop: (row: number) => number
+  /** Index of the data row at an offset from the bottom of the header, in virtual pixels. It's not clamped to the number of rows. */
+  getRowAt: (offset: number) => number
+}
+
+/**
+ * Get the height of the rows in pixels, from the rowHeight prop.
+ */
+export function getRowHeightPx(rowHeight: number | RowDensity | undefined): number {
+  if (rowHeight === undefined) {
+    return defaultRowHeight
+  }
+  return typeof rowHeight === 'number' ? rowHeight : rowHeightByDensity[rowHeight]
+}
+
+/**
+ * Create the functions to locate the rows, when some of them have a custom height.
+ *
+ * The rows with a custom height are sorted, along with the cumulated extra height of the
+ * previous ones, so that the lookups are O(log k), k being the number of custom heights.
+ * The other rows are never enumerated, which is required for millions of rows.
+ */
+function createRowPositions({ rowHeight, rowHeights }: Pick<ScaleParameters, 'rowHeight' | 'rowHeights'>): Pick<Scale, 'getRowHeight' | 'getRowTop' | 'getRowAt'> {
+  const customRows = [...rowHeights?.keys() ?? []].sort((a, b) => a - b)
+  /** Extra height (compared to rowHeight) of the custom rows before customRows[i] */
+  const extraHeightsBefore: number[] = []
+  let totalExtraHeight = 0
+  for (const row of customRows) {
+    extraHeightsBefore.push(totalExtraHeight)
+    totalExtraHeight += (rowHeights?.get(row) ?? rowHeight) - rowHeight
+  }
+
+  function getRowHeight(row: number): number {
+    return rowHeights?.get(row) ?? rowHeight
+  }
+
+  /** Number of custom rows for which the predicate is true, the predicate being monotonic (true, then false) */
+  function countCustomRows(predicate: (i: number) => boolean): number {
+    let low = 0
+    let high = customRows.length
+    while (low < high) {
+      const middle = (low + high) >>> 1
+      if (predicate(middle)) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+    return low
+  }
+
+  function getCustomRowTop(i: number): number {
+    return (customRows[i] ?? 0) * rowHeight + (extraHeightsBefore[i] ?? 0)
+  }
+
+  function getRowTop(row: number): number {
+    // custom rows strictly before the row
+    const count = countCustomRows(i => (customRows[i] ?? 0) < row)
+    const extraHeight = count < customRows.length ? extraHeightsBefore[count] ?? 0 : totalExtraHeight
+    return row * rowHeight + extraHeight
+  }
+
+  function getRowAt(offset: number): number {
+    // custom rows starting at or before the offset
+    const count = countCustomRows(i => getCustomRowTop(i) <= offset)
+    if (count === 0) {
+      return Math.floor(offset / rowHeight)
+    }
+    const lastCustomRow = customRows[count - 1] ?? 0
+    const lastCustomRowBottom = getCustomRowTop(count - 1) + getRowHeight(lastCustomRow)
+    if (offset < lastCustomRowBottom) {
+      return lastCustomRow
+    }
+    // the rows between the last custom row and the next one have rowHeight
+    return lastCustomRow + 1 + Math.floor((offset - lastCustomRowBottom) / rowHeight)
+  }
+
+  return { getRowHeight, getRowTop, getRowAt }
 }
 
 /**
@@ -24,12 +110,14 @@ export interface Scale {
  * - scrollTopAnchor: the scrollTop position that anchors the virtual scroll calculations. It differs from scrollTop when local scrolling is applied.
  * - localOffset: the local offset added to the virtual scrollTop to scroll locally (for small scroll deltas)
  * - scale: the scale mapping scrollTop to virtual scrollTop
+ * - isLargeScroll: whether the last scroll event was a global scroll larger than largeScrollPx, e.g. while dragging the scrollbar
  */
 export interface ScrollState {
   scale: Scale | undefined
   scrollTop: number | undefined
   scrollTopAnchor: number | undefined
   localOffset: number
+  isLargeScroll: boolean
 }
 
 type ScrollAction
@@ -45,6 +133,7 @@ export function initializeScrollState(): ScrollState {
     scrollTop: undefined,
     scrollTopAnchor: undefined,
     localOffset: 0,
+    isLargeScroll: false,
   }
 }
 
@@ -83,20 +172,22 @@ export function scrollReducer(state: ScrollState, action: ScrollAction): ScrollS
     }
     case 'SCROLL_TO': {
       // update the state optimistically, while waiting for the scroll event to arrive
-      return scrollReducer(state, { type: 'GLOBAL_SCROLL', scrollTop: action.scrollTop })
+      return scrollReducer({ ...state, isLargeScroll: false }, { type: 'GLOBAL_SCROLL', scrollTop: action.scrollTop })
     }
     case 'ON_SCROLL': {
       const { scrollTop } = action
 
       const { localOffset, scrollTopAnchor, scrollTop: oldScrollTop, scale } = state
 
+      const delta = oldScrollTop === undefined ? undefined : scrollTop - oldScrollTop
+
       // in either case, after a scroll event, save the scrollTop value
       const nextState = {
         ...state,
         scrollTop,
+        // the rows are not fetched during large scrolls, until the scroll settles (see useFetchCells)
+        isLargeScroll: delta !== undefined && Math.abs(delta) > largeScrollPx,
       }
-
-      const delta = oldScrollTop === undefined ? undefined : scrollTop - oldScrollTop
       const scrollAction: ScrollAction = (
         // scrollTopAnchor is defined
         scrollTopAnchor !== undefined
@@ -138,7 +229,7 @@ export function scrollReducer(state: ScrollState, action: ScrollAction): ScrollS
 }
 
 /* Compute the derived values */
-export function computeDerivedValues({ scale, scrollTop, scrollTopAnchor, localOffset, padding }: ScrollState & { padding: number }): {
+export function computeDerivedValues({ scale, scrollTop, scrollTopAnchor, localOffset, padding }: Omit<ScrollState, 'isLargeScroll'> & { padding: number }): {
   sliceTop?: number | undefined
   visibleRowsStart?: number | undefined
   visibleRowsEnd?: number | undefined
@@ -149,7 +240,8 @@ export function computeDerivedValues({ scale, scrollTop, scrollTopAnchor, localO
     return {}
   }
   const virtualScrollTop = scale.toVirtual(scrollTopAnchor) + localOffset
-  const { clientHeight, headerHeight, rowHeight, numRows } = scale.parameters
+  const { clientHeight, headerHeight, numRows } = scale.parameters
+  const { getRowAt, getRowTop } = scale
 
   // special case: is the virtual scroll position in the header?
   const isInHeader = numRows === 0 || virtualScrollTop < headerHeight
@@ -159,7 +251,7 @@ export function computeDerivedValues({ scale, scrollTop, scrollTopAnchor, localO
     ? 0
     : Math.max(0,
         Math.min(numRows - 1,
-          Math.floor((virtualScrollTop - headerHeight) / rowHeight)
+          getRowAt(virtualScrollTop - headerHeight)
         )
       )
   if (isNaN(visibleRowsStart)) throw new Error(`invalid start row ${visibleRowsStart}`)
@@ -168,12 +260,12 @@ export function computeDerivedValues({ scale, scrollTop, scrollTopAnchor, localO
   // hidden pixels in the first visible row, or header
   const hiddenPixelsBefore = isInHeader
     ? virtualScrollTop
-    : virtualScrollTop - headerHeight - visibleRowsStart * rowHeight
+    : virtualScrollTop - headerHeight - getRowTop(visibleRowsStart)
 
   // Last visible row
   const visibleRowsEnd = Math.max(visibleRowsStart,
     Math.min(numRows - 1,
-      Math.floor((virtualScrollTop + clientHeight - headerHeight) / rowHeight)
+      getRowAt(virtualScrollTop + clientHeight - headerHeight)
     )
   ) + 1 // end is exclusive
   if (isNaN(visibleRowsEnd)) throw new Error(`invalid end row ${visibleRowsEnd}`)
@@ -181,7 +273,7 @@ export function computeDerivedValues({ scale, scrollTop, scrollTopAnchor, localO
   if (renderedRowsEnd - renderedRowsStart > 1000) throw new Error(`attempted to render too many rows ${renderedRowsEnd - renderedRowsStart}`)
 
   // Uncomment if needed
-  // const hiddenPixelsAfter = headerHeight + visibleRowsEnd * rowHeight - (virtualScrollTop + clientHeight)
+  // const hiddenPixelsAfter = headerHeight + getRowTop(visibleRowsEnd) - (virtualScrollTop + clientHeight)
 
   if (scrollTop === undefined) {
     return {
@@ -198,8 +290,8 @@ export function computeDerivedValues({ scale, scrollTop, scrollTopAnchor, localO
   // i.e. the scroll position minus the number of hidden pixels for that row.
   const firstVisibleRowTop = scrollTop - hiddenPixelsBefore
 
-  // Number of "padding" rows that we render above the first visible row
-  const previousPaddingRows = visibleRowsStart - renderedRowsStart
+  // Height of the "padding" rows that we render above the first visible row
+  const previousPaddingRowsHeight = getRowTop(visibleRowsStart) - getRowTop(renderedRowsStart)
 
   // When the scroll position is still within the header, the first visible
   // data row starts right after the header. Encode that as 0/1 so we can
@@ -209,9 +301,9 @@ export function computeDerivedValues({ scale, scrollTop, scrollTopAnchor, localO
   // The top of the rendered slice in canvas coordinates:
   // - start from the top of the first visible row
   // - subtract the header height (once) when we are below the header
-  // - shift up by the number of padding rows times the row height so that
-  //   those extra rows are also included in the rendered slice.
-  const sliceTop = firstVisibleRowTop - headerRow * headerHeight - previousPaddingRows * rowHeight
+  // - shift up by the height of the padding rows so that those extra rows
+  //   are also included in the rendered slice.
+  const sliceTop = firstVisibleRowTop - headerRow * headerHeight - previousPaddingRowsHeight
 
   return {
     sliceTop,
@@ -222,22 +314,24 @@ export function computeDerivedValues({ scale, scrollTop, scrollTopAnchor, localO
   }
 }
 
-export function createScale(parameters: {
-  clientHeight: number
-  headerHeight: number
-  maxElementHeight: number
-  numRows: number
-  rowHeight: number
-}): Scale {
-  const { clientHeight, headerHeight, maxElementHeight, numRows, rowHeight } = parameters
+export function createScale(parameters: ScaleParameters): Scale {
+  const { clientHeight, footerHeight = 0, headerHeight, maxElementHeight, numRows, rowHeight, rowHeights } = parameters
 
   // safety checks
   if (headerHeight <= 0) {
     throw new Error(`Invalid headerHeight: ${headerHeight}. It should be a positive number.`)
   }
+  if (footerHeight < 0) {
+    throw new Error(`Invalid footerHeight: ${footerHeight}. It should be a non-negative number.`)
+  }
   if (rowHeight <= 0) {
     throw new Error(`Invalid rowHeight: ${rowHeight}. It should be a positive number.`)
   }
+  for (const [row, height] of rowHeights ?? []) {
+    if (height <= 0) {
+      throw new Error(`Invalid height for row ${row}: ${height}. It should be a positive number.`)
+    }
+  }
   if (numRows < 0 || !Number.isInteger(numRows)) {
     throw new Error(`Invalid numRows: ${numRows}. It should be a non-negative integer.`)
   }
@@ -248,10 +342,12 @@ export function createScale(parameters: {
     throw new Error(`Invalid maxElementHeight: ${maxElementHeight} when clientHeight is ${clientHeight}. maxElementHeight should be greater than clientHeight.`)
   }
 
-  // total table height - it's fixed, based on the number of rows.
+  const rowPositions = createRowPositions({ rowHeight, rowHeights })
+
+  // total table height - it's fixed, based on the number of rows and their heights.
   // if the number of rows is big, this value can overflow the maximum height supported by the browser.
   // If so, the canvas height is capped to maxElementHeight.
-  const totalTableHeight = headerHeight + numRows * rowHeight
+  const totalTableHeight = headerHeight + rowPositions.getRowTop(numRows) + footerHeight
 
   if (totalTableHeight <= maxElementHeight) {
     // no virtual scroll needed
@@ -262,6 +358,7 @@ export function createScale(parameters: {
       canvasHeight: totalTableHeight,
       virtualCanvasHeight: totalTableHeight,
       parameters,
+      ...rowPositions,
     }
   }
 
@@ -282,6 +379,7 @@ export function createScale(parameters: {
     canvasHeight,
     virtualCanvasHeight: totalTableHeight,
     parameters,
+    ...rowPositions,
   }
 }
 
@@ -306,7 +404,7 @@ export function getScrollActionForRow({
   scrollTopAnchor: number
   localOffset: number
 }): ScrollToAction | LocalScrollAction | undefined {
-  const { headerHeight, rowHeight, numRows } = scale.parameters
+  const { footerHeight = 0, headerHeight, numRows } = scale.parameters
 
   if (rowIndex < 1 || rowIndex > numRows + 1 || !Number.isInteger(rowIndex)) {
     console.warn(`Invalid row index: ${rowIndex}. It should be an integer between 1 and ${numRows + 1}.`)
@@ -323,10 +421,11 @@ export function getScrollActionForRow({
   // Three cases:
   // - the row is fully visible: do nothing
   // - the row start is before virtualScrollTop + headerHeight: scroll to snap its start with that value
-  // - the row end is after virtualScrollTop + viewportHeight: scroll to snap its end with that value
+  // - the row end is after virtualScrollTop + viewportHeight - footerHeight: scroll to snap its end with that value
   const virtualScrollTop = scale.toVirtual(scrollTopAnchor) + localOffset
-  const hiddenPixelsBefore = virtualScrollTop + headerHeight - (headerHeight + row * rowHeight)
-  const hiddenPixelsAfter = headerHeight + row * rowHeight + rowHeight - virtualScrollTop - scale.parameters.clientHeight
+  const rowTop = scale.getRowTop(row)
+  const hiddenPixelsBefore = virtualScrollTop + headerHeight - (headerHeight + rowTop)
+  const hiddenPixelsAfter = headerHeight + rowTop + scale.getRowHeight(row) + footerHeight - virtualScrollTop - scale.parameters.clientHeight
 
   if (hiddenPixelsBefore <= 0 && hiddenPixelsAfter <= 0) {
     // fully visible, do nothing
@@ -345,3 +444,146 @@ export function getScrollActionForRow({
     return { type: 'SCROLL_TO', scrollTop: newScrollTop }
   }
 }
+
+/**
+ * Get the scroll action that keeps the first visible row in place when the scale changes, e.g. when the heights of
+ * the rows above it are estimated. Without it, the rows would be shifted down (or up) by the height difference.
+ *
+ * @param params
+ * @param params.previousScale The scale before the change
+ * @param params.scale The new scale
+ * @param params.scrollTopAnchor The current scrollTopAnchor
+ * @param params.localOffset The current localOffset
+ * @returns The action to dispatch, or undefined if the first visible row has not moved
+ */
+export function getScrollActionForScaleChange({
+  previousScale,
+  scale,
+  scrollTopAnchor,
+  localOffset,
+}: {
+  previousScale: Scale
+  scale: Scale
+  scrollTopAnchor: number
+  localOffset: number
+}): ScrollToAction | LocalScrollAction | undefined {
+  const { headerHeight, numRows } = previousScale.parameters
+  const previousVirtualScrollTop = previousScale.toVirtual(scrollTopAnchor) + localOffset
+  if (numRows === 0 || previousVirtualScrollTop < headerHeight) {
+    // the header row is visible, there is no row above the viewport
+    return
+  }
+  const row = Math.min(numRows - 1, previousScale.getRowAt(previousVirtualScrollTop - headerHeight))
+  if (row >= scale.parameters.numRows) {
+    return
+  }
+  // keep the same hidden pixels in the first visible row
+  const hiddenPixelsBefore = previousVirtualScrollTop - headerHeight - previousScale.getRowTop(row)
+  const expectedVirtualScrollTop = scale.parameters.headerHeight + scale.getRowTop(row) + hiddenPixelsBefore
+  const delta = expectedVirtualScrollTop - (scale.toVirtual(scrollTopAnchor) + localOffset)
+  if (delta === 0) {
+    return
+  }
+  if (canBeLocalScroll({ delta, scale, localOffset })) {
+    return { type: 'LOCAL_SCROLL', delta }
+  }
+  return { type: 'SCROLL_TO', scrollTop: scale.fromVirtual(expectedVirtualScrollTop) }
+}
+
+/**
+ * The visible columns rendered in the DOM, when the columns are virtualized.
+ *
+ * The pinned columns are always rendered. The other columns are rendered between renderedColumnsStart and
+ * renderedColumnsEnd, and the skipped columns are replaced by spacers of the same width.
+ */
+export interface RenderedColumns {
+  /** Index of the first non-pinned column rendered in the DOM, among the visible columns (inclusive) */
+  renderedColumnsStart: number
+  /** Index of the last non-pinned column rendered in the DOM, among the visible columns (exclusive) */
+  renderedColumnsEnd: number
+  /** Total width of the non-pinned columns skipped before the rendered ones, in pixels */
+  leftSpacerWidth: number
+  /** Total width of the columns skipped after the rendered ones, in pixels */
+  rightSpacerWidth: number
+}
+
+/**
+ * Compute the range of columns to render: the columns visible in the viewport, plus the padding on each side.
+ *
+ * The pinned columns, and the row headers, are sticky: they hide the columns scrolled below them.
+ *
+ * @param params
+ * @param params.columnOffsets The left offsets of the visible columns, in pixels, in the display order, followed by
+ * the total width of the table (see ColumnWidthsContext)
+ * @param params.numPinnedColumns The number of pinned columns, which are the first visible columns
+ * @param params.scrollLeft The current scrollLeft of the viewport
+ * @param params.viewportWidth The width of the viewport
+ * @param params.padding The number of columns to render beyond the visible ones, on each side
+ * @returns The range of rendered columns, or undefined if the viewport width is unknown (all the columns are rendered)
+ */
+export function computeRenderedColumns({ columnOffsets, numPinnedColumns, scrollLeft, viewportWidth, padding }: {
+  columnOffsets: number[]
+  numPinnedColumns: number
+  scrollLeft: number
+  viewportWidth?: number
+  padding: number
+}): RenderedColumns | undefined {
+  // the viewport width is 0 in jsdom: render all the columns
+  if (viewportWidth === undefined || viewportWidth <= 0) {
+    return
+  }
+  const numColumns = columnOffsets.length - 1
+  const stickyWidth = columnOffsets[numPinnedColumns] ?? 0
+  const tableWidth = columnOffsets[numColumns] ?? 0
+
+  let visibleColumnsStart = numPinnedColumns
+  while (visibleColumnsStart < numColumns && (columnOffsets[visibleColumnsStart + 1] ?? 0) <= scrollLeft + stickyWidth) {
+    visibleColumnsStart++
+  }
+  let visibleColumnsEnd = visibleColumnsStart
+  while (visibleColumnsEnd < numColumns && (columnOffsets[visibleColumnsEnd] ?? 0) < scrollLeft + viewportWidth) {
+    visibleColumnsEnd++
+  }
+
+  const renderedColumnsStart = Math.max(numPinnedColumns, visibleColumnsStart - padding)
+  const renderedColumnsEnd = Math.min(numColumns, visibleColumnsEnd + padding)
+  return {
+    renderedColumnsStart,
+    renderedColumnsEnd,
+    leftSpacerWidth: (columnOffsets[renderedColumnsStart] ?? 0) - stickyWidth,
+    rightSpacerWidth: tableWidth - (columnOffsets[renderedColumnsEnd] ?? 0),
+  }
+}
+
+/**
+ * A column to render (with its index among the visible columns), or a spacer that replaces the skipped columns.
+ */
+export type RenderedColumn<T> = { type: 'column', column: T, visibleColumnIndex: number } | { type: 'spacer', side: 'left' | 'right', width: number }
+
+/**
+ * Select the columns to render among the visible columns, and insert the spacers in place of the skipped columns.
+ *
+ * @param params
+ * @param params.columns The visible columns, in the display order, the pinned ones first
+ * @param params.renderedColumns The range of rendered columns. If undefined, all the columns are rendered.
+ * @returns The columns and the spacers, in the display order. The spacers with a null width are omitted.
+ */
+export function getRenderedColumns<T extends { pinned?: 'left' }>({ columns, renderedColumns }: { columns: T[], renderedColumns?: RenderedColumns }): RenderedColumn<T>[] {
+  if (!renderedColumns) {
+    return columns.map((column, visibleColumnIndex) => ({ type: 'column', column, visibleColumnIndex }))
+  }
+  const { renderedColumnsStart, renderedColumnsEnd, leftSpacerWidth, rightSpacerWidth } = renderedColumns
+  const result: RenderedColumn<T>[] = []
+  for (const [visibleColumnIndex, column] of columns.entries()) {
+    if (visibleColumnIndex === renderedColumnsStart && leftSpacerWidth > 0) {
+      result.push({ type: 'spacer', side: 'left', width: leftSpacerWidth })
+    }
+    if (column.pinned === 'left' || (visibleColumnIndex >= renderedColumnsStart && visibleColumnIndex < renderedColumnsEnd)) {
+      result.push({ type: 'column', column, visibleColumnIndex })
+    }
+  }
+  if (rightSpacerWidth > 0) {
+    result.push({ type: 'spacer', side: 'right', width: rightSpacerWidth })
+  }
+  return result
+}
@@ -1,3 +1,5 @@
+import type { CellPosition } from '../types.js'
+
 /**
  * A selection is modelled as an array of ordered and non-overlapping ranges.
  * The ranges are separated, ie. the end of one range is strictly less than the start of the next range.
@@ -203,3 +205,48 @@ export function toggleIndexInSelection({ selection, index }: { selection: Select
 export function countSelectedRows({ selection }: { selection: Selection }): number {
   return selection.ranges.reduce((count, range) => count + (range.end - range.start), 0)
 }
+
+/**
+ * A rectangular range of cells, defined by two opposite corners.
+ *
+ * The corners have the same semantic as the cell position: 1-based indices, including the headers. Only the data cells
+ * can be selected (rowIndex >= 2 and colIndex >= 2). The rows and columns are the ones displayed in the table,
+ * and thus depend on the order, the filters and the hidden columns.
+ */
+export interface CellRange {
+  /** The corner where the selection started. It's fixed when the range is extended. */
+  anchor: CellPosition
+  /** The opposite corner, moved when the range is extended (Shift+Arrow, drag, Shift+click). */
+  head: CellPosition
+}
+
+export interface CellSelection {
+  /** The selected range of cells, or undefined if no cells are selected. */
+  range?: CellRange
+}
+
+export function getDefaultCellSelection(): CellSelection {
+  return { range: undefined }
+}
+
+/**
+ * Get the bounds of a cell range.
+ *
+ * @param {CellRange} range - The cell range.
+ *
+ * @returns The inclusive bounds of the rectangle, with the same semantic as the cell position.
+ */
+export function getCellRangeBounds(range: CellRange): { minColIndex: number, maxColIndex: number, minRowIndex: number, maxRowIndex: number } {
+  const { anchor, head } = range
+  return {
+    minColIndex: Math.min(anchor.colIndex, head.colIndex),
+    maxColIndex: Math.max(anchor.colIndex, head.colIndex),
+    minRowIndex: Math.min(anchor.rowIndex, head.rowIndex),
+    maxRowIndex: Math.max(anchor.rowIndex, head.rowIndex),
+  }
+}
+
+export function isCellInRange({ range, colIndex, rowIndex }: { range: CellRange } & CellPosition): boolean {
+  const { minColIndex, maxColIndex, minRowIndex, maxRowIndex } = getCellRangeBounds(range)
+  return colIndex >= minColIndex && colIndex <= maxColIndex && rowIndex >= minRowIndex && rowIndex <= maxRowIndex
+}
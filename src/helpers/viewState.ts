@@ -0,0 +1,171 @@
+import type { ColumnsVisibility } from '../providers/ColumnsVisibilityProvider.js'
+import type { CellPosition, HighTableProps } from '../types.js'
+import type { Selection } from './selection.js'
+import { areValidRanges, isValidIndex } from './selection.js'
+import type { OrderBy } from './sort.js'
+
+/** The version of the view state schema. Increase it in case of breaking changes, and add a migration from the previous version. */
+export const viewStateVersion = 1
+
+/**
+ * A serializable snapshot of the view of a table: the sort, the columns visibility, the rows selection and the
+ * active cell. The fields are optional, to store only a part of the view.
+ *
+ * It's plain JSON, so that it can be persisted in the local storage (see the persistViewState prop), stored
+ * server-side or shared in a URL. The version allows to migrate the view states stored with a previous schema.
+ */
+export interface ViewState {
+  /** The version of the schema, see viewStateVersion */
+  version: typeof viewStateVersion
+  /** The sort */
+  orderBy?: OrderBy
+  /** The columns visibility, keyed by column name */
+  columnsVisibility?: ColumnsVisibility
+  /** The rows selection */
+  selection?: Selection
+  /** The active cell */
+  cellPosition?: CellPosition
+}
+
+/** The props of HighTable that are part of the view state */
+export type ViewStateProps = Pick<HighTableProps, 'orderBy' | 'columnsVisibility' | 'selection' | 'cellPosition'>
+
+/** Convert a view state of a given version to the current version. The fields are validated afterwards. */
+export type ViewStateMigration = (viewState: Record<string, unknown>) => Record<string, unknown>
+
+/**
+ * The migrations of the view state, keyed by the version they migrate from. The versions without a migration,
+ * e.g. the newer ones, are not supported, and their view states are ignored.
+ */
+const viewStateMigrations: Partial<Record<number, ViewStateMigration>> = {
+  // the current version: nothing to migrate
+  1: viewState => viewState,
+}
+
+/**
+ * Get the view state of a table, from the values of its props.
+ *
+ * @example
+ * ```ts
+ * const url = `?view=${encodeURIComponent(JSON.stringify(getViewState({ orderBy, selection })))}`
+ * ```
+ *
+ * @param props The orderBy, columnsVisibility, selection and cellPosition values. The undefined values are omitted.
+ * @returns The view state, with the current version
+ */
+export function getViewState({ orderBy, columnsVisibility, selection, cellPosition }: ViewStateProps): ViewState {
+  const viewState: ViewState = { version: viewStateVersion }
+  if (orderBy) viewState.orderBy = orderBy
+  if (columnsVisibility) viewState.columnsVisibility = columnsVisibility
+  if (selection) viewState.selection = selection
+  if (cellPosition) viewState.cellPosition = cellPosition
+  return viewState
+}
+
+/**
+ * Get the props of HighTable from a view state, e.g. parsed from the local storage or a URL.
+ *
+ * The view state is migrated to the current version, and the invalid fields are ignored, so that it's safe to
+ * pass an untrusted value.
+ *
+ * @example
+ * ```tsx
+ * const { orderBy } = applyViewState(JSON.parse(params.get('view') ?? '{}'))
+ * ```
+ *
+ * @param value The view state, of any supported version
+ * @returns The orderBy, columnsVisibility, selection and cellPosition props, only for the valid fields. Empty if the value is not a view state, or comes from an unsupported version.
+ */
+export function applyViewState(value: unknown): ViewStateProps {
+  const viewState = parseViewState(value)
+  if (!viewState) {
+    return {}
+  }
+  const { version, ...props } = viewState
+  return props
+}
+
+/**
+ * Migrate a view state to the current version, and remove its invalid fields.
+ *
+ * @param value The view state, of any supported version
+ * @returns The view state, or undefined if the value is not a view state, or comes from an unsupported version
+ */
+export function parseViewState(value: unknown): ViewState | undefined {
+  const migrated = migrateViewState({ value })
+  if (!migrated) {
+    return undefined
+  }
+  return getViewState({
+    orderBy: parseOrderBy(migrated.orderBy),
+    columnsVisibility: parseColumnsVisibility(migrated.columnsVisibility),
+    selection: parseSelection(migrated.selection),
+    cellPosition: parseCellPosition(migrated.cellPosition),
+  })
+}
+
+/**
+ * Migrate a view state to the current version, with the migration of its version.
+ *
+ * @param params
+ * @param params.value The view state, of any version
+ * @param params.migrations The migrations, keyed by the version they migrate from. Defaults to the view state migrations.
+ * @returns The fields of the view state, not validated yet, or undefined if the value is not a view state, or its version has no migration
+ */
+export function migrateViewState({ value, migrations = viewStateMigrations }: { value: unknown, migrations?: Partial<Record<number, ViewStateMigration>> }): Record<string, unknown> | undefined {
+  if (!isRecord(value) || typeof value.version !== 'number') {
+    return undefined
+  }
+  return migrations[value.version]?.(value)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseOrderBy(value: unknown): OrderBy | undefined {
+  if (!Array.isArray(value)) return undefined
+  const orderBy: OrderBy = []
+  for (const item of value) {
+    if (!isRecord(item) || typeof item.column !== 'string' || (item.direction !== 'ascending' && item.direction !== 'descending')) {
+      return undefined
+    }
+    orderBy.push({ column: item.column, direction: item.direction })
+  }
+  return orderBy
+}
+
+function parseColumnsVisibility(value: unknown): ColumnsVisibility | undefined {
+  if (!isRecord(value)) return undefined
+  const columnsVisibility: ColumnsVisibility = {}
+  for (const [column, visibility] of Object.entries(value)) {
+    // only the hidden columns are stored
+    if (isRecord(visibility) && visibility.hidden === true) {
+      columnsVisibility[column] = { hidden: true }
+    }
+  }
+  return columnsVisibility
+}
+
+function parseSelection(value: unknown): Selection | undefined {
+  if (!isRecord(value) || !Array.isArray(value.ranges)) return undefined
+  const ranges: Selection['ranges'] = []
+  for (const range of value.ranges) {
+    if (!isRecord(range) || typeof range.start !== 'number' || typeof range.end !== 'number') {
+      return undefined
+    }
+    ranges.push({ start: range.start, end: range.end })
+  }
+  if (!areValidRanges(ranges)) return undefined
+  const { anchor } = value
+  return { ranges, anchor: typeof anchor === 'number' && isValidIndex(anchor) ? anchor : undefined }
+}
+
+function parseCellPosition(value: unknown): CellPosition | undefined {
+  if (!isRecord(value)) return undefined
+  const { colIndex, rowIndex } = value
+  if (typeof colIndex !== 'number' || typeof rowIndex !== 'number' || !isValidIndex(colIndex) || !isValidIndex(rowIndex) || colIndex < 1 || rowIndex < 1) {
+    return undefined
+  }
+  return { colIndex, rowIndex }
+}
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useEffectEvent, useRef, useState } from 'react'
+
+/**
+ * The state of an asynchronous computation on a column: pending, rejected, or resolved with a value (S).
+ */
+export type ColumnComputationState<S extends { status: 'resolved' }>
+  = | { status: 'pending' }
+    | S
+    | { status: 'rejected' }
+
+interface Props<T extends object, S extends { status: 'resolved' }> {
+  /**
+   * The source of the computations, e.g. the data frame and the parameters. The results are only valid for the
+   * source they were computed from: when it changes, the pending computations are aborted, and the results are
+   * forgotten. If undefined, nothing is computed.
+   */
+  source: T | undefined
+  /** The columns to compute. When a column is removed, only its pending computation is aborted. */
+  columns: string[]
+  /** Compute the resolved state of a column, from the source. The promise rejects with an AbortError if the signal is aborted. */
+  compute: ({ source, column, signal }: { source: T, column: string, signal: AbortSignal }) => Promise<S>
+  /** Called when a computation fails, except if it's aborted */
+  onError?: (error: unknown) => void
+}
+
+/**
+ * Compute an asynchronous value for every column, e.g. the aggregates or the statistics.
+ *
+ * Every column has its own computation, started once for the current source, so that adding or removing a column
+ * does not interrupt the computations of the other columns. An aborted computation is started again if the column
+ * is added back.
+ *
+ * @returns A function to get the state of the computation of a column, or undefined if it has not started
+ */
+export function useColumnComputations<T extends object, S extends { status: 'resolved' }>({ source, columns, compute, onError }: Props<T, S>) {
+  const [state, setState] = useState<{ source: T, byColumn: Map<string, ColumnComputationState<S>> } | undefined>(undefined)
+  const byColumn = source !== undefined && state?.source === source ? state.byColumn : undefined
+
+  const setColumnState = useCallback(({ column, columnState }: { column: string, columnState: ColumnComputationState<S> }) => {
+    setState(prev => prev !== undefined && prev.source === source ? { source, byColumn: new Map(prev.byColumn).set(column, columnState) } : prev)
+  }, [source])
+
+  // The controllers of the started computations, by column. They are all aborted when the source changes.
+  const controllersRef = useRef(new Map<string, AbortController>())
+  useEffect(() => {
+    const controllers = new Map<string, AbortController>()
+    controllersRef.current = controllers
+    return () => {
+      for (const controller of controllers.values()) {
+        controller.abort()
+      }
+    }
+  }, [source])
+
+  // Abort the computations of the removed columns, and start the computations of the columns that are not computed
+  // yet, or were aborted.
+  // Not in the effect directly, to read the current state without restarting the computations when it changes.
+  const updateComputations = useEffectEvent((controllers: Map<string, AbortController>) => {
+    for (const [column, controller] of controllers) {
+      if (!columns.includes(column)) {
+        controller.abort()
+        controllers.delete(column)
+      }
+    }
+    if (source === undefined) {
+      return
+    }
+    const newColumns = columns.filter(column => !controllers.has(column) && byColumn?.get(column)?.status !== 'resolved' && byColumn?.get(column)?.status !== 'rejected')
+    if (newColumns.length === 0) {
+      return
+    }
+    const nextByColumn = new Map(byColumn)
+    for (const column of newColumns) {
+      nextByColumn.set(column, { status: 'pending' })
+    }
+    setState({ source, byColumn: nextByColumn })
+
+    for (const column of newColumns) {
+      const controller = new AbortController()
+      controllers.set(column, controller)
+      compute({ source, column, signal: controller.signal }).then((columnState) => {
+        setColumnState({ column, columnState })
+      }).catch((error: unknown) => {
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          // the computation will be started again if the column is added back
+          return
+        }
+        setColumnState({ column, columnState: { status: 'rejected' } })
+        onError?.(error)
+      })
+    }
+  })
+
+  useEffect(() => {
+    updateComputations(controllersRef.current)
+  }, [source, columns])
+
+  return useCallback((column: string) => {
+    return byColumn?.get(column)
+  }, [byColumn])
+}
@@ -1,69 +1,127 @@
-import { useContext, useEffect, useEffectEvent, useMemo } from 'react'
+import { useCallback, useContext, useEffect, useEffectEvent, useMemo, useRef, useState } from 'react'
 
 import { ColumnsVisibilityContext } from '../contexts/ColumnsVisibilityContext.js'
 import { DataFrameMethodsContext, NumRowsContext } from '../contexts/DataContext.js'
 import { OrderByContext } from '../contexts/OrderByContext.js'
-import { defaultOverscan } from '../helpers/constants.js'
+import { defaultFetchRetryDelayMs, defaultMaxFetchRetries, defaultMaxFetchRetryDelayMs, defaultOverscan, largeScrollFetchDelayMs, maxConcurrentFetches } from '../helpers/constants.js'
+import type { FetchAttempt, ScrollDirection } from '../helpers/fetchScheduler.js'
+import { createFetchScheduler, getFetchRanges } from '../helpers/fetchScheduler.js'
+import type { RenderedColumns } from '../helpers/scroll.js'
+import { getRenderedColumns } from '../helpers/scroll.js'
 import type { HighTableProps } from '../types.js'
 
-type Props = Pick<HighTableProps, 'onError' | 'overscan'> & {
+type Props = Pick<HighTableProps, 'fetchRetry' | 'onError' | 'overscan'> & {
   range?: {
     /** Index of the first row visible in the viewport (inclusive). Indexes refer to the virtual table domain. */
     visibleRowsStart?: number
     /** Index of the last row visible in the viewport (exclusive). */
     visibleRowsEnd?: number
   }
+  /** The rendered columns, if the columns are virtualized. If undefined, all the visible columns are fetched. */
+  renderedColumns?: RenderedColumns
+  /** Whether the last scroll was a large jump, e.g. while dragging the scrollbar. The rows are fetched once the scroll settles. */
+  isLargeScroll?: boolean
 }
 
 /**
- * Fetch the required cells (visible + overscan).
+ * Fetch the required cells (visible + overscan rows, rendered columns).
+ *
+ * The rows are fetched by priority: the visible rows first, then the overscan rows, and last the predicted rows
+ * in the scroll direction, with a limited number of concurrent requests. On scroll, the ongoing requests that are
+ * still partly useful are not aborted, and only the missing rows and columns are requested. During large scrolls, the
+ * intermediate ranges are skipped.
+ *
+ * The failed requests are retried automatically, with an exponential backoff (see fetchRetry).
+ *
+ * @returns The function to fetch the failed ranges again now
  */
-export function useFetchCells({ overscan = defaultOverscan, range = {}, onError }: Props) {
+export function useFetchCells({ overscan = defaultOverscan, range = {}, renderedColumns, isLargeScroll = false, fetchRetry, onError }: Props) {
   const { visibleColumnsParameters } = useContext(ColumnsVisibilityContext)
   const orderBy = useContext(OrderByContext)
   const dataFrameMethods = useContext(DataFrameMethodsContext)
   const numRows = useContext(NumRowsContext)
   const { visibleRowsStart, visibleRowsEnd } = range
+  const { maxRetries = defaultMaxFetchRetries, initialDelayMs = defaultFetchRetryDelayMs, maxDelayMs = defaultMaxFetchRetryDelayMs } = fetchRetry ?? {}
 
-  const fetchedRowsStart = visibleRowsStart === undefined ? undefined : Math.max(0, visibleRowsStart - overscan)
-  const fetchedRowsEnd = visibleRowsEnd === undefined ? undefined : Math.min(numRows, visibleRowsEnd + overscan)
+  // The scroll direction, from the previous visible rows
+  const [previousRowsStart, setPreviousRowsStart] = useState(visibleRowsStart)
+  const [direction, setDirection] = useState<ScrollDirection | undefined>(undefined)
+  if (visibleRowsStart !== previousRowsStart) {
+    setPreviousRowsStart(visibleRowsStart)
+    if (visibleRowsStart !== undefined && previousRowsStart !== undefined) {
+      setDirection(visibleRowsStart > previousRowsStart ? 'down' : 'up')
+    }
+  }
 
   const columnNames = useMemo(() => {
-    return (visibleColumnsParameters ?? []).map(({ name }) => name)
-  }, [visibleColumnsParameters])
+    return getRenderedColumns({ columns: visibleColumnsParameters ?? [], renderedColumns })
+      .flatMap(renderedColumn => renderedColumn.type === 'column' ? [renderedColumn.column.name] : [])
+  }, [visibleColumnsParameters, renderedColumns])
+
+  const ranges = useMemo(() => {
+    if (visibleRowsStart === undefined || visibleRowsEnd === undefined) return undefined
+    return getFetchRanges({ visibleRowsStart, visibleRowsEnd, overscan, numRows, direction })
+  }, [visibleRowsStart, visibleRowsEnd, overscan, numRows, direction])
+
+  // A new scheduler for every data frame and sort: the previous requests are aborted.
+  // The columns are passed on every schedule, so that the horizontal scroll keeps the ongoing requests.
+  // Creating the scheduler has no side effects, the requests are only sent from the effects.
+  const scheduler = useMemo(() => {
+    const { fetch } = dataFrameMethods
+    if (fetch === undefined) return undefined
+    return createFetchScheduler({
+      fetchRows: ({ rowStart, rowEnd, columns, signal }) => fetch({ rowStart, rowEnd, columns, orderBy, signal }),
+      maxConcurrentFetches,
+      retry: { maxRetries, initialDelayMs, maxDelayMs },
+    })
+  }, [dataFrameMethods, orderBy, maxRetries, initialDelayMs, maxDelayMs])
 
   // Call onError (if provided) when a fetch fails.
   // Not in the effect directly to avoid having to add onError to the effect dependencies,
   // and canceling and re-creating fetches if onError changes.
-  const onFetchError = useEffectEvent((error: unknown) => {
-    onError?.(error)
+  // The order is the one of the current scheduler, since it's replaced when it changes.
+  const onFetchError = useEffectEvent((error: unknown, { rowStart, rowEnd, columns, attempt }: FetchAttempt) => {
+    onError?.(error, { rowStart, rowEnd, columns, orderBy, attempt })
   })
 
+  // Abort the requests when the scheduler is replaced, or on unmount.
+  useEffect(() => {
+    return () => {
+      scheduler?.abort()
+    }
+  }, [scheduler])
+
+  // The ranges for which the requests were last aborted during a large scroll, with their scheduler
+  const abortedRef = useRef<{ scheduler: typeof scheduler, ranges: typeof ranges } | undefined>(undefined)
+
   // Fetch rows when parameters change.
   // Keep this inside an effect so we don't update state
   // or perform side-effects during render, for example when calling onError.
   useEffect(() => {
-    if (dataFrameMethods.fetch === undefined || fetchedRowsStart === undefined || fetchedRowsEnd === undefined) return
-
-    // Create an AbortController per fetch and clean it up on dependency changes.
-    const abortController = new AbortController()
-
-    // Launch the data fetch. The promise is not awaited here, but it will be aborted if any dependency changes.
-    dataFrameMethods.fetch({
-      rowStart: fetchedRowsStart,
-      rowEnd: fetchedRowsEnd,
-      columns: columnNames,
-      orderBy,
-      signal: abortController.signal,
-    }).catch((error: unknown) => {
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        return
-      }
-      onFetchError(error)
-    })
+    if (scheduler === undefined || ranges === undefined) return
 
+    if (!isLargeScroll) {
+      scheduler.schedule({ ranges, columns: columnNames, onError: onFetchError })
+      return
+    }
+    if (abortedRef.current?.scheduler === scheduler && abortedRef.current.ranges === ranges) {
+      // The rows did not move since the large scroll (e.g. horizontal scroll): only the new columns are requested.
+      scheduler.schedule({ ranges, columns: columnNames, onError: onFetchError })
+      return
+    }
+    // Skip the intermediate ranges while dragging the scrollbar: the previous requests are not useful anymore,
+    // and the rows are fetched only if the scroll settles.
+    abortedRef.current = { scheduler, ranges }
+    scheduler.abort()
+    const timeout = setTimeout(() => {
+      scheduler.schedule({ ranges, columns: columnNames, onError: onFetchError })
+    }, largeScrollFetchDelayMs)
     return () => {
-      abortController.abort()
+      clearTimeout(timeout)
     }
-  }, [dataFrameMethods, fetchedRowsStart, fetchedRowsEnd, columnNames, orderBy])
+  }, [scheduler, ranges, columnNames, isLargeScroll])
+
+  return useCallback(() => {
+    scheduler?.retryFailed()
+  }, [scheduler])
 }
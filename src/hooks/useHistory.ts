@@ -0,0 +1,49 @@
+import { useContext, useEffect, useEffectEvent, useMemo, useRef } from 'react'
+
+import { HistoryContext } from '../contexts/HistoryContext.js'
+import type { HistoryEntryType, HistoryValues } from '../helpers/history.js'
+
+interface UseHistoryProps<K extends HistoryEntryType> {
+  /** The type of change */
+  type: K
+  /** The current value */
+  value: HistoryValues[K]
+  /** The state setter, undefined if the state is read-only */
+  setValue?: (value: HistoryValues[K]) => void
+}
+
+/**
+ * Record the changes made with a state setter in the interaction history, so that they can be undone and redone.
+ *
+ * The value is set back with setValue when a change of the same type is undone or redone, without recording it again.
+ * The changes undone or redone before the component was mounted are ignored.
+ *
+ * @returns The setter that records the changes, or undefined if setValue is undefined. The mergeKey option merges
+ * the successive changes with the same key (see HistoryContext).
+ */
+export function useHistory<K extends HistoryEntryType>({ type, value, setValue }: UseHistoryProps<K>): ((value: HistoryValues[K], options?: { mergeKey?: string }) => void) | undefined {
+  const { record, appliedChanges } = useContext(HistoryContext)
+
+  const appliedChange = appliedChanges?.[type]
+  // The id of the last change set back, initialized on mount so that the previous changes are not applied again
+  const appliedIdRef = useRef(appliedChange?.id)
+  const applyValue = useEffectEvent((value: HistoryValues[K]) => {
+    setValue?.(value)
+  })
+  useEffect(() => {
+    if (appliedChange && appliedChange.id !== appliedIdRef.current) {
+      appliedIdRef.current = appliedChange.id
+      applyValue(appliedChange.value)
+    }
+  }, [appliedChange])
+
+  return useMemo(() => {
+    if (!setValue) {
+      return undefined
+    }
+    return (next: HistoryValues[K], options?: { mergeKey?: string }) => {
+      record?.({ type, previous: value, next }, options)
+      setValue(next)
+    }
+  }, [type, value, setValue, record])
+}
@@ -0,0 +1,117 @@
+import { useCallback, useMemo, useState } from 'react'
+
+import { viewStateSuffix } from '../helpers/constants.js'
+import type { Selection } from '../helpers/selection.js'
+import { getDefaultSelection } from '../helpers/selection.js'
+import type { OrderBy } from '../helpers/sort.js'
+import type { ViewState, ViewStateProps } from '../helpers/viewState.js'
+import { getViewState, parseViewState } from '../helpers/viewState.js'
+import type { ColumnsVisibility } from '../providers/ColumnsVisibilityProvider.js'
+import type { CellPosition, HighTableProps } from '../types.js'
+import { useLocalStorageState } from './useLocalStorageState.js'
+
+type Props = Pick<HighTableProps, 'cacheKey' | 'columnConfiguration' | 'persistViewState' | 'onCellPositionChange' | 'onColumnsVisibilityChange' | 'onOrderByChange' | 'onSelectionChange'> & ViewStateProps
+
+type Result = ViewStateProps & Pick<HighTableProps, 'onCellPositionChange' | 'onColumnsVisibilityChange' | 'onOrderByChange' | 'onSelectionChange'>
+
+// the default values must be stable, since the controlled values are compared by reference (see useInputState)
+const defaultOrderBy: OrderBy = []
+const defaultSelection: Selection = getDefaultSelection()
+const defaultCellPosition: CellPosition = { colIndex: 1, rowIndex: 1 }
+
+function parse(json: string): ViewState | undefined {
+  // the local storage can be edited by hand, or written by another application: ignore an invalid value
+  try {
+    return parseViewState(JSON.parse(json))
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Persist the view state (sort, columns visibility, rows selection and active cell) in the local storage, under
+ * the cache key, if persistViewState is true.
+ *
+ * Only the uncontrolled values are persisted: the values that are controlled by the parent are left unchanged. The
+ * persisted values are passed as controlled values, initialized from the local storage, and the change handlers
+ * also update the local storage. The rows selection is only persisted if it's enabled (onSelectionChange is set).
+ *
+ * The mode is set on the first render, and cannot be changed. If the cache key changes, the view state is loaded
+ * again from the local storage.
+ *
+ * @returns The orderBy, columnsVisibility, selection and cellPosition props, and their change handlers.
+ */
+export function usePersistedViewState({
+  cacheKey,
+  columnConfiguration,
+  persistViewState,
+  cellPosition,
+  columnsVisibility,
+  orderBy,
+  selection,
+  onCellPositionChange,
+  onColumnsVisibilityChange,
+  onOrderByChange,
+  onSelectionChange,
+}: Props): Result {
+  const [persisted] = useState(() => {
+    const isEnabled = persistViewState === true && cacheKey !== undefined
+    return {
+      orderBy: isEnabled && orderBy === undefined,
+      columnsVisibility: isEnabled && columnsVisibility === undefined,
+      selection: isEnabled && selection === undefined && onSelectionChange !== undefined,
+      cellPosition: isEnabled && cellPosition === undefined,
+    }
+  })
+  // the columns hidden on the first render, as in ColumnsVisibilityProvider
+  const [defaultColumnsVisibility] = useState<ColumnsVisibility>(() => {
+    return Object.fromEntries(
+      Object.entries(columnConfiguration ?? {})
+        .filter(([, config]) => config.initiallyHidden)
+        .map(([name]) => [name, { hidden: true as const }])
+    )
+  })
+
+  const isEnabled = Object.values(persisted).some(Boolean)
+  const [viewState, setViewState] = useLocalStorageState<ViewState | undefined>({
+    key: isEnabled && cacheKey !== undefined ? `${cacheKey}${viewStateSuffix}` : undefined,
+    parse,
+  })
+
+  const updateViewState = useCallback((props: ViewStateProps) => {
+    setViewState(previous => getViewState({ ...previous, ...props }))
+  }, [setViewState])
+
+  const persistedOnOrderByChange = useCallback((orderBy: OrderBy) => {
+    onOrderByChange?.(orderBy)
+    updateViewState({ orderBy })
+  }, [onOrderByChange, updateViewState])
+  const persistedOnColumnsVisibilityChange = useCallback((columnsVisibility: ColumnsVisibility) => {
+    onColumnsVisibilityChange?.(columnsVisibility)
+    updateViewState({ columnsVisibility })
+  }, [onColumnsVisibilityChange, updateViewState])
+  const persistedOnSelectionChange = useCallback((selection: Selection) => {
+    onSelectionChange?.(selection)
+    updateViewState({ selection })
+  }, [onSelectionChange, updateViewState])
+  const persistedOnCellPositionChange = useCallback((cellPosition: CellPosition) => {
+    onCellPositionChange?.(cellPosition)
+    updateViewState({ cellPosition })
+  }, [onCellPositionChange, updateViewState])
+
+  return useMemo(() => ({
+    orderBy: persisted.orderBy ? viewState?.orderBy ?? defaultOrderBy : orderBy,
+    onOrderByChange: persisted.orderBy ? persistedOnOrderByChange : onOrderByChange,
+    columnsVisibility: persisted.columnsVisibility ? viewState?.columnsVisibility ?? defaultColumnsVisibility : columnsVisibility,
+    onColumnsVisibilityChange: persisted.columnsVisibility ? persistedOnColumnsVisibilityChange : onColumnsVisibilityChange,
+    selection: persisted.selection ? viewState?.selection ?? defaultSelection : selection,
+    onSelectionChange: persisted.selection ? persistedOnSelectionChange : onSelectionChange,
+    cellPosition: persisted.cellPosition ? viewState?.cellPosition ?? defaultCellPosition : cellPosition,
+    onCellPositionChange: persisted.cellPosition ? persistedOnCellPositionChange : onCellPositionChange,
+  }), [
+    persisted, viewState, defaultColumnsVisibility,
+    orderBy, columnsVisibility, selection, cellPosition,
+    onOrderByChange, onColumnsVisibilityChange, onSelectionChange, onCellPositionChange,
+    persistedOnOrderByChange, persistedOnColumnsVisibilityChange, persistedOnSelectionChange, persistedOnCellPositionChange,
+  ])
+}
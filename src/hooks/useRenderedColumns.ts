@@ -0,0 +1,20 @@
+import { useContext, useMemo } from 'react'
+
+import type { ColumnParameters } from '../contexts/ColumnParametersContext.js'
+import { RenderedColumnsContext } from '../contexts/ScrollContext.js'
+import type { RenderedColumn } from '../helpers/scroll.js'
+import { getRenderedColumns } from '../helpers/scroll.js'
+
+/**
+ * Get the columns to render in a row, among the visible columns, and the spacers that replace the skipped columns
+ * when the columns are virtualized.
+ *
+ * @param columnsParameters The visible columns, in the display order
+ * @returns The columns, with their index among the visible columns, and the spacers, in the display order
+ */
+export function useRenderedColumns(columnsParameters: ColumnParameters[]): RenderedColumn<ColumnParameters>[] {
+  const renderedColumns = useContext(RenderedColumnsContext)
+  return useMemo(() => {
+    return getRenderedColumns({ columns: columnsParameters, renderedColumns })
+  }, [columnsParameters, renderedColumns])
+}
@@ -1,12 +1,19 @@
 import HighTable from './components/HighTable.js'
-export type { ColumnConfig, ColumnConfiguration, CustomMenuGroup, CustomMenuItem } from './helpers/columnConfiguration.js'
-export type { Cells, DataFrame, DataFrameEvents, ResolvedValue } from './helpers/dataframe/index.js'
-export { arrayDataFrame, checkSignal, createGetRowNumber, sortableDataFrame, validateColumn, validateFetchParams, validateGetCellParams, validateGetRowNumberParams, validateOrderBy, validateRow } from './helpers/dataframe/index.js'
-export type { Selection } from './helpers/selection.js'
+export type { CellEditor, CellEditorProps, ColumnConfig, ColumnConfiguration, CustomMenuGroup, CustomMenuItem } from './helpers/columnConfiguration.js'
+export type { Aggregate, AggregateFunction, AggregateOptions, AggregateParams, Aggregates, CachedDataFrameOptions, Cells, ColumnDescriptor, ColumnStats, ColumnStatsOptions, ColumnStatsParams, ColumnType, ComputeColumnStats, DataFrame, DataFrameEvents, ExportFormat, ExportOptions, FetchRows, GetGroup, Group, GroupedDataFrame, HistogramBin, RejectedValue, ResolvedValue, RowPredicate, Search, SearchMatch, SearchOptions, SearchParams, SetCell, TopValue } from './helpers/dataframe/index.js'
+export { aggregateDataFrame, aggregateFunctions, arrayDataFrame, cachedDataFrame, checkSignal, columnStatsDataFrame, createGetRowNumber, exportDataFrame, filterableDataFrame, getGroupKey, groupedDataFrame, searchDataFrame, sortableDataFrame, validateColumn, validateFetchParams, validateGetCellParams, validateGetRowNumberParams, validateOrderBy, validateRow } from './helpers/dataframe/index.js'
+export type { FetchRetryOptions } from './helpers/fetchScheduler.js'
+export type { ColumnFilter, Filters, FilterType } from './helpers/filter.js'
+export type { ColumnFormat } from './helpers/format.js'
+export { formatValue } from './helpers/format.js'
+export type { History, HistoryEntry, HistoryEntryType, HistoryValues } from './helpers/history.js'
+export type { CellRange, CellSelection, Selection } from './helpers/selection.js'
 export type { Direction, OrderBy } from './helpers/sort.js'
 export type { CustomEventTarget, TypedCustomEvent } from './helpers/typedEventTarget.js'
 export { createEventTarget } from './helpers/typedEventTarget.js'
-export type { CellContentProps } from './types.js'
-export { stringify } from './utils/stringify.js'
+export type { ViewState, ViewStateProps } from './helpers/viewState.js'
+export { applyViewState, getViewState, parseViewState, viewStateVersion } from './helpers/viewState.js'
+export type { CellContentProps, CellEdit, EstimateRowHeightProps, FetchErrorContext, HighTableHandle, RowDensity, RowDetailProps } from './types.js'
+export { createStringify, stringify } from './utils/stringify.js'
 export { HighTable }
 export default HighTable
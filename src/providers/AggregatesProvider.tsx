@@ -0,0 +1,81 @@
+import type { ReactNode } from 'react'
+import { useContext, useMemo } from 'react'
+
+import type { ColumnAggregatesState } from '../contexts/AggregatesContext.js'
+import { AggregatesContext } from '../contexts/AggregatesContext.js'
+import { ColumnsVisibilityContext } from '../contexts/ColumnsVisibilityContext.js'
+import type { DataFrameMethods } from '../contexts/DataContext.js'
+import { DataFrameMethodsContext, NumRowsContext } from '../contexts/DataContext.js'
+import { SelectionContext } from '../contexts/SelectionContext.js'
+import type { AggregateFunction } from '../helpers/dataframe/aggregate.js'
+import { scanAggregates } from '../helpers/dataframe/aggregate.js'
+import type { Selection } from '../helpers/selection.js'
+import { useColumnComputations } from '../hooks/useColumnComputations.js'
+import type { HighTableProps } from '../types.js'
+
+type Props = Pick<HighTableProps, 'aggregates' | 'aggregateSelectedRows' | 'onError'> & {
+  /** Child components */
+  children: ReactNode
+}
+
+interface Source {
+  dataFrameMethods: DataFrameMethods
+  functions: AggregateFunction[]
+  numRows: number
+  selection?: Selection
+}
+
+async function computeAggregates({ source, column, signal }: { source: Source, column: string, signal: AbortSignal }): Promise<Extract<ColumnAggregatesState, { status: 'resolved' }>> {
+  const { dataFrameMethods, functions, numRows, selection } = source
+  const params = { column, functions, selection, signal }
+  const aggregates = dataFrameMethods.aggregate
+    ? await dataFrameMethods.aggregate(params)
+    : await scanAggregates({ ...params, data: dataFrameMethods, numRows })
+  return { status: 'resolved', aggregates }
+}
+
+/**
+ * Compute the aggregates of the visible columns, and provide them through the AggregatesContext.
+ *
+ * The data frame aggregate method is used if it exists, otherwise the rows are scanned in chunks. The aggregates
+ * are computed again when the data frame, the number of rows or the aggregated selection change, and the pending
+ * computations are aborted. Showing or hiding a column does not interrupt the computations of the other columns.
+ */
+export function AggregatesProvider({ children, aggregates, aggregateSelectedRows, onError }: Props) {
+  const dataFrameMethods = useContext(DataFrameMethodsContext)
+  const numRows = useContext(NumRowsContext)
+  const { visibleColumnsParameters } = useContext(ColumnsVisibilityContext)
+  const { selection } = useContext(SelectionContext)
+
+  // keep the same array while the list of functions is the same, to avoid recomputing on every render
+  const functionsKey = aggregates?.join(',') ?? ''
+  const functions = useMemo(() => {
+    return functionsKey === '' ? undefined : functionsKey.split(',') as AggregateFunction[]
+  }, [functionsKey])
+  // the selection is only aggregated if some rows are selected
+  const aggregatedSelection = aggregateSelectedRows && selection && selection.ranges.length > 0 ? selection : undefined
+
+  const columnNames = useMemo(() => {
+    return (visibleColumnsParameters ?? []).map(({ name }) => name)
+  }, [visibleColumnsParameters])
+
+  // The aggregates are only valid for the source they were computed from.
+  const source = useMemo((): Source | undefined => {
+    return functions ? { dataFrameMethods, functions, numRows, selection: aggregatedSelection } : undefined
+  }, [dataFrameMethods, functions, numRows, aggregatedSelection])
+
+  const getColumnAggregates = useColumnComputations({ source, columns: columnNames, compute: computeAggregates, onError })
+
+  const value = useMemo(() => {
+    if (!functions) {
+      return {}
+    }
+    return { functions, isSelectionAggregated: aggregatedSelection !== undefined, getColumnAggregates }
+  }, [functions, aggregatedSelection, getColumnAggregates])
+
+  return (
+    <AggregatesContext.Provider value={value}>
+      {children}
+    </AggregatesContext.Provider>
+  )
+}
@@ -1,18 +1,24 @@
 import { type ReactNode, useMemo } from 'react'
 
-import { CellCallbacksContext, RenderCellContentContext, StringifyContext } from '../contexts/CellConfigurationContext.js'
+import { CellCallbacksContext, LocaleContext, RenderCellContentContext, StringifyContext } from '../contexts/CellConfigurationContext.js'
 import type { HighTableProps } from '../types.js'
-import { stringify as defaultStringify } from '../utils/stringify.js'
+import { createStringify, defaultLocale } from '../utils/stringify.js'
 
-type Props = Pick<HighTableProps, 'onDoubleClickCell' | 'onKeyDownCell' | 'onMouseDownCell' | 'renderCellContent' | 'stringify'> & {
+type Props = Pick<HighTableProps, 'locale' | 'onDoubleClickCell' | 'onKeyDownCell' | 'onMouseDownCell' | 'renderCellContent' | 'stringify'> & {
   /** Child components */
   children: ReactNode
 }
 
 /**
  * Provide cell configuration contexts.
+ *
+ * If no stringify function is passed, the default one formats the numbers with the locale.
  */
-export function CellConfigurationProvider({ children, onDoubleClickCell, onKeyDownCell, onMouseDownCell, renderCellContent, stringify }: Props) {
+export function CellConfigurationProvider({ children, locale = defaultLocale, onDoubleClickCell, onKeyDownCell, onMouseDownCell, renderCellContent, stringify }: Props) {
+  const localizedStringify = useMemo(() => {
+    return stringify ?? createStringify(locale)
+  }, [stringify, locale])
+
   const cellCallbacks = useMemo(() => ({
     onDoubleClickCell,
     onKeyDownCell,
@@ -23,9 +29,11 @@ export function CellConfigurationProvider({ children, onDoubleClickCell, onKeyDo
   return (
     <CellCallbacksContext.Provider value={cellCallbacks}>
       <RenderCellContentContext.Provider value={renderCellContent}>
-        <StringifyContext.Provider value={stringify ?? defaultStringify}>
-          {children}
-        </StringifyContext.Provider>
+        <LocaleContext.Provider value={locale}>
+          <StringifyContext.Provider value={localizedStringify}>
+            {children}
+          </StringifyContext.Provider>
+        </LocaleContext.Provider>
       </RenderCellContentContext.Provider>
     </CellCallbacksContext.Provider>
   )
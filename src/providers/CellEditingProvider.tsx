@@ -0,0 +1,79 @@
+import type { ReactNode } from 'react'
+import { useCallback, useContext, useMemo, useState } from 'react'
+
+import type { CellEditCommit } from '../contexts/CellEditingContext.js'
+import { CellEditingContext } from '../contexts/CellEditingContext.js'
+import { DataFrameMethodsContext } from '../contexts/DataContext.js'
+import { OrderByContext } from '../contexts/OrderByContext.js'
+import type { CellPosition, HighTableProps } from '../types.js'
+
+type Props = Pick<HighTableProps, 'onCellEdit' | 'onError'> & {
+  /** Child components */
+  children: ReactNode
+}
+
+/**
+ * Provide the cell being edited, and the logic to commit the edits, through the CellEditingContext.
+ *
+ * The new value is set with the data frame setCell method, if it exists, and onCellEdit is called once it's set.
+ * Without setCell, onCellEdit is called directly, and the parent component is responsible for updating the data.
+ */
+export function CellEditingProvider({ children, onCellEdit, onError }: Props) {
+  const { setCell } = useContext(DataFrameMethodsContext)
+  const orderBy = useContext(OrderByContext)
+
+  const [editingCell, setEditingCell] = useState<CellPosition | undefined>(undefined)
+
+  const canEdit = setCell !== undefined || onCellEdit !== undefined
+
+  const startEditing = useMemo(() => {
+    if (!canEdit) {
+      return undefined
+    }
+    return (cellPosition: CellPosition) => {
+      setEditingCell(cellPosition)
+    }
+  }, [canEdit])
+
+  const stopEditing = useCallback(() => {
+    setEditingCell(undefined)
+  }, [])
+
+  const commitEdit = useMemo(() => {
+    if (!canEdit) {
+      return undefined
+    }
+    return ({ row, rowNumber, column, value, previousValue }: CellEditCommit) => {
+      setEditingCell(undefined)
+      if (Object.is(value, previousValue)) {
+        return
+      }
+      const edit = { column, rowNumber, value, previousValue }
+      if (!setCell) {
+        onCellEdit?.(edit)
+        return
+      }
+      setCell({ row, column, value, orderBy }).then(() => {
+        onCellEdit?.(edit)
+      }).catch((error: unknown) => {
+        onError?.(error)
+      })
+    }
+  }, [canEdit, setCell, orderBy, onCellEdit, onError])
+
+  const value = useMemo(() => {
+    return {
+      canEdit,
+      editingCell,
+      startEditing,
+      stopEditing,
+      commitEdit,
+    }
+  }, [canEdit, editingCell, startEditing, stopEditing, commitEdit])
+
+  return (
+    <CellEditingContext.Provider value={value}>
+      {children}
+    </CellEditingContext.Provider>
+  )
+}
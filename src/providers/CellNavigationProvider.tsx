@@ -1,11 +1,13 @@
 import type { ReactNode } from 'react'
-import { useCallback, useContext, useEffect, useMemo, useReducer } from 'react'
+import { useCallback, useContext, useEffect, useMemo, useReducer, useState } from 'react'
 
 import type { FocusAction, FocusState, MoveCellAction } from '../contexts/CellNavigationContext.js'
 import { CellNavigationContext } from '../contexts/CellNavigationContext.js'
 import { ColumnsVisibilityContext } from '../contexts/ColumnsVisibilityContext.js'
-import { NumRowsContext } from '../contexts/DataContext.js'
-import { defaultNumRowsPerPage } from '../helpers/constants.js'
+import { DataFrameMethodsContext, NumRowsContext } from '../contexts/DataContext.js'
+import { GroupByContext } from '../contexts/GroupByContext.js'
+import { OrderByContext } from '../contexts/OrderByContext.js'
+import { ariaOffset, defaultNumRowsPerPage } from '../helpers/constants.js'
 import { useInputState } from '../hooks/useInputState.js'
 import type { HighTableProps } from '../types.js'
 
@@ -45,6 +47,10 @@ function initializeFocusState(focus: boolean): FocusState {
 
 /**
  * Provide the cell navigation state and logic to the table, through the CellNavigationContext.
+ *
+ * If the rows are grouped, ArrowLeft on the row header of an expanded group collapses it, and ArrowLeft on the row
+ * header of a collapsed group or of a data row moves to the parent group. ArrowRight on the row header of a collapsed
+ * group expands it.
  */
 export function CellNavigationProvider({
   cellPosition: controlledCellPosition,
@@ -54,8 +60,13 @@ export function CellNavigationProvider({
   children,
 }: CellNavigationProviderProps) {
   const [focusState, focusDispatch] = useReducer(reducer, focus, initializeFocusState)
+  // If false, the current cell is only scrolled into view, and the focus stays where it is (see the CELL action)
+  const [shouldFocusCell, setShouldFocusCell] = useState(true)
   /** The actual number of rows in the data frame */
   const numDataRows = useContext(NumRowsContext)
+  const { getGroup } = useContext(DataFrameMethodsContext)
+  const orderBy = useContext(OrderByContext)
+  const { groupBy, toggleGroup } = useContext(GroupByContext)
 
   const notifyChange = useCallback(() => {
     focusDispatch({ type: 'START' })
@@ -79,6 +90,7 @@ export function CellNavigationProvider({
   const colCount = useMemo(() => numDataColumns + 1, [numDataColumns])
 
   const goToCurrentCell = useCallback(() => {
+    setShouldFocusCell(true)
     // force set
     goToCell?.({ ...cellPosition })
   }, [goToCell, cellPosition])
@@ -86,6 +98,7 @@ export function CellNavigationProvider({
   const goToFirstCell = useMemo(() => {
     if (goToCell) {
       return () => {
+        setShouldFocusCell(true)
         goToCell({ colIndex: 1, rowIndex: 1 })
       }
     }
@@ -120,22 +133,51 @@ export function CellNavigationProvider({
         // due to its default scroll behavior. After focusing the elements, it scrolls it into view using `inline: center`.
         // But `inline: nearest` feels more natural for navigation. So, we use scrollIntoView first, then focus with `preventScroll: true`.
         element.scrollIntoView({ behavior: 'auto', block: 'nearest', inline: 'nearest' })
-        element.focus({ preventScroll: true })
+        if (shouldFocusCell) {
+          element.focus({ preventScroll: true })
+        }
         focusDispatch({ type: 'FOCUSED' })
       }
     }
-  }, [focusState])
+  }, [focusState, shouldFocusCell])
+
+  // The group header at the given table row index, if any
+  const getGroupAt = useCallback((rowIndex: number) => {
+    const row = rowIndex - ariaOffset
+    return row < 0 ? undefined : getGroup?.({ row, orderBy })
+  }, [getGroup, orderBy])
+
+  // The table row index of the parent group of the given row, if any (the groups are listed before their rows)
+  const getParentGroupRowIndex = useCallback((rowIndex: number) => {
+    if (groupBy.length === 0) {
+      return undefined
+    }
+    const depth = getGroupAt(rowIndex)?.depth ?? groupBy.length
+    for (let index = rowIndex - 1; index >= ariaOffset; index--) {
+      const group = getGroupAt(index)
+      if (group && group.depth < depth) {
+        return index
+      }
+    }
+    return undefined
+  }, [groupBy, getGroupAt])
 
   const moveCell = useMemo(() => {
     if (goToCell) {
       const { rowIndex, colIndex } = cellPosition
       return (action: MoveCellAction) => {
+        setShouldFocusCell(action.type !== 'CELL' || action.focus !== false)
         switch (action.type) {
           case 'LAST_COLUMN': {
             goToCell({ colIndex: colCount, rowIndex })
             break
           }
           case 'NEXT_COLUMN': {
+            const group = colIndex === 1 ? getGroupAt(rowIndex) : undefined
+            if (group?.collapsed && toggleGroup) {
+              toggleGroup(group.key)
+              break
+            }
             const newColIndex = colIndex < colCount ? colIndex + 1 : colCount
             goToCell({ colIndex: newColIndex, rowIndex })
             break
@@ -145,6 +187,18 @@ export function CellNavigationProvider({
             break
           }
           case 'PREVIOUS_COLUMN': {
+            if (colIndex === 1) {
+              const group = getGroupAt(rowIndex)
+              if (group && !group.collapsed && toggleGroup) {
+                toggleGroup(group.key)
+                break
+              }
+              const parentRowIndex = getParentGroupRowIndex(rowIndex)
+              if (parentRowIndex !== undefined) {
+                goToCell({ colIndex, rowIndex: parentRowIndex })
+                break
+              }
+            }
             const newColIndex = colIndex > 1 ? colIndex - 1 : 1
             goToCell({ colIndex: newColIndex, rowIndex })
             break
@@ -192,7 +246,7 @@ export function CellNavigationProvider({
         }
       }
     }
-  }, [cellPosition, goToCell, colCount, rowCount, numRowsPerPage])
+  }, [cellPosition, goToCell, colCount, rowCount, numRowsPerPage, getGroupAt, getParentGroupRowIndex, toggleGroup])
 
   const value = useMemo(() => {
     return {
@@ -0,0 +1,190 @@
+import type { KeyboardEvent, MouseEvent, ReactNode } from 'react'
+import { useContext, useEffect, useMemo, useState } from 'react'
+
+import { CellNavigationContext } from '../contexts/CellNavigationContext.js'
+import { CellSelectionContext } from '../contexts/CellSelectionContext.js'
+import { ariaOffset } from '../helpers/constants.js'
+import type { CellRange, CellSelection } from '../helpers/selection.js'
+import { getDefaultCellSelection, isCellInRange } from '../helpers/selection.js'
+import { useInputState } from '../hooks/useInputState.js'
+import type { CellPosition, HighTableProps } from '../types.js'
+
+type Props = Pick<HighTableProps, 'cellSelection' | 'onCellSelectionChange'> & {
+  /** Child components */
+  children: ReactNode
+}
+
+function isDataCell({ colIndex, rowIndex }: CellPosition): boolean {
+  return colIndex >= ariaOffset && rowIndex >= ariaOffset
+}
+
+function isSamePosition(a: CellPosition, b: CellPosition): boolean {
+  return a.colIndex === b.colIndex && a.rowIndex === b.rowIndex
+}
+
+function isSameRange(a: CellRange | undefined, b: CellRange | undefined): boolean {
+  if (a === undefined || b === undefined) {
+    return a === b
+  }
+  return isSamePosition(a.anchor, b.anchor) && isSamePosition(a.head, b.head)
+}
+
+/**
+ * Provide the cell selection state and logic to the table, through the CellSelectionContext.
+ *
+ * The cell selection is a rectangular range of data cells, independent from the rows selection. It can be
+ * extended with Shift+Arrow (from the current cell), by dragging the mouse, or with Shift+click.
+ */
+export function CellSelectionProvider({ children, cellSelection: controlledCellSelection, onCellSelectionChange }: Props) {
+  const { cellPosition, colCount, rowCount, moveCell } = useContext(CellNavigationContext)
+  // The cell selection is only useful for the parent component. If no props are passed, hide the feature.
+  const [isEnabled] = useState<boolean>(() => controlledCellSelection !== undefined || onCellSelectionChange !== undefined)
+  const inputState = useInputState<CellSelection>({
+    controlledValue: controlledCellSelection,
+    onChange: onCellSelectionChange,
+    initialUncontrolledValue: getDefaultCellSelection(),
+  })
+  const [cellSelection, setCellSelection] = isEnabled ? inputState : [undefined, undefined]
+
+  // The cell where the current drag gesture started, if any.
+  const [dragAnchor, setDragAnchor] = useState<CellPosition | undefined>(undefined)
+
+  // Stop the drag gesture when the mouse button is released, even outside of the table (external system - useEffect is needed)
+  useEffect(() => {
+    if (!dragAnchor) {
+      return
+    }
+    function onMouseUp() {
+      setDragAnchor(undefined)
+    }
+    window.addEventListener('mouseup', onMouseUp)
+    return () => {
+      window.removeEventListener('mouseup', onMouseUp)
+    }
+  }, [dragAnchor])
+
+  const setRange = useMemo(() => {
+    if (!cellSelection || !setCellSelection) {
+      return undefined
+    }
+    return (range: CellRange | undefined) => {
+      if (!isSameRange(range, cellSelection.range)) {
+        setCellSelection({ range })
+      }
+    }
+  }, [cellSelection, setCellSelection])
+
+  const isCellSelected = useMemo(() => {
+    if (!cellSelection) {
+      return undefined
+    }
+    const { range } = cellSelection
+    return ({ colIndex, rowIndex }: CellPosition) => {
+      return range !== undefined && isCellInRange({ range, colIndex, rowIndex })
+    }
+  }, [cellSelection])
+
+  const onCellMouseDown = useMemo(() => {
+    if (!cellSelection || !setRange) {
+      return undefined
+    }
+    return (event: MouseEvent, cell: CellPosition) => {
+      if (event.button !== 0) {
+        // only the main button starts or extends a selection
+        return
+      }
+      // prevent the native text selection while selecting cells
+      event.preventDefault()
+      if (event.shiftKey) {
+        // extend the selection from its anchor, or from the current cell
+        const anchor = cellSelection.range?.anchor ?? (isDataCell(cellPosition) ? cellPosition : cell)
+        setRange({ anchor, head: cell })
+        return
+      }
+      // start a new drag gesture. The range is only created when the mouse enters another cell.
+      setDragAnchor(cell)
+      setRange(undefined)
+    }
+  }, [cellSelection, setRange, cellPosition])
+
+  const onCellMouseEnter = useMemo(() => {
+    if (!setRange) {
+      return undefined
+    }
+    return (event: MouseEvent, cell: CellPosition) => {
+      if (!dragAnchor) {
+        return
+      }
+      if ((event.buttons & 1) === 0) {
+        // the button has been released outside of the window
+        setDragAnchor(undefined)
+        return
+      }
+      setRange({ anchor: dragAnchor, head: cell })
+    }
+  }, [setRange, dragAnchor])
+
+  const onTableKeyDown = useMemo(() => {
+    if (!cellSelection || !setRange) {
+      return undefined
+    }
+    return (event: KeyboardEvent) => {
+      const { key, ctrlKey, metaKey, shiftKey, altKey } = event
+      if (key === 'Escape') {
+        setRange(undefined)
+        return
+      }
+      if (key !== 'ArrowRight' && key !== 'ArrowLeft' && key !== 'ArrowDown' && key !== 'ArrowUp') {
+        return
+      }
+      if (!shiftKey || altKey || metaKey) {
+        // moving the current cell without Shift collapses the selection
+        setRange(undefined)
+        return
+      }
+      const { range } = cellSelection
+      const anchor = range?.anchor ?? cellPosition
+      const head = range?.head ?? cellPosition
+      if (!isDataCell(anchor) || rowCount < ariaOffset) {
+        // only the data cells can be selected
+        return
+      }
+      const newHead = { ...head }
+      switch (key) {
+        case 'ArrowRight':
+          newHead.colIndex = ctrlKey ? colCount : Math.min(head.colIndex + 1, colCount)
+          break
+        case 'ArrowLeft':
+          newHead.colIndex = ctrlKey ? ariaOffset : Math.max(head.colIndex - 1, ariaOffset)
+          break
+        case 'ArrowDown':
+          newHead.rowIndex = ctrlKey ? rowCount : Math.min(head.rowIndex + 1, rowCount)
+          break
+        case 'ArrowUp':
+          newHead.rowIndex = ctrlKey ? ariaOffset : Math.max(head.rowIndex - 1, ariaOffset)
+          break
+      }
+      // avoid scrolling the table, and move the current cell to the head, so that it's scrolled into view
+      event.stopPropagation()
+      event.preventDefault()
+      setRange({ anchor, head: newHead })
+      moveCell?.({ type: 'CELL', ...newHead })
+    }
+  }, [cellSelection, setRange, cellPosition, colCount, rowCount, moveCell])
+
+  const value = useMemo(() => {
+    return {
+      cellSelection,
+      isCellSelected,
+      onCellMouseDown,
+      onCellMouseEnter,
+      onTableKeyDown,
+    }
+  }, [cellSelection, isCellSelected, onCellMouseDown, onCellMouseEnter, onTableKeyDown])
+
+  return (
+    <CellSelectionContext.Provider value={value}>
+      {children}
+    </CellSelectionContext.Provider>
+  )
+}
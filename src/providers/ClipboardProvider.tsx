@@ -0,0 +1,196 @@
+import type { ClipboardEvent, KeyboardEvent, ReactNode } from 'react'
+import { useCallback, useContext, useMemo, useState } from 'react'
+
+import { LocaleContext, StringifyContext } from '../contexts/CellConfigurationContext.js'
+import { CellSelectionContext } from '../contexts/CellSelectionContext.js'
+import { ClipboardContext } from '../contexts/ClipboardContext.js'
+import type { ColumnParameters } from '../contexts/ColumnParametersContext.js'
+import { ColumnsVisibilityContext } from '../contexts/ColumnsVisibilityContext.js'
+import type { DataFrameMethods } from '../contexts/DataContext.js'
+import { DataFrameMethodsContext, NumRowsContext } from '../contexts/DataContext.js'
+import { OrderByContext } from '../contexts/OrderByContext.js'
+import { SelectionContext } from '../contexts/SelectionContext.js'
+import type { ClipboardContent } from '../helpers/clipboard.js'
+import { toHtmlTable, toTsv } from '../helpers/clipboard.js'
+import { ariaOffset } from '../helpers/constants.js'
+import { checkSignal, getContinuousRanges } from '../helpers/dataframe/helpers.js'
+import { formatValue } from '../helpers/format.js'
+import { getCellRangeBounds } from '../helpers/selection.js'
+import type { OrderBy } from '../helpers/sort.js'
+import type { HighTableProps } from '../types.js'
+
+type Props = Pick<HighTableProps, 'onError'> & {
+  /** Child components */
+  children: ReactNode
+}
+
+interface Copy {
+  controller: AbortController // the AbortController used to cancel the copy
+}
+
+/**
+ * Provide the logic to copy the selected rows, or the selected range of cells, to the clipboard,
+ * through the ClipboardContext.
+ *
+ * The cells are fetched if needed, formatted with the formatting options of their column or stringified with the
+ * configured stringify function, and written both
+ * as tab-separated values and as an HTML table. The copy can be cancelled with Escape while the cells are fetched.
+ *
+ * If nothing is selected, the copy event is left to the focused cell or header.
+ */
+export function ClipboardProvider({ children, onError }: Props) {
+  const numRows = useContext(NumRowsContext)
+  const dataFrameMethods = useContext(DataFrameMethodsContext)
+  const orderBy = useContext(OrderByContext)
+  const stringify = useContext(StringifyContext)
+  const locale = useContext(LocaleContext)
+  const { visibleColumnsParameters } = useContext(ColumnsVisibilityContext)
+  const { numSelectedRows, isRowSelected } = useContext(SelectionContext)
+  const { cellSelection } = useContext(CellSelectionContext)
+
+  const [copy, setCopy] = useState<Copy | undefined>(undefined)
+  const stopCopy = useCallback(({ copy }: { copy: Copy }) => {
+    copy.controller.abort()
+    // if it's the current copy, we reset it
+    setCopy(currentCopy => currentCopy === copy ? undefined : currentCopy)
+  }, [])
+  const startCopy = useCallback(() => {
+    // start a new copy, aborting the previous one if it exists
+    const nextCopy = { controller: new AbortController() }
+    setCopy((previousCopy) => {
+      previousCopy?.controller.abort()
+      return nextCopy
+    })
+    return nextCopy
+  }, [])
+
+  const onTableCopy = useMemo(() => {
+    const columns = visibleColumnsParameters ?? []
+    const range = cellSelection?.range
+    let fetchContent: ((signal: AbortSignal) => Promise<ClipboardContent>) | undefined = undefined
+    if (range) {
+      // the selected range of cells has priority over the selected rows
+      const { minColIndex, maxColIndex, minRowIndex, maxRowIndex } = getCellRangeBounds(range)
+      const rowStart = minRowIndex - ariaOffset
+      const rowEnd = Math.min(maxRowIndex - ariaOffset + 1, numRows)
+      // the group header rows have no cells to copy, as in fetchSelectedRows
+      const rows = Array.from({ length: Math.max(rowEnd - rowStart, 0) }, (_, i) => rowStart + i)
+        .filter(row => !dataFrameMethods.getGroup?.({ row, orderBy }))
+      const rangeColumns = columns.slice(minColIndex - ariaOffset, maxColIndex - ariaOffset + 1)
+      fetchContent = (signal: AbortSignal) => fetchCells({ dataFrameMethods, rows, columns: rangeColumns, orderBy, stringify, locale, signal })
+    } else if (numSelectedRows && isRowSelected) {
+      fetchContent = async (signal: AbortSignal) => {
+        const rows = await fetchSelectedRows({ dataFrameMethods, numRows, orderBy, isRowSelected, signal })
+        return fetchCells({ dataFrameMethods, rows, columns, orderBy, stringify, locale, signal })
+      }
+    }
+    if (!fetchContent) {
+      return undefined
+    }
+    const fetchSelectedContent = fetchContent
+    return (event: ClipboardEvent) => {
+      if (!document.getSelection()?.isCollapsed || event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+        // let the browser copy the selected text, including in a cell editor
+        return
+      }
+      // don't let the focused cell copy its own value
+      event.preventDefault()
+      event.stopPropagation()
+
+      const copy = startCopy()
+      const content = fetchSelectedContent(copy.controller.signal)
+        .finally(() => { stopCopy({ copy }) })
+      // the fetch errors are handled here too, since writing waits for the content
+      writeToClipboard(content).catch(async (err: unknown) => {
+        // if the cells could not be fetched, report that error rather than the clipboard one
+        const error = await content.then(() => err, (fetchError: unknown) => fetchError)
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          // the copy was cancelled, nothing to write
+          return
+        }
+        onError?.(error)
+      })
+    }
+  }, [visibleColumnsParameters, cellSelection, numRows, numSelectedRows, isRowSelected, dataFrameMethods, orderBy, stringify, locale, startCopy, stopCopy, onError])
+
+  const onTableKeyDown = useMemo(() => {
+    if (!copy) {
+      return undefined
+    }
+    return (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        // cancel the pending copy, and nothing else (the selection is preserved)
+        event.preventDefault()
+        stopCopy({ copy })
+      }
+    }
+  }, [copy, stopCopy])
+
+  const value = useMemo(() => {
+    return {
+      pendingCopy: copy !== undefined,
+      onTableCopy,
+      onTableKeyDown,
+      onCopyError: onError,
+    }
+  }, [copy, onTableCopy, onTableKeyDown, onError])
+
+  return (
+    <ClipboardContext.Provider value={value}>
+      {children}
+    </ClipboardContext.Provider>
+  )
+}
+
+// write the content to the clipboard, as TSV and HTML if supported by the browser, or as plain text otherwise
+async function writeToClipboard(content: Promise<ClipboardContent>): Promise<void> {
+  if (typeof ClipboardItem === 'undefined' || typeof navigator.clipboard.write !== 'function') {
+    await navigator.clipboard.writeText(toTsv(await content))
+    return
+  }
+  // The item is created synchronously, during the copy event, with promises for the data. Otherwise, the
+  // browser might refuse to write to the clipboard once the cells have been fetched.
+  const item = new ClipboardItem({
+    'text/plain': content.then(content => new Blob([toTsv(content)], { type: 'text/plain' })),
+    'text/html': content.then(content => new Blob([toHtmlTable(content)], { type: 'text/html' })),
+  })
+  await navigator.clipboard.write([item])
+}
+
+// fetch the rows (in the current order) whose row number is selected
+async function fetchSelectedRows({ dataFrameMethods, numRows, orderBy, isRowSelected, signal }: { dataFrameMethods: DataFrameMethods, numRows: number, orderBy?: OrderBy, isRowSelected: ({ rowNumber }: { rowNumber: number | undefined }) => boolean | undefined, signal?: AbortSignal }): Promise<number[]> {
+  await dataFrameMethods.fetch?.({ rowStart: 0, rowEnd: numRows, orderBy, signal })
+  checkSignal(signal)
+  const rows: number[] = []
+  for (let row = 0; row < numRows; row++) {
+    if (dataFrameMethods.getGroup?.({ row, orderBy })) {
+      // the group header rows have no row number, and cannot be selected
+      continue
+    }
+    const rowNumber = dataFrameMethods.getRowNumber({ row, orderBy })?.value
+    if (rowNumber === undefined) {
+      throw new Error(`Row number is undefined for row ${row} with orderBy ${JSON.stringify(orderBy ?? [])}`)
+    }
+    if (isRowSelected({ rowNumber })) {
+      rows.push(row)
+    }
+  }
+  return rows
+}
+
+// fetch the cells of the rows (sorted, in the current order) and columns, and format them
+async function fetchCells({ dataFrameMethods, rows, columns, orderBy, stringify, locale, signal }: { dataFrameMethods: DataFrameMethods, rows: number[], columns: Pick<ColumnParameters, 'name' | 'type' | 'format'>[], orderBy?: OrderBy, stringify: (value: unknown) => string | undefined, locale: string, signal?: AbortSignal }): Promise<ClipboardContent> {
+  const { fetch } = dataFrameMethods
+  const columnNames = columns.map(({ name }) => name)
+  if (fetch) {
+    await Promise.all(getContinuousRanges(rows).map(({ rowStart, rowEnd }) => fetch({ rowStart, rowEnd, columns: columnNames, orderBy, signal })))
+  }
+  checkSignal(signal)
+  return {
+    columns: columnNames,
+    rows: rows.map(row => columns.map(({ name, type, format }) => {
+      const cell = dataFrameMethods.getCell({ row, column: name, orderBy })
+      return cell === undefined ? '' : formatValue({ value: cell.value, type, format, locale, stringify }) ?? ''
+    })),
+  }
+}
@@ -0,0 +1,102 @@
+import type { ReactNode } from 'react'
+import { useContext, useMemo, useState } from 'react'
+
+import { ColumnOrderContext } from '../contexts/ColumnOrderContext.js'
+import { type ColumnParameters, ColumnParametersContext } from '../contexts/ColumnParametersContext.js'
+import { useInputState } from '../hooks/useInputState.js'
+import { useLocalStorageState } from '../hooks/useLocalStorageState.js'
+import type { HighTableProps } from '../types.js'
+
+type Props = Pick<HighTableProps, 'columnOrder' | 'onColumnOrderChange'> & {
+  /** Optional key to use for local storage, in uncontrolled mode (no local storage if not provided) */
+  localStorageKey?: string
+  /** Child components */
+  children: ReactNode
+}
+
+function parse(json: string): string[] {
+  const value: unknown = JSON.parse(json)
+  return Array.isArray(value) ? value.filter((element: unknown) => typeof element === 'string') : []
+}
+
+/**
+ * Provide the column order to the table, and an action to move a column, through the ColumnOrderContext.
+ *
+ * The column parameters are provided again through the ColumnParametersContext, in the current order. Their index
+ * is not changed, so that the state stored by column index (e.g. the column widths) follows the moved columns.
+ */
+export function ColumnOrderProvider({ children, columnOrder: controlledColumnOrder, localStorageKey, onColumnOrderChange }: Props) {
+  const columnParameters = useContext(ColumnParametersContext)
+
+  // In controlled mode, the parent manages the state. In uncontrolled mode, it's persisted in the local storage (if a key is provided).
+  const [isControlled] = useState<boolean>(() => controlledColumnOrder !== undefined)
+  const [inputColumnOrder, setInputColumnOrder] = useInputState<string[]>({
+    controlledValue: controlledColumnOrder,
+    onChange: onColumnOrderChange,
+    initialUncontrolledValue: [],
+  })
+  const [storedColumnOrder, setStoredColumnOrder] = useLocalStorageState<string[]>({ key: localStorageKey, parse })
+  const columnOrder = isControlled ? inputColumnOrder : storedColumnOrder
+  const setColumnOrder = useMemo(() => {
+    if (isControlled) {
+      return setInputColumnOrder
+    }
+    return (columnOrder: string[]) => {
+      onColumnOrderChange?.(columnOrder)
+      setStoredColumnOrder(columnOrder)
+    }
+  }, [isControlled, setInputColumnOrder, onColumnOrderChange, setStoredColumnOrder])
+
+  const orderedColumnParameters = useMemo(() => {
+    if (!columnOrder || columnOrder.length === 0) {
+      return columnParameters
+    }
+    const columnParametersByName = new Map(columnParameters.map(column => [column.name, column]))
+    const orderedNames = new Set<string>()
+    const ordered: ColumnParameters[] = []
+    for (const name of columnOrder) {
+      const column = columnParametersByName.get(name)
+      // ignore the unknown and duplicate names
+      if (column && !orderedNames.has(name)) {
+        orderedNames.add(name)
+        ordered.push(column)
+      }
+    }
+    // the columns that are not in the list are appended, in the data frame order
+    for (const column of columnParameters) {
+      if (!orderedNames.has(column.name)) {
+        ordered.push(column)
+      }
+    }
+    return ordered
+  }, [columnParameters, columnOrder])
+
+  const moveColumn = useMemo(() => {
+    if (!setColumnOrder) {
+      return undefined
+    }
+    return (columnName: string, targetColumnName: string) => {
+      const names = orderedColumnParameters.map(column => column.name)
+      const from = names.indexOf(columnName)
+      const to = names.indexOf(targetColumnName)
+      if (from === -1 || to === -1 || from === to) {
+        return
+      }
+      names.splice(from, 1)
+      names.splice(to, 0, columnName)
+      setColumnOrder(names)
+    }
+  }, [orderedColumnParameters, setColumnOrder])
+
+  const value = useMemo(() => {
+    return { moveColumn }
+  }, [moveColumn])
+
+  return (
+    <ColumnOrderContext.Provider value={value}>
+      <ColumnParametersContext.Provider value={orderedColumnParameters}>
+        {children}
+      </ColumnParametersContext.Provider>
+    </ColumnOrderContext.Provider>
+  )
+}
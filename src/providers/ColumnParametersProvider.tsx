@@ -1,7 +1,7 @@
 import { type ReactNode, useContext, useMemo } from 'react'
 
 import { type ColumnParameters, ColumnParametersContext } from '../contexts/ColumnParametersContext.js'
-import { ColumnNamesContext } from '../contexts/DataContext.js'
+import { ColumnNamesContext, ColumnTypesContext } from '../contexts/DataContext.js'
 import type { HighTableProps } from '../types.js'
 
 type Props = Pick<HighTableProps, 'columnConfiguration'> & {
@@ -12,10 +12,12 @@ type Props = Pick<HighTableProps, 'columnConfiguration'> & {
 /**
  * Provide the columns configuration to the table, through the ColumnParametersContext.
  *
- * It merges the column names with the user-provided configuration.
+ * It merges the column names and types with the user-provided configuration. The type from the configuration, if
+ * any, overrides the type from the column descriptor.
  */
 export function ColumnParametersProvider({ columnConfiguration, children }: Props) {
   const columnNames = useContext(ColumnNamesContext)
+  const columnTypes = useContext(ColumnTypesContext)
 
   const columnParameters = useMemo(() => {
     const inHeader = new Set(columnNames)
@@ -24,6 +26,7 @@ export function ColumnParametersProvider({ columnConfiguration, children }: Prop
     const cols: ColumnParameters[] = columnNames.map((name, index) => ({
       name,
       index,
+      type: columnTypes.get(name),
       ...columnConfiguration?.[name] ?? {},
     }))
 
@@ -38,7 +41,7 @@ export function ColumnParametersProvider({ columnConfiguration, children }: Prop
     }
 
     return cols
-  }, [columnNames, columnConfiguration])
+  }, [columnNames, columnTypes, columnConfiguration])
 
   return (
     <ColumnParametersContext.Provider value={columnParameters}>
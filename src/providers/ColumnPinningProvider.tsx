@@ -0,0 +1,71 @@
+import type { ReactNode } from 'react'
+import { useCallback, useContext, useMemo, useState } from 'react'
+
+import { ColumnParametersContext } from '../contexts/ColumnParametersContext.js'
+import { ColumnPinningContext } from '../contexts/ColumnPinningContext.js'
+
+interface Props {
+  /** Child components */
+  children: ReactNode
+}
+
+/**
+ * Provide the actions to pin and unpin the columns, through the ColumnPinningContext.
+ *
+ * The initially pinned columns are set with the `pinned` field of the columns configuration.
+ *
+ * The column parameters are provided again through the ColumnParametersContext, with the pinned
+ * columns first, and their `pinned` field set to the current state.
+ */
+export function ColumnPinningProvider({ children }: Props) {
+  const columnParameters = useContext(ColumnParametersContext)
+
+  // The names of the pinned columns
+  const [pinnedColumns, setPinnedColumns] = useState<Set<string>>(() => {
+    return new Set(columnParameters.filter(({ pinned }) => pinned === 'left').map(({ name }) => name))
+  })
+
+  const pinnedFirstColumnParameters = useMemo(() => {
+    const pinned = []
+    const unpinned = []
+    for (const column of columnParameters) {
+      const isPinned = pinnedColumns.has(column.name)
+      if (isPinned) {
+        pinned.push(column.pinned === 'left' ? column : { ...column, pinned: 'left' as const })
+      } else {
+        unpinned.push(column.pinned === undefined ? column : { ...column, pinned: undefined })
+      }
+    }
+    return [...pinned, ...unpinned]
+  }, [columnParameters, pinnedColumns])
+
+  const getPinColumn = useCallback((columnName: string) => {
+    if (pinnedColumns.has(columnName) || !columnParameters.some(({ name }) => name === columnName)) {
+      return undefined
+    }
+    return () => {
+      setPinnedColumns(new Set([...pinnedColumns, columnName]))
+    }
+  }, [columnParameters, pinnedColumns])
+
+  const getUnpinColumn = useCallback((columnName: string) => {
+    if (!pinnedColumns.has(columnName)) {
+      return undefined
+    }
+    return () => {
+      setPinnedColumns(new Set([...pinnedColumns].filter(name => name !== columnName)))
+    }
+  }, [pinnedColumns])
+
+  const value = useMemo(() => {
+    return { getPinColumn, getUnpinColumn }
+  }, [getPinColumn, getUnpinColumn])
+
+  return (
+    <ColumnPinningContext.Provider value={value}>
+      <ColumnParametersContext.Provider value={pinnedFirstColumnParameters}>
+        {children}
+      </ColumnParametersContext.Provider>
+    </ColumnPinningContext.Provider>
+  )
+}
@@ -0,0 +1,77 @@
+import type { ReactNode } from 'react'
+import { useCallback, useContext, useMemo, useState } from 'react'
+
+import type { ColumnStatsState } from '../contexts/ColumnStatsContext.js'
+import { ColumnStatsContext } from '../contexts/ColumnStatsContext.js'
+import type { DataFrameMethods } from '../contexts/DataContext.js'
+import { DataFrameMethodsContext, NumRowsContext } from '../contexts/DataContext.js'
+import { scanColumnStats } from '../helpers/dataframe/stats.js'
+import { useColumnComputations } from '../hooks/useColumnComputations.js'
+import type { HighTableProps } from '../types.js'
+
+type Props = Pick<HighTableProps, 'columnStats' | 'onError'> & {
+  /** Child components */
+  children: ReactNode
+}
+
+interface Source {
+  dataFrameMethods: DataFrameMethods
+  numRows: number
+}
+
+async function computeColumnStats({ source, column, signal }: { source: Source, column: string, signal: AbortSignal }): Promise<Extract<ColumnStatsState, { status: 'resolved' }>> {
+  const { dataFrameMethods, numRows } = source
+  const params = { column, signal }
+  const stats = dataFrameMethods.columnStats
+    ? await dataFrameMethods.columnStats(params)
+    : await scanColumnStats({ ...params, data: dataFrameMethods, numRows })
+  return { status: 'resolved', stats }
+}
+
+/**
+ * Compute the statistics of the requested columns, and provide them through the ColumnStatsContext.
+ *
+ * The statistics are computed lazily: only for the columns requested by the descendants (see requestColumnStats),
+ * with the data frame columnStats method if it exists, otherwise by scanning the rows in chunks. They are computed
+ * again when the data frame or the number of rows change.
+ */
+export function ColumnStatsProvider({ children, columnStats, onError }: Props) {
+  const dataFrameMethods = useContext(DataFrameMethodsContext)
+  const numRows = useContext(NumRowsContext)
+
+  // The statistics are only valid for the source they were computed from.
+  const source = useMemo((): Source | undefined => {
+    return columnStats ? { dataFrameMethods, numRows } : undefined
+  }, [columnStats, dataFrameMethods, numRows])
+
+  // The requested columns are forgotten when the source changes: the descendants request them again.
+  const [requested, setRequested] = useState<{ source: Source, columns: string[] } | undefined>(undefined)
+  const requestedColumns = useMemo(() => {
+    return source !== undefined && requested?.source === source ? requested.columns : []
+  }, [source, requested])
+
+  const requestColumnStats = useCallback((column: string) => {
+    if (source === undefined) {
+      return
+    }
+    setRequested((prev) => {
+      const columns = prev?.source === source ? prev.columns : []
+      return columns.includes(column) ? prev : { source, columns: [...columns, column] }
+    })
+  }, [source])
+
+  const getColumnStats = useColumnComputations({ source, columns: requestedColumns, compute: computeColumnStats, onError })
+
+  const value = useMemo(() => {
+    if (!columnStats) {
+      return {}
+    }
+    return { getColumnStats, requestColumnStats }
+  }, [columnStats, getColumnStats, requestColumnStats])
+
+  return (
+    <ColumnStatsContext.Provider value={value}>
+      {children}
+    </ColumnStatsContext.Provider>
+  )
+}
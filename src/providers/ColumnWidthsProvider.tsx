@@ -2,11 +2,13 @@ import type { ReactNode } from 'react'
 import { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
 
 import { ColumnParametersContext } from '../contexts/ColumnParametersContext.js'
+import { ColumnsVisibilityContext } from '../contexts/ColumnsVisibilityContext.js'
 import { ColumnWidthsContext } from '../contexts/ColumnWidthsContext.js'
 import { ColumnNamesContext } from '../contexts/DataContext.js'
 import { TableCornerWidthContext } from '../contexts/TableCornerSizeContext.js'
 import { ViewportWidthContext } from '../contexts/ViewportSizeContext.js'
 import { cellStyle } from '../helpers/width.js'
+import { useHistory } from '../hooks/useHistory.js'
 import { useLocalStorageState } from '../hooks/useLocalStorageState.js'
 
 /** Minimum width of a cell in px, used to compute the column widths */
@@ -38,7 +40,7 @@ const underfillMargin = 3
  * - the number of columns
  * - the global minimum width (minWidth prop, 50px by default)
  * - the minimum width for a specific column, which overrides the default one (see ColumnParametersContext, optional)
- * - the available width in the table (depends on the component resizes)
+ * - the available width in the table (depends on the component resizes, and on the width of the pinned columns)
  * Others are a state:
  * - the fixed width, when a user resizes the column (note: it is stored in the local storage, and we don't adjust other columns when setting a fixed column)
  * - the measured width (obtained by releasing any restriction on the column and measuring the content width - CSS max-width and other rules apply)
@@ -55,6 +57,12 @@ const underfillMargin = 3
  * If any of the factors change, the widths of all the columns are recomputed. Special rules:
  * - if a fixed or measured width does not respect the minimum width anymore, it is deleted.
  * - when a column is resized manually (ie. fixed), the other columns remain unchanged and are not adjusted.
+ * - the pinned columns are never adjusted. They are always visible, so their width is removed from the available width.
+ *
+ * The style of a pinned column also includes its left offset, so that it sticks beside the row headers and the previous pinned columns.
+ *
+ * The left offsets of all the visible columns are also provided, to virtualize the columns: the columns outside of the
+ * viewport are not rendered, and they are replaced by spacers (see ScrollProvider).
  */
 
 interface ColumnWidthsProviderProps {
@@ -91,9 +99,20 @@ export function ColumnWidthsProvider({ children, localStorageKey, minWidth }: Co
 
   const columnParameters = useContext(ColumnParametersContext)
   const columnMinWidths = useMemo(() => {
-    return columnParameters.map(col => col.minWidth)
+    // indexed by column index, since the columns might be reordered
+    const minWidths: (number | undefined)[] = []
+    for (const col of columnParameters) {
+      minWidths[col.index] = col.minWidth
+    }
+    return minWidths
   }, [columnParameters])
 
+  /** Indexes of the visible pinned columns, in the display order */
+  const { visibleColumnsParameters } = useContext(ColumnsVisibilityContext)
+  const pinnedColumnIndexes = useMemo(() => {
+    return (visibleColumnsParameters ?? []).filter(({ pinned }) => pinned === 'left').map(({ index }) => index)
+  }, [visibleColumnsParameters])
+
   const getMinWidth = useCallback((columnIndex?: number) => {
     return (isValidIndex(columnIndex) ? columnMinWidths[columnIndex] : undefined) ?? minWidth
   }, [isValidIndex, columnMinWidths, minWidth])
@@ -149,17 +168,21 @@ export function ColumnWidthsProvider({ children, localStorageKey, minWidth }: Co
       return nextWidths
     })
   }, [_setFixedWidths])
+  // the user changes can be undone. The successive widths of a column, while resizing it, are merged into one change.
+  const currentFixedWidths = useMemo(() => fixedWidths ?? [], [fixedWidths])
+  const replaceFixedWidths = useCallback((widths: (number | undefined)[]) => {
+    setFixedWidths(() => widths)
+  }, [setFixedWidths])
+  const setFixedWidthsWithHistory = useHistory({ type: 'columnWidths', value: currentFixedWidths, setValue: replaceFixedWidths })
   const setFixedWidth = useCallback((columnIndex: number, value: number) => {
     if (!isValidWidth(value) || !isValidIndex(columnIndex)) {
       return
     }
     const clampedValue = Math.max(value, getMinWidth(columnIndex))
-    setFixedWidths((widths) => {
-      const nextWidths = [...widths ?? []]
-      nextWidths[columnIndex] = clampedValue
-      return nextWidths
-    })
-  }, [isValidIndex, getMinWidth, setFixedWidths])
+    const nextWidths = [...fixedWidthsRef.current ?? []]
+    nextWidths[columnIndex] = clampedValue
+    setFixedWidthsWithHistory?.(nextWidths, { mergeKey: `${columnIndex}` })
+  }, [isValidIndex, getMinWidth, setFixedWidthsWithHistory])
   const checkFixedWidths = useCallback(() => {
     setFixedWidths(widths => removeBadWidths(widths))
   }, [setFixedWidths, removeBadWidths])
@@ -190,17 +213,15 @@ export function ColumnWidthsProvider({ children, localStorageKey, minWidth }: Co
     if (!isValidIndex(columnIndex)) {
       return
     }
-    setFixedWidths((widths) => {
-      const nextWidths = [...widths ?? []]
-      nextWidths[columnIndex] = undefined
-      return nextWidths
-    })
+    const nextFixedWidths = [...fixedWidthsRef.current ?? []]
+    nextFixedWidths[columnIndex] = undefined
+    setFixedWidthsWithHistory?.(nextFixedWidths)
     setMeasuredWidths((widths) => {
       const nextWidths = [...widths ?? []]
       nextWidths[columnIndex] = undefined
       return nextWidths
     })
-  }, [isValidIndex, setFixedWidths, setMeasuredWidths])
+  }, [isValidIndex, setFixedWidthsWithHistory, setMeasuredWidths])
 
   // Adjusted widths
   const [adjustedWidths, setAdjustedWidths] = useState<(number | undefined)[]>()
@@ -209,8 +230,8 @@ export function ColumnWidthsProvider({ children, localStorageKey, minWidth }: Co
     // update the fixed and measured widths, in case the minimum width changed
     checkFixedWidths()
     checkMeasuredWidths()
-    setAdjustedWidths(adjustWidths({ fixedWidths: fixedWidthsRef.current, measuredWidths, maxTotalWidth, numColumns, getMinWidth }))
-  }, [numColumns, measuredWidths, maxTotalWidth, getMinWidth, checkFixedWidths, checkMeasuredWidths])
+    setAdjustedWidths(adjustWidths({ fixedWidths: fixedWidthsRef.current, measuredWidths, maxTotalWidth, numColumns, getMinWidth, pinnedColumnIndexes }))
+  }, [numColumns, measuredWidths, maxTotalWidth, getMinWidth, checkFixedWidths, checkMeasuredWidths, pinnedColumnIndexes])
 
   const getWidth = useCallback((columnIndex: number) => {
     if (isValidIndex(columnIndex)) {
@@ -218,12 +239,31 @@ export function ColumnWidthsProvider({ children, localStorageKey, minWidth }: Co
     }
   }, [isValidIndex, fixedWidths, measuredWidths, adjustedWidths])
 
+  // Left offsets of the visible columns, followed by the total width. Unknown widths are assumed to be minWidth
+  const columnOffsets = useMemo(() => {
+    let offset = tableCornerWidth ?? 0
+    const offsets = [offset]
+    for (const { index: columnIndex } of visibleColumnsParameters ?? []) {
+      offset += getWidth(columnIndex) ?? getMinWidth(columnIndex)
+      offsets.push(offset)
+    }
+    return offsets
+  }, [tableCornerWidth, visibleColumnsParameters, getWidth, getMinWidth])
+
+  // Left offsets of the pinned columns (they are the first visible columns)
+  const pinnedOffsets = useMemo(() => {
+    return new Map(pinnedColumnIndexes.map((columnIndex, i) => [columnIndex, columnOffsets[i] ?? 0]))
+  }, [pinnedColumnIndexes, columnOffsets])
+
   const getStyle = useCallback((columnIndex: number) => {
-    return cellStyle(getWidth(columnIndex))
-  }, [getWidth])
+    const style = cellStyle(getWidth(columnIndex))
+    const left = pinnedOffsets.get(columnIndex)
+    return left === undefined ? style : { ...style, left: `${left}px` }
+  }, [getWidth, pinnedOffsets])
 
   const value = useMemo(() => {
     return {
+      columnOffsets,
       getWidth,
       getStyle,
       getDataFixedWidth,
@@ -231,7 +271,7 @@ export function ColumnWidthsProvider({ children, localStorageKey, minWidth }: Co
       setFixedWidth,
       setMeasuredWidth,
     }
-  }, [getWidth, getStyle, getDataFixedWidth, releaseWidth, setFixedWidth, setMeasuredWidth])
+  }, [columnOffsets, getWidth, getStyle, getDataFixedWidth, releaseWidth, setFixedWidth, setMeasuredWidth])
 
   return (
     <ColumnWidthsContext.Provider value={value}>
@@ -252,6 +292,7 @@ interface WidthGroup {
  * Adjusts the widths of the measured columns to fill the available width.
  *
  * The fixed columns are not changed
+ * The pinned columns are not changed, and their width is removed from the available width
  * The measured columns have their width adjusted, between the minimum width and the measured width
  * The other columns are assumed to have the minimum width
  *
@@ -263,12 +304,14 @@ function adjustWidths({
   maxTotalWidth,
   getMinWidth,
   numColumns,
+  pinnedColumnIndexes,
 }: {
   fixedWidths?: (number | undefined)[]
   measuredWidths?: (number | undefined)[]
   maxTotalWidth?: number
   getMinWidth: (columnIndex?: number) => number
   numColumns: number
+  pinnedColumnIndexes?: number[]
 }): (number | undefined)[] {
   if (maxTotalWidth === undefined) {
     return []
@@ -280,15 +323,21 @@ function adjustWidths({
 
   const adjustedWidths: (number | undefined)[] = new Array(numColumns).fill(undefined)
 
-  // Compute the sum of column widths
+  // Compute the sum of column widths, separating the pinned columns
   // Unknown widths are assumed to be minWidth
+  const pinned = new Set(pinnedColumnIndexes)
   let totalWidth = 0
+  let pinnedWidth = 0
   for (const columnIndex of adjustedWidths.keys()) {
     const columnWidth = fixedWidths?.[columnIndex] ?? measuredWidths[columnIndex] ?? getMinWidth(columnIndex)
-    totalWidth += columnWidth
+    if (pinned.has(columnIndex)) {
+      pinnedWidth += columnWidth
+    } else {
+      totalWidth += columnWidth
+    }
   }
   // Target slightly less than available to avoid triggering an unneeded scrollbar
-  let surplus = totalWidth - Math.max(0, maxTotalWidth - underfillMargin)
+  let surplus = totalWidth - Math.max(0, maxTotalWidth - pinnedWidth - underfillMargin)
 
   if (surplus <= 0) {
     return []
@@ -297,7 +346,7 @@ function adjustWidths({
   // Group measured column indexes by width in a Map
   const columnsByWidth = new Map<number, { index: number, minWidth: number, adjustedWidth?: number }[]>()
   for (const [index, value] of measuredWidths.entries()) {
-    if (value !== undefined) {
+    if (value !== undefined && !pinned.has(index)) {
       const minWidth = Math.max(
         getMinWidth(index),
         Math.floor(value / maxAdjustmentRatio),
@@ -397,7 +446,7 @@ function adjustWidths({
       }
     }).filter<{ index: number, fixed: boolean, width: number }>(
       // tell typescript that width is defined
-      (c): c is { index: number, fixed: boolean, width: number } => !c.fixed && c.width !== undefined
+      (c): c is { index: number, fixed: boolean, width: number } => !c.fixed && !pinned.has(c.index) && c.width !== undefined
     )
     const numColumns = availableColumns.length
     if (numColumns > 0) {
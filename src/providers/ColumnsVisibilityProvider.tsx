@@ -3,6 +3,7 @@ import { useCallback, useContext, useMemo } from 'react'
 
 import { ColumnParametersContext } from '../contexts/ColumnParametersContext.js'
 import { ColumnsVisibilityContext } from '../contexts/ColumnsVisibilityContext.js'
+import { useHistory } from '../hooks/useHistory.js'
 import { useInputState } from '../hooks/useInputState.js'
 import type { HighTableProps } from '../types.js'
 
@@ -38,11 +39,13 @@ export function ColumnsVisibilityProvider({ children, columnsVisibility: control
   }, [allColumnsParameters])
 
   // A record of column visibility keyed by column name
-  const [columnsVisibility, setColumnsVisibility] = useInputState<ColumnsVisibility>({
+  const [columnsVisibility, setColumnsVisibilityWithoutHistory] = useInputState<ColumnsVisibility>({
     controlledValue: controlledColumnsVisibility,
     initialUncontrolledValue: initialColumnsVisibility,
     onChange: onColumnsVisibilityChange,
   })
+  // the user changes can be undone
+  const setColumnsVisibility = useHistory({ type: 'columnsVisibility', value: columnsVisibility, setValue: setColumnsVisibilityWithoutHistory })
   const areInteractionsDisabled = setColumnsVisibility === undefined
 
   const isHiddenColumn = useCallback((columnName: string) => {
@@ -1,7 +1,7 @@
-import { type ReactNode, useEffect, useState } from 'react'
+import { type ReactNode, useEffect, useEffectEvent, useState } from 'react'
 
 import type { DataFrameWithoutMethods } from '../contexts/DataContext.js'
-import { ColumnNamesContext, DataFrameMethodsContext, DataKeyContext, DataVersionContext, ExclusiveSortContext, NumRowsContext, SortableColumnsContext } from '../contexts/DataContext.js'
+import { ColumnNamesContext, ColumnTypesContext, DataFrameMethodsContext, DataKeyContext, DataVersionContext, ExclusiveSortContext, NumRowsContext, SortableColumnsContext } from '../contexts/DataContext.js'
 import type { HighTableProps } from '../types.js'
 
 // Assign stable numeric ids to data instances without triggering state
@@ -17,7 +17,7 @@ function getDataKey(data: HighTableProps['data']): number {
   return k
 }
 
-type Props = Pick<HighTableProps, 'data'> & {
+type Props = Pick<HighTableProps, 'data' | 'onError'> & {
   /** Child components */
   children: ReactNode
 }
@@ -28,19 +28,20 @@ type Props = Pick<HighTableProps, 'data'> & {
  * - version of the data frame (incremented on each update or resolve event)
  * - column names
  * - sortable columns
+ * - column types
  * - exclusive sort flag
- * - getRowNumber, getCell, and fetch methods
+ * - getRowNumber, getCell, getRowNumberError, getCellError, fetch, setCell, aggregate, columnStats, search and getGroup methods
  *
- * It also provides a data key for testing purposes.
+ * It also provides a data key for testing purposes, and passes the errors dispatched by the data frame to onError.
  */
-export function DataProvider({ children, data }: Props) {
+export function DataProvider({ children, data, onError }: Props) {
   const key = getDataKey(data)
 
   return (
     // The data key context is only used in tests
     <DataKeyContext.Provider value={key}>
       <DataFrameMethodsContext.Provider value={data}>
-        <KeyedDataProvider data={data} key={key}>
+        <KeyedDataProvider data={data} key={key} onError={onError}>
           {children}
         </KeyedDataProvider>
       </DataFrameMethodsContext.Provider>
@@ -48,8 +49,8 @@ export function DataProvider({ children, data }: Props) {
   )
 }
 
-interface KeyedDataProviderProps {
-  /** The data frame, without getRowNumber, getCell, or fetch methods */
+type KeyedDataProviderProps = Pick<HighTableProps, 'onError'> & {
+  /** The data frame, without getRowNumber, getCell, getRowNumberError, getCellError, fetch, setCell, aggregate, columnStats, search or getGroup methods */
   data: DataFrameWithoutMethods
   /** Child components */
   children: ReactNode
@@ -57,7 +58,7 @@ interface KeyedDataProviderProps {
 
 // The data provider is keyed by the data instance, so that it resets its internal state
 // when a new data frame is provided.
-function KeyedDataProvider({ children, data }: KeyedDataProviderProps) {
+function KeyedDataProvider({ children, data, onError }: KeyedDataProviderProps) {
   // Two data frame elements can change over time:
   // - version (if any cell or row number has resolved or changed)
   // - numRows.
@@ -72,6 +73,12 @@ function KeyedDataProvider({ children, data }: KeyedDataProviderProps) {
   const [exclusiveSort] = useState(() => data.exclusiveSort === true)
   const [columnNames] = useState(() => data.columnDescriptors.map(({ name }) => name))
   const [sortableColumns] = useState(() => new Set(data.columnDescriptors.filter(({ sortable }) => sortable).map(({ name }) => name)))
+  const [columnTypes] = useState(() => new Map(data.columnDescriptors.flatMap(({ name, type }) => type ? [[name, type] as const] : [])))
+
+  // Not in the effect directly, to avoid subscribing again when onError changes.
+  const onDataError = useEffectEvent((event: CustomEvent<unknown>) => {
+    onError?.(event.detail)
+  })
 
   // Synchronize version and numRows with data frame events (external system - useEffect is needed)
   useEffect(() => {
@@ -84,10 +91,12 @@ function KeyedDataProvider({ children, data }: KeyedDataProviderProps) {
     data.eventTarget?.addEventListener('numrowschange', onNumRowsChange)
     data.eventTarget?.addEventListener('resolve', onResolve)
     data.eventTarget?.addEventListener('update', onResolve)
+    data.eventTarget?.addEventListener('error', onDataError)
     return () => {
       data.eventTarget?.removeEventListener('numrowschange', onNumRowsChange)
       data.eventTarget?.removeEventListener('resolve', onResolve)
       data.eventTarget?.removeEventListener('update', onResolve)
+      data.eventTarget?.removeEventListener('error', onDataError)
     }
   }, [data])
 
@@ -95,13 +104,15 @@ function KeyedDataProvider({ children, data }: KeyedDataProviderProps) {
   return (
     <ColumnNamesContext.Provider value={columnNames}>
       <SortableColumnsContext.Provider value={sortableColumns}>
-        <ExclusiveSortContext.Provider value={exclusiveSort}>
-          <DataVersionContext.Provider value={version}>
-            <NumRowsContext.Provider value={numRows}>
-              {children}
-            </NumRowsContext.Provider>
-          </DataVersionContext.Provider>
-        </ExclusiveSortContext.Provider>
+        <ColumnTypesContext.Provider value={columnTypes}>
+          <ExclusiveSortContext.Provider value={exclusiveSort}>
+            <DataVersionContext.Provider value={version}>
+              <NumRowsContext.Provider value={numRows}>
+                {children}
+              </NumRowsContext.Provider>
+            </DataVersionContext.Provider>
+          </ExclusiveSortContext.Provider>
+        </ColumnTypesContext.Provider>
       </SortableColumnsContext.Provider>
     </ColumnNamesContext.Provider>
   )
@@ -0,0 +1,142 @@
+import { type ReactNode, useCallback, useContext, useEffect, useEffectEvent, useMemo, useState } from 'react'
+
+import { StringifyContext } from '../contexts/CellConfigurationContext.js'
+import { ColumnNamesContext, DataFrameMethodsContext, DataVersionContext, FilteredDataFrameContext, NumRowsContext } from '../contexts/DataContext.js'
+import { FiltersContext } from '../contexts/FiltersContext.js'
+import { filterableDataFrame } from '../helpers/dataframe/filter.js'
+import { type ColumnFilter, createFiltersPredicate, type Filters } from '../helpers/filter.js'
+import { useInputState } from '../hooks/useInputState.js'
+import type { HighTableProps } from '../types.js'
+
+type Props = Pick<HighTableProps, 'data' | 'filters' | 'onError' | 'onFiltersChange'> & {
+  /** Child components */
+  children: ReactNode
+}
+
+/**
+ * Handles filtering.
+ *
+ * Provides the filters state, and an action to set the filter of a column, through the FiltersContext.
+ *
+ * If some filters are active, the data frame is wrapped with filterableDataFrame, and the number of rows,
+ * the data version and the data frame methods are overridden for the descendants. The contexts are
+ * always provided, so that changing the filters does not remount the children. The filtered data frame is also
+ * provided as a whole, to be wrapped by the descendants (see GroupByProvider). The errors dispatched by the filtered
+ * data frame, e.g. when the matching rows cannot be computed again after an update, are passed to onError. The filtered
+ * data frame is disposed when it's replaced, or on unmount.
+ */
+export function FiltersProvider({ children, data, filters: controlledFilters, onError, onFiltersChange }: Props) {
+  const columnNames = useContext(ColumnNamesContext)
+  const stringify = useContext(StringifyContext)
+  const upstreamNumRows = useContext(NumRowsContext)
+  const upstreamVersion = useContext(DataVersionContext)
+  const upstreamMethods = useContext(DataFrameMethodsContext)
+
+  const [filters, setFilters] = useInputState<Filters>({
+    controlledValue: controlledFilters,
+    onChange: onFiltersChange,
+    initialUncontrolledValue: {},
+  })
+
+  // Check that all columns in state exist, and warn if not.
+  // The unknown columns are not included in the context filters, so they are not applied nor shown as filtered.
+  const activeFilters = useMemo(() => {
+    // ^ memoizing this check to avoid logging warnings on every render, and to keep the filtered data frame stable.
+    const activeFilters: Filters = {}
+    for (const [column, filter] of Object.entries(filters)) {
+      if (filter === undefined) {
+        continue
+      }
+      if (!columnNames.includes(column)) {
+        console.warn(`Column "${column}" is in filters but does not exist. It will be ignored. Fix the filters state.`)
+        continue
+      }
+      activeFilters[column] = filter
+    }
+    return activeFilters
+  }, [filters, columnNames])
+
+  // A new filtered data frame for every data frame and filters, with a controller to dispose it.
+  const filtered = useMemo(() => {
+    const columns = Object.keys(activeFilters)
+    if (columns.length === 0) {
+      return undefined
+    }
+    const controller = new AbortController()
+    const filteredData = filterableDataFrame(data, createFiltersPredicate({ filters: activeFilters, stringify }), { columns, signal: controller.signal })
+    return { filteredData, controller }
+  }, [data, activeFilters, stringify])
+  const filteredData = filtered?.filteredData
+
+  // Dispose the filtered data frame when it's replaced, or on unmount, so that it stops listening to the upstream events.
+  useEffect(() => {
+    return () => {
+      filtered?.controller.abort()
+    }
+  }, [filtered])
+
+  // The filtered data frame can change without remounting, so we track its numRows and version in a local state,
+  // reset during render when the filtered data frame changes.
+  const [filteredState, setFilteredState] = useState({ filteredData, numRows: filteredData?.numRows ?? 0, version: 0 })
+  if (filteredState.filteredData !== filteredData) {
+    setFilteredState({ filteredData, numRows: filteredData?.numRows ?? 0, version: filteredState.version + 1 })
+  }
+
+  // Not in the effect directly, to avoid subscribing again when onError changes.
+  const onFilteredDataError = useEffectEvent((event: CustomEvent<unknown>) => {
+    onError?.(event.detail)
+  })
+
+  // Synchronize version and numRows with the filtered data frame events (external system - useEffect is needed)
+  useEffect(() => {
+    if (!filteredData) {
+      return
+    }
+    function onResolve() {
+      setFilteredState(prev => prev.filteredData === filteredData ? { ...prev, version: prev.version + 1 } : prev)
+    }
+    function onNumRowsChange() {
+      setFilteredState(prev => prev.filteredData === filteredData ? { ...prev, numRows: filteredData?.numRows ?? 0 } : prev)
+    }
+    filteredData.eventTarget?.addEventListener('numrowschange', onNumRowsChange)
+    filteredData.eventTarget?.addEventListener('resolve', onResolve)
+    filteredData.eventTarget?.addEventListener('update', onResolve)
+    filteredData.eventTarget?.addEventListener('error', onFilteredDataError)
+    return () => {
+      filteredData.eventTarget?.removeEventListener('numrowschange', onNumRowsChange)
+      filteredData.eventTarget?.removeEventListener('resolve', onResolve)
+      filteredData.eventTarget?.removeEventListener('update', onResolve)
+      filteredData.eventTarget?.removeEventListener('error', onFilteredDataError)
+    }
+  }, [filteredData])
+
+  const setColumnFilter = useCallback((columnName: string, filter: ColumnFilter | undefined) => {
+    setFilters?.({ ...filters, [columnName]: filter })
+  }, [filters, setFilters])
+
+  const value = useMemo(() => {
+    return {
+      filters: activeFilters,
+      setColumnFilter: setFilters ? setColumnFilter : undefined,
+    }
+  }, [activeFilters, setFilters, setColumnFilter])
+
+  // The version is offset by the upstream version, so that it changes when either of them changes.
+  const version = filteredData ? upstreamVersion + filteredState.version : upstreamVersion
+  const numRows = filteredData ? filteredState.numRows : upstreamNumRows
+  const methods = filteredData ?? upstreamMethods
+
+  return (
+    <FiltersContext.Provider value={value}>
+      <DataVersionContext.Provider value={version}>
+        <NumRowsContext.Provider value={numRows}>
+          <DataFrameMethodsContext.Provider value={methods}>
+            <FilteredDataFrameContext.Provider value={filteredData ?? data}>
+              {children}
+            </FilteredDataFrameContext.Provider>
+          </DataFrameMethodsContext.Provider>
+        </NumRowsContext.Provider>
+      </DataVersionContext.Provider>
+    </FiltersContext.Provider>
+  )
+}
@@ -0,0 +1,148 @@
+import { type ReactNode, useContext, useEffect, useEffectEvent, useMemo, useState } from 'react'
+
+import { ColumnNamesContext, DataFrameMethodsContext, DataVersionContext, FilteredDataFrameContext, NumRowsContext } from '../contexts/DataContext.js'
+import { GroupByContext } from '../contexts/GroupByContext.js'
+import type { AggregateFunction } from '../helpers/dataframe/aggregate.js'
+import { groupedDataFrame } from '../helpers/dataframe/group.js'
+import { useInputState } from '../hooks/useInputState.js'
+import type { HighTableProps } from '../types.js'
+
+type Props = Pick<HighTableProps, 'collapsedGroups' | 'groupAggregates' | 'groupBy' | 'onCollapsedGroupsChange' | 'onError'> & {
+  /** Child components */
+  children: ReactNode
+}
+
+/**
+ * Handles the grouping of the rows.
+ *
+ * Provides the grouping columns, and an action to collapse or expand a group, through the GroupByContext.
+ *
+ * If some grouping columns are set, the filtered data frame is wrapped with groupedDataFrame, and the number of rows,
+ * the data version and the data frame methods are overridden for the descendants, as in FiltersProvider. Collapsing
+ * or expanding a group does not wrap the data frame again, so that the groups are not computed again. The errors
+ * dispatched by the grouped data frame are passed to onError. The grouped data frame is disposed when it's replaced,
+ * or on unmount.
+ */
+export function GroupByProvider({ children, collapsedGroups: controlledCollapsedGroups, groupAggregates, groupBy, onCollapsedGroupsChange, onError }: Props) {
+  const data = useContext(FilteredDataFrameContext)
+  const columnNames = useContext(ColumnNamesContext)
+  const upstreamNumRows = useContext(NumRowsContext)
+  const upstreamVersion = useContext(DataVersionContext)
+  const upstreamMethods = useContext(DataFrameMethodsContext)
+
+  const [collapsedGroups, setCollapsedGroups] = useInputState<string[]>({
+    controlledValue: controlledCollapsedGroups,
+    onChange: onCollapsedGroupsChange,
+    initialUncontrolledValue: [],
+  })
+
+  // keep the same arrays while the lists of columns and functions are the same, to avoid grouping again on every render
+  const groupByKey = JSON.stringify(groupBy ?? [])
+  const activeGroupBy = useMemo(() => {
+    // ^ memoizing this check to avoid logging warnings on every render.
+    const activeGroupBy: string[] = []
+    for (const column of JSON.parse(groupByKey) as string[]) {
+      if (!columnNames.includes(column)) {
+        console.warn(`Column "${column}" is in groupBy but does not exist. It will be ignored. Fix the groupBy prop.`)
+        continue
+      }
+      activeGroupBy.push(column)
+    }
+    return activeGroupBy
+  }, [groupByKey, columnNames])
+  const aggregatesKey = groupAggregates?.join(',') ?? ''
+  const aggregates = useMemo(() => {
+    return aggregatesKey === '' ? undefined : aggregatesKey.split(',') as AggregateFunction[]
+  }, [aggregatesKey])
+
+  // A new grouped data frame for every data frame and grouping, with a controller to dispose it.
+  const grouped = useMemo(() => {
+    if (!data || activeGroupBy.length === 0) {
+      return undefined
+    }
+    const controller = new AbortController()
+    const groupedData = groupedDataFrame(data, { groupBy: activeGroupBy, aggregates, signal: controller.signal })
+    return { groupedData, controller }
+  }, [data, activeGroupBy, aggregates])
+  const groupedData = grouped?.groupedData
+
+  // Dispose the grouped data frame when it's replaced, or on unmount, so that it stops listening to the upstream events.
+  useEffect(() => {
+    return () => {
+      grouped?.controller.abort()
+    }
+  }, [grouped])
+
+  // The grouped data frame can change without remounting, so we track its numRows and version in a local state,
+  // reset during render when the grouped data frame changes.
+  const [groupedState, setGroupedState] = useState({ groupedData, numRows: groupedData?.numRows ?? 0, version: 0 })
+  if (groupedState.groupedData !== groupedData) {
+    setGroupedState({ groupedData, numRows: groupedData?.numRows ?? 0, version: groupedState.version + 1 })
+  }
+
+  // Not in the effect directly, to avoid subscribing again when onError changes.
+  const onGroupedDataError = useEffectEvent((event: CustomEvent<unknown>) => {
+    onError?.(event.detail)
+  })
+
+  // Synchronize version and numRows with the grouped data frame events (external system - useEffect is needed)
+  useEffect(() => {
+    if (!groupedData) {
+      return
+    }
+    function onResolve() {
+      setGroupedState(prev => prev.groupedData === groupedData ? { ...prev, version: prev.version + 1 } : prev)
+    }
+    function onNumRowsChange() {
+      setGroupedState(prev => prev.groupedData === groupedData ? { ...prev, numRows: groupedData?.numRows ?? 0 } : prev)
+    }
+    groupedData.eventTarget?.addEventListener('numrowschange', onNumRowsChange)
+    groupedData.eventTarget?.addEventListener('resolve', onResolve)
+    groupedData.eventTarget?.addEventListener('update', onResolve)
+    groupedData.eventTarget?.addEventListener('error', onGroupedDataError)
+    return () => {
+      groupedData.eventTarget?.removeEventListener('numrowschange', onNumRowsChange)
+      groupedData.eventTarget?.removeEventListener('resolve', onResolve)
+      groupedData.eventTarget?.removeEventListener('update', onResolve)
+      groupedData.eventTarget?.removeEventListener('error', onGroupedDataError)
+    }
+  }, [groupedData])
+
+  // Synchronize the collapsed groups with the grouped data frame (it dispatches the events above)
+  useEffect(() => {
+    groupedData?.setCollapsedGroups(collapsedGroups)
+  }, [groupedData, collapsedGroups])
+
+  const toggleGroup = useMemo(() => {
+    if (!groupedData || !setCollapsedGroups) {
+      return undefined
+    }
+    return (key: string) => {
+      setCollapsedGroups(collapsedGroups.includes(key) ? collapsedGroups.filter(k => k !== key) : [...collapsedGroups, key])
+    }
+  }, [groupedData, collapsedGroups, setCollapsedGroups])
+
+  const value = useMemo(() => {
+    return {
+      groupBy: activeGroupBy,
+      toggleGroup,
+    }
+  }, [activeGroupBy, toggleGroup])
+
+  // The version is offset by the upstream version, so that it changes when either of them changes.
+  const version = groupedData ? upstreamVersion + groupedState.version : upstreamVersion
+  const numRows = groupedData ? groupedState.numRows : upstreamNumRows
+  const methods = groupedData ?? upstreamMethods
+
+  return (
+    <GroupByContext.Provider value={value}>
+      <DataVersionContext.Provider value={version}>
+        <NumRowsContext.Provider value={numRows}>
+          <DataFrameMethodsContext.Provider value={methods}>
+            {children}
+          </DataFrameMethodsContext.Provider>
+        </NumRowsContext.Provider>
+      </DataVersionContext.Provider>
+    </GroupByContext.Provider>
+  )
+}
@@ -0,0 +1,134 @@
+import type { KeyboardEvent, ReactNode } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+
+import { HistoryContext } from '../contexts/HistoryContext.js'
+import type { AppliedChange, AppliedChanges, History, HistoryEntry, HistoryEntryType, HistoryValues } from '../helpers/history.js'
+import { getDefaultHistory, pushHistoryEntry, redoHistoryEntry, undoHistoryEntry } from '../helpers/history.js'
+import { useInputState } from '../hooks/useInputState.js'
+import type { HighTableProps } from '../types.js'
+
+type Props = Pick<HighTableProps, 'history' | 'onHistoryChange'> & {
+  /** Child components */
+  children: ReactNode
+}
+
+/** The delay, in milliseconds, during which the changes with the same merge key are merged */
+const mergeDelay = 1000
+
+/**
+ * Provide the interaction history, and the logic to undo and redo the changes, through the HistoryContext.
+ *
+ * The providers record their changes (see useHistory), and set the values back when a change is undone or redone
+ * (see appliedChanges). The changes that don't modify the value are not recorded.
+ */
+export function HistoryProvider({ children, history: controlledHistory, onHistoryChange }: Props) {
+  const [history, setHistory] = useInputState<History>({
+    controlledValue: controlledHistory,
+    onChange: onHistoryChange,
+    initialUncontrolledValue: getDefaultHistory(),
+  })
+
+  // Reference to the current history, to record several changes before the next render (e.g. while resizing a column)
+  const historyRef = useRef(history)
+  useEffect(() => {
+    historyRef.current = history
+  }, [history])
+  const lastMergeRef = useRef<{ key: string, timestamp: number } | undefined>(undefined)
+  // The last undone or redone change of every type, with the value to set back
+  const [appliedChanges, setAppliedChanges] = useState<AppliedChanges>({})
+  const lastAppliedIdRef = useRef(0)
+
+  // the history is read-only if it's controlled without onHistoryChange
+  const isReadOnly = setHistory === undefined
+  const updateHistory = useCallback((nextHistory: History) => {
+    historyRef.current = nextHistory
+    setHistory?.(nextHistory)
+  }, [setHistory])
+
+  const applyChange = useCallback(<K extends HistoryEntryType>(type: K, value: HistoryValues[K]) => {
+    lastAppliedIdRef.current += 1
+    const change: AppliedChange<K> = { id: lastAppliedIdRef.current, value }
+    setAppliedChanges(changes => ({ ...changes, [type]: change }))
+  }, [])
+
+  const record = useMemo(() => {
+    if (isReadOnly) {
+      return undefined
+    }
+    return <K extends HistoryEntryType>({ type, previous, next }: Omit<HistoryEntry<K>, 'timestamp'>, options?: { mergeKey?: string }) => {
+      if (JSON.stringify(previous) === JSON.stringify(next)) {
+        return
+      }
+      const timestamp = Date.now()
+      const mergeKey = options?.mergeKey
+      const lastMerge = lastMergeRef.current
+      const merge = mergeKey !== undefined && lastMerge?.key === mergeKey && timestamp - lastMerge.timestamp < mergeDelay
+      lastMergeRef.current = mergeKey === undefined ? undefined : { key: mergeKey, timestamp }
+      const entry = { type, previous, next, timestamp } as HistoryEntry
+      updateHistory(pushHistoryEntry({ history: historyRef.current, entry, merge }))
+    }
+  }, [isReadOnly, updateHistory])
+
+  const undo = useMemo(() => {
+    if (isReadOnly || history.past.length === 0) {
+      return undefined
+    }
+    return () => {
+      const result = undoHistoryEntry(historyRef.current)
+      if (!result) {
+        return
+      }
+      lastMergeRef.current = undefined
+      applyChange(result.entry.type, result.entry.previous)
+      updateHistory(result.history)
+    }
+  }, [isReadOnly, updateHistory, applyChange, history])
+
+  const redo = useMemo(() => {
+    if (isReadOnly || history.future.length === 0) {
+      return undefined
+    }
+    return () => {
+      const result = redoHistoryEntry(historyRef.current)
+      if (!result) {
+        return
+      }
+      lastMergeRef.current = undefined
+      applyChange(result.entry.type, result.entry.next)
+      updateHistory(result.history)
+    }
+  }, [isReadOnly, updateHistory, applyChange, history])
+
+  const onTableKeyDown = useCallback((event: KeyboardEvent) => {
+    const { key, altKey, ctrlKey, metaKey, shiftKey } = event
+    if ((!ctrlKey && !metaKey) || altKey) {
+      return
+    }
+    const lowerKey = key.toLowerCase()
+    if (lowerKey === 'z' && !shiftKey) {
+      event.preventDefault()
+      event.stopPropagation()
+      undo?.()
+    } else if ((lowerKey === 'z' && shiftKey) || (lowerKey === 'y' && !shiftKey)) {
+      event.preventDefault()
+      event.stopPropagation()
+      redo?.()
+    }
+  }, [undo, redo])
+
+  const value = useMemo(() => {
+    return {
+      undo,
+      redo,
+      record,
+      appliedChanges,
+      onTableKeyDown,
+    }
+  }, [undo, redo, record, appliedChanges, onTableKeyDown])
+
+  return (
+    <HistoryContext.Provider value={value}>
+      {children}
+    </HistoryContext.Provider>
+  )
+}
@@ -0,0 +1,102 @@
+import type { ReactNode } from 'react'
+import { useContext, useEffect, useEffectEvent, useMemo, useRef } from 'react'
+
+import { ColumnsVisibilityContext } from '../contexts/ColumnsVisibilityContext.js'
+import { DataFrameMethodsContext, DataVersionContext } from '../contexts/DataContext.js'
+import { LoadingContext, RetryRowContext } from '../contexts/LoadingContext.js'
+import { OrderByContext } from '../contexts/OrderByContext.js'
+import { RenderedColumnsContext, RenderedRowsContext } from '../contexts/ScrollContext.js'
+import { getRenderedColumns } from '../helpers/scroll.js'
+import type { HighTableProps } from '../types.js'
+
+type Props = Pick<HighTableProps, 'onError' | 'onLoadingChange'> & {
+  /** Child components */
+  children: ReactNode
+}
+
+/**
+ * Count the resolved and failed cells and row numbers among the rendered rows and columns, provide the progress
+ * through the LoadingContext, and call onLoadingChange when the loading starts or ends.
+ *
+ * It also provides a function to fetch the failed cells again, through the RetryRowContext.
+ *
+ * The group rows are not counted. It must be a descendant of ScrollProvider, which provides the rendered rows and
+ * columns.
+ */
+export function LoadingProvider({ children, onError, onLoadingChange }: Props) {
+  const dataFrameMethods = useContext(DataFrameMethodsContext)
+  /** A version number that increments whenever a data frame is updated or resolved (the key remains the same). */
+  const version = useContext(DataVersionContext)
+  const orderBy = useContext(OrderByContext)
+  const { visibleColumnsParameters } = useContext(ColumnsVisibilityContext)
+  const { renderedRowsStart, renderedRowsEnd } = useContext(RenderedRowsContext)
+  const renderedColumns = useContext(RenderedColumnsContext)
+
+  const columnNames = useMemo(() => {
+    return getRenderedColumns({ columns: visibleColumnsParameters ?? [], renderedColumns })
+      .flatMap(renderedColumn => renderedColumn.type === 'column' ? [renderedColumn.column.name] : [])
+  }, [visibleColumnsParameters, renderedColumns])
+
+  const value = useMemo(() => {
+    let numCells = 0
+    let numResolvedCells = 0
+    let numFailedCells = 0
+    if (renderedRowsStart !== undefined && renderedRowsEnd !== undefined) {
+      for (let row = renderedRowsStart; row < renderedRowsEnd; row++) {
+        if (dataFrameMethods.getGroup?.({ row, orderBy })) {
+          continue
+        }
+        numCells += columnNames.length + 1
+        if (dataFrameMethods.getRowNumber({ row, orderBy }) !== undefined) {
+          numResolvedCells++
+        } else if (dataFrameMethods.getRowNumberError?.({ row, orderBy }) !== undefined) {
+          numFailedCells++
+        }
+        for (const column of columnNames) {
+          if (dataFrameMethods.getCell({ row, column, orderBy }) !== undefined) {
+            numResolvedCells++
+          } else if (dataFrameMethods.getCellError?.({ row, column, orderBy }) !== undefined) {
+            numFailedCells++
+          }
+        }
+      }
+    }
+    // the version is included to recompute the counts when the cells resolve
+    return { numCells, numResolvedCells, numFailedCells, version }
+  }, [dataFrameMethods, orderBy, renderedRowsStart, renderedRowsEnd, columnNames, version])
+
+  // the failed cells are not loading anymore, until they are fetched again
+  const isLoading = value.numResolvedCells + value.numFailedCells < value.numCells
+  const onIsLoadingChange = useEffectEvent((isLoading: boolean) => {
+    onLoadingChange?.(isLoading)
+  })
+  // Only the changes are notified: not the initial idle state.
+  const isLoadingRef = useRef(false)
+  useEffect(() => {
+    if (isLoading !== isLoadingRef.current) {
+      isLoadingRef.current = isLoading
+      onIsLoadingChange(isLoading)
+    }
+  }, [isLoading])
+
+  const retryRow = useMemo(() => {
+    const { fetch } = dataFrameMethods
+    if (fetch === undefined) {
+      return undefined
+    }
+    return ({ row, column }: { row: number, column?: string }) => {
+      // the data frame dispatches a "resolve" event when the cells resolve, or fail again
+      fetch({ rowStart: row, rowEnd: row + 1, columns: column === undefined ? columnNames : [column], orderBy }).catch((error: unknown) => {
+        onError?.(error)
+      })
+    }
+  }, [dataFrameMethods, columnNames, orderBy, onError])
+
+  return (
+    <LoadingContext.Provider value={value}>
+      <RetryRowContext.Provider value={retryRow}>
+        {children}
+      </RetryRowContext.Provider>
+    </LoadingContext.Provider>
+  )
+}
@@ -3,6 +3,7 @@ import { type ReactNode, useContext, useMemo } from 'react'
 import { ExclusiveSortContext, SortableColumnsContext } from '../contexts/DataContext.js'
 import { OrderByContext, SortInfoAndActionsByColumnContext } from '../contexts/OrderByContext.js'
 import { type OrderBy, toggleColumn, toggleColumnExclusive } from '../helpers/sort.js'
+import { useHistory } from '../hooks/useHistory.js'
 import { useInputState } from '../hooks/useInputState.js'
 import type { HighTableProps } from '../types.js'
 
@@ -26,11 +27,13 @@ export function OrderByProvider({ children, orderBy: controlledOrderBy, onOrderB
   const exclusiveSort = useContext(ExclusiveSortContext)
   const sortableColumns = useContext(SortableColumnsContext)
 
-  const [orderBy, setOrderBy] = useInputState<OrderBy>({
+  const [orderBy, setOrderByWithoutHistory] = useInputState<OrderBy>({
     controlledValue: controlledOrderBy,
     onChange: onOrderByChange,
     initialUncontrolledValue: [],
   })
+  // the user changes can be undone
+  const setOrderBy = useHistory({ type: 'orderBy', value: orderBy, setValue: setOrderByWithoutHistory })
 
   // Check that all columns in state are sortable, and warn if not.
   // The unsortable columns are not included in the context orderBy, so they are not sorted nor shown as ordered.
@@ -0,0 +1,86 @@
+import type { ReactNode } from 'react'
+import { useCallback, useContext, useEffect, useMemo, useState } from 'react'
+
+import { CellNavigationContext } from '../contexts/CellNavigationContext.js'
+import { ColumnNamesContext, DataFrameMethodsContext, NumRowsContext } from '../contexts/DataContext.js'
+import { OrderByContext } from '../contexts/OrderByContext.js'
+import { RowDetailContext } from '../contexts/RowDetailContext.js'
+import { ariaOffset } from '../helpers/constants.js'
+import type { HighTableProps } from '../types.js'
+
+type Props = Pick<HighTableProps, 'onError' | 'renderRowDetail' | 'rowDetail'> & {
+  /** Child components */
+  children: ReactNode
+}
+
+/**
+ * Provide the state of the row detail panel, through the RowDetailContext.
+ *
+ * The panel is enabled if rowDetail is true or if renderRowDetail is set. Once open, it shows the row of the current
+ * cell, so that it follows the keyboard navigation. All the columns of the row are fetched, including the hidden ones,
+ * and the pending fetch is aborted when the row changes.
+ */
+export function RowDetailProvider({ children, onError, renderRowDetail, rowDetail }: Props) {
+  const dataFrameMethods = useContext(DataFrameMethodsContext)
+  const numRows = useContext(NumRowsContext)
+  const columnNames = useContext(ColumnNamesContext)
+  const orderBy = useContext(OrderByContext)
+  const { cellPosition, goToCurrentCell } = useContext(CellNavigationContext)
+
+  const [isRowDetailOpen, setIsRowDetailOpen] = useState(false)
+  const enabled = rowDetail === true || renderRowDetail !== undefined
+
+  const currentRow = cellPosition.rowIndex - ariaOffset
+  const detailRow = enabled && isRowDetailOpen && currentRow >= 0 && currentRow < numRows && !dataFrameMethods.getGroup?.({ row: currentRow, orderBy })
+    ? currentRow
+    : undefined
+
+  // Fetch all the cells of the row (external system - useEffect is needed)
+  useEffect(() => {
+    if (detailRow === undefined || !dataFrameMethods.fetch) {
+      return
+    }
+    const controller = new AbortController()
+    dataFrameMethods.fetch({ rowStart: detailRow, rowEnd: detailRow + 1, columns: [...columnNames], orderBy, signal: controller.signal })
+      .catch((error: unknown) => {
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          // the row has changed, or the panel has been closed
+          return
+        }
+        onError?.(error)
+      })
+    return () => {
+      controller.abort()
+    }
+  }, [detailRow, dataFrameMethods, columnNames, orderBy, onError])
+
+  const toggleRowDetail = useMemo(() => {
+    if (!enabled) {
+      return undefined
+    }
+    return () => {
+      setIsRowDetailOpen(isOpen => !isOpen)
+    }
+  }, [enabled])
+
+  const closeRowDetail = useCallback(() => {
+    setIsRowDetailOpen(false)
+    goToCurrentCell?.()
+  }, [goToCurrentCell])
+
+  const value = useMemo(() => {
+    return {
+      isRowDetailOpen: enabled && isRowDetailOpen,
+      detailRow,
+      toggleRowDetail,
+      closeRowDetail,
+      renderRowDetail,
+    }
+  }, [enabled, isRowDetailOpen, detailRow, toggleRowDetail, closeRowDetail, renderRowDetail])
+
+  return (
+    <RowDetailContext.Provider value={value}>
+      {children}
+    </RowDetailContext.Provider>
+  )
+}
@@ -1,33 +1,67 @@
-import { type ReactNode, useCallback, useContext, useEffect, useMemo, useReducer, useState } from 'react'
+import { type ReactNode, useCallback, useContext, useEffect, useImperativeHandle, useMemo, useReducer, useRef, useState } from 'react'
 
+import { AggregatesContext } from '../contexts/AggregatesContext.js'
 import { CellNavigationContext } from '../contexts/CellNavigationContext.js'
-import { NumRowsContext } from '../contexts/DataContext.js'
-import { CanvasHeightContext, RenderedRowsContext, SetScrollToContext, SetScrollTopContext, SliceTopContext } from '../contexts/ScrollContext.js'
+import { ColumnsVisibilityContext } from '../contexts/ColumnsVisibilityContext.js'
+import { ColumnWidthsContext } from '../contexts/ColumnWidthsContext.js'
+import { DataFrameMethodsContext, DataVersionContext, NumRowsContext } from '../contexts/DataContext.js'
+import { OrderByContext } from '../contexts/OrderByContext.js'
+import { CanvasHeightContext, RenderedColumnsContext, RenderedRowsContext, RowHeightsContext, SetScrollLeftContext, SetScrollToContext, SetScrollTopContext, SliceTopContext } from '../contexts/ScrollContext.js'
 import { TableCornerHeightContext } from '../contexts/TableCornerSizeContext.js'
-import { ViewportHeightContext } from '../contexts/ViewportSizeContext.js'
-import { defaultPadding, maxElementHeight, rowHeight } from '../helpers/constants.js'
-import { computeDerivedValues, createScale, getScrollActionForRow, initializeScrollState, scrollReducer } from '../helpers/scroll.js'
+import { ViewportHeightContext, ViewportWidthContext } from '../contexts/ViewportSizeContext.js'
+import { ariaOffset, columnPadding, defaultPadding, maxElementHeight } from '../helpers/constants.js'
+import type { Scale } from '../helpers/scroll.js'
+import { computeDerivedValues, computeRenderedColumns, createScale, getRenderedColumns, getRowHeightPx, getScrollActionForRow, getScrollActionForScaleChange, initializeScrollState, scrollReducer } from '../helpers/scroll.js'
 import { useFetchCells } from '../hooks/useFetchCells.js'
 import type { HighTableProps } from '../types.js'
 
-type ScrollProviderProps = Pick<HighTableProps, 'overscan' | 'padding' | 'onError'> & {
+type ScrollProviderProps = Pick<HighTableProps, 'estimateRowHeight' | 'fetchRetry' | 'overscan' | 'padding' | 'ref' | 'rowHeight' | 'onError'> & {
   /** Child components */
   children: ReactNode
 }
 
 /**
  * Provide the scroll state and logic to the table, through the ScrollContext contexts.
+ *
+ * The rows and the columns are virtualized: only the rows and the columns in the viewport, plus some padding, are
+ * rendered, and only their cells are fetched (plus the overscan rows).
+ *
+ * The ref exposes the retryFailed action, to fetch the failed rows again.
  */
-export function ScrollProvider({ children, overscan, padding = defaultPadding, onError }: ScrollProviderProps) {
-  const [{ scale, scrollTop, scrollTopAnchor, localOffset }, dispatch] = useReducer(scrollReducer, undefined, initializeScrollState)
+export function ScrollProvider({ children, estimateRowHeight, fetchRetry, overscan, padding = defaultPadding, ref, rowHeight, onError }: ScrollProviderProps) {
+  const [{ scale, scrollTop, scrollTopAnchor, localOffset, isLargeScroll }, dispatch] = useReducer(scrollReducer, undefined, initializeScrollState)
   const { cellPosition, focusState, focusDispatch } = useContext(CellNavigationContext)
   const clientHeight = useContext(ViewportHeightContext)
   /** Height of the header row, in pixels */
   const headerHeight = useContext(TableCornerHeightContext)
   /** The actual number of rows in the data frame */
   const numRows = useContext(NumRowsContext)
+  const dataFrameMethods = useContext(DataFrameMethodsContext)
+  /** A version number that increments whenever a data frame is updated or resolved (the key remains the same). */
+  const version = useContext(DataVersionContext)
+  const orderBy = useContext(OrderByContext)
+  const { visibleColumnsParameters } = useContext(ColumnsVisibilityContext)
+  const clientWidth = useContext(ViewportWidthContext)
+  const { columnOffsets } = useContext(ColumnWidthsContext)
+  /** Default height of the rows, in pixels */
+  const rowHeightPx = getRowHeightPx(rowHeight)
+  const { functions: aggregateFunctions } = useContext(AggregatesContext)
+  /** Height of the footer, in pixels: one row per aggregate function */
+  const footerHeight = (aggregateFunctions?.length ?? 0) * rowHeightPx
+
+  // The estimated row heights are only valid for the state they were estimated with.
+  const estimationSource = useMemo(() => {
+    return { dataFrameMethods, estimateRowHeight, numRows, orderBy, rowHeightPx, visibleColumnsParameters }
+  }, [dataFrameMethods, estimateRowHeight, numRows, orderBy, rowHeightPx, visibleColumnsParameters])
+  const [estimatedRowHeights, setEstimatedRowHeights] = useState<{
+    source: typeof estimationSource
+    /** Heights of the rows that are taller than the default row height, keyed by row index */
+    rowHeights: Map<number, number>
+  } | undefined>(undefined)
+  const rowHeights = estimatedRowHeights?.source === estimationSource ? estimatedRowHeights.rowHeights : undefined
 
   const [scrollTo, setScrollTo] = useState<HTMLElement['scrollTo'] | undefined>(undefined)
+  const [scrollLeft, setScrollLeft] = useState(0)
   const setScrollTop = useCallback((scrollTop: number) => {
     dispatch({ type: 'ON_SCROLL', scrollTop })
     focusDispatch?.({ type: 'SCROLLED_EVENT_RECEIVED' })
@@ -37,8 +71,8 @@ export function ScrollProvider({ children, overscan, padding = defaultPadding, o
     if (clientHeight === undefined) {
       return undefined
     }
-    return createScale({ clientHeight, headerHeight, rowHeight, numRows, maxElementHeight })
-  }, [clientHeight, headerHeight, numRows])
+    return createScale({ clientHeight, footerHeight, headerHeight, rowHeight: rowHeightPx, rowHeights, numRows, maxElementHeight })
+  }, [clientHeight, footerHeight, headerHeight, rowHeightPx, rowHeights, numRows])
 
   // ideally: call SET_SCALE from an event listener (if num_rows changes, or on resize if clientHeight or headerHeight change)
   // not during rendering
@@ -95,6 +129,50 @@ export function ScrollProvider({ children, overscan, padding = defaultPadding, o
       padding })
   }, [scale, scrollTop, scrollTopAnchor, localOffset, padding])
 
+  const numPinnedColumns = useMemo(() => {
+    return (visibleColumnsParameters ?? []).filter(({ pinned }) => pinned === 'left').length
+  }, [visibleColumnsParameters])
+  const { renderedColumnsStart, renderedColumnsEnd, leftSpacerWidth, rightSpacerWidth } = (columnOffsets && computeRenderedColumns({
+    columnOffsets,
+    numPinnedColumns,
+    scrollLeft,
+    viewportWidth: clientWidth,
+    padding: columnPadding,
+  })) ?? {}
+  // a new object only when the range or the spacers change, not on every horizontal scroll event
+  const renderedColumns = useMemo(() => {
+    if (renderedColumnsStart === undefined || renderedColumnsEnd === undefined || leftSpacerWidth === undefined || rightSpacerWidth === undefined) {
+      return undefined
+    }
+    return { renderedColumnsStart, renderedColumnsEnd, leftSpacerWidth, rightSpacerWidth }
+  }, [renderedColumnsStart, renderedColumnsEnd, leftSpacerWidth, rightSpacerWidth])
+
+  /**
+   * Programmatically scroll to a specific column if it's not rendered. Once rendered, the cell scrolls itself into
+   * view when it's focused.
+   */
+  useEffect(() => {
+    if (!renderedColumns || !columnOffsets || !scrollTo || focusState.status !== 'should_scroll_into_view') {
+      return
+    }
+    const visibleColumnIndex = cellPosition.colIndex - ariaOffset
+    if (visibleColumnIndex < numPinnedColumns) {
+      // the row headers and the pinned columns are always rendered
+      return
+    }
+    if (visibleColumnIndex >= renderedColumns.renderedColumnsStart && visibleColumnIndex < renderedColumns.renderedColumnsEnd) {
+      return
+    }
+    const stickyWidth = columnOffsets[numPinnedColumns] ?? 0
+    scrollTo({ left: (columnOffsets[visibleColumnIndex] ?? 0) - stickyWidth, behavior: 'instant' })
+  }, [cellPosition, columnOffsets, focusState, numPinnedColumns, renderedColumns, scrollTo])
+
+  // the parameters of the rendered columns: their cells are required to estimate the row heights
+  const renderedColumnsParameters = useMemo(() => {
+    return getRenderedColumns({ columns: visibleColumnsParameters ?? [], renderedColumns })
+      .flatMap(renderedColumn => renderedColumn.type === 'column' ? [renderedColumn.column] : [])
+  }, [visibleColumnsParameters, renderedColumns])
+
   const renderedRows = useMemo(() => {
     return {
       renderedRowsStart: derivedValues?.renderedRowsStart,
@@ -102,20 +180,100 @@ export function ScrollProvider({ children, overscan, padding = defaultPadding, o
     }
   }, [derivedValues])
 
-  // Fetch the required cells if needed (visible + overscan)
+  // The number of resolved visible cells when the height of a row was estimated, keyed by row index. The row is
+  // estimated again if more cells are resolved, e.g. after scrolling horizontally.
+  const estimatedCellsRef = useRef<{ source: typeof estimationSource, numCellsByRow: Map<number, number> } | undefined>(undefined)
+
+  // Estimate the height of the rendered rows, once their rendered cells are resolved, with all the resolved visible
+  // cells. The new heights update the scale (the rows below are shifted).
+  useEffect(() => {
+    const { renderedRowsStart, renderedRowsEnd } = renderedRows
+    if (!estimateRowHeight || !visibleColumnsParameters || renderedRowsStart === undefined || renderedRowsEnd === undefined) {
+      return
+    }
+    if (estimatedCellsRef.current?.source !== estimationSource) {
+      estimatedCellsRef.current = { source: estimationSource, numCellsByRow: new Map() }
+    }
+    const { numCellsByRow } = estimatedCellsRef.current
+    let nextRowHeights: Map<number, number> | undefined
+    for (let row = renderedRowsStart; row < renderedRowsEnd; row++) {
+      if (dataFrameMethods.getGroup?.({ row, orderBy })) {
+        // the group header rows have no cells, they keep the default height
+        continue
+      }
+      const cells: Record<string, unknown> = {}
+      for (const { name } of visibleColumnsParameters) {
+        const cell = dataFrameMethods.getCell({ row, column: name, orderBy })
+        if (cell !== undefined) {
+          cells[name] = cell.value
+        }
+      }
+      const numCells = Object.keys(cells).length
+      if (!renderedColumnsParameters.every(({ name }) => name in cells) || numCells <= (numCellsByRow.get(row) ?? 0)) {
+        continue
+      }
+      numCellsByRow.set(row, numCells)
+      const rowNumber = dataFrameMethods.getRowNumber({ row, orderBy })?.value
+      const estimatedHeight = estimateRowHeight({ row, rowNumber, cells })
+      // lower heights are ignored, to keep the map sparse
+      const height = estimatedHeight !== undefined && estimatedHeight > rowHeightPx ? estimatedHeight : undefined
+      if (height !== rowHeights?.get(row)) {
+        nextRowHeights ??= new Map(rowHeights)
+        if (height === undefined) {
+          nextRowHeights.delete(row)
+        } else {
+          nextRowHeights.set(row, height)
+        }
+      }
+    }
+    if (nextRowHeights) {
+      setEstimatedRowHeights({ source: estimationSource, rowHeights: nextRowHeights })
+    }
+  }, [renderedRows, estimateRowHeight, visibleColumnsParameters, renderedColumnsParameters, rowHeights, dataFrameMethods, orderBy, rowHeightPx, estimationSource, version])
+
+  // Keep the first visible row in place when the row heights change, e.g. when the rows above it are estimated.
+  const previousScaleRef = useRef<Scale | undefined>(undefined)
+  useEffect(() => {
+    const previousScale = previousScaleRef.current
+    previousScaleRef.current = scale
+    if (!scale || !previousScale || previousScale.parameters.rowHeights === scale.parameters.rowHeights || scrollTopAnchor === undefined) {
+      return
+    }
+    const action = getScrollActionForScaleChange({ previousScale, scale, scrollTopAnchor, localOffset })
+    if (!action) {
+      return
+    }
+    if (action.type === 'SCROLL_TO') {
+      if (!scrollTo) {
+        // Safe-guard for the tests with jsdom, which don't provide scrollTo
+        return
+      }
+      scrollTo({ top: action.scrollTop, behavior: 'instant' })
+    }
+    dispatch(action)
+  }, [scale, scrollTopAnchor, localOffset, scrollTo])
+
+  // Fetch the required cells if needed (visible + overscan + predicted rows)
   // it's a side-effect.
-  useFetchCells({ overscan, onError, range: derivedValues })
+  const retryFailed = useFetchCells({ overscan, fetchRetry, onError, range: derivedValues, renderedColumns, isLargeScroll })
+  useImperativeHandle(ref, () => ({ retryFailed }), [retryFailed])
 
   return (
     <SetScrollToContext.Provider value={setScrollTo}>
       <SetScrollTopContext.Provider value={setScrollTop}>
-        <CanvasHeightContext.Provider value={scale ? scale.canvasHeight : undefined}>
-          <SliceTopContext.Provider value={derivedValues?.sliceTop}>
-            <RenderedRowsContext.Provider value={renderedRows}>
-              {children}
-            </RenderedRowsContext.Provider>
-          </SliceTopContext.Provider>
-        </CanvasHeightContext.Provider>
+        <SetScrollLeftContext.Provider value={setScrollLeft}>
+          <CanvasHeightContext.Provider value={scale ? scale.canvasHeight : undefined}>
+            <SliceTopContext.Provider value={derivedValues?.sliceTop}>
+              <RenderedRowsContext.Provider value={renderedRows}>
+                <RenderedColumnsContext.Provider value={renderedColumns}>
+                  <RowHeightsContext.Provider value={rowHeights}>
+                    {children}
+                  </RowHeightsContext.Provider>
+                </RenderedColumnsContext.Provider>
+              </RenderedRowsContext.Provider>
+            </SliceTopContext.Provider>
+          </CanvasHeightContext.Provider>
+        </SetScrollLeftContext.Provider>
       </SetScrollTopContext.Provider>
     </SetScrollToContext.Provider>
   )
@@ -0,0 +1,214 @@
+import type { KeyboardEvent, ReactNode } from 'react'
+import { useCallback, useContext, useEffect, useEffectEvent, useMemo, useState } from 'react'
+
+import { StringifyContext } from '../contexts/CellConfigurationContext.js'
+import { CellNavigationContext } from '../contexts/CellNavigationContext.js'
+import { ColumnsVisibilityContext } from '../contexts/ColumnsVisibilityContext.js'
+import { DataFrameMethodsContext, NumRowsContext } from '../contexts/DataContext.js'
+import { OrderByContext } from '../contexts/OrderByContext.js'
+import { SearchContext } from '../contexts/SearchContext.js'
+import { ariaOffset } from '../helpers/constants.js'
+import { checkSignal } from '../helpers/dataframe/helpers.js'
+import type { SearchMatch } from '../helpers/dataframe/search.js'
+import { scanSearch } from '../helpers/dataframe/search.js'
+import type { CellPosition, HighTableProps } from '../types.js'
+
+type Props = Pick<HighTableProps, 'onError'> & {
+  /** Child components */
+  children: ReactNode
+}
+
+type SearchResults
+  = | { status: 'pending' }
+    | { status: 'resolved', matches: SearchMatch[], currentMatchIndex?: number }
+    | { status: 'rejected' }
+
+/**
+ * Provide the search bar state, and the logic to search a text in the visible columns, through the SearchContext.
+ *
+ * The data frame search method is used if it exists, otherwise the rows are scanned in chunks, and the values are
+ * stringified with the configured stringify function. The search is started again when the query, the data frame,
+ * the number of rows, the order or the visible columns change, and the pending search is aborted.
+ *
+ * Going to a match moves the current cell, and scrolls it into view, but keeps the focus in the search bar.
+ */
+export function SearchProvider({ children, onError }: Props) {
+  const dataFrameMethods = useContext(DataFrameMethodsContext)
+  const numRows = useContext(NumRowsContext)
+  const orderBy = useContext(OrderByContext)
+  const stringify = useContext(StringifyContext)
+  const { visibleColumnsParameters } = useContext(ColumnsVisibilityContext)
+  const { cellPosition, moveCell, goToCurrentCell } = useContext(CellNavigationContext)
+
+  const [isSearchOpen, setIsSearchOpen] = useState(false)
+  const [openCount, setOpenCount] = useState(0)
+  const [query, setQuery] = useState('')
+
+  const columnNames = useMemo(() => {
+    return (visibleColumnsParameters ?? []).map(({ name }) => name)
+  }, [visibleColumnsParameters])
+
+  // The results are only valid for the source they were computed from.
+  const source = useMemo(() => {
+    return { dataFrameMethods, numRows, orderBy, stringify, columnNames, query }
+  }, [dataFrameMethods, numRows, orderBy, stringify, columnNames, query])
+  const [state, setState] = useState<{ source: typeof source, results: SearchResults } | undefined>(undefined)
+  const results = state?.source === source ? state.results : undefined
+
+  const getMatchPosition = useCallback(({ row, column }: SearchMatch): CellPosition => {
+    return { colIndex: columnNames.indexOf(column) + ariaOffset, rowIndex: row + ariaOffset }
+  }, [columnNames])
+
+  const goToMatch = useCallback(({ matches, index }: { matches: SearchMatch[], index: number }) => {
+    const match = matches[index]
+    if (!match) {
+      return
+    }
+    setState({ source, results: { status: 'resolved', matches, currentMatchIndex: index } })
+    // keep the focus in the search bar
+    moveCell?.({ type: 'CELL', ...getMatchPosition(match), focus: false })
+  }, [source, moveCell, getMatchPosition])
+
+  // Start the search, if the results are not already known.
+  // Not in the effect directly, to read the current state without restarting the search when it changes.
+  const startSearch = useEffectEvent((signal: AbortSignal) => {
+    if (query === '' || columnNames.length === 0 || results?.status === 'resolved' || results?.status === 'rejected') {
+      return
+    }
+    setState({ source, results: { status: 'pending' } })
+    const params = { query, columns: columnNames, orderBy, signal }
+    const promise = dataFrameMethods.search
+      ? dataFrameMethods.search(params)
+      : scanSearch({ ...params, data: dataFrameMethods, numRows, stringify })
+    promise.then((matches) => {
+      checkSignal(signal)
+      if (matches.length === 0) {
+        setState({ source, results: { status: 'resolved', matches } })
+        return
+      }
+      // go to the first match from the current cell, as the browsers do
+      const index = matches.findIndex((match) => {
+        const { colIndex, rowIndex } = getMatchPosition(match)
+        return rowIndex > cellPosition.rowIndex || (rowIndex === cellPosition.rowIndex && colIndex >= cellPosition.colIndex)
+      })
+      goToMatch({ matches, index: index === -1 ? 0 : index })
+    }).catch((error: unknown) => {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        // the search will be started again if needed
+        return
+      }
+      setState(prev => prev?.source === source ? { source, results: { status: 'rejected' } } : prev)
+      onError?.(error)
+    })
+  })
+
+  useEffect(() => {
+    if (!isSearchOpen) {
+      return
+    }
+    const controller = new AbortController()
+    startSearch(controller.signal)
+    return () => {
+      controller.abort()
+    }
+  }, [isSearchOpen, source])
+
+  const matches = results?.status === 'resolved' ? results.matches : undefined
+  const currentMatchIndex = results?.status === 'resolved' ? results.currentMatchIndex : undefined
+
+  const goToNextMatch = useMemo(() => {
+    if (!matches || matches.length === 0) {
+      return undefined
+    }
+    return () => {
+      const index = currentMatchIndex === undefined ? 0 : (currentMatchIndex + 1) % matches.length
+      goToMatch({ matches, index })
+    }
+  }, [matches, currentMatchIndex, goToMatch])
+
+  const goToPreviousMatch = useMemo(() => {
+    if (!matches || matches.length === 0) {
+      return undefined
+    }
+    return () => {
+      const index = currentMatchIndex === undefined ? matches.length - 1 : (currentMatchIndex - 1 + matches.length) % matches.length
+      goToMatch({ matches, index })
+    }
+  }, [matches, currentMatchIndex, goToMatch])
+
+  const openSearch = useCallback(() => {
+    setIsSearchOpen(true)
+    setOpenCount(count => count + 1)
+  }, [])
+
+  const closeSearch = useCallback(() => {
+    setIsSearchOpen(false)
+    goToCurrentCell?.()
+  }, [goToCurrentCell])
+
+  // the keys are "row:column", with the aria indexes
+  const matchKeys = useMemo(() => {
+    if (!isSearchOpen || !matches) {
+      return undefined
+    }
+    return new Set(matches.map((match) => {
+      const { colIndex, rowIndex } = getMatchPosition(match)
+      return `${rowIndex}:${colIndex}`
+    }))
+  }, [isSearchOpen, matches, getMatchPosition])
+
+  const getCellSearchMatch = useMemo(() => {
+    if (!matchKeys) {
+      return undefined
+    }
+    const currentMatch = currentMatchIndex === undefined ? undefined : matches?.[currentMatchIndex]
+    const currentPosition = currentMatch && getMatchPosition(currentMatch)
+    return ({ colIndex, rowIndex }: CellPosition) => {
+      if (currentPosition?.colIndex === colIndex && currentPosition.rowIndex === rowIndex) {
+        return 'current' as const
+      }
+      return matchKeys.has(`${rowIndex}:${colIndex}`) ? 'match' as const : undefined
+    }
+  }, [matchKeys, matches, currentMatchIndex, getMatchPosition])
+
+  const onTableKeyDown = useCallback((event: KeyboardEvent) => {
+    const { key, altKey, ctrlKey, metaKey, shiftKey } = event
+    if ((ctrlKey || metaKey) && !altKey && !shiftKey && key.toLowerCase() === 'f') {
+      // replace the browser search, which cannot find the cells that are not rendered
+      event.preventDefault()
+      event.stopPropagation()
+      openSearch()
+    } else if (key === 'F3' && isSearchOpen && !altKey && !ctrlKey && !metaKey) {
+      event.preventDefault()
+      event.stopPropagation()
+      if (shiftKey) {
+        goToPreviousMatch?.()
+      } else {
+        goToNextMatch?.()
+      }
+    }
+  }, [isSearchOpen, openSearch, goToNextMatch, goToPreviousMatch])
+
+  const value = useMemo(() => {
+    return {
+      isSearchOpen,
+      openCount,
+      query,
+      setQuery,
+      pendingSearch: isSearchOpen && results?.status === 'pending',
+      numMatches: isSearchOpen && query !== '' ? matches?.length : undefined,
+      currentMatchIndex: isSearchOpen ? currentMatchIndex : undefined,
+      goToNextMatch,
+      goToPreviousMatch,
+      closeSearch,
+      getCellSearchMatch,
+      onTableKeyDown,
+    }
+  }, [isSearchOpen, openCount, query, results, matches, currentMatchIndex, goToNextMatch, goToPreviousMatch, closeSearch, getCellSearchMatch, onTableKeyDown])
+
+  return (
+    <SearchContext.Provider value={value}>
+      {children}
+    </SearchContext.Provider>
+  )
+}
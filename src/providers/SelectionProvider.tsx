@@ -10,6 +10,7 @@ import type { Selection } from '../helpers/selection.js'
 import { countSelectedRows, getDefaultSelection, isSelected, selectIndex, toggleIndex, toggleIndexInSelection, unselectIndex } from '../helpers/selection.js'
 import type { OrderBy } from '../helpers/sort.js'
 import { serializeOrderBy } from '../helpers/sort.js'
+import { useHistory } from '../hooks/useHistory.js'
 import { useInputState } from '../hooks/useInputState.js'
 import type { HighTableProps } from '../types.js'
 
@@ -38,16 +39,18 @@ export function SelectionProvider({ children, selection: controlledSelection, on
     onChange: onSelectionChange,
     initialUncontrolledValue: getDefaultSelection(),
   })
-  const [selection, setSelection] = isEnabled ? inputState : [undefined, undefined]
+  // the user changes can be undone
+  const setSelectionWithHistory = useHistory({ type: 'selection', value: inputState[0], setValue: isEnabled ? inputState[1] : undefined })
+  const [selection, setSelection] = isEnabled ? [inputState[0], setSelectionWithHistory] : [undefined, undefined]
 
   const [rowByRowNumberAndOrderBy] = useState<Map<string, Map<number, number | undefined>>>(() => new Map())
-  const [allRowsSelected, setAllRowsSelected] = useState<boolean | undefined>(areAllSelected({ numRows, selection }))
+  const [allRowsSelected, setAllRowsSelected] = useState<boolean | undefined>(areAllSelected({ dataFrameMethods, numRows, selection }))
 
   const orderBy = useContext(OrderByContext)
 
   const onNumRowsChange = useEffectEvent((numRows: number) => {
     // when numRows changes, we need to check if all rows are selected, and update the cache
-    setAllRowsSelected(areAllSelected({ numRows, selection }))
+    setAllRowsSelected(areAllSelected({ dataFrameMethods, numRows, selection }))
     // we need to clear the cache when numRows changes, because it might be invalid
     // unfortunately, this has a performance cost since the cache will need to be rebuilt
     // TODO(SL): find a better way to handle this
@@ -90,6 +93,10 @@ export function SelectionProvider({ children, selection: controlledSelection, on
     return selection !== undefined
   }, [selection])
 
+  const numSelectedRows = useMemo(() => {
+    return selection ? countSelectedRows({ selection }) : undefined
+  }, [selection])
+
   const isRowSelected = useMemo(() => {
     if (!selection) return undefined
     return ({ rowNumber }: { rowNumber: number | undefined }): boolean | undefined => {
@@ -221,6 +228,8 @@ export function SelectionProvider({ children, selection: controlledSelection, on
   return (
     <SelectionContext.Provider value={{
       selectable,
+      selection,
+      numSelectedRows,
       pendingSelectionGesture: gesture !== undefined,
       isRowSelected,
       toggleRowNumber,
@@ -235,17 +244,20 @@ export function SelectionProvider({ children, selection: controlledSelection, on
   )
 }
 
-// fetch the row numbers in the range
+// fetch the row numbers in the range (the group header rows have no row number, and are skipped)
 async function fetchRowNumbers({ dataFrameMethods, rowStart, rowEnd, orderBy, signal }: { dataFrameMethods: DataFrameMethods, rowStart: number, rowEnd: number, orderBy?: OrderBy, signal?: AbortSignal }) {
   await dataFrameMethods.fetch?.({ rowStart, rowEnd, orderBy, signal })
-  const rowNumbers = Array.from({ length: rowEnd - rowStart }, (_, i) => {
-    const row = i + rowStart
+  const rowNumbers: number[] = []
+  for (let row = rowStart; row < rowEnd; row++) {
+    if (dataFrameMethods.getGroup?.({ row, orderBy })) {
+      continue
+    }
     const rowNumber = dataFrameMethods.getRowNumber({ row, orderBy })?.value
     if (rowNumber === undefined) {
       throw new Error(`Row number is undefined for row ${row} with orderBy ${JSON.stringify(orderBy ?? [])}`)
     }
-    return rowNumber
-  })
+    rowNumbers.push(rowNumber)
+  }
   return rowNumbers
 }
 
@@ -265,6 +277,10 @@ async function fetchRow({ dataFrameMethods, numRows, rowNumber, orderBy, signal,
   await dataFrameMethods.fetch?.({ rowStart: 0, rowEnd: numRows, orderBy, signal })
   // fill the Map
   for (let i = 0; i < numRows; i++) {
+    if (dataFrameMethods.getGroup?.({ row: i, orderBy })) {
+      // the group header rows have no row number
+      continue
+    }
     const rowNumber = dataFrameMethods.getRowNumber({ row: i, orderBy })?.value
     if (rowNumber === undefined) {
       throw new Error(`Row number is undefined for row ${i} with orderBy ${orderByKey}`)
@@ -328,7 +344,7 @@ async function toggleAll({ dataFrameMethods, numRows, selection, signal }: { dat
   return { ranges }
 }
 
-function areAllSelected({ numRows, selection }: { numRows: number, selection?: Selection }): false | undefined {
+function areAllSelected({ dataFrameMethods, numRows, selection }: { dataFrameMethods: DataFrameMethods, numRows: number, selection?: Selection }): false | undefined {
   if (!selection) {
     return false
   }
@@ -336,7 +352,8 @@ function areAllSelected({ numRows, selection }: { numRows: number, selection?: S
     return false
   }
   // optimization: if the selection contains less than the total number of rows, we can assume not all rows are selected
-  if (countSelectedRows({ selection }) < numRows) {
+  // (not with the group header rows, which are counted in numRows but cannot be selected)
+  if (!dataFrameMethods.getGroup && countSelectedRows({ selection }) < numRows) {
     return false
   }
   // the opposite is not true, because a rows selection can be shared between dataframes (think a dataframe and a sampled dataframe)
@@ -345,7 +362,7 @@ function areAllSelected({ numRows, selection }: { numRows: number, selection?: S
 }
 
 async function fetchAreAllSelected({ dataFrameMethods, numRows, selection, signal }: { dataFrameMethods: DataFrameMethods, numRows: number, selection: Selection, signal?: AbortSignal }): Promise<boolean> {
-  const syncAnswer = areAllSelected({ numRows, selection })
+  const syncAnswer = areAllSelected({ dataFrameMethods, numRows, selection })
   if (syncAnswer !== undefined) {
     return syncAnswer
   }
@@ -1,8 +1,11 @@
-import type { KeyboardEvent, MouseEvent, ReactNode } from 'react'
+import type { KeyboardEvent, MouseEvent, ReactNode, Ref } from 'react'
 
 import type { ColumnConfiguration } from './helpers/columnConfiguration.js'
-import type { DataFrame, ResolvedValue } from './helpers/dataframe/index.js'
-import type { Selection } from './helpers/selection.js'
+import type { AggregateFunction, DataFrame, ResolvedValue } from './helpers/dataframe/index.js'
+import type { FetchRetryOptions } from './helpers/fetchScheduler.js'
+import type { Filters } from './helpers/filter.js'
+import type { History } from './helpers/history.js'
+import type { CellSelection, Selection } from './helpers/selection.js'
 import type { OrderBy } from './helpers/sort.js'
 import type { ColumnsVisibility } from './providers/ColumnsVisibilityProvider.js'
 
@@ -33,6 +36,57 @@ export interface CellContentProps {
   row?: number // the row index in the original data, undefined if the value has not been fetched yet
 }
 
+export interface RowDetailProps {
+  row: number // the row index in the current order
+  rowNumber?: number // the row index in the original data, undefined if it has not been fetched yet
+  cells: Record<string, ResolvedValue | undefined> // the cells of all the columns, including the hidden ones, keyed by column name. Undefined if not fetched yet.
+  stringify: StringifyFunction
+}
+
+/** The density presets for the row height: 29px, 33px (default) or 41px with the default styles */
+export type RowDensity = 'compact' | 'normal' | 'comfortable'
+
+export interface EstimateRowHeightProps {
+  row: number // the row index in the current order
+  rowNumber?: number // the row index in the original data
+  cells: Record<string, unknown> // the values of the resolved visible cells, keyed by column name
+}
+
+/** An edit of a cell, by the user */
+export interface CellEdit {
+  /** The column name */
+  column: string
+  /** The row index in the original data */
+  rowNumber: number
+  /** The new value */
+  value: unknown
+  /** The value before the edit */
+  previousValue: unknown
+}
+
+/** The context of an error that occurred while fetching the cells of a range of rows, passed to onError */
+export interface FetchErrorContext {
+  /** The first row of the range (inclusive), in the current order */
+  rowStart: number
+  /** The last row of the range (exclusive) */
+  rowEnd: number
+  /** The fetched columns */
+  columns: string[]
+  /** The order of the rows */
+  orderBy: OrderBy
+  /** The attempt number: 1 for the first request, 2 for the first automatic retry, etc. */
+  attempt: number
+}
+
+/** The imperative actions of the table, exposed through its ref */
+export interface HighTableHandle {
+  /**
+   * Fetch again now the ranges of rows that have failed, including the ones waiting for an automatic retry
+   * (see fetchRetry). The attempts are counted from 1 again.
+   */
+  retryFailed: () => void
+}
+
 // TODO(SL): update selection, onSelectionChange docstrings to reflect the reality
 
 export interface HighTableProps {
@@ -41,7 +95,19 @@ export interface HighTableProps {
 
   // optional props
 
-  /** Key used to persist column widths in localStorage. If undefined, the column widths are not persisted. It is expected to be unique for each table. */
+  /**
+   * The aggregate functions (count, nullCount, min, max, sum, mean, distinctCount) shown in a footer, sticky at the
+   * bottom of the table, with one row per function and one cell per visible column. No footer if undefined or empty.
+   *
+   * The aggregates are computed with the data frame aggregate method if it exists, otherwise by fetching all the rows.
+   */
+  aggregates?: AggregateFunction[]
+  /** Whether to aggregate only the selected rows, when some rows are selected (default false) */
+  aggregateSelectedRows?: boolean
+  /**
+   * Key used to persist the column widths and order in localStorage, and the view state if persistViewState is set.
+   * If undefined, nothing is persisted. It is expected to be unique for each table.
+   */
   cacheKey?: string
   /**
    * The current cell position. If undefined, the component manages the active cell position internally.
@@ -51,10 +117,42 @@ export interface HighTableProps {
    * - if it is undefined on the first render, the component is in uncontrolled mode and manages the active cell position internally.
    */
   cellPosition?: CellPosition
+  /**
+   * The selected range of cells (a rectangle), independent from the rows selection.
+   *
+   * If undefined, and onCellSelectionChange is undefined, the cell selection is hidden and the interactions are disabled.
+   *
+   * This prop is expected to stay in the same mode during the lifecycle of the component:
+   * - if it is set on the first render, the component is in controlled mode and the parent component is responsible for updating the 'cellSelection' prop on user interactions (see onCellSelectionChange);
+   * - if it is undefined on the first render, the component is in uncontrolled mode and manages the cell selection internally (if onCellSelectionChange is set).
+   */
+  cellSelection?: CellSelection
   /** Additional CSS class names for the component */
   className?: string
+  /**
+   * The keys of the collapsed groups, when the rows are grouped (see groupBy). The key of a group is the JSON
+   * serialization of the values of the grouping columns, from the outermost group to this one (see getGroupKey).
+   *
+   * If undefined, the component manages the collapsed groups internally, and all the groups are expanded by default.
+   *
+   * This prop is expected to stay in the same mode during the lifecycle of the component:
+   * - if it is set on the first render, the component is in controlled mode and the parent component is responsible for updating the 'collapsedGroups' prop on user interactions (see onCollapsedGroupsChange);
+   * - if it is undefined on the first render, the component is in uncontrolled mode and manages the collapsed groups internally.
+   */
+  collapsedGroups?: string[]
   /** User-provided configuration for the columns, keyed by column name */
   columnConfiguration?: ColumnConfiguration
+  /**
+   * The order of the columns, as a list of column names. The columns that are not in the list are shown after
+   * the listed ones, in the data frame order. The unknown names are ignored.
+   *
+   * If undefined, the component manages the column order internally. It's persisted in the local storage if 'cacheKey' is set.
+   *
+   * This prop is expected to stay in the same mode during the lifecycle of the component:
+   * - if it is set on the first render, the component is in controlled mode and the parent component is responsible for updating the 'columnOrder' prop on user interactions (see onColumnOrderChange);
+   * - if it is undefined on the first render, the component is in uncontrolled mode and manages the column order internally.
+   */
+  columnOrder?: string[]
   /**
    * The columns visibility, i.e. which columns are hidden.
    *
@@ -66,8 +164,70 @@ export interface HighTableProps {
    * - if it is undefined on the first render, the component is in uncontrolled mode and manages the columns visibility internally.
    */
   columnsVisibility?: ColumnsVisibility
+  /**
+   * Whether to show the statistics of the columns (default false): a histogram of the values under every column
+   * header, and the minimum, maximum, number of nulls, number of distinct values and top values in the column menus.
+   *
+   * The statistics are computed lazily, for the rendered columns, with the data frame columnStats method if it
+   * exists, otherwise by fetching all the rows.
+   */
+  columnStats?: boolean
+  /**
+   * Filters applied to the rows, keyed by column name. Only the rows matching all the filters are shown.
+   *
+   * If undefined on the first render, the component is in uncontrolled mode and manages
+   * the filters internally: no rows are filtered by default, and the filters can be set in the column menus
+   * (see 'filterTypes' in the column configuration).
+   *
+   * If it is set on the first render, the component is in controlled mode and the parent
+   * component is responsible for updating the 'filters' prop on user interactions
+   * (see onFiltersChange).
+   *
+   * Pass {} to show all the rows. Columns that don't exist in the data frame will be ignored.
+   */
+  filters?: Filters
+  /**
+   * The automatic retries of the failed fetch requests: a failed range of rows is requested again after
+   * initialDelayMs (default 1,000), doubled on every retry up to maxDelayMs (default 30,000), at most maxRetries
+   * times (default 3, 0 to disable the retries). Past it, the range is only requested again after it's been scrolled
+   * out of the view, or with the retryFailed action (see ref).
+   */
+  fetchRetry?: FetchRetryOptions
   /** Whether to focus the first cell on mount, or when a new data frame is passed. Defaults to true. */
   focus?: boolean
+  /**
+   * The aggregate functions shown in the group header rows, in the cells of the columns that are not grouped.
+   * Only used if groupBy is set.
+   */
+  groupAggregates?: AggregateFunction[]
+  /**
+   * The columns used to group the rows, from the outermost group to the innermost one. Every group is preceded by
+   * a header row, with the value and the number of rows, that collapses or expands the group.
+   *
+   * The rows are grouped with groupedDataFrame, after the filters. The groups are sorted by value, and the rows of
+   * every group are sorted by orderBy. No grouping if undefined or empty. Columns that don't exist in the data frame
+   * will be ignored.
+   */
+  groupBy?: string[]
+  /**
+   * The interaction history: the changes of order, columns visibility, column widths and rows selection made by the
+   * user. They can be undone with Ctrl+Z (or Cmd+Z), and redone with Ctrl+Shift+Z (or Cmd+Shift+Z, or Ctrl+Y).
+   *
+   * If undefined, the component manages the history internally. It's cleared when a new data frame is passed.
+   *
+   * This prop is expected to stay in the same mode during the lifecycle of the component:
+   * - if it is set on the first render, the component is in controlled mode and the parent component is responsible for updating the 'history' prop on user interactions (see onHistoryChange);
+   * - if it is undefined on the first render, the component is in uncontrolled mode and manages the history internally.
+   *
+   * Pass { past: [], future: [] } to clear the history.
+   */
+  history?: History
+  /**
+   * The locale (BCP 47 language tag, e.g. 'fr-FR') used to format the numbers and the dates: in the default
+   * stringification, in the row numbers, and with the formatting options of the columns (see 'format' in the column
+   * configuration). Defaults to 'en-US'.
+   */
+  locale?: string
   /** The maximum number of rows to display (for row headers). Useful for filtered data. If undefined, the number of rows in the data frame is applied. */
   maxRowNumber?: number
   /** Number of rows per page for keyboard navigation (default 20) */
@@ -90,6 +250,32 @@ export interface HighTableProps {
   overscan?: number
   /** Number of rows to render beyond the visible table cells. Defaults to 20. */
   padding?: number
+  /**
+   * Whether to persist the view state (sort, columns visibility, rows selection and active cell) in localStorage,
+   * under cacheKey (default false). Ignored if cacheKey is undefined.
+   *
+   * Only the uncontrolled values are persisted, and the rows selection only if onSelectionChange is set. The view
+   * state is stored with the version of its schema. When loaded, it's migrated from a previous version, and ignored if
+   * the version is unsupported or if it's invalid (see ViewState and applyViewState).
+   */
+  persistViewState?: boolean
+  /**
+   * Whether to show a row detail panel, opened and closed with Enter or Space on a row header, that shows all the
+   * columns of the current row in full, including the hidden ones (default false). Implied if renderRowDetail is set.
+   *
+   * When the panel is enabled, the rows can still be selected by clicking the row headers.
+   */
+  rowDetail?: boolean
+  /**
+   * Height of the rows, in pixels, or a density preset: 'compact', 'normal' (default) or 'comfortable'.
+   *
+   * With the default styles, the vertical padding of the cells is adjusted to fill the height. With custom
+   * styles, the rendered rows are expected to have exactly this height (border included), otherwise the
+   * virtual scroll is misaligned.
+   */
+  rowHeight?: number | RowDensity
+  /** Ref to the imperative actions of the table (see HighTableHandle) */
+  ref?: Ref<HighTableHandle>
   /** Selection and anchor rows, expressed as data indexes (0 = first row in the data frame). If undefined, the selection is hidden and the interactions are disabled. */
   selection?: Selection
   /** Use the default styles? (default true) */
@@ -97,6 +283,34 @@ export interface HighTableProps {
 
   // optional function props
 
+  /**
+   * Optional function to estimate the height of a row, e.g. to expand the rows with multi-line cells (JSON, long text).
+   *
+   * It's called once the rendered cells of a row are resolved. The estimated heights are kept until the data, the
+   * order or the visible columns change, and the rows are never measured in the DOM. With the default styles, the
+   * content of the expanded rows wraps and is aligned to the top. When the heights of the rows above the viewport
+   * change, the table scrolls to keep the first visible row in place.
+   *
+   * For very wide tables, only the columns in the viewport are rendered and fetched: the cells of the other visible
+   * columns are passed if they are already resolved, and the row is estimated again when the cells of new columns
+   * are resolved, e.g. after scrolling horizontally.
+   *
+   * @param props The row index and number, and the values of the visible cells
+   * @returns The height of the row in pixels, or undefined to keep the default row height. Lower values are ignored.
+   */
+  estimateRowHeight?: (props: EstimateRowHeightProps) => number | undefined
+  /**
+   * Optional function called when the user edits a cell (Enter or F2 to edit, Enter to commit, Escape to cancel).
+   *
+   * If the data frame implements setCell, it's called after the new value has been set. Otherwise, the cells can
+   * still be edited, and the parent component is responsible for updating the data.
+   *
+   * The cells are editable if the data frame implements setCell or if this callback is set, except in the columns
+   * with 'editable: false' in the column configuration.
+   *
+   * @param edit The column, the row number, and the new and previous values
+   */
+  onCellEdit?: (edit: CellEdit) => void
   /**
    * Optional function called when the active cell position changes.
    *
@@ -111,6 +325,44 @@ export interface HighTableProps {
    * @param cellPosition The new active cell position
    */
   onCellPositionChange?: (cellPosition: CellPosition) => void
+  /**
+   * Optional function called when a user interaction changes the cell selection (Shift+Arrow, drag, Shift+click, Escape).
+   *
+   * - if uncontrolled (cellSelection prop is not set): this callback is called on top of the local state setter, e.g. to notify the parent of the local change.
+   * - if controlled (cellSelection prop is set): this callback is called to notify the parent of the requested change, and it's the responsibility of the parent
+   *   component to update the 'cellSelection' prop on next render.
+   *
+   * If both the callback and the cellSelection prop are undefined (default), the cell selection is disabled.
+   * If the callback is undefined and the cellSelection prop is set, the cell selection is read-only.
+   *
+   * @param cellSelection The new cell selection
+   */
+  onCellSelectionChange?: (cellSelection: CellSelection) => void
+  /**
+   * Optional function called when the user collapses or expands a group (click on the group header, Enter or Space,
+   * or ArrowLeft and ArrowRight on the row header of the group).
+   *
+   * - if uncontrolled (collapsedGroups prop is not set): this callback is called on top of the local state setter, e.g. to notify the parent of the local change.
+   * - if controlled (collapsedGroups prop is set): this callback is called to notify the parent of the requested change, and it's the responsibility of the parent
+   *   component to update the 'collapsedGroups' prop on next render.
+   *
+   * If the callback is undefined and the collapsedGroups prop is set, the groups cannot be collapsed or expanded.
+   *
+   * @param collapsedGroups The keys of the collapsed groups
+   */
+  onCollapsedGroupsChange?: (collapsedGroups: string[]) => void
+  /**
+   * Optional function called when the user moves a column (drag and drop of a column header, or Alt+Shift+Arrow on a focused column header).
+   *
+   * - if uncontrolled (columnOrder prop is not set): this callback is called on top of the local state setter, e.g. to notify the parent of the local change.
+   * - if controlled (columnOrder prop is set): this callback is called to notify the parent of the requested change, and it's the responsibility of the parent
+   *   component to update the 'columnOrder' prop on next render.
+   *
+   * If the callback is undefined and the columnOrder prop is set, the column order is read-only.
+   *
+   * @param columnOrder The new order of all the columns, as a list of column names
+   */
+  onColumnOrderChange?: (columnOrder: string[]) => void
   /**
    * Optional function called whenever the set of hidden columns changes.
    *
@@ -142,8 +394,29 @@ export interface HighTableProps {
    * Ignored if not set.
    *
    * @param error The error that occurred
+   * @param context The range of rows, columns, order and attempt number, if the error occurred while fetching the cells
+   */
+  onError?: (error: unknown, context?: FetchErrorContext) => void
+  /**
+   * Optional function called when a user interaction changes the filters.
+   *
+   * If undefined, the component filters are read-only if controlled (filters is set).
+   *
+   * @param filters The new filters
    */
-  onError?: (error: unknown) => void
+  onFiltersChange?: (filters: Filters) => void
+  /**
+   * Optional function called when the interaction history changes (a change is recorded, undone or redone).
+   *
+   * - if uncontrolled (history prop is not set): this callback is called on top of the local state setter, e.g. to notify the parent of the local change.
+   * - if controlled (history prop is set): this callback is called to notify the parent of the requested change, and it's the responsibility of the parent
+   *   component to update the 'history' prop on next render.
+   *
+   * If the callback is undefined and the history prop is set, the history is read-only: the changes are not recorded, and cannot be undone.
+   *
+   * @param history The new history
+   */
+  onHistoryChange?: (history: History) => void
   /**
    * Optional function called on key down of a cell.
    *
@@ -154,6 +427,14 @@ export interface HighTableProps {
    * @param row The row index of the cell (0 = first row)
    */
   onKeyDownCell?: (event: KeyboardEvent, col: number, row: number) => void
+  /**
+   * Optional function called when the table starts or stops loading the cells, e.g. to show a custom spinner.
+   *
+   * The table is loading while some cells or row numbers of the rendered rows are not resolved yet.
+   *
+   * @param isLoading Whether some rendered cells are not resolved yet
+   */
+  onLoadingChange?: (isLoading: boolean) => void
   /**
    * Optional function called on mouse down of a cell.
    *
@@ -186,10 +467,19 @@ export interface HighTableProps {
    * @param props The cell content props
    */
   renderCellContent?: (props: CellContentProps) => ReactNode
+  /**
+   * Optional custom content of the row detail panel (see rowDetail). Setting it enables the panel.
+   *
+   * If not provided, the columns are listed with their stringified values.
+   *
+   * @param props The row index and number, the cells of all the columns, and the stringify function
+   */
+  renderRowDetail?: (props: RowDetailProps) => ReactNode
   /**
    * Optional function to stringify cell values for rendering, copy/paste and export.
    *
-   * If not provided, the default stringification will be used.
+   * If not provided, the default stringification will be used, with the numbers formatted with the locale. The
+   * formatting options of the columns take precedence, for the values they apply to.
    *
    * @param value The cell value
    * @returns The stringified value, or undefined if the value cannot be stringified
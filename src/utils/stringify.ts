@@ -1,30 +1,46 @@
+import type { StringifyFunction } from '../types.js'
+
+/** Locale used to format the numbers, if not specified */
+export const defaultLocale = 'en-US'
+
 /**
- * Robust stringification of any value, including json and bigints.
+ * Create a robust stringification function, that formats the numbers with the given locale.
+ *
+ * @param locale The BCP 47 language tag used to format the numbers, e.g. 'en-US' or 'fr-FR'
+ * @returns The stringify function
  */
-export function stringify(value: unknown): string | undefined {
-  if (typeof value === 'string') return value
-  if (typeof value === 'number' || typeof value === 'bigint') {
-    return value.toLocaleString('en-US', { maximumFractionDigits: 7 })
-  }
-  if (typeof value === 'boolean') return value.toString()
-  if (Array.isArray(value)) {
-    return `[\n${value.map(v => indent(stringify(v), 2)).join(',\n')}\n]`
-  }
-  // Beware: JSON.stringify is not robustly typed since it returns undefined (not a string) for undefined:
-  // More details and corner cases here: https://github.com/microsoft/TypeScript/issues/18879#issuecomment-1399758565
-  if (value === null || value === undefined) return JSON.stringify(value)
-  if (value instanceof Date) return value.toISOString()
-  if (value instanceof Error) return `${value.name}: ${value.message}`
-  if (typeof value === 'object') {
-    return `{\n${Object.entries(value)
-      .filter(d => d[1] !== undefined)
-      .map(([k, v]) => indent(`${k}: ${stringify(v)}`, 2))
-      .join(',\n')}\n}`
+export function createStringify(locale: string): StringifyFunction {
+  function localizedStringify(value: unknown): string | undefined {
+    if (typeof value === 'string') return value
+    if (typeof value === 'number' || typeof value === 'bigint') {
+      return value.toLocaleString(locale, { maximumFractionDigits: 7 })
+    }
+    if (typeof value === 'boolean') return value.toString()
+    if (Array.isArray(value)) {
+      return `[\n${value.map(v => indent(localizedStringify(v), 2)).join(',\n')}\n]`
+    }
+    // Beware: JSON.stringify is not robustly typed since it returns undefined (not a string) for undefined:
+    // More details and corner cases here: https://github.com/microsoft/TypeScript/issues/18879#issuecomment-1399758565
+    if (value === null || value === undefined) return JSON.stringify(value)
+    if (value instanceof Date) return value.toISOString()
+    if (value instanceof Error) return `${value.name}: ${value.message}`
+    if (typeof value === 'object') {
+      return `{\n${Object.entries(value)
+        .filter(d => d[1] !== undefined)
+        .map(([k, v]) => indent(`${k}: ${localizedStringify(v)}`, 2))
+        .join(',\n')}\n}`
+    }
+    // Fallback to JSON.stringify for unknown types or corner cases (e.g. functions)
+    return JSON.stringify(value)
   }
-  // Fallback to JSON.stringify for unknown types or corner cases (e.g. functions)
-  return JSON.stringify(value)
+  return localizedStringify
 }
 
+/**
+ * Robust stringification of any value, including json and bigints.
+ */
+export const stringify: StringifyFunction = createStringify(defaultLocale)
+
 function indent(text: string | undefined, spaces: number) {
   return text
     ?.split('\n')
@@ -4,15 +4,16 @@ import { useState } from 'react'
 
 import HighTable from '../src/components/HighTable.js'
 import { checkSignal, createGetRowNumber, validateFetchParams, validateGetCellParams } from '../src/helpers/dataframe/helpers.js'
-import type { DataFrame, DataFrameEvents } from '../src/helpers/dataframe/index.js'
-import { arrayDataFrame } from '../src/helpers/dataframe/index.js'
+import type { ColumnType, DataFrame, DataFrameEvents } from '../src/helpers/dataframe/index.js'
+import { arrayDataFrame, cachedDataFrame, searchDataFrame } from '../src/helpers/dataframe/index.js'
 import { sortableDataFrame } from '../src/helpers/dataframe/sort.js'
 import type { Fetch, ResolvedValue } from '../src/helpers/dataframe/types.js'
-import type { Selection } from '../src/helpers/selection.js'
+import type { History } from '../src/helpers/history.js'
+import type { CellSelection, Selection } from '../src/helpers/selection.js'
 import type { OrderBy } from '../src/helpers/sort.js'
 import { createEventTarget } from '../src/helpers/typedEventTarget.js'
 import type { ColumnsVisibility } from '../src/providers/ColumnsVisibilityProvider.js'
-import type { CellContentProps, CellPosition } from '../src/types.js'
+import type { CellContentProps, CellEdit, CellPosition } from '../src/types.js'
 
 function random(seed: number) {
   const x = Math.sin(seed) * 10000
@@ -52,6 +53,33 @@ function delay<T>(value: T, ms: number): Promise<T> {
     resolve(value)
   }, ms))
 }
+function createCachedRemoteData(): DataFrame {
+  // simulates a remote source: every request takes 300ms, and only the 1,000 most recently used rows are kept
+  return cachedDataFrame(({ rowStart, rowEnd, columns }) => {
+    const rows = Array.from({ length: rowEnd - rowStart }, (_, i) => {
+      const row = rowStart + i
+      return Object.fromEntries(columns.map(column => [column, column === 'ID' ? `row ${row}` : Math.floor(100 * random(row))]))
+    })
+    return delay(rows, 300)
+  }, { numRows: 100_000, columnDescriptors: ['ID', 'Value'].map(name => ({ name })), chunkSize: 100, maxCachedRows: 1_000 })
+}
+function createUnreliableRemoteData(): DataFrame {
+  // simulates an unreliable remote source: every other request fails
+  let numRequests = 0
+  return cachedDataFrame(({ rowStart, rowEnd, columns }) => {
+    numRequests++
+    if (numRequests % 2 === 0) {
+      return delay(undefined, 300).then(() => {
+        throw new Error('The server is unavailable, please retry')
+      })
+    }
+    const rows = Array.from({ length: rowEnd - rowStart }, (_, i) => {
+      const row = rowStart + i
+      return Object.fromEntries(columns.map(column => [column, column === 'ID' ? `row ${row}` : Math.floor(100 * random(row))]))
+    })
+    return delay(rows, 300)
+  }, { numRows: 10_000, columnDescriptors: ['ID', 'Value'].map(name => ({ name })), chunkSize: 20 })
+}
 function createDelayedUnsortableData(): DataFrame {
   const columnDescriptors = ['ID', 'Count'].map(name => ({ name }))
   const numRows = 500
@@ -161,6 +189,17 @@ function createLongStringsData(): DataFrame {
   }))
 }
 
+function createMultilineData(): DataFrame {
+  return arrayDataFrame(Array.from({ length: 1000 }, (_, index) => {
+    const numLines = 1 + Math.floor(5 * random(246 + index))
+    return {
+      ID: `row ${index}`,
+      Lines: Array.from({ length: numLines }, (_, line) => `line ${line + 1} of ${numLines}`).join('\n'),
+      Value: Math.floor(100 * random(357 + index)),
+    }
+  }))
+}
+
 function createManyColumnsData(): DataFrame {
   return arrayDataFrame(Array.from({ length: 1000 }, (_, index) => {
     return {
@@ -180,6 +219,52 @@ function createManyColumnsData(): DataFrame {
   }))
 }
 
+function createNestedData(): DataFrame {
+  return arrayDataFrame(Array.from({ length: 1000 }, (_, index) => {
+    return {
+      ID: `row ${index}`,
+      Address: {
+        street: `${Math.floor(100 * random(111 + index))} Main Street`,
+        city: index % 2 === 0 ? 'Paris' : 'Lyon',
+        coordinates: { lat: 45 + random(222 + index), lon: 2 + random(333 + index) },
+      },
+      Tags: Array.from({ length: 1 + Math.floor(4 * random(444 + index)) }, (_, tag) => `tag ${tag}`),
+      Notes: longString,
+    }
+  }))
+}
+
+function createTypedData(): DataFrame {
+  const data = arrayDataFrame(Array.from({ length: 1000 }, (_, index) => {
+    return {
+      ID: `row ${index}`,
+      Amount: Math.floor(100_000 * random(135 + index)) / 100,
+      Active: random(246 + index) > 0.5,
+      Day: new Date(Date.UTC(2024, 0, 1 + index)),
+      Created: Date.UTC(2024, 0, 1) + Math.floor(1_000_000_000 * random(357 + index)),
+      Payload: JSON.stringify({ id: index, tags: ['a', 'b'], nested: { value: random(468 + index) } }, null, 2),
+      Hash: new TextEncoder().encode(`hash of row ${index}`),
+      Scores: [random(579 + index), random(680 + index)].map(score => Math.floor(100 * score)),
+    }
+  }))
+  const types: Record<string, ColumnType> = { Amount: 'number', Active: 'boolean', Day: 'date', Created: 'timestamp', Payload: 'json', Hash: 'binary', Scores: 'list' }
+  return { ...data, columnDescriptors: data.columnDescriptors.map(descriptor => ({ ...descriptor, type: types[descriptor.name] })) }
+}
+
+function createGroupedData(): DataFrame {
+  const countries = [['Europe', 'France'], ['Europe', 'Spain'], ['Asia', 'Japan'], ['America', 'Brazil'], ['America', 'Canada'], ['America', 'Mexico']]
+  return arrayDataFrame(Array.from({ length: 1000 }, (_, index) => {
+    const [continent, country] = countries[Math.floor(countries.length * random(246 + index))] ?? []
+    return {
+      ID: `row ${index}`,
+      Continent: continent,
+      Country: country,
+      Population: Math.floor(1000 * random(357 + index)),
+      Area: Math.floor(100 * random(468 + index)),
+    }
+  }))
+}
+
 function createEmptyData(): DataFrame {
   const numRows = 0
   const columnDescriptors = ['ID', 'Count', 'Double', 'Constant', 'Value1', 'Value2', 'Value3'].map(name => ({ name }))
@@ -484,11 +569,121 @@ export const LongStrings: Story = {
     data: sortableDataFrame(createLongStringsData()),
   },
 }
+export const CompactRows: Story = {
+  args: {
+    data: sortableDataFrame(createManyColumnsData()),
+    rowHeight: 'compact',
+  },
+}
+export const ComfortableRows: Story = {
+  args: {
+    data: sortableDataFrame(createManyColumnsData()),
+    rowHeight: 'comfortable',
+  },
+}
+export const EstimatedRowHeights: Story = {
+  args: {
+    data: sortableDataFrame(createMultilineData()),
+    // 24px per line of text, plus the vertical padding and the border
+    estimateRowHeight: ({ cells }) => typeof cells.Lines === 'string' ? cells.Lines.split('\n').length * 24 + 9 : undefined,
+  },
+}
+export const Aggregates: Story = {
+  args: {
+    data: sortableDataFrame(createManyColumnsData()),
+    aggregates: ['count', 'nullCount', 'min', 'max', 'mean'],
+  },
+}
+export const SelectedRowsAggregates: Story = {
+  render: (args) => {
+    const [selection, onSelectionChange] = useState<Selection>({
+      ranges: [{ start: 1, end: 3 }, { start: 5, end: 7 }],
+      anchor: 5,
+    })
+    return (
+      <HighTable
+        {...args}
+        selection={selection}
+        onSelectionChange={onSelectionChange}
+      />
+    )
+  },
+  args: {
+    data: sortableDataFrame(createManyColumnsData()),
+    aggregates: ['count', 'sum', 'mean'],
+    aggregateSelectedRows: true,
+  },
+}
+export const GroupedRows: Story = {
+  render: (args) => {
+    const [collapsedGroups, setCollapsedGroups] = useState<string[]>([])
+    return (
+      <>
+        <HighTable
+          {...args}
+          collapsedGroups={collapsedGroups}
+          onCollapsedGroupsChange={setCollapsedGroups}
+        />
+        <p>
+          {`${collapsedGroups.length} collapsed group(s). `}
+          <button type="button" onClick={() => { setCollapsedGroups([]) }}>Expand all the groups</button>
+        </p>
+      </>
+    )
+  },
+  args: {
+    data: sortableDataFrame(createGroupedData()),
+    groupBy: ['Continent', 'Country'],
+    groupAggregates: ['sum', 'mean'],
+  },
+}
 export const ManyColumns: Story = {
   args: {
     data: sortableDataFrame(createManyColumnsData()),
   },
 }
+export const TypedColumns: Story = {
+  args: {
+    data: sortableDataFrame(createTypedData()),
+    columnConfiguration: {
+      // the type of the descriptor can be overridden
+      ID: { type: 'string' },
+    },
+  },
+}
+export const LocalizedFormats: Story = {
+  args: {
+    data: sortableDataFrame(createTypedData()),
+    locale: 'fr-FR',
+    columnConfiguration: {
+      Amount: { format: { number: { style: 'currency', currency: 'EUR' } } },
+      Day: { format: { date: { dateStyle: 'full' } } },
+      Created: { format: { date: { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Europe/Paris' } } },
+    },
+  },
+}
+export const ColumnStats: Story = {
+  args: {
+    data: sortableDataFrame(createTypedData()),
+    columnStats: true,
+  },
+}
+export const PersistedViewState: Story = {
+  args: {
+    data: sortableDataFrame(createUnsortableData()),
+    cacheKey: 'persisted-view-state',
+    persistViewState: true,
+    // enables the rows selection, which is then persisted too
+    onSelectionChange: () => undefined,
+  },
+}
+export const RowDetail: Story = {
+  args: {
+    data: sortableDataFrame(createNestedData()),
+    rowDetail: true,
+    columnsVisibility: { Notes: { hidden: true } },
+  },
+}
 export const RowsSelection: Story = {
   render: (args) => {
     const [selection, onSelectionChange] = useState<Selection>({
@@ -538,6 +733,22 @@ export const FilteredData: Story = {
 
   },
 }
+export const ColumnFilters: Story = {
+  args: {
+    data: sortableDataFrame(createUnsortableData()),
+    columnConfiguration: {
+      ID: {
+        filterTypes: ['contains', 'equals', 'in'],
+      },
+      Count: {
+        filterTypes: ['range', 'equals'],
+      },
+      Undefined: {
+        filterTypes: ['isNull', 'isNotNull'],
+      },
+    },
+  },
+}
 export const HiddenColumns: Story = {
   args: {
     data: sortableDataFrame(createUnsortableData()),
@@ -552,6 +763,19 @@ export const HiddenColumns: Story = {
     cacheKey: 'hidden-columns-demo',
   },
 }
+export const PinnedColumns: Story = {
+  args: {
+    data: sortableDataFrame(createManyColumnsData()),
+    columnConfiguration: {
+      ID1: {
+        pinned: 'left',
+      },
+      Value1: {
+        pinned: 'left',
+      },
+    },
+  },
+}
 export const DoubleClickCell: Story = {
   render: (args) => {
     const data = sortableDataFrame(createUnsortableData())
@@ -636,6 +860,90 @@ export const LargeData: Story = {
   },
 }
 
+export const CachedRemoteData: Story = {
+  args: {
+    data: createCachedRemoteData(),
+  },
+}
+
+export const UnreliableRemoteData: Story = {
+  args: {
+    data: createUnreliableRemoteData(),
+  },
+}
+
+export const NativeSearch: Story = {
+  args: {
+    data: (() => {
+      const data = sortableDataFrame(createUnsortableData())
+      return {
+        ...data,
+        // simulate a backend that searches the data, e.g. with an SQL query
+        search: async ({ query, columns, orderBy, signal }) => {
+          await new Promise(resolve => setTimeout(resolve, 500))
+          return searchDataFrame(data, { query, columns, orderBy, signal })
+        },
+      }
+    })(),
+  },
+}
+export const CellEditing: Story = {
+  render: (args) => {
+    const [data] = useState(() => sortableDataFrame(arrayDataFrame([
+      { name: 'Alice', age: 30, role: 'admin', active: true },
+      { name: 'Bob', age: 25, role: 'user', active: false },
+      { name: 'Charlie', age: 35, role: 'user', active: true },
+    ])))
+    const [lastEdit, setLastEdit] = useState<CellEdit | undefined>(undefined)
+    return (
+      <>
+        <HighTable
+          {...args}
+          data={data}
+          columnConfiguration={{
+            name: { editable: false },
+            role: {
+              editor: ({ value, commit, cancel }) => (
+                <select
+                  autoFocus
+                  defaultValue={String(value)}
+                  onChange={(event) => { commit(event.target.value) }}
+                  onBlur={cancel}
+                >
+                  <option value="admin">admin</option>
+                  <option value="user">user</option>
+                </select>
+              ),
+            },
+          }}
+          onCellEdit={setLastEdit}
+        />
+        <p>{lastEdit ? `Last edit: ${lastEdit.column} of row ${lastEdit.rowNumber}, from ${String(lastEdit.previousValue)} to ${String(lastEdit.value)}` : 'Press Enter or F2 to edit a cell (the name column is read-only)'}</p>
+      </>
+    )
+  },
+}
+export const UndoRedo: Story = {
+  render: (args) => {
+    const [history, setHistory] = useState<History>({ past: [], future: [] })
+    return (
+      <>
+        <HighTable
+          {...args}
+          history={history}
+          onHistoryChange={setHistory}
+        />
+        <p>
+          {`${history.past.length} change(s) to undo, ${history.future.length} change(s) to redo. Press Ctrl+Z to undo, Ctrl+Shift+Z to redo. `}
+          <button type="button" onClick={() => { setHistory({ past: [], future: [] }) }}>Clear the history</button>
+        </p>
+      </>
+    )
+  },
+  args: {
+    data: sortableDataFrame(createUnsortableData()),
+  },
+}
 export const SmallData: Story = {
   args: {
     data: createSmallData(),
@@ -794,3 +1102,41 @@ export const ChangeDataProp: Story = {
     )
   },
 }
+export const CellRangeSelection: Story = {
+  render: (args) => {
+    const [cellSelection, onCellSelectionChange] = useState<CellSelection>({
+      range: { anchor: { colIndex: 2, rowIndex: 3 }, head: { colIndex: 3, rowIndex: 5 } },
+    })
+    return (
+      <HighTable
+        {...args}
+        cellSelection={cellSelection}
+        onCellSelectionChange={onCellSelectionChange}
+      />
+    )
+  },
+  args: {
+    data: sortableDataFrame(createUnsortableData()),
+  },
+}
+export const ColumnReorder: Story = {
+  args: {
+    data: sortableDataFrame(createUnsortableData()),
+    cacheKey: 'column-reorder-demo',
+  },
+}
+export const ColumnReorderControlled: Story = {
+  render: (args) => {
+    const [columnOrder, onColumnOrderChange] = useState<string[]>(['Value1', 'ID'])
+    return (
+      <HighTable
+        {...args}
+        columnOrder={columnOrder}
+        onColumnOrderChange={onColumnOrderChange}
+      />
+    )
+  },
+  args: {
+    data: sortableDataFrame(createUnsortableData()),
+  },
+}
@@ -1,8 +1,13 @@
-import { act, fireEvent } from '@testing-library/react'
-import { describe, expect, it } from 'vitest'
+import { act, fireEvent, waitFor, within } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
 
 import Cell from '../../src/components/Cell.js'
-import { RenderCellContentContext, StringifyContext } from '../../src/contexts/CellConfigurationContext.js'
+import { LocaleContext, RenderCellContentContext, StringifyContext } from '../../src/contexts/CellConfigurationContext.js'
+import { ClipboardContext } from '../../src/contexts/ClipboardContext.js'
+import { RetryRowContext } from '../../src/contexts/LoadingContext.js'
+import { PortalContainerContext } from '../../src/contexts/PortalContainerContext.js'
+import { ariaOffset } from '../../src/helpers/constants.js'
+import type { ColumnFormat } from '../../src/helpers/format.js'
 import { render } from '../../src/utils/userEvent.js'
 
 function stringify(d: unknown) {
@@ -13,8 +18,8 @@ function stringify(d: unknown) {
 const rest = {
   ariaColIndex: 1,
   ariaRowIndex: 1,
+  column: 'name',
   columnIndex: 0,
-  visibleColumnIndex: 0,
 }
 describe('Cell', () => {
   it.each([
@@ -68,6 +73,132 @@ describe('Cell', () => {
     getByText('Value: custom')
   })
 
+  it('formats the value according to the column type, but copies the stringified value', async () => {
+    const { getByRole } = render(
+      <table>
+        <tbody>
+          <tr>
+            <Cell
+              cellValue={new Date('2024-03-05T14:07:09Z')}
+              hasResolved={true}
+              type="date"
+              {...rest}
+            />
+          </tr>
+        </tbody>
+      </table>
+    )
+    const cell = getByRole('cell')
+    expect(cell.textContent).toBe('2024-03-05')
+    expect(cell.getAttribute('data-type')).toBe('date')
+    act(() => {
+      fireEvent.copy(cell)
+    })
+    expect(await navigator.clipboard.readText()).toBe('2024-03-05T14:07:09.000Z')
+  })
+
+  it('formats and copies the value with the formatting options of the column and the locale', async () => {
+    const { getByRole } = render(
+      <LocaleContext.Provider value="fr-FR">
+        <table>
+          <tbody>
+            <tr>
+              <Cell
+                cellValue={0.256}
+                hasResolved={true}
+                type="number"
+                format={{ number: { style: 'percent', maximumFractionDigits: 1 } }}
+                {...rest}
+              />
+            </tr>
+          </tbody>
+        </table>
+      </LocaleContext.Provider>
+    )
+    const cell = getByRole('cell')
+    expect(cell.textContent).toBe('25,6\u00a0%')
+    act(() => {
+      fireEvent.copy(cell)
+    })
+    expect(await navigator.clipboard.readText()).toBe('25,6\u00a0%')
+  })
+
+  it('renders the custom content of the column rather than the one of the table', () => {
+    const { getByText } = render(
+      <RenderCellContentContext.Provider value={() => <span>Table content</span>}>
+        <table>
+          <tbody>
+            <tr>
+              <Cell
+                cellValue="custom"
+                hasResolved={true}
+                type="number"
+                renderCellContent={({ cell }) => <span>{`Column content: ${cell?.value}`}</span>}
+                {...rest}
+              />
+            </tr>
+          </tbody>
+        </table>
+      </RenderCellContentContext.Provider>
+    )
+    getByText('Column content: custom')
+  })
+
+  it('renders a skeleton placeholder until the cell resolves', () => {
+    const { getByRole, rerender } = render(
+      <table>
+        <tbody>
+          <tr>
+            <Cell hasResolved={false} {...rest} />
+          </tr>
+        </tbody>
+      </table>
+    )
+    const cell = getByRole('cell')
+    expect(cell.getAttribute('aria-busy')).toBe('true')
+    expect(cell.querySelector('[data-skeleton="true"]')).not.toBeNull()
+
+    rerender(
+      <table>
+        <tbody>
+          <tr>
+            <Cell cellValue="value" hasResolved={true} {...rest} />
+          </tr>
+        </tbody>
+      </table>
+    )
+    expect(cell.getAttribute('aria-busy')).toBe('false')
+    expect(cell.querySelector('[data-skeleton="true"]')).toBeNull()
+    expect(cell.textContent).toBe('value')
+  })
+
+  it('renders the error message if the cell has failed, and fetches it again on Enter or with the retry button', async () => {
+    const retryRow = vi.fn()
+    const { user, getByRole, getByTitle } = render(
+      <RetryRowContext.Provider value={retryRow}>
+        <table>
+          <tbody>
+            <tr>
+              <Cell hasResolved={false} error={new Error('Network error')} {...rest} ariaRowIndex={5} />
+            </tr>
+          </tbody>
+        </table>
+      </RetryRowContext.Provider>
+    )
+    const cell = getByRole('cell')
+    expect(cell.getAttribute('aria-busy')).toBe('false')
+    expect(cell.querySelector('[data-skeleton="true"]')).toBeNull()
+    expect(cell.textContent).toBe('Network error')
+    expect(cell.getAttribute('title')).toBe('Network error')
+
+    await user.click(getByTitle('Retry (Enter)'))
+    expect(retryRow).toHaveBeenCalledExactlyOnceWith({ row: 5 - ariaOffset, column: 'name' })
+
+    cell.focus()
+    await user.keyboard('{Enter}')
+    expect(retryRow).toHaveBeenCalledTimes(2)
+  })
+
   it('copies the cell content to clipboard on copy event', async () => {
     const { getByText } = render(
       <StringifyContext.Provider value={stringify}>
@@ -94,4 +225,97 @@ describe('Cell', () => {
     expect(text).toBe('123')
     // Note that the text is not copied if a selection exists. But I don't know how to test that yet.
   })
+
+  describe('full value viewer', () => {
+    function renderInContainer(value: unknown, { onCopyError, format }: { onCopyError?: (error: unknown) => void, format?: ColumnFormat } = {}) {
+      const container = document.createElement('div')
+      document.body.appendChild(container)
+      return render(
+        <PortalContainerContext.Provider value={container}>
+          <ClipboardContext.Provider value={{ onCopyError }}>
+            <StringifyContext.Provider value={stringify}>
+              <table>
+                <tbody>
+                  <tr>
+                    <Cell
+                      cellValue={value}
+                      hasResolved={true}
+                      format={format}
+                      {...rest}
+                    />
+                  </tr>
+                </tbody>
+              </table>
+            </StringifyContext.Provider>
+          </ClipboardContext.Provider>
+        </PortalContainerContext.Provider>
+      )
+    }
+
+    it('opens with Ctrl+Enter, pretty-prints the JSON strings, and closes with Escape', async () => {
+      const { user, getByRole, queryByRole } = renderInContainer('{"a":1,"b":[true]}')
+      const cell = getByRole('cell')
+      cell.focus()
+      await user.keyboard('{Control>}{Enter}{/Control}')
+
+      const dialog = getByRole('dialog', { name: 'name' })
+      expect(dialog.querySelector('pre')?.textContent).toBe('{\n  "a": 1,\n  "b": [\n    true\n  ]\n}')
+      await waitFor(() => {
+        expect(document.activeElement).toBe(within(dialog).getByRole('button', { name: 'Copy' }))
+      })
+
+      await user.keyboard('{Escape}')
+      expect(queryByRole('dialog')).toBeNull()
+      expect(document.activeElement).toBe(cell)
+    })
+
+    it('opens with the button shown on hover, and copies the value', async () => {
+      const { user, getByRole, queryByRole } = renderInContainer('not JSON')
+      const cell = getByRole('cell')
+      // the button is hidden from the assistive technologies, and has no text
+      expect(cell.textContent).toBe('"not JSON"')
+      const button = cell.querySelector('button')
+      if (!button) {
+        throw new Error('The button should exist')
+      }
+      await user.click(button)
+
+      const dialog = getByRole('dialog', { name: 'name' })
+      expect(dialog.querySelector('pre')?.textContent).toBe('"not JSON"')
+      await user.click(within(dialog).getByRole('button', { name: 'Copy' }))
+      expect(await navigator.clipboard.readText()).toBe('"not JSON"')
+      expect(within(dialog).getByRole('button', { name: 'Copied' })).toBeDefined()
+
+      await user.click(within(dialog).getByRole('button', { name: 'Close the viewer' }))
+      expect(queryByRole('dialog')).toBeNull()
+    })
+
+    it('formats the value with the formatting options of the column', async () => {
+      const { user, getByRole } = renderInContainer(1234.5, { format: { number: { style: 'currency', currency: 'EUR' } } })
+      const cell = getByRole('cell')
+      cell.focus()
+      await user.keyboard('{Control>}{Enter}{/Control}')
+
+      const dialog = getByRole('dialog', { name: 'name' })
+      expect(dialog.querySelector('pre')?.textContent).toBe('€1,234.50')
+    })
+
+    it('passes the error to onCopyError if the value cannot be copied', async () => {
+      const onCopyError = vi.fn()
+      const { user, getByRole } = renderInContainer('value', { onCopyError })
+      const error = new DOMException('Write permission denied.', 'NotAllowedError')
+      const writeText = vi.spyOn(navigator.clipboard, 'writeText').mockRejectedValue(error)
+      const cell = getByRole('cell')
+      cell.focus()
+      await user.keyboard('{Control>}{Enter}{/Control}')
+
+      const dialog = getByRole('dialog', { name: 'name' })
+      await user.click(within(dialog).getByRole('button', { name: 'Copy' }))
+      await waitFor(() => {
+        expect(onCopyError).toHaveBeenCalledWith(error)
+      })
+      expect(within(dialog).queryByRole('button', { name: 'Copied' })).toBeNull()
+      writeText.mockRestore()
+    })
+  })
 })
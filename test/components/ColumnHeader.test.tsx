@@ -3,7 +3,9 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 import ColumnHeader from '../../src/components/ColumnHeader.js'
 import { ColumnNamesContext } from '../../src/contexts/DataContext.js'
+import { FiltersContext } from '../../src/contexts/FiltersContext.js'
 import { SortInfoAndActionsByColumnContext } from '../../src/contexts/OrderByContext.js'
+import { PortalContainerContext } from '../../src/contexts/PortalContainerContext.js'
 import { getOffsetWidth } from '../../src/helpers/width.js'
 import { ColumnParametersProvider } from '../../src/providers/ColumnParametersProvider.js'
 import { ColumnWidthsProvider } from '../../src/providers/ColumnWidthsProvider.js'
@@ -341,4 +343,47 @@ describe('ColumnHeader', () => {
     expect(text).toBe('test')
     // Note that the text is not copied if a selection exists. But I don't know how to test that yet.
   })
+
+  it('shows a filter indicator when the column is filtered', () => {
+    const { getByRole, queryByRole, rerender } = render(
+      <FiltersContext.Provider value={{ filters: { other: { type: 'isNull' } } }}>
+        <table><thead><tr><ColumnHeader columnName="test" {...defaultProps} /></tr></thead></table>
+      </FiltersContext.Provider>
+    )
+    expect(getByRole('columnheader').getAttribute('data-filtered')).toBeNull()
+    expect(queryByRole('img', { name: 'The column test is filtered' })).toBeNull()
+
+    rerender(
+      <FiltersContext.Provider value={{ filters: { test: { type: 'isNull' } } }}>
+        <table><thead><tr><ColumnHeader columnName="test" {...defaultProps} /></tr></thead></table>
+      </FiltersContext.Provider>
+    )
+    expect(getByRole('columnheader').getAttribute('data-filtered')).toBe('true')
+    expect(getByRole('img', { name: 'The column test is filtered' })).toBeDefined()
+  })
+
+  it('shows a column menu with a filter section if filterTypes is configured and the filters can be changed', async () => {
+    const setColumnFilter = vi.fn()
+    const columnConfig = { filterTypes: ['contains' as const] }
+    const portalContainer = document.body.appendChild(document.createElement('div'))
+    const { user, getByRole, queryByRole, rerender } = render(
+      <FiltersContext.Provider value={{ filters: {} }}>
+        <table><thead><tr><ColumnHeader columnName="test" {...defaultProps} columnConfig={columnConfig} /></tr></thead></table>
+      </FiltersContext.Provider>
+    )
+    // read-only filters: no menu
+    expect(queryByRole('button', { name: 'Column menu for test' })).toBeNull()
+
+    rerender(
+      <PortalContainerContext.Provider value={portalContainer}>
+        <FiltersContext.Provider value={{ filters: {}, setColumnFilter }}>
+          <table><thead><tr><ColumnHeader columnName="test" {...defaultProps} columnConfig={columnConfig} /></tr></thead></table>
+        </FiltersContext.Provider>
+      </PortalContainerContext.Provider>
+    )
+    await user.click(getByRole('button', { name: 'Column menu for test' }))
+    await user.type(getByRole('textbox', { name: 'Filter value' }), 'abc{Enter}')
+    expect(setColumnFilter).toHaveBeenCalledWith('test', { type: 'contains', value: 'abc' })
+    portalContainer.remove()
+  })
 })
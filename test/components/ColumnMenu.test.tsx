@@ -158,6 +158,106 @@ describe('ColumnMenu', () => {
     })
   })
 
+  describe('Pinning', () => {
+    it('renders the pin column option when pinColumn is provided', () => {
+      const pinColumn = vi.fn()
+      const { getByText, queryByText } = render(
+        <ColumnMenu {...defaultProps} pinColumn={pinColumn} />
+      )
+      getByText('Pin column').click()
+      expect(pinColumn).toHaveBeenCalled()
+      expect(queryByText('Unpin column')).toBeNull()
+    })
+    it('renders the unpin column option when unpinColumn is provided', () => {
+      const unpinColumn = vi.fn()
+      const { getByText, queryByText } = render(
+        <ColumnMenu {...defaultProps} unpinColumn={unpinColumn} />
+      )
+      getByText('Unpin column').click()
+      expect(unpinColumn).toHaveBeenCalled()
+      expect(queryByText('Pin column')).toBeNull()
+    })
+    it('does not render the pinning options when none is provided', () => {
+      const { queryByText } = render(<ColumnMenu {...defaultProps} />)
+      expect(queryByText('Pin column')).toBeNull()
+      expect(queryByText('Unpin column')).toBeNull()
+    })
+  })
+
+  describe('Filter section', () => {
+    it('does not render the filter section when filterTypes is not provided', () => {
+      const { queryByRole } = render(
+        <ColumnMenu {...defaultProps} setFilter={vi.fn()} />
+      )
+      expect(queryByRole('combobox', { name: 'Filter type' })).toBeNull()
+    })
+
+    it('does not render the filter section when setFilter is not provided', () => {
+      const { queryByRole } = render(
+        <ColumnMenu {...defaultProps} filterTypes={['contains']} />
+      )
+      expect(queryByRole('combobox', { name: 'Filter type' })).toBeNull()
+    })
+
+    it('renders the filter types in order', () => {
+      const { getByRole } = render(
+        <ColumnMenu {...defaultProps} filterTypes={['equals', 'isNull', 'range']} setFilter={vi.fn()} />
+      )
+      const select = getByRole('combobox', { name: 'Filter type' })
+      expect([...select.querySelectorAll('option')].map(option => option.textContent)).toEqual(['Equals', 'Is null', 'Between'])
+    })
+
+    it('applies a text filter on Enter, and closes the menu', async () => {
+      const setFilter = vi.fn()
+      const { user, getByRole } = render(
+        <ColumnMenu {...defaultProps} filterTypes={['contains']} setFilter={setFilter} />
+      )
+      await user.type(getByRole('textbox', { name: 'Filter value' }), 'abc{Enter}')
+      expect(setFilter).toHaveBeenCalledWith({ type: 'contains', value: 'abc' })
+      expect(defaultProps.close).toHaveBeenCalled()
+    })
+
+    it('applies a range filter with the Apply filter item', async () => {
+      const setFilter = vi.fn()
+      const { user, getByRole } = render(
+        <ColumnMenu {...defaultProps} filterTypes={['contains', 'range']} setFilter={setFilter} />
+      )
+      await user.selectOptions(getByRole('combobox', { name: 'Filter type' }), 'range')
+      await user.type(getByRole('spinbutton', { name: 'Minimum value' }), '10')
+      await user.click(getByRole('menuitem', { name: 'Apply filter' }))
+      expect(setFilter).toHaveBeenCalledWith({ type: 'range', min: 10, max: undefined })
+    })
+
+    it('applies a list of values, one per line', async () => {
+      const setFilter = vi.fn()
+      const { user, getByRole } = render(
+        <ColumnMenu {...defaultProps} filterTypes={['in']} setFilter={setFilter} />
+      )
+      await user.type(getByRole('textbox', { name: 'Filter values, one per line' }), 'a{Enter}b{Enter}')
+      await user.click(getByRole('menuitem', { name: 'Apply filter' }))
+      expect(setFilter).toHaveBeenCalledWith({ type: 'in', values: ['a', 'b'] })
+    })
+
+    it('is initialized with the current filter, and can clear it', async () => {
+      const setFilter = vi.fn()
+      const { user, getByRole } = render(
+        <ColumnMenu {...defaultProps} filterTypes={['contains', 'equals']} filter={{ type: 'equals', value: 'abc' }} setFilter={setFilter} />
+      )
+      expect(getByRole('combobox', { name: 'Filter type' })).toHaveProperty('value', 'equals')
+      expect(getByRole('textbox', { name: 'Filter value' })).toHaveProperty('value', 'abc')
+      await user.click(getByRole('menuitem', { name: 'Clear filter' }))
+      expect(setFilter).toHaveBeenCalledWith(undefined)
+      expect(defaultProps.close).toHaveBeenCalled()
+    })
+
+    it('disables the Clear filter item if the column is not filtered', () => {
+      const { getByRole } = render(
+        <ColumnMenu {...defaultProps} filterTypes={['isNull']} setFilter={vi.fn()} />
+      )
+      expect(getByRole('menuitem', { name: 'Clear filter' }).getAttribute('aria-disabled')).toBe('true')
+    })
+  })
+
   describe('MenuItem component', () => {
     it('renders with correct ARIA attributes', () => {
       const { getByRole } = render(
@@ -1,22 +1,28 @@
 import { act, fireEvent, waitFor, within } from '@testing-library/react'
+import { createRef } from 'react'
 import type { Mock } from 'vitest'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 import HighTable from '../../src/components/HighTable.js'
-import { defaultOverscan, defaultPadding } from '../../src/helpers/constants.js'
+import { defaultOverscan, defaultPadding, viewStateSuffix } from '../../src/helpers/constants.js'
 import { createGetRowNumber, validateFetchParams, validateGetCellParams, validateGetRowNumberParams } from '../../src/helpers/dataframe/helpers.js'
 import type { DataFrame, DataFrameEvents, Fetch } from '../../src/helpers/dataframe/index.js'
-import { arrayDataFrame } from '../../src/helpers/dataframe/index.js'
+import { arrayDataFrame, cachedDataFrame } from '../../src/helpers/dataframe/index.js'
 import { sortableDataFrame } from '../../src/helpers/dataframe/sort.js'
 import type { Obj } from '../../src/helpers/dataframe/types.js'
 import type { OrderBy } from '../../src/helpers/sort.js'
 import { createEventTarget } from '../../src/helpers/typedEventTarget.js'
+import type { HighTableHandle } from '../../src/types.js'
 import { render } from '../../src/utils/userEvent.js'
 
 Element.prototype.scrollIntoView = vi.fn()
 
 const visibleRows = 4 // 100px height / 33px row height
 
+function getHeaderNames(getAllByRole: (role: string) => HTMLElement[]) {
+  return getAllByRole('columnheader').map(header => header.getAttribute('aria-label'))
+}
+
 export const dataColumnDescriptors = ['ID', 'Count', 'Double', 'Triple'].map(name => ({
   name,
   metadata: { type: 'test' }, // This metadata has no purpose other than testing the types
@@ -191,7 +197,7 @@ describe('HighTable', () => {
 
     await waitFor(() => {
       expect(mockData.getCell).toHaveBeenCalled()
-      expect(mockOnError).toHaveBeenCalledWith(expect.any(Error))
+      expect(mockOnError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ rowStart: 0, attempt: 1 }))
     })
     // Clear pending state on error (TODO: restore the pending state and show it in the UI):
     expect(container.querySelector('div.pending')).toBeNull()
@@ -277,7 +283,10 @@ describe('with async data, HighTable', () => {
     const { getByText } = render(<HighTable data={asyncData} />)
     await waitFor(() => {
       getByText('ID')
-      expect(asyncData.fetch).toHaveBeenCalledExactlyOnceWith({ rowStart: 0, rowEnd: visibleRows + defaultOverscan - 1, columns: ['ID', 'Name', 'Age'], orderBy: [], signal: expect.any(AbortSignal) })
+      // the visible rows, then the overscan rows
+      expect(asyncData.fetch).toHaveBeenCalledTimes(2)
+      expect(asyncData.fetch).toHaveBeenNthCalledWith(1, { rowStart: 0, rowEnd: visibleRows - 1, columns: ['ID', 'Name', 'Age'], orderBy: [], signal: expect.any(AbortSignal) })
+      expect(asyncData.fetch).toHaveBeenNthCalledWith(2, { rowStart: visibleRows - 1, rowEnd: visibleRows + defaultOverscan - 1, columns: ['ID', 'Name', 'Age'], orderBy: [], signal: expect.any(AbortSignal) })
       expect(asyncData.getCell).toHaveBeenCalledWith({ row: 0, column: 'ID', orderBy: [] })
       // the rendered rows include the visible rows and the padding
       expect(asyncData.getCell).toHaveBeenCalledWith({ row: visibleRows + defaultPadding - 2, column: 'Age', orderBy: [] })
@@ -291,7 +300,10 @@ describe('with async data, HighTable', () => {
     const { getByText } = render(<HighTable data={asyncData} padding={padding} />)
     await waitFor(() => {
       getByText('ID')
-      expect(asyncData.fetch).toHaveBeenCalledExactlyOnceWith({ rowStart: 0, rowEnd: visibleRows + defaultOverscan - 1, columns: ['ID', 'Name', 'Age'], orderBy: [], signal: expect.any(AbortSignal) })
+      // the visible rows, then the overscan rows
+      expect(asyncData.fetch).toHaveBeenCalledTimes(2)
+      expect(asyncData.fetch).toHaveBeenNthCalledWith(1, { rowStart: 0, rowEnd: visibleRows - 1, columns: ['ID', 'Name', 'Age'], orderBy: [], signal: expect.any(AbortSignal) })
+      expect(asyncData.fetch).toHaveBeenNthCalledWith(2, { rowStart: visibleRows - 1, rowEnd: visibleRows + defaultOverscan - 1, columns: ['ID', 'Name', 'Age'], orderBy: [], signal: expect.any(AbortSignal) })
       expect(asyncData.getCell).toHaveBeenCalledWith({ row: visibleRows + padding - 2, column: 'Age', orderBy: [] })
       expect(asyncData.getCell).not.toHaveBeenCalledWith({ row: visibleRows + padding - 1, column: 'Age', orderBy: [] })
     })
@@ -303,7 +315,10 @@ describe('with async data, HighTable', () => {
     const { getByText } = render(<HighTable data={asyncData} overscan={overscan} />)
     await waitFor(() => {
       getByText('ID')
-      expect(asyncData.fetch).toHaveBeenCalledExactlyOnceWith({ rowStart: 0, rowEnd: visibleRows + overscan - 1, columns: ['ID', 'Name', 'Age'], orderBy: [], signal: expect.any(AbortSignal) })
+      // the visible rows, then the overscan rows
+      expect(asyncData.fetch).toHaveBeenCalledTimes(2)
+      expect(asyncData.fetch).toHaveBeenNthCalledWith(1, { rowStart: 0, rowEnd: visibleRows - 1, columns: ['ID', 'Name', 'Age'], orderBy: [], signal: expect.any(AbortSignal) })
+      expect(asyncData.fetch).toHaveBeenNthCalledWith(2, { rowStart: visibleRows - 1, rowEnd: visibleRows + overscan - 1, columns: ['ID', 'Name', 'Age'], orderBy: [], signal: expect.any(AbortSignal) })
       expect(asyncData.getCell).toHaveBeenCalledWith({ row: visibleRows + defaultPadding - 2, column: 'Age', orderBy: [] })
       expect(asyncData.getCell).not.toHaveBeenCalledWith({ row: visibleRows + defaultPadding - 1, column: 'Age', orderBy: [] })
     })
@@ -318,6 +333,93 @@ describe('with async data, HighTable', () => {
     await findByRole('cell', { name: 'async 0' })
   })
 
+  it('shows a progress bar and calls onLoadingChange while the rendered cells are loading', async () => {
+    const onLoadingChange = vi.fn()
+    const asyncData = createAsyncDataFrame()
+    const { findByRole, queryByRole } = render(<HighTable data={asyncData} onLoadingChange={onLoadingChange} />)
+
+    const progressBar = await findByRole('progressbar', { name: 'Loading the cells' })
+    expect(progressBar.getAttribute('aria-valuenow')).toBe('0')
+    expect(onLoadingChange).toHaveBeenCalledExactlyOnceWith(true)
+
+    await findByRole('cell', { name: 'async 0' })
+    await waitFor(() => {
+      expect(queryByRole('progressbar')).toBeNull()
+    })
+    expect(onLoadingChange).toHaveBeenCalledTimes(2)
+    expect(onLoadingChange).toHaveBeenLastCalledWith(false)
+  })
+
+  it('shows the error of the failed cells, and fetches them again with the retry button', async () => {
+    const fetchRows = vi.fn(({ rowStart, rowEnd }: { rowStart: number, rowEnd: number }) => {
+      return Promise.resolve(Array.from({ length: rowEnd - rowStart }, (_, i) => ({ ID: `row ${rowStart + i}` })))
+    })
+    fetchRows.mockRejectedValueOnce(new Error('Network error'))
+    const onError = vi.fn()
+    const onLoadingChange = vi.fn()
+    const data = cachedDataFrame(fetchRows, { numRows: 5, columnDescriptors: [{ name: 'ID' }] })
+    const { user, findAllByRole, findByRole, queryByRole } = render(<HighTable data={data} fetchRetry={{ maxRetries: 0 }} onError={onError} onLoadingChange={onLoadingChange} />)
+
+    const cells = await findAllByRole('cell', { name: 'Network error' })
+    expect(cells).toHaveLength(5)
+    expect(onError).toHaveBeenCalledWith(new Error('Network error'), expect.objectContaining({ attempt: 1 }))
+    // the failed cells are not loading anymore
+    expect(queryByRole('progressbar')).toBeNull()
+    expect(onLoadingChange).toHaveBeenLastCalledWith(false)
+
+    const retryButton = cells[0]?.querySelector('button')
+    if (!retryButton) {
+      throw new Error('The retry button should exist')
+    }
+    await user.click(retryButton)
+    await findByRole('cell', { name: 'row 0' })
+    expect(fetchRows).toHaveBeenCalledTimes(2)
+    expect(queryByRole('cell', { name: 'Network error' })).toBeNull()
+  })
+
+  it('retries the failed fetches automatically, and passes the context of the fetch to onError', async () => {
+    const fetch = vi.fn(() => Promise.resolve())
+    fetch.mockRejectedValueOnce(new Error('Network error'))
+    const onError = vi.fn()
+    render(<HighTable data={{ ...createData(), fetch }} fetchRetry={{ initialDelayMs: 10 }} onError={onError} />)
+
+    // the visible rows, the overscan rows, then the retry of the visible rows
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledTimes(3)
+    })
+    expect(onError).toHaveBeenCalledOnce()
+    expect(onError).toHaveBeenCalledWith(new Error('Network error'), {
+      rowStart: 0,
+      rowEnd: 3,
+      columns: ['ID', 'Count', 'Double', 'Triple'],
+      orderBy: [],
+      attempt: 1,
+    })
+    expect(fetch).toHaveBeenLastCalledWith(expect.objectContaining({ rowStart: 0, rowEnd: 3 }))
+  })
+
+  it('fetches the failed ranges again with the retryFailed action of the ref', async () => {
+    const fetch = vi.fn(() => Promise.resolve())
+    fetch.mockRejectedValueOnce(new Error('Network error'))
+    const onError = vi.fn()
+    const ref = createRef<HighTableHandle>()
+    render(<HighTable data={{ ...createData(), fetch }} fetchRetry={{ maxRetries: 0 }} onError={onError} ref={ref} />)
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledOnce()
+    })
+    // the failed visible rows are not retried automatically
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    act(() => {
+      ref.current?.retryFailed()
+    })
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(fetch).toHaveBeenLastCalledWith(expect.objectContaining({ rowStart: 0, rowEnd: 3 }))
+  })
+
   it('handles scroll to load more rows', async () => {
     vi.useFakeTimers()
 
@@ -342,9 +444,9 @@ describe('with async data, HighTable', () => {
       fireEvent.scroll(scrollDiv, { target: { scrollTop: 500 } })
     })
 
-    // Wait for fetch after scroll
+    // Wait for the fetches after scroll: the visible and overscan rows below, then the overscan rows above and the predicted rows
     await act(async () => {
-      await vi.advanceTimersByTimeAsync(ms)
+      await vi.advanceTimersByTimeAsync(2 * ms)
     })
 
     expect(asyncData.getCell).toHaveBeenCalledWith({ row: visibleRows + defaultPadding, column: 'Age', orderBy: [] })
@@ -357,9 +459,9 @@ describe('with async data, HighTable', () => {
       fireEvent.scroll(scrollDiv, { target: { scrollTop: 1500 } })
     })
 
-    // Wait for fetch after scroll
+    // Wait for the fetches after scroll: the visible and overscan rows below, then the overscan rows above and the predicted rows
     await act(async () => {
-      await vi.advanceTimersByTimeAsync(ms)
+      await vi.advanceTimersByTimeAsync(2 * ms)
     })
 
     expect(asyncData.getCell).toHaveBeenCalledWith({ row: 50, column: 'Age', orderBy: [] })
@@ -377,8 +479,9 @@ describe('with async data, HighTable', () => {
     const { getByLabelText, queryByRole } = render(<HighTable className="myclass" data={asyncData} />)
     const scrollDiv = getByLabelText('Virtual-scroll table')
     const idx1 = 0
-    const idx2 = 23
-    const idx3 = 50
+    const idx2 = 30 // visible after the first scroll
+    const idx3 = 60 // visible after the second scroll
+    const idx4 = 45 // overscan below the first scroll, and above the second scroll
 
     // Wait for initial fetch to complete by advancing timers
     await act(async () => {
@@ -397,7 +500,7 @@ describe('with async data, HighTable', () => {
     act(() => {
       // not using userEvent because it doesn't support scroll events
       // https://github.com/testing-library/user-event/issues/475
-      fireEvent.scroll(scrollDiv, { target: { scrollTop: 500 } })
+      fireEvent.scroll(scrollDiv, { target: { scrollTop: 1000 } })
     })
 
     // Verify scroll triggered the getCell call for idx2
@@ -408,15 +511,16 @@ describe('with async data, HighTable', () => {
     expect(asyncData._forTests.asyncDataFetched[idx1]).toBe(true) // fetched
     expect(asyncData._forTests.asyncDataFetched[idx2]).toBe(false) // not fetched
     expect(asyncData._forTests.asyncDataFetched[idx3]).toBe(false) // not fetched
+    expect(asyncData._forTests.asyncDataFetched[idx4]).toBe(false) // not fetched
 
     // Advance time by half to simulate being in the middle of the fetch
     await act(async () => {
       await vi.advanceTimersByTimeAsync(ms / 2)
     })
 
-    // Scroll again before the second fetch completes (should abort the previous fetch)
+    // Scroll again before the second fetch completes (should abort the previous fetch, but not the overscan rows that are still useful)
     act(() => {
-      fireEvent.scroll(scrollDiv, { target: { scrollTop: 1500 } })
+      fireEvent.scroll(scrollDiv, { target: { scrollTop: 2000 } })
     })
 
     // Verify scroll triggered the getCell call for idx3
@@ -435,6 +539,41 @@ describe('with async data, HighTable', () => {
     expect(asyncData._forTests.asyncDataFetched[idx1]).toBe(true) // fetched
     expect(asyncData._forTests.asyncDataFetched[idx2]).toBe(false) // not fetched (aborted)
     expect(asyncData._forTests.asyncDataFetched[idx3]).toBe(true) // fetched
+    expect(asyncData._forTests.asyncDataFetched[idx4]).toBe(true) // fetched (not aborted)
+  })
+
+  it('skips the intermediate ranges during large scrolls, and fetches the rows once the scroll settles', async () => {
+    vi.useFakeTimers()
+
+    const ms = 10
+    const asyncData = createAsyncDataFrame({ ms })
+    const { getByLabelText, queryByRole } = render(<HighTable className="myclass" data={asyncData} />)
+    const scrollDiv = getByLabelText('Virtual-scroll table')
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(ms)
+    })
+    vi.clearAllMocks()
+
+    // drag the scrollbar: more than 500 rows at every scroll event
+    act(() => {
+      fireEvent.scroll(scrollDiv, { target: { scrollTop: 20_000 } })
+    })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(ms)
+    })
+    act(() => {
+      fireEvent.scroll(scrollDiv, { target: { scrollTop: 1_000 } })
+    })
+    expect(asyncData.fetch).not.toHaveBeenCalled()
+
+    // the scroll settles
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(100 + ms)
+    })
+    expect(asyncData.fetch).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 29, rowEnd: 33 }))
+    // the rows around 20,000px (row 605) are not fetched
+    expect(asyncData._forTests.asyncDataFetched.slice(500)).not.toContain(true)
+    expect(queryByRole('cell', { name: 'async 30' })).not.toBeNull()
   })
 })
 
@@ -547,6 +686,995 @@ vi.mock(import('../../src/helpers/width.js'), async (importOriginal) => {
     getOffsetWidth: () => getOffsetWidth(),
   }
 })
+describe('When filtered, HighTable', () => {
+  it('only shows the rows matching the filters, with their original row numbers', async () => {
+    // Count = 1000 - row: the rows 995 to 999 have a Count <= 5
+    const { findByRole, getByRole } = render(
+      <HighTable data={sortableDataFrame(createData())} filters={{ Count: { type: 'range', max: 5 } }} />
+    )
+
+    await findByRole('cell', { name: 'row 995' })
+    expect(getByRole('grid').getAttribute('aria-rowcount')).toBe('6') // +1 for the header row
+    const tbody = within(getByRole('grid')).getAllByRole('rowgroup')[1]
+    const rows = tbody ? within(tbody).getAllByRole('row') : []
+    expect(rows).toHaveLength(5)
+    expect(rows[0] && within(rows[0]).getByRole('rowheader').textContent).toBe('996')
+    expect(getByRole('columnheader', { name: 'Count' }).getAttribute('data-filtered')).toBe('true')
+  })
+
+  it('filters the rows from the column menu, and notifies the parent', async () => {
+    const onFiltersChange = vi.fn()
+    const { user, findByRole, getByRole } = render(
+      <HighTable
+        data={createData()}
+        columnConfiguration={{ ID: { filterTypes: ['equals'] } }}
+        onFiltersChange={onFiltersChange}
+      />
+    )
+    await findByRole('cell', { name: 'row 0' })
+
+    await user.click(getByRole('button', { name: 'Column menu for ID' }))
+    await user.type(getByRole('textbox', { name: 'Filter value' }), 'row 42{Enter}')
+
+    expect(onFiltersChange).toHaveBeenCalledWith({ ID: { type: 'equals', value: 'row 42' } })
+    await findByRole('cell', { name: 'row 42' })
+    expect(getByRole('grid').getAttribute('aria-rowcount')).toBe('2') // +1 for the header row
+  })
+})
+
+describe('With cell selection, HighTable', () => {
+  it('extends the cell selection from the current cell with Shift+Arrow keys', async () => {
+    const onCellSelectionChange = vi.fn()
+    const { user, findByRole, getByRole } = render(<HighTable data={createData()} onCellSelectionChange={onCellSelectionChange} />)
+    const cell = await findByRole('cell', { name: 'row 0' })
+
+    await user.click(cell)
+    await user.keyboard('{Shift>}{ArrowRight}{ArrowDown}{/Shift}')
+
+    expect(onCellSelectionChange).toHaveBeenLastCalledWith({ range: { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 3, rowIndex: 3 } } })
+    expect(getByRole('cell', { name: 'row 1' }).getAttribute('aria-selected')).toBe('true')
+    expect(getByRole('cell', { name: '999' }).getAttribute('aria-selected')).toBe('true')
+    expect(getByRole('cell', { name: '1,998' }).getAttribute('aria-selected')).toBe('false')
+    expect(document.activeElement).toBe(getByRole('cell', { name: '999' }))
+
+    await user.keyboard('{Escape}')
+    expect(getByRole('cell', { name: '999' }).getAttribute('aria-selected')).toBe('false')
+  })
+
+  it('selects a range of cells by dragging the mouse', async () => {
+    const { findByRole, getByRole } = render(<HighTable data={createData()} onCellSelectionChange={vi.fn()} />)
+    const cell = await findByRole('cell', { name: '1,000' })
+
+    fireEvent.mouseDown(cell, { button: 0, buttons: 1 })
+    fireEvent.mouseEnter(getByRole('cell', { name: '2,997' }), { buttons: 1 })
+    fireEvent.mouseUp(window)
+
+    expect(getByRole('cell', { name: '1,998' }).getAttribute('aria-selected')).toBe('true')
+    expect(getByRole('cell', { name: 'row 0' }).getAttribute('aria-selected')).toBe('false')
+  })
+
+  it('does not set aria-selected on the cells if the cell selection is disabled', async () => {
+    const { findByRole } = render(<HighTable data={createData()} />)
+    const cell = await findByRole('cell', { name: 'row 0' })
+    expect(cell.getAttribute('aria-selected')).toBeNull()
+  })
+})
+
+describe('When copying, HighTable', () => {
+  it('copies the selected range of cells as tab-separated values', async () => {
+    const { findByRole } = render(
+      <HighTable
+        data={createData()}
+        cellSelection={{ range: { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 3, rowIndex: 3 } } }}
+      />
+    )
+    const cell = await findByRole('cell', { name: 'row 0' })
+
+    act(() => {
+      fireEvent.copy(cell)
+    })
+
+    await waitFor(async () => {
+      await expect(navigator.clipboard.readText()).resolves.toBe('ID\tCount\nrow 0\t1,000\nrow 1\t999')
+    })
+  })
+
+  it('copies the selected rows, in the current order, with all the visible columns', async () => {
+    const { findByRole } = render(
+      <HighTable
+        data={sortableDataFrame(createData())}
+        orderBy={[{ column: 'Count', direction: 'ascending' }]}
+        columnsVisibility={{ Double: { hidden: true }, Triple: { hidden: true } }}
+        selection={{ ranges: [{ start: 998, end: 1000 }] }}
+      />
+    )
+    const cell = await findByRole('cell', { name: 'row 999' })
+
+    act(() => {
+      fireEvent.copy(cell)
+    })
+
+    await waitFor(async () => {
+      await expect(navigator.clipboard.readText()).resolves.toBe('ID\tCount\nrow 999\t1\nrow 998\t2')
+    })
+  })
+
+  it('passes the error to onError if the clipboard cannot be written', async () => {
+    const onError = vi.fn()
+    const { findByRole } = render(
+      <HighTable
+        data={createData()}
+        cellSelection={{ range: { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 3, rowIndex: 3 } } }}
+        onError={onError}
+      />
+    )
+    const cell = await findByRole('cell', { name: 'row 0' })
+    const error = new DOMException('Write permission denied.', 'NotAllowedError')
+    vi.spyOn(navigator.clipboard, 'writeText').mockRejectedValue(error)
+
+    act(() => {
+      fireEvent.copy(cell)
+    })
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith(error)
+    })
+    vi.restoreAllMocks()
+  })
+
+  it('passes the error to onError only once if the cells cannot be fetched', async () => {
+    const onError = vi.fn()
+    const fetch = vi.fn<Fetch>().mockResolvedValue(undefined)
+    const { findByRole } = render(
+      <HighTable
+        data={{ ...createData(), fetch }}
+        cellSelection={{ range: { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 3, rowIndex: 3 } } }}
+        fetchRetry={{ maxRetries: 0 }}
+        onError={onError}
+      />
+    )
+    const cell = await findByRole('cell', { name: 'row 0' })
+    const error = new Error('fetch failed')
+    fetch.mockRejectedValue(error)
+
+    act(() => {
+      fireEvent.copy(cell)
+    })
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith(error)
+    })
+    // let the other handlers, if any, run
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(onError).toHaveBeenCalledOnce()
+  })
+
+  it('copies only the focused cell if nothing is selected', async () => {
+    const { findByRole } = render(<HighTable data={createData()} onCellSelectionChange={vi.fn()} />)
+    const cell = await findByRole('cell', { name: 'row 0' })
+
+    act(() => {
+      fireEvent.copy(cell)
+    })
+
+    await expect(navigator.clipboard.readText()).resolves.toBe('row 0')
+  })
+
+  it('shows a pending state while the cells are fetched, and cancels the copy with Escape', async () => {
+    const onError = vi.fn()
+    const data = createData()
+    const fetch = vi.fn(({ signal }: { signal?: AbortSignal }) => new Promise<void>((_, reject) => {
+      signal?.addEventListener('abort', () => {
+        reject(new DOMException('The operation was aborted.', 'AbortError'))
+      })
+    }))
+    const range = { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 2, rowIndex: 3 } }
+    const onCellSelectionChange = vi.fn()
+    const { user, findByRole, getByRole } = render(
+      <HighTable data={{ ...data, fetch }} cellSelection={{ range }} onCellSelectionChange={onCellSelectionChange} onError={onError} />
+    )
+    const cell = await findByRole('cell', { name: 'row 0' })
+    act(() => {
+      cell.focus()
+    })
+
+    act(() => {
+      fireEvent.copy(cell)
+    })
+    expect(getByRole('grid').getAttribute('aria-busy')).toBe('true')
+
+    await user.keyboard('{Escape}')
+    expect(getByRole('grid').getAttribute('aria-busy')).toBe('false')
+    // the cell selection is kept
+    expect(onCellSelectionChange).not.toHaveBeenCalled()
+    expect(onError).not.toHaveBeenCalled()
+  })
+})
+
+describe('When reordering the columns, HighTable', () => {
+  it('moves the focused column with Alt+Shift+Arrow keys, and notifies the parent', async () => {
+    const onColumnOrderChange = vi.fn()
+    const { user, findByRole, getAllByRole } = render(<HighTable data={createData()} onColumnOrderChange={onColumnOrderChange} />)
+    const header = await findByRole('columnheader', { name: 'ID' })
+
+    await user.click(header)
+    await user.keyboard('{Alt>}{Shift>}{ArrowRight}{/Shift}{/Alt}')
+
+    expect(onColumnOrderChange).toHaveBeenLastCalledWith(['Count', 'ID', 'Double', 'Triple'])
+    expect(getHeaderNames(getAllByRole)).toEqual(['Count', 'ID', 'Double', 'Triple'])
+    expect(document.activeElement).toBe(header)
+    expect(header.getAttribute('aria-colindex')).toBe('3')
+
+    await user.keyboard('{Alt>}{Shift>}{ArrowLeft}{ArrowLeft}{/Shift}{/Alt}')
+    expect(getHeaderNames(getAllByRole)).toEqual(['ID', 'Count', 'Double', 'Triple'])
+  })
+
+  it('moves a column by dragging its header onto another header', async () => {
+    const { findByRole, getAllByRole, getByRole } = render(<HighTable data={createData()} />)
+    const header = await findByRole('columnheader', { name: 'ID' })
+    expect(header.getAttribute('draggable')).toBe('true')
+
+    const store = new Map<string, string>()
+    const dataTransfer = {
+      get types() { return [...store.keys()] },
+      setData: (type: string, value: string) => { store.set(type, value) },
+      getData: (type: string) => store.get(type) ?? '',
+    }
+    const target = getByRole('columnheader', { name: 'Double' })
+    fireEvent.dragStart(header, { dataTransfer })
+    fireEvent.dragOver(target, { dataTransfer })
+    expect(target.getAttribute('data-drop-target')).toBe('true')
+    fireEvent.drop(target, { dataTransfer })
+
+    expect(target.getAttribute('data-drop-target')).toBeNull()
+    expect(getHeaderNames(getAllByRole)).toEqual(['Count', 'Double', 'ID', 'Triple'])
+    expect(getByRole('cell', { name: 'row 0' }).getAttribute('aria-colindex')).toBe('4')
+  })
+
+  it('does not move the columns if the column order is controlled and onColumnOrderChange is not passed', async () => {
+    const { user, findByRole, getAllByRole } = render(<HighTable data={createData()} columnOrder={['Triple']} />)
+    const header = await findByRole('columnheader', { name: 'Triple' })
+    expect(header.getAttribute('draggable')).toBeNull()
+
+    await user.click(header)
+    await user.keyboard('{Alt>}{Shift>}{ArrowRight}{/Shift}{/Alt}')
+    expect(getHeaderNames(getAllByRole)).toEqual(['Triple', 'ID', 'Count', 'Double'])
+  })
+
+  it('keeps the width of the moved columns', async () => {
+    localStorage.clear()
+    localStorage.setItem(keyItem, JSON.stringify([124, 63, 64, 65]))
+    const { findByRole, getAllByRole } = render(<HighTable data={createData()} cacheKey="key" columnOrder={['Count', 'ID']} />)
+    const [first, second] = getAllByRole('columnheader')
+    expect(first?.getAttribute('aria-label')).toBe('Count')
+    expect(first?.style.maxWidth).toBe('63px')
+    expect(second?.style.maxWidth).toBe('124px')
+    expect((await findByRole('cell', { name: '1,000' })).style.maxWidth).toBe('63px')
+    expect((await findByRole('cell', { name: 'row 0' })).style.maxWidth).toBe('124px')
+  })
+})
+
+describe('With pinned columns, HighTable', () => {
+  it('shows the pinned columns first, sticky beside the row headers', async () => {
+    const { findByRole, getAllByRole, getByRole } = render(
+      <HighTable data={createData()} columnConfiguration={{ Double: { pinned: 'left' }, Count: { pinned: 'left' } }} />
+    )
+    const cell = await findByRole('cell', { name: '1,000' })
+
+    expect(getHeaderNames(getAllByRole)).toEqual(['Count', 'Double', 'ID', 'Triple'])
+    expect(cell.getAttribute('data-pinned')).toBe('left')
+    expect(getByRole('cell', { name: 'row 0' }).getAttribute('data-pinned')).toBeNull()
+    const count = getByRole('columnheader', { name: 'Count' })
+    const double = getByRole('columnheader', { name: 'Double' })
+    expect(count.getAttribute('data-pinned')).toBe('left')
+    // the table corner has no width in jsdom, and the columns are measured with the mocked offsetWidth
+    await waitFor(() => {
+      expect(double.style.left).toBe(`${initialWidth + 1}px`)
+    })
+    expect(count.style.left).toBe('0px')
+    expect(cell.style.left).toBe('0px')
+    expect(getByRole('columnheader', { name: 'ID' }).style.left).toBe('')
+  })
+
+  it('pins and unpins the columns from the column menu', async () => {
+    const { user, findByRole, getAllByRole, getByRole } = render(
+      <HighTable data={createData()} columnConfiguration={{ Count: { pinned: 'left' } }} />
+    )
+    await findByRole('cell', { name: 'row 0' })
+
+    await user.click(getByRole('button', { name: 'Column menu for Triple' }))
+    await user.click(getByRole('menuitem', { name: 'Pin column' }))
+    expect(getHeaderNames(getAllByRole)).toEqual(['Count', 'Triple', 'ID', 'Double'])
+
+    await user.click(getByRole('button', { name: 'Column menu for Count' }))
+    await user.click(getByRole('menuitem', { name: 'Unpin column' }))
+    expect(getHeaderNames(getAllByRole)).toEqual(['Triple', 'ID', 'Count', 'Double'])
+    expect(getByRole('columnheader', { name: 'Count' }).getAttribute('data-pinned')).toBeNull()
+  })
+})
+
+describe('With aggregates, HighTable', () => {
+  function getFooterCells(getByRole: (role: string, options?: { name: string }) => HTMLElement, label: string) {
+    const row = getByRole('rowheader', { name: label }).closest('tr')
+    return Array.from(row?.querySelectorAll('td') ?? []).map(cell => cell.textContent)
+  }
+
+  it('shows a footer row per aggregate function', async () => {
+    const { findByRole, getByRole, getAllByRole } = render(<HighTable data={createData()} aggregates={['count', 'sum', 'max']} />)
+    await findByRole('rowheader', { name: 'sum' })
+    await waitFor(() => {
+      expect(getFooterCells(getByRole, 'sum')).toEqual(['', '500,500', '1,001,000', '1,501,500'])
+    })
+    expect(getFooterCells(getByRole, 'count')).toEqual(['1,000', '1,000', '1,000', '1,000'])
+    expect(getFooterCells(getByRole, 'max')).toEqual(['row 999', '1,000', '2,000', '3,000'])
+    expect(getAllByRole('rowgroup')).toHaveLength(3)
+    expect(getByRole('grid').getAttribute('aria-rowcount')).toBe('1004')
+  })
+
+  it('aggregates the selected rows only, if aggregateSelectedRows is set', async () => {
+    const { findByRole, getByRole } = render(
+      <HighTable data={createData()} aggregates={['count', 'sum']} aggregateSelectedRows selection={{ ranges: [{ start: 0, end: 2 }] }} />
+    )
+    await findByRole('rowheader', { name: 'sum' })
+    await waitFor(() => {
+      expect(getFooterCells(getByRole, 'sum')).toEqual(['', '1,999', '3,998', '5,997'])
+    })
+    expect(getFooterCells(getByRole, 'count')).toEqual(['2', '2', '2', '2'])
+  })
+
+  it('uses the aggregate method of the data frame, and calls onError if it fails', async () => {
+    const onError = vi.fn()
+    const aggregate = vi.fn(({ column }: { column: string }) => {
+      return column === 'ID' ? Promise.reject(new Error('failed')) : Promise.resolve({ mean: 42 })
+    })
+    const { findByRole, getByRole } = render(<HighTable data={{ ...createData(), aggregate }} aggregates={['mean']} onError={onError} />)
+    await findByRole('rowheader', { name: 'mean' })
+    await waitFor(() => {
+      expect(getFooterCells(getByRole, 'mean')).toEqual(['', '42', '42', '42'])
+    })
+    expect(onError).toHaveBeenCalledWith(new Error('failed'))
+    expect(aggregate).toHaveBeenCalledTimes(4)
+  })
+
+  it('does not show a footer by default', async () => {
+    const { findByRole, getAllByRole } = render(<HighTable data={createData()} />)
+    await findByRole('cell', { name: 'row 0' })
+    expect(getAllByRole('rowgroup')).toHaveLength(2)
+  })
+})
+
+describe('With column statistics, HighTable', () => {
+  it('shows a histogram under every column header, and the statistics in the column menu', async () => {
+    const { user, findByRole, getByRole } = render(<HighTable data={createData()} columnStats />)
+    const histogram = await findByRole('img', { name: 'Distribution of the values of Count' })
+    await waitFor(() => {
+      expect(histogram.getAttribute('aria-busy')).toBe('false')
+    })
+    expect(histogram.querySelectorAll('span')).toHaveLength(20)
+
+    await user.click(getByRole('button', { name: 'Column menu for Count' }))
+    const menu = getByRole('menu')
+    expect(Array.from(menu.querySelectorAll('dt, dd')).map(element => element.textContent)).toEqual(['Min', '1', 'Max', '1,000', 'Nulls', '0', 'Distinct', '1,000'])
+    expect(within(menu).getByRole('list', { name: 'Top values of Count' }).children).toHaveLength(5)
+  })
+
+  it('uses the columnStats method of the data frame, and calls onError if it fails', async () => {
+    const onError = vi.fn()
+    const columnStats = vi.fn(({ column }: { column: string }) => {
+      return column === 'ID'
+        ? Promise.reject(new Error('failed'))
+        : Promise.resolve({ count: 1000, nullCount: 0, distinctCount: 2, min: 0, max: 1, topValues: [{ value: 0, count: 600 }, { value: 1, count: 400 }] })
+    })
+    const { findByRole, queryByRole } = render(<HighTable data={{ ...createData(), columnStats }} columnStats onError={onError} />)
+    const histogram = await findByRole('img', { name: 'Distribution of the values of Count' })
+    await waitFor(() => {
+      expect(histogram.querySelectorAll('span')).toHaveLength(2)
+    })
+    expect(histogram.querySelector('span')?.getAttribute('title')).toBe('0: 600 rows')
+    expect(queryByRole('img', { name: 'Distribution of the values of ID' })).toBeNull()
+    expect(onError).toHaveBeenCalledWith(new Error('failed'))
+    expect(columnStats).toHaveBeenCalledTimes(4)
+  })
+
+  it('does not compute the statistics by default', async () => {
+    const columnStats = vi.fn()
+    const { findByRole, queryByRole } = render(<HighTable data={{ ...createData(), columnStats }} />)
+    await findByRole('cell', { name: 'row 0' })
+    expect(queryByRole('img', { name: 'Distribution of the values of Count' })).toBeNull()
+    expect(columnStats).not.toHaveBeenCalled()
+  })
+})
+
+describe('With search, HighTable', () => {
+  it('opens a search bar with Ctrl+F, and highlights the matches', async () => {
+    const { user, findByRole, getByRole, queryByRole } = render(<HighTable data={createData()} />)
+    const cell = await findByRole('cell', { name: 'row 0' })
+    expect(queryByRole('search')).toBeNull()
+
+    await user.click(cell)
+    await user.keyboard('{Control>}f{/Control}')
+    const input = getByRole('searchbox', { name: 'Search' })
+    expect(document.activeElement).toBe(input)
+
+    // row 1, row 10 to row 19, row 100 to row 199
+    await user.type(input, 'row 1')
+    await waitFor(() => {
+      expect(getByRole('status').textContent).toBe('1 of 111')
+    })
+    const match = getByRole('cell', { name: 'row 1' })
+    expect(match.getAttribute('data-search-match')).toBe('current')
+    expect(match.querySelector('mark')?.textContent).toBe('row 1')
+    expect(getByRole('cell', { name: 'row 0' }).getAttribute('data-search-match')).toBeNull()
+    // the focus stays in the search bar
+    expect(document.activeElement).toBe(input)
+
+    await user.keyboard('{Enter}')
+    expect(getByRole('status').textContent).toBe('2 of 111')
+    expect(match.getAttribute('data-search-match')).toBe('match')
+    await user.keyboard('{Shift>}{Enter}{/Shift}')
+    expect(getByRole('status').textContent).toBe('1 of 111')
+
+    await user.keyboard('{Escape}')
+    expect(queryByRole('search')).toBeNull()
+    expect(getByRole('cell', { name: 'row 1' }).getAttribute('data-search-match')).toBeNull()
+  })
+
+  it('shows when there are no results', async () => {
+    const { user, findByRole, getByRole } = render(<HighTable data={createData()} />)
+    await user.click(await findByRole('cell', { name: 'row 0' }))
+    await user.keyboard('{Control>}f{/Control}')
+    await user.type(getByRole('searchbox', { name: 'Search' }), 'nothing')
+    await waitFor(() => {
+      expect(getByRole('status').textContent).toBe('No results')
+    })
+    expect(getByRole('button', { name: 'Next match' }).hasAttribute('disabled')).toBe(true)
+  })
+
+  it('uses the search method of the data frame, and calls onError if it fails', async () => {
+    const onError = vi.fn()
+    const search = vi.fn(({ query }: { query: string }) => {
+      return query === 'a' ? Promise.resolve([{ row: 2, column: 'Count' }]) : Promise.reject(new Error('failed'))
+    })
+    const { user, findByRole, getByRole } = render(<HighTable data={{ ...createData(), search }} onError={onError} />)
+    await user.click(await findByRole('cell', { name: 'row 0' }))
+    await user.keyboard('{Control>}f{/Control}')
+    const input = getByRole('searchbox', { name: 'Search' })
+    await user.type(input, 'a')
+    await waitFor(() => {
+      expect(getByRole('status').textContent).toBe('1 of 1')
+    })
+    expect(search).toHaveBeenCalledWith(expect.objectContaining({ query: 'a', columns: ['ID', 'Count', 'Double', 'Triple'] }))
+    expect(getByRole('cell', { name: '998' }).getAttribute('data-search-match')).toBe('current')
+
+    await user.type(input, 'b')
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith(new Error('failed'))
+    })
+  })
+})
+
+describe('With the row detail panel, HighTable', () => {
+  function getDetailTexts(panel: HTMLElement) {
+    return Array.from(panel.querySelectorAll('dt, dd')).map(element => element.textContent)
+  }
+
+  it('is disabled by default: Enter on a row header toggles the selection', async () => {
+    const onSelectionChange = vi.fn()
+    const { user, findByRole, queryByRole } = render(<HighTable data={createData()} selection={{ ranges: [] }} onSelectionChange={onSelectionChange} />)
+    const rowHeader = await findByRole('rowheader', { name: '1' })
+    await user.click(rowHeader)
+    onSelectionChange.mockClear()
+    await user.keyboard('{Enter}')
+    expect(onSelectionChange).toHaveBeenCalledTimes(1)
+    expect(queryByRole('complementary', { name: 'Row detail' })).toBeNull()
+  })
+
+  it('opens with Enter on a row header, shows all the columns of the current row, and closes with Escape', async () => {
+    const onSelectionChange = vi.fn()
+    const { user, findByRole, getByRole, queryByRole } = render(
+      <HighTable data={createData()} rowDetail selection={{ ranges: [] }} onSelectionChange={onSelectionChange} columnsVisibility={{ Triple: { hidden: true } }} />
+    )
+    const rowHeader = await findByRole('rowheader', { name: '1' })
+    await user.click(rowHeader)
+    onSelectionChange.mockClear()
+    await user.keyboard('{Enter}')
+    // Enter does not toggle the selection anymore
+    expect(onSelectionChange).not.toHaveBeenCalled()
+
+    const panel = getByRole('complementary', { name: 'Row detail' })
+    expect(within(panel).getByText('Row 1')).toBeDefined()
+    // the hidden columns are included
+    expect(getDetailTexts(panel)).toEqual(['ID', 'row 0', 'Count', '1,000', 'Double', '2,000', 'Triple', '3,000'])
+    // the focus stays in the table, and the panel follows the current row
+    await user.keyboard('{ArrowDown}')
+    expect(within(panel).getByText('Row 2')).toBeDefined()
+    expect(getDetailTexts(panel)).toEqual(['ID', 'row 1', 'Count', '999', 'Double', '1,998', 'Triple', '2,997'])
+    // the panel has no row to show on the header row
+    await user.keyboard('{Control>}{Home}{/Control}')
+    expect(within(panel).getByText('Move to a row to show its detail.')).toBeDefined()
+
+    await user.click(within(panel).getByRole('button', { name: 'Close the row detail' }))
+    expect(queryByRole('complementary', { name: 'Row detail' })).toBeNull()
+
+    await user.click(getByRole('rowheader', { name: '3' }))
+    await user.keyboard('{Enter}')
+    const reopened = getByRole('complementary', { name: 'Row detail' })
+    expect(within(reopened).getByText('Row 3')).toBeDefined()
+    within(reopened).getByRole('button', { name: 'Close the row detail' }).focus()
+    await user.keyboard('{Escape}')
+    expect(queryByRole('complementary', { name: 'Row detail' })).toBeNull()
+  })
+
+  it('still toggles the selection with Space on a row header', async () => {
+    const onSelectionChange = vi.fn()
+    const { user, findByRole, queryByRole } = render(
+      <HighTable data={createData()} rowDetail selection={{ ranges: [] }} onSelectionChange={onSelectionChange} />
+    )
+    const rowHeader = await findByRole('rowheader', { name: '1' })
+    await user.click(rowHeader)
+    onSelectionChange.mockClear()
+    await user.keyboard(' ')
+    expect(onSelectionChange).toHaveBeenCalledTimes(1)
+    expect(queryByRole('complementary', { name: 'Row detail' })).toBeNull()
+  })
+
+  it('fetches all the columns of the row, and renders them with renderRowDetail', async () => {
+    const data = createData()
+    const fetch = vi.fn<Fetch>(() => Promise.resolve())
+    const renderRowDetail = vi.fn(({ rowNumber, cells }: { rowNumber?: number, cells: Record<string, { value: unknown } | undefined> }) => {
+      return <p>{`Custom detail of row ${rowNumber}: ${String(cells.Triple?.value)}`}</p>
+    })
+    const { user, findByRole, getByRole } = render(
+      <HighTable data={{ ...data, fetch }} renderRowDetail={renderRowDetail} columnsVisibility={{ Triple: { hidden: true } }} />
+    )
+    await user.click(await findByRole('rowheader', { name: '2' }))
+    await user.keyboard('{Enter}')
+
+    const panel = getByRole('complementary', { name: 'Row detail' })
+    expect(within(panel).getByText('Custom detail of row 1: 2997')).toBeDefined()
+    expect(fetch).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 1, rowEnd: 2, columns: ['ID', 'Count', 'Double', 'Triple'] }))
+  })
+})
+
+describe('With cell editing, HighTable', () => {
+  function createEditableData() {
+    return arrayDataFrame([
+      { name: 'Alice', age: 30 },
+      { name: 'Bob', age: 25 },
+    ])
+  }
+
+  it('is read-only if the data frame has no setCell method and onCellEdit is not set', async () => {
+    const { user, findByRole, getByRole, queryByRole } = render(<HighTable data={createData()} />)
+    const cell = await findByRole('cell', { name: 'row 0' })
+    expect(getByRole('grid').getAttribute('aria-readonly')).toBe('true')
+    await user.click(cell)
+    await user.keyboard('{Enter}')
+    expect(queryByRole('textbox')).toBeNull()
+  })
+
+  it('edits a cell with Enter, commits with Enter, and calls onCellEdit', async () => {
+    const data = createEditableData()
+    const onCellEdit = vi.fn()
+    const { user, findByRole, getByRole } = render(<HighTable data={data} onCellEdit={onCellEdit} />)
+    const cell = await findByRole('cell', { name: '25' })
+    expect(getByRole('grid').getAttribute('aria-readonly')).toBe('false')
+
+    await user.click(cell)
+    await user.keyboard('{Enter}')
+    const input = getByRole('textbox', { name: 'Edit age' })
+    expect(document.activeElement).toBe(input)
+    expect((input as HTMLInputElement).value).toBe('25')
+
+    await user.clear(input)
+    await user.type(input, '26{Enter}')
+    await waitFor(() => {
+      expect(onCellEdit).toHaveBeenCalledWith({ column: 'age', rowNumber: 1, value: 26, previousValue: 25 })
+    })
+    expect(data.getCell({ row: 1, column: 'age' })?.value).toBe(26)
+    const updatedCell = await findByRole('cell', { name: '26' })
+    expect(document.activeElement).toBe(updatedCell)
+  })
+
+  it('cancels the edition with Escape, and starts editing with F2', async () => {
+    const data = createEditableData()
+    const onCellEdit = vi.fn()
+    const { user, findByRole, getByRole, queryByRole } = render(<HighTable data={data} onCellEdit={onCellEdit} />)
+    const cell = await findByRole('cell', { name: 'Alice' })
+    await user.click(cell)
+    await user.keyboard('{F2}')
+    await user.type(getByRole('textbox', { name: 'Edit name' }), 'xyz')
+    await user.keyboard('{Escape}')
+    expect(queryByRole('textbox')).toBeNull()
+    expect(onCellEdit).not.toHaveBeenCalled()
+    expect(data.getCell({ row: 0, column: 'name' })?.value).toBe('Alice')
+    expect(document.activeElement).toBe(cell)
+  })
+
+  it('does not edit the columns with editable: false', async () => {
+    const { user, findByRole, queryByRole } = render(<HighTable data={createEditableData()} columnConfiguration={{ name: { editable: false } }} />)
+    const cell = await findByRole('cell', { name: 'Alice' })
+    expect(cell.getAttribute('aria-readonly')).toBe('true')
+    await user.click(cell)
+    await user.keyboard('{Enter}')
+    expect(queryByRole('textbox')).toBeNull()
+  })
+
+  it('uses the custom editor of the column', async () => {
+    const data = createEditableData()
+    const columnConfiguration = {
+      name: {
+        editor: ({ commit }: { commit: (value: unknown) => void }) => (
+          <button type="button" onClick={() => { commit('Zoe') }}>Rename</button>
+        ),
+      },
+    }
+    const { user, findByRole, getByRole } = render(<HighTable data={data} columnConfiguration={columnConfiguration} />)
+    await user.click(await findByRole('cell', { name: 'Bob' }))
+    await user.keyboard('{Enter}')
+    await user.click(getByRole('button', { name: 'Rename' }))
+    await findByRole('cell', { name: 'Zoe' })
+    expect(data.getCell({ row: 1, column: 'name' })?.value).toBe('Zoe')
+  })
+
+  it('calls onError if setCell fails', async () => {
+    const onError = vi.fn()
+    const data = { ...createEditableData(), setCell: () => Promise.reject(new Error('failed')) }
+    const { user, findByRole, getByRole } = render(<HighTable data={data} onError={onError} />)
+    await user.click(await findByRole('cell', { name: 'Bob' }))
+    await user.keyboard('{Enter}')
+    await user.type(getByRole('textbox', { name: 'Edit name' }), 'by{Enter}')
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith(new Error('failed'))
+    })
+  })
+})
+
+describe('With history, HighTable', () => {
+  const countAscending: OrderBy = [{ column: 'Count', direction: 'ascending' }]
+
+  it('undoes the sort with Ctrl+Z, and redoes it with Ctrl+Shift+Z', async () => {
+    const onOrderByChange = vi.fn()
+    const { user, findByRole, getByRole } = render(<HighTable data={sortableDataFrame(createData())} onOrderByChange={onOrderByChange} />)
+    await findByRole('cell', { name: 'row 0' })
+
+    await user.click(getByRole('columnheader', { name: 'Count' }))
+    expect(onOrderByChange).toHaveBeenLastCalledWith(countAscending)
+    await findByRole('cell', { name: 'row 999' })
+
+    await user.keyboard('{Control>}z{/Control}')
+    expect(onOrderByChange).toHaveBeenLastCalledWith([])
+    await findByRole('cell', { name: 'row 0' })
+
+    await user.keyboard('{Control>}{Shift>}z{/Shift}{/Control}')
+    expect(onOrderByChange).toHaveBeenLastCalledWith(countAscending)
+    await findByRole('cell', { name: 'row 999' })
+  })
+
+  it('calls onHistoryChange with the recorded changes', async () => {
+    const onHistoryChange = vi.fn()
+    const { user, findByRole, getByRole } = render(<HighTable data={sortableDataFrame(createData())} onHistoryChange={onHistoryChange} />)
+    await findByRole('cell', { name: 'row 0' })
+
+    await user.click(getByRole('columnheader', { name: 'Count' }))
+    expect(onHistoryChange).toHaveBeenLastCalledWith({
+      past: [{ type: 'orderBy', previous: [], next: countAscending, timestamp: expect.any(Number) }],
+      future: [],
+    })
+
+    await user.keyboard('{Control>}y{/Control}')
+    expect(onHistoryChange).toHaveBeenCalledTimes(1)
+    await user.keyboard('{Control>}z{/Control}')
+    expect(onHistoryChange).toHaveBeenLastCalledWith({
+      past: [],
+      future: [{ type: 'orderBy', previous: [], next: countAscending, timestamp: expect.any(Number) }],
+    })
+  })
+
+  it('does not record the changes if the history is controlled without onHistoryChange', async () => {
+    const onOrderByChange = vi.fn()
+    const history = { past: [{ type: 'orderBy' as const, previous: countAscending, next: [], timestamp: 0 }], future: [] }
+    const { user, findByRole, getByRole } = render(<HighTable data={sortableDataFrame(createData())} history={history} onOrderByChange={onOrderByChange} />)
+    await findByRole('cell', { name: 'row 0' })
+
+    await user.click(getByRole('columnheader', { name: 'Count' }))
+    expect(onOrderByChange).toHaveBeenCalledTimes(1)
+    await user.keyboard('{Control>}z{/Control}')
+    expect(onOrderByChange).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('With grouped rows, HighTable', () => {
+  function createFruitsData() {
+    return arrayDataFrame([
+      { fruit: 'banana', weight: 120 },
+      { fruit: 'apple', weight: 150 },
+      { fruit: 'banana', weight: 100 },
+    ])
+  }
+  function getGroupRow(getByRole: (role: string, options?: { name: string }) => HTMLElement, label: string) {
+    const row = getByRole('cell', { name: label }).closest('tr')
+    if (!row) throw new Error('Group row not found')
+    return row
+  }
+
+  it('renders a collapsible group header before the rows of every group', async () => {
+    const onCollapsedGroupsChange = vi.fn()
+    const { user, findByRole, getByRole, getAllByRole, queryByRole } = render(
+      <HighTable data={createFruitsData()} groupBy={['fruit']} onCollapsedGroupsChange={onCollapsedGroupsChange} />
+    )
+    await findByRole('cell', { name: 'fruit: apple (1)' })
+    expect(getByRole('treegrid').getAttribute('aria-rowcount')).toBe('6')
+    const appleRow = getGroupRow(getByRole, 'fruit: apple (1)')
+    expect(appleRow.getAttribute('aria-level')).toBe('1')
+    expect(appleRow.getAttribute('aria-expanded')).toBe('true')
+    expect(getGroupRow(getByRole, 'fruit: banana (2)').getAttribute('aria-rowindex')).toBe('4')
+    expect(getByRole('cell', { name: 'apple' }).closest('tr')?.getAttribute('aria-level')).toBe('2')
+    expect(getAllByRole('cell', { name: 'banana' })).toHaveLength(2)
+
+    await user.click(getByRole('cell', { name: 'fruit: apple (1)' }))
+    expect(onCollapsedGroupsChange).toHaveBeenCalledWith(['["apple"]'])
+    await waitFor(() => {
+      expect(queryByRole('cell', { name: 'apple' })).toBeNull()
+    })
+    expect(getGroupRow(getByRole, 'fruit: apple (1)').getAttribute('aria-expanded')).toBe('false')
+    expect(getByRole('treegrid').getAttribute('aria-rowcount')).toBe('5')
+  })
+
+  it('shows the aggregates of every group', async () => {
+    const { findByRole, getByRole } = render(<HighTable data={createFruitsData()} groupBy={['fruit']} groupAggregates={['sum', 'max']} />)
+    await findByRole('cell', { name: 'fruit: banana (2)' })
+    const cells = getGroupRow(getByRole, 'fruit: banana (2)').querySelectorAll('td')
+    expect(Array.from(cells).map(cell => cell.textContent)).toEqual(['fruit: banana (2)', 'sum: 220 · max: 120'])
+  })
+
+  it('collapses the group with ArrowLeft, and expands it with ArrowRight, on the row headers', async () => {
+    const { user, findByRole, getByRole } = render(<HighTable data={createFruitsData()} groupBy={['fruit']} />)
+    await findByRole('cell', { name: 'fruit: apple (1)' })
+
+    // the apple row, whose row number is 2
+    await user.click(getByRole('rowheader', { name: '2' }))
+    await user.keyboard('{ArrowLeft}')
+    const appleRow = getGroupRow(getByRole, 'fruit: apple (1)')
+    expect(document.activeElement).toBe(within(appleRow).getByRole('rowheader'))
+
+    await user.keyboard('{ArrowLeft}')
+    await waitFor(() => {
+      expect(getGroupRow(getByRole, 'fruit: apple (1)').getAttribute('aria-expanded')).toBe('false')
+    })
+    await user.keyboard('{ArrowRight}')
+    await waitFor(() => {
+      expect(getGroupRow(getByRole, 'fruit: apple (1)').getAttribute('aria-expanded')).toBe('true')
+    })
+  })
+
+  it('does not collapse the groups if collapsedGroups is controlled without onCollapsedGroupsChange', async () => {
+    const { user, findByRole, getByRole } = render(<HighTable data={createFruitsData()} groupBy={['fruit']} collapsedGroups={['["banana"]']} />)
+    await findByRole('cell', { name: 'fruit: banana (2)' })
+    expect(getGroupRow(getByRole, 'fruit: banana (2)').getAttribute('aria-expanded')).toBe('false')
+
+    await user.click(getByRole('cell', { name: 'fruit: banana (2)' }))
+    expect(getGroupRow(getByRole, 'fruit: banana (2)').getAttribute('aria-expanded')).toBe('false')
+  })
+  it('skips the group header rows when copying a range of cells', async () => {
+    const { findByRole } = render(
+      <HighTable
+        data={createFruitsData()}
+        groupBy={['fruit']}
+        cellSelection={{ range: { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 3, rowIndex: 4 } } }}
+      />
+    )
+    const cell = await findByRole('cell', { name: 'apple' })
+
+    act(() => {
+      fireEvent.copy(cell)
+    })
+
+    await waitFor(async () => {
+      await expect(navigator.clipboard.readText()).resolves.toBe('fruit\tweight\napple\t150')
+    })
+  })
+
+  it('disposes the grouped data frame when the grouping changes, and on unmount', async () => {
+    const data = createFruitsData()
+    if (!data.eventTarget) throw new Error('The data frame has no event target')
+    const addEventListener = vi.spyOn(data.eventTarget, 'addEventListener')
+    function getSignals() {
+      return addEventListener.mock.calls.flatMap(([, , options]) => typeof options === 'object' && options.signal ? [options.signal] : [])
+    }
+    const { findByRole, rerender, unmount } = render(<HighTable data={data} groupBy={['fruit']} />)
+    await findByRole('cell', { name: 'fruit: apple (1)' })
+    const [firstSignal] = getSignals()
+    expect(firstSignal?.aborted).toBe(false)
+
+    rerender(<HighTable data={data} groupBy={['weight']} />)
+    await findByRole('cell', { name: 'weight: 100 (1)' })
+    expect(firstSignal?.aborted).toBe(true)
+    const lastSignal = getSignals().at(-1)
+    expect(lastSignal?.aborted).toBe(false)
+
+    unmount()
+    expect(lastSignal?.aborted).toBe(true)
+  })
+})
+
+describe('With a locale, HighTable', () => {
+  it('formats the numbers with the locale, and with the formatting options of the columns', async () => {
+    const columnConfiguration = { Double: { format: { number: { style: 'currency', currency: 'EUR' } } } } as const
+    const { findByRole, getByRole } = render(<HighTable data={createData()} locale="de-DE" columnConfiguration={columnConfiguration} />)
+    // default stringification, with the locale
+    await findByRole('cell', { name: '1.000' })
+    // formatting options of the column
+    expect(getByRole('cell', { name: '2.000,00\u00a0€' })).toBeDefined()
+  })
+})
+
+describe('With many columns, HighTable', () => {
+  function createWideData() {
+    const numRows = 100
+    const columnDescriptors = Array.from({ length: 20 }, (_, i) => ({ name: `Column ${i}` }))
+    const getRowNumber = createGetRowNumber({ numRows })
+    function getCell({ row, column, orderBy }: { row: number, column: string, orderBy?: OrderBy }) {
+      validateGetCellParams({ column, row, orderBy, data: { numRows, columnDescriptors } })
+      return { value: `${column}, row ${row}` }
+    }
+    const fetch = vi.fn<Fetch>(() => Promise.resolve())
+    return { columnDescriptors, numRows, getRowNumber, getCell, fetch }
+  }
+  beforeEach(() => {
+    // the viewport is 300px wide, the columns are at least 50px wide
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(300)
+  })
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('only renders and fetches the columns in the viewport, plus a padding', async () => {
+    const data = createWideData()
+    const { findByRole, getAllByRole, getByRole } = render(<HighTable data={data} />)
+    await findByRole('cell', { name: 'Column 0, row 0' })
+
+    const headerNames = getHeaderNames(getAllByRole)
+    expect(headerNames.length).toBeGreaterThan(6)
+    expect(headerNames.length).toBeLessThan(12)
+    expect(getByRole('grid').getAttribute('aria-colcount')).toBe('21')
+    // the rendered columns are fetched, and not the other ones
+    const requestedColumns = new Set(data.fetch.mock.calls.flatMap(([{ columns }]) => columns ?? []))
+    expect(headerNames.every(name => name !== null && requestedColumns.has(name))).toBe(true)
+    expect(requestedColumns.size).toBeLessThan(12)
+    // the other columns are replaced by a spacer
+    const lastCell = getByRole('cell', { name: `${headerNames.at(-1)}, row 0` })
+    const spacer = lastCell.nextElementSibling as HTMLElement
+    expect(spacer.getAttribute('aria-hidden')).toBe('true')
+    expect(parseInt(spacer.style.minWidth)).toBeGreaterThanOrEqual((20 - headerNames.length) * 50)
+  })
+
+  it('renders other columns when scrolling horizontally, and keeps the pinned columns', async () => {
+    const data = createWideData()
+    const { findByRole, getAllByRole, getByRole, queryByRole } = render(<HighTable data={data} columnConfiguration={{ 'Column 10': { pinned: 'left' } }} />)
+    await findByRole('cell', { name: 'Column 0, row 0' })
+    expect(queryByRole('cell', { name: 'Column 19, row 0' })).toBeNull()
+
+    fireEvent.scroll(getByRole('group', { name: 'Virtual-scroll table' }), { target: { scrollLeft: 2_000 } })
+    await findByRole('cell', { name: 'Column 19, row 0' })
+    expect(queryByRole('cell', { name: 'Column 0, row 0' })).toBeNull()
+    const headerNames = getHeaderNames(getAllByRole)
+    expect(headerNames[0]).toBe('Column 10')
+    // the aria column index is the index among all the visible columns
+    expect(getByRole('cell', { name: 'Column 19, row 0' }).getAttribute('aria-colindex')).toBe('21')
+    expect(data.fetch).toHaveBeenLastCalledWith(expect.objectContaining({ columns: headerNames }))
+  })
+
+  it('estimates the row heights again when the cells of new columns are resolved', async () => {
+    const data = createWideData()
+    const eventTarget = createEventTarget<DataFrameEvents>()
+    const fetchedColumns = new Set<string>()
+    data.fetch.mockImplementation(({ columns }) => {
+      for (const column of columns ?? []) {
+        fetchedColumns.add(column)
+      }
+      eventTarget.dispatchEvent(new CustomEvent('resolve'))
+      return Promise.resolve()
+    })
+    const wideData = {
+      ...data,
+      eventTarget,
+      getCell: ({ row, column, orderBy }: { row: number, column: string, orderBy?: OrderBy }) => fetchedColumns.has(column) ? data.getCell({ row, column, orderBy }) : undefined,
+    }
+    // the last column makes the rows even taller
+    const estimateRowHeight = vi.fn(({ cells }: { cells: Record<string, unknown> }) => 'Column 19' in cells ? 200 : 100)
+    const { findByRole, getByRole } = render(<HighTable data={wideData} estimateRowHeight={estimateRowHeight} />)
+    const row = (await findByRole('cell', { name: 'Column 0, row 0' })).closest('tr')
+    await waitFor(() => {
+      expect(row?.style.height).toBe('100px')
+    })
+
+    fireEvent.scroll(getByRole('group', { name: 'Virtual-scroll table' }), { target: { scrollLeft: 2_000 } })
+    const cell = await findByRole('cell', { name: 'Column 19, row 0' })
+    await waitFor(() => {
+      expect(cell.closest('tr')?.style.height).toBe('200px')
+    })
+    // the cells of the columns fetched before are still passed
+    expect(estimateRowHeight).toHaveBeenCalledWith({ row: 0, rowNumber: 0, cells: expect.objectContaining({ 'Column 0': 'Column 0, row 0', 'Column 19': 'Column 19, row 0' }) as unknown })
+  })
+
+  it('keeps the ongoing requests when scrolling horizontally, and only fetches the new columns', async () => {
+    const data = createWideData()
+    const signals: AbortSignal[] = []
+    const resolvers: (() => void)[] = []
+    data.fetch.mockImplementation(({ signal }) => {
+      if (signal) signals.push(signal)
+      return new Promise((resolve) => {
+        resolvers.push(resolve)
+      })
+    })
+    const { findByRole, getAllByRole, getByRole } = render(<HighTable data={data} />)
+    await findByRole('cell', { name: 'Column 0, row 0' })
+    const numCalls = data.fetch.mock.calls.length
+    const requestedColumns = new Set(data.fetch.mock.calls.flatMap(([{ columns }]) => columns ?? []))
+
+    fireEvent.scroll(getByRole('group', { name: 'Virtual-scroll table' }), { target: { scrollLeft: 300 } })
+    await findByRole('cell', { name: 'Column 12, row 0' })
+    expect(signals.every(signal => !signal.aborted)).toBe(true)
+
+    // the new columns are fetched once the ongoing requests resolve, within the concurrency limit
+    act(() => {
+      for (const resolve of resolvers.splice(0)) {
+        resolve()
+      }
+    })
+    await waitFor(() => {
+      expect(data.fetch.mock.calls.length).toBeGreaterThan(numCalls)
+    })
+    const newColumns = getHeaderNames(getAllByRole).filter(name => name !== null && !requestedColumns.has(name))
+    expect(newColumns).toContain('Column 12')
+    for (const [{ columns }] of data.fetch.mock.calls.slice(numCalls)) {
+      expect(columns).toEqual(newColumns)
+    }
+  })
+})
+
+describe('With custom row heights, HighTable', () => {
+  it('sets the row height from a density preset', async () => {
+    const { container, findByRole } = render(<HighTable data={createData()} rowHeight="comfortable" />)
+    await findByRole('cell', { name: 'row 0' })
+    const wrapper = container.firstElementChild as HTMLElement
+    expect(wrapper.style.getPropertyValue('--row-height')).toBe('41px')
+  })
+
+  it('expands the rows with an estimated height, once their cells are resolved', async () => {
+    const estimateRowHeight = vi.fn(({ row }: { row: number }) => row === 1 ? 100 : undefined)
+    const { findByRole, getByRole } = render(<HighTable data={createData()} estimateRowHeight={estimateRowHeight} />)
+    const row = (await findByRole('cell', { name: 'row 1' })).closest('tr')
+    await waitFor(() => {
+      expect(row?.style.height).toBe('100px')
+    })
+    expect(row?.getAttribute('data-expanded')).toBe('true')
+    expect(getByRole('cell', { name: 'row 0' }).closest('tr')?.getAttribute('data-expanded')).toBeNull()
+    expect(estimateRowHeight).toHaveBeenCalledWith({ row: 1, rowNumber: 1, cells: { ID: 'row 1', Count: 999, Double: 1998, Triple: 2997 } })
+  })
+
+  it('scrolls to keep the first visible row in place when the rows above it are expanded', async () => {
+    const scrollTo = vi.fn()
+    // scrollTo does not exist in jsdom
+    Object.defineProperty(HTMLElement.prototype, 'scrollTo', { value: scrollTo, configurable: true })
+    try {
+      // the rows 45 to 49 are rendered above the viewport (padding) once scrolled to row ~60
+      const estimateRowHeight = vi.fn(({ row }: { row: number }) => row >= 45 && row < 50 ? 100 : undefined)
+      const { findByRole, getByLabelText } = render(<HighTable data={createData()} estimateRowHeight={estimateRowHeight} />)
+      await findByRole('cell', { name: 'row 0' })
+      act(() => {
+        fireEvent.scroll(getByLabelText('Virtual-scroll table'), { target: { scrollTop: 2_000 } })
+      })
+      await waitFor(() => {
+        expect(scrollTo).toHaveBeenCalledWith({ top: 2_000 + 5 * (100 - 33), behavior: 'instant' })
+      })
+    } finally {
+      Reflect.deleteProperty(HTMLElement.prototype, 'scrollTo')
+    }
+  })
+})
+
 describe('HighTable localstorage', () => {
   let data: DataFrame
   let otherData: DataFrame
@@ -594,6 +1722,97 @@ describe('HighTable localstorage', () => {
     expect(localStorage.getItem(`${otherKey}${columnWidthsSuffix}`)).not.toEqual(localStorage.getItem(keyItem))
     expect(header.style.maxWidth).not.toEqual(`${savedWidth}px`)
   })
+
+  it('keeps the columns visibility if a new cacheKey is provided', async () => {
+    localStorage.clear()
+    const { user, findByRole, getByRole, rerender } = render(<HighTable data={data} cacheKey="key" />)
+    await findByRole('cell', { name: 'row 0' })
+
+    // hide the ID column from the column menu
+    await user.keyboard('{ArrowRight}{Tab}{Enter}')
+    await waitFor(() => {
+      expect(document.activeElement?.textContent).toBe('Hide column')
+    })
+    await user.keyboard('{Enter}')
+    expect(within(getByRole('grid')).queryByRole('columnheader', { name: 'ID' })).toBeNull()
+
+    rerender(<HighTable data={data} cacheKey="other-key" />)
+    expect(within(getByRole('grid')).queryByRole('columnheader', { name: 'ID' })).toBeNull()
+  })
+
+  it('keeps the column widths of a new cacheKey after a resize has been undone', async () => {
+    localStorage.clear()
+    const otherKey = 'other-key'
+    const json = JSON.stringify(Array(4).fill(initialWidth * 2))
+    localStorage.setItem(`${otherKey}${columnWidthsSuffix}`, json)
+    const { user, findByRole, getAllByRole, rerender } = render(<HighTable data={data} cacheKey="key" />)
+    await findByRole('cell', { name: 'row 0' })
+
+    // resize the ID column with the column resizer, then undo it
+    await user.keyboard('{ArrowRight}{Tab}{Tab}{ArrowRight}{Escape}')
+    const resizedJson = localStorage.getItem(keyItem)
+    await user.keyboard('{Control>}z{/Control}')
+    expect(localStorage.getItem(keyItem)).not.toEqual(resizedJson)
+
+    rerender(<HighTable data={data} cacheKey={otherKey} />)
+    expect(localStorage.getItem(`${otherKey}${columnWidthsSuffix}`)).toEqual(json)
+    expect(getAllByRole('columnheader')[0]?.style.maxWidth).toEqual(`${initialWidth * 2}px`)
+  })
+
+  it('restores the persisted view state, if persistViewState is set', async () => {
+    localStorage.clear()
+    localStorage.setItem(`key${viewStateSuffix}`, JSON.stringify({
+      version: 1,
+      orderBy: [{ column: 'Count', direction: 'ascending' }],
+      columnsVisibility: { Triple: { hidden: true } },
+    }))
+    const { findByRole, getByRole, queryByRole } = render(<HighTable data={sortableDataFrame(data)} cacheKey="key" persistViewState />)
+    await findByRole('cell', { name: 'row 999' })
+    expect(getByRole('columnheader', { name: 'Count' }).getAttribute('aria-sort')).toBe('ascending')
+    expect(queryByRole('columnheader', { name: 'Triple' })).toBeNull()
+  })
+
+  it('ignores an invalid persisted view state', async () => {
+    localStorage.clear()
+    localStorage.setItem(`key${viewStateSuffix}`, '{"version": 1, "orderBy": [')
+    const { findByRole, getByRole } = render(<HighTable data={sortableDataFrame(data)} cacheKey="key" persistViewState />)
+    await findByRole('cell', { name: 'row 0' })
+    expect(getByRole('columnheader', { name: 'Count' }).getAttribute('aria-sort')).toBe('none')
+  })
+
+  it('persists the changes of the view state, and calls the change handlers', async () => {
+    localStorage.clear()
+    const onOrderByChange = vi.fn()
+    const { user, findByRole, getByRole } = render(<HighTable data={sortableDataFrame(data)} cacheKey="key" persistViewState onOrderByChange={onOrderByChange} />)
+    await findByRole('cell', { name: 'row 0' })
+
+    await user.click(getByRole('columnheader', { name: 'Count' }))
+    await findByRole('cell', { name: 'row 999' })
+    expect(onOrderByChange).toHaveBeenCalledWith([{ column: 'Count', direction: 'ascending' }])
+    expect(JSON.parse(localStorage.getItem(`key${viewStateSuffix}`) ?? '{}')).toMatchObject({
+      version: 1,
+      orderBy: [{ column: 'Count', direction: 'ascending' }],
+      cellPosition: { colIndex: 3, rowIndex: 1 },
+    })
+  })
+
+  it('does not persist the view state if persistViewState is not set, nor the controlled values', async () => {
+    localStorage.clear()
+    const { user, findByRole, getByRole, unmount } = render(<HighTable data={sortableDataFrame(data)} cacheKey="key" />)
+    await findByRole('cell', { name: 'row 0' })
+    await user.click(getByRole('columnheader', { name: 'Count' }))
+    await findByRole('cell', { name: 'row 999' })
+    expect(localStorage.getItem(`key${viewStateSuffix}`)).toBeNull()
+    unmount()
+
+    const onOrderByChange = vi.fn()
+    const controlled = render(<HighTable data={sortableDataFrame(data)} cacheKey="key" persistViewState orderBy={[]} onOrderByChange={onOrderByChange} cellPosition={{ colIndex: 1, rowIndex: 1 }} />)
+    await controlled.findByRole('cell', { name: 'row 0' })
+    await controlled.user.click(controlled.getByRole('columnheader', { name: 'Count' }))
+    expect(onOrderByChange).toHaveBeenCalledWith([{ column: 'Count', direction: 'ascending' }])
+    // only the uncontrolled values (here, the columns visibility) are persisted
+    expect(JSON.parse(localStorage.getItem(`key${viewStateSuffix}`) ?? '{}')).not.toHaveProperty('orderBy')
+  })
 })
 
 describe('When the number of rows is updated', () => {
@@ -2,6 +2,8 @@ import { act, fireEvent } from '@testing-library/react'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 import RowHeader from '../../src/components/RowHeader.js'
+import { RetryRowContext } from '../../src/contexts/LoadingContext.js'
+import { ariaOffset } from '../../src/helpers/constants.js'
 import { render } from '../../src/utils/userEvent.js'
 
 const defaultProps = {
@@ -42,6 +44,47 @@ describe('RowHeader', () => {
     // Note that the text is not copied if a selection exists. But I don't know how to test that yet.
   })
 
+  it('renders a skeleton placeholder until the row number resolves', () => {
+    const { getByRole } = render(
+      <table>
+        <tbody>
+          <tr>
+            <RowHeader {...defaultProps} />
+          </tr>
+        </tbody>
+      </table>
+    )
+    const rowHeader = getByRole('rowheader')
+    expect(rowHeader.getAttribute('aria-busy')).toBe('true')
+    expect(rowHeader.querySelector('[data-skeleton="true"]')).not.toBeNull()
+  })
+
+  it('renders an error marker if the row number has failed, and fetches the row again on Enter', async () => {
+    const retryRow = vi.fn()
+    const onRowDetailPress = vi.fn()
+    const { user, getByRole, queryByTitle } = render(
+      <RetryRowContext.Provider value={retryRow}>
+        <table>
+          <tbody>
+            <tr>
+              <RowHeader {...defaultProps} ariaRowIndex={5} error={new Error('Network error')} onRowDetailPress={onRowDetailPress} />
+            </tr>
+          </tbody>
+        </table>
+      </RetryRowContext.Provider>
+    )
+    const rowHeader = getByRole('rowheader')
+    expect(rowHeader.getAttribute('aria-busy')).toBe('false')
+    expect(rowHeader.getAttribute('title')).toBe('Network error')
+    expect(rowHeader.querySelector('[data-error="true"]')).not.toBeNull()
+    expect(queryByTitle('Retry (Enter)')).not.toBeNull()
+
+    rowHeader.focus()
+    await user.keyboard('{Enter}')
+    expect(retryRow).toHaveBeenCalledExactlyOnceWith({ row: 5 - ariaOffset })
+    expect(onRowDetailPress).not.toHaveBeenCalled()
+  })
+
   it('does not copy anything if the row number is not passed', async () => {
     const { getByRole } = render(
       <table>
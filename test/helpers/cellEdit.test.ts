@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseEditedText } from '../../src/helpers/cellEdit.js'
+
+describe('parseEditedText', () => {
+  it('should keep the type of the previous value', () => {
+    expect(parseEditedText('12.5', 1)).toBe(12.5)
+    expect(parseEditedText('12', 1n)).toBe(12n)
+    expect(parseEditedText('FALSE', true)).toBe(false)
+    expect(parseEditedText('2024-01-02T03:04:05.000Z', new Date(0))).toEqual(new Date('2024-01-02T03:04:05.000Z'))
+    expect(parseEditedText('{"a":1}', { b: 2 })).toEqual({ a: 1 })
+    expect(parseEditedText('', 'text')).toBe('')
+  })
+  it('should keep the text if it cannot be parsed', () => {
+    expect(parseEditedText('abc', 1)).toBe('abc')
+    expect(parseEditedText('1.5', 1n)).toBe('1.5')
+    expect(parseEditedText('yes', true)).toBe('yes')
+    expect(parseEditedText('not a date', new Date(0))).toBe('not a date')
+    expect(parseEditedText('{', { b: 2 })).toBe('{')
+  })
+  it('should return null for an empty text, or undefined if the previous value was undefined', () => {
+    expect(parseEditedText(' ', 1)).toBe(null)
+    expect(parseEditedText('', null)).toBe(null)
+    expect(parseEditedText('', undefined)).toBe(undefined)
+    expect(parseEditedText('text', null)).toBe('text')
+  })
+})
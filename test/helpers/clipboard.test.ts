@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+
+import { toHtmlTable, toTsv } from '../../src/helpers/clipboard.js'
+
+describe('toTsv', () => {
+  it('should join the header and the cells with tabs and newlines', () => {
+    expect(toTsv({ columns: ['ID', 'Count'], rows: [['a', '1'], ['b', '2']] })).toBe('ID\tCount\na\t1\nb\t2')
+  })
+
+  it('should quote the fields that contain tabs, newlines or quotes', () => {
+    expect(toTsv({ columns: ['A'], rows: [['x\ty'], ['line 1\nline 2'], ['say "hi"']] })).toBe('A\n"x\ty"\n"line 1\nline 2"\n"say ""hi"""')
+  })
+
+  it('should only output the header if there are no rows', () => {
+    expect(toTsv({ columns: ['ID', 'Count'], rows: [] })).toBe('ID\tCount')
+  })
+})
+
+describe('toHtmlTable', () => {
+  it('should output an HTML table with a header row', () => {
+    expect(toHtmlTable({ columns: ['ID'], rows: [['a'], ['b']] })).toBe(
+      '<table><thead><tr><th>ID</th></tr></thead><tbody><tr><td>a</td></tr><tr><td>b</td></tr></tbody></table>'
+    )
+  })
+
+  it('should escape the HTML special characters', () => {
+    expect(toHtmlTable({ columns: ['<b>'], rows: [['"a" & \'b\'']] })).toBe(
+      '<table><thead><tr><th>&lt;b&gt;</th></tr></thead><tbody><tr><td>&quot;a&quot; &amp; &#39;b&#39;</td></tr></tbody></table>'
+    )
+  })
+})
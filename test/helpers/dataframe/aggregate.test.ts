@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { aggregateDataFrame, scanAggregates } from '../../../src/helpers/dataframe/aggregate.js'
+import { arrayDataFrame } from '../../../src/helpers/dataframe/array.js'
+import { sortableDataFrame } from '../../../src/helpers/dataframe/sort.js'
+import { delayedDataFrame } from './fixtures.js'
+
+function createTestData() {
+  return [
+    { id: 1, name: 'Charlie', age: 30 },
+    { id: 2, name: 'Alice', age: null },
+    { id: 3, name: 'Bob', age: 25 },
+    { id: 4, name: 'Alice', age: 20 },
+  ]
+}
+
+describe('aggregateDataFrame', () => {
+  it('should compute all the aggregate functions', async () => {
+    const data = arrayDataFrame(createTestData())
+    const functions = ['count', 'nullCount', 'min', 'max', 'sum', 'mean', 'distinctCount'] as const
+    await expect(aggregateDataFrame(data, { column: 'age', functions: [...functions] })).resolves.toEqual({
+      count: 4,
+      nullCount: 1,
+      min: 20,
+      max: 30,
+      sum: 75,
+      mean: 25,
+      distinctCount: 3,
+    })
+    await expect(aggregateDataFrame(data, { column: 'name', functions: [...functions] })).resolves.toEqual({
+      count: 4,
+      nullCount: 0,
+      min: 'Alice',
+      max: 'Charlie',
+      sum: undefined,
+      mean: undefined,
+      distinctCount: 3,
+    })
+  })
+
+  it('should only return the requested functions', async () => {
+    const result = await aggregateDataFrame(arrayDataFrame(createTestData()), { column: 'id', functions: ['max', 'count'] })
+    expect(result).toEqual({ max: 4, count: 4 })
+  })
+
+  it('should keep the sum of bigints as a bigint, and compare the dates and objects by value', async () => {
+    const data = arrayDataFrame([
+      { big: 1n, date: new Date(0), tags: ['a'] },
+      { big: 2n, date: new Date(0), tags: ['a'] },
+      { big: null, date: new Date(1), tags: ['b'] },
+    ])
+    await expect(aggregateDataFrame(data, { column: 'big', functions: ['sum', 'mean'] })).resolves.toEqual({ sum: 3n, mean: 1.5 })
+    await expect(aggregateDataFrame(data, { column: 'date', functions: ['distinctCount', 'max'] })).resolves.toEqual({ distinctCount: 2, max: new Date(1) })
+    await expect(aggregateDataFrame(data, { column: 'tags', functions: ['distinctCount'] })).resolves.toEqual({ distinctCount: 2 })
+  })
+
+  it('should only aggregate the selected rows, identified by their row number', async () => {
+    const data = arrayDataFrame(createTestData())
+    const result = await aggregateDataFrame(data, { column: 'age', functions: ['count', 'sum'], selection: { ranges: [{ start: 2, end: 4 }] } })
+    expect(result).toEqual({ count: 2, sum: 45 })
+  })
+
+  it('should not depend on the order of the rows', async () => {
+    const data = sortableDataFrame(arrayDataFrame(createTestData()))
+    await data.fetch?.({ rowStart: 0, rowEnd: 4, orderBy: [{ column: 'name', direction: 'ascending' }] })
+    const result = await aggregateDataFrame(data, { column: 'age', functions: ['sum'], selection: { ranges: [{ start: 0, end: 1 }] } })
+    expect(result).toEqual({ sum: 30 })
+  })
+
+  it('should use the aggregate method of the data frame if it exists', async () => {
+    const aggregate = vi.fn(() => Promise.resolve({ count: 1_000_000 }))
+    const data = sortableDataFrame({ ...arrayDataFrame(createTestData()), aggregate })
+    const selection = { ranges: [{ start: 0, end: 2 }] }
+    await expect(aggregateDataFrame(data, { column: 'id', functions: ['count'], selection })).resolves.toEqual({ count: 1_000_000 })
+    expect(aggregate).toHaveBeenCalledWith({ column: 'id', functions: ['count'], selection, signal: undefined })
+  })
+
+  it('should fetch the rows in chunks', async () => {
+    const data = delayedDataFrame(arrayDataFrame(createTestData()))
+    await expect(aggregateDataFrame(data, { column: 'id', functions: ['sum'], chunkSize: 3 })).resolves.toEqual({ sum: 10 })
+    expect(data.fetch).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 0, rowEnd: 3, columns: ['id'] }))
+    expect(data.fetch).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 3, rowEnd: 4, columns: ['id'] }))
+  })
+
+  it('should throw if the column or a function is invalid', async () => {
+    const data = arrayDataFrame(createTestData())
+    await expect(aggregateDataFrame(data, { column: 'doesnotexist', functions: ['count'] })).rejects.toThrow('Invalid column: doesnotexist')
+    // @ts-expect-error testing an invalid function
+    await expect(aggregateDataFrame(data, { column: 'id', functions: ['median'] })).rejects.toThrow('Invalid aggregate function: median')
+    await expect(aggregateDataFrame(data, { column: 'id', functions: ['count'], chunkSize: 0 })).rejects.toThrow('Invalid chunk size')
+  })
+
+  it('should reject with an AbortError if the signal is aborted', async () => {
+    const controller = new AbortController()
+    const data = delayedDataFrame(arrayDataFrame(createTestData()))
+    const promise = aggregateDataFrame(data, { column: 'id', functions: ['count'], chunkSize: 2, signal: controller.signal })
+    controller.abort()
+    await expect(promise).rejects.toThrow('The operation was aborted.')
+  })
+})
+
+describe('scanAggregates', () => {
+  it('should aggregate the given number of rows', async () => {
+    const data = arrayDataFrame(createTestData())
+    await expect(scanAggregates({ data, numRows: 2, column: 'id', functions: ['count', 'max'] })).resolves.toEqual({ count: 2, max: 2 })
+  })
+})
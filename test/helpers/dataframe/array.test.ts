@@ -130,6 +130,26 @@ describe('arrayDataFrame', () => {
     expect(df.getCell({ row: 0, column: 'name' })?.value).toBe('Alicia')
   })
 
+  it('sets a cell through the proxy, dispatching the update event', async () => {
+    const testData = createTestData()
+    const df = arrayDataFrame(testData)
+    const updateListener = vi.fn()
+    df.eventTarget?.addEventListener('update', updateListener)
+
+    await df.setCell?.({ row: 1, column: 'name', value: 'Robert' })
+    expect(updateListener).toHaveBeenCalledTimes(1)
+    expect(df.getCell({ row: 1, column: 'name' })?.value).toBe('Robert')
+    expect(df.getCell({ row: 1, column: 'age' })?.value).toBe(25)
+    // the row object is replaced, the original one is not mutated
+    expect(testData[1]).toEqual({ id: 2, name: 'Robert', age: 25 })
+  })
+
+  it('rejects when setting a cell in an unknown column or row', async () => {
+    const df = arrayDataFrame(createTestData())
+    await expect(df.setCell?.({ row: 0, column: 'unknown', value: 1 })).rejects.toThrow('Invalid column: unknown')
+    await expect(df.setCell?.({ row: 10, column: 'name', value: 'x' })).rejects.toThrow('Invalid row index: 10')
+  })
+
   describe('if rowNumbers is provided', () => {
     it('is used to determine the row numbers', () => {
       const df = arrayDataFrame(createTestData(), [10, 20, 30])
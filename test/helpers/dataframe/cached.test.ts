@@ -0,0 +1,174 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { cachedDataFrame } from '../../../src/helpers/dataframe/cached.js'
+import { sortableDataFrame } from '../../../src/helpers/dataframe/sort.js'
+import type { Cells } from '../../../src/helpers/dataframe/types.js'
+
+const columnDescriptors = [{ name: 'id' }, { name: 'double' }]
+
+/** A remote source of 25 rows, whose requests resolve after a tick, or reject when aborted */
+function createFetchRows() {
+  return vi.fn(({ rowStart, rowEnd, columns, signal }: { rowStart: number, rowEnd: number, columns: string[], signal: AbortSignal }) => {
+    return new Promise<Cells[]>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        resolve(Array.from({ length: rowEnd - rowStart }, (_, i) => {
+          const row = rowStart + i
+          return Object.fromEntries(columns.map(column => [column, column === 'id' ? row : row * 2]))
+        }))
+      }, 1)
+      signal.addEventListener('abort', () => {
+        clearTimeout(timeout)
+        reject(new DOMException('The operation was aborted.', 'AbortError'))
+      })
+    })
+  })
+}
+
+describe('cachedDataFrame', () => {
+  it('should fetch the rows in aligned chunks, and dispatch a resolve event for every chunk', async () => {
+    const fetchRows = createFetchRows()
+    const data = cachedDataFrame(fetchRows, { numRows: 25, columnDescriptors, chunkSize: 10 })
+    const onResolve = vi.fn()
+    data.eventTarget?.addEventListener('resolve', onResolve)
+
+    expect(data.getCell({ row: 12, column: 'id' })).toBeUndefined()
+    await data.fetch?.({ rowStart: 8, rowEnd: 22, columns: ['id'] })
+    expect(fetchRows).toHaveBeenCalledTimes(3)
+    expect(fetchRows).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 0, rowEnd: 10, columns: ['id'] }))
+    expect(fetchRows).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 10, rowEnd: 20, columns: ['id'] }))
+    // the last chunk is shorter
+    expect(fetchRows).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 20, rowEnd: 25, columns: ['id'] }))
+    expect(onResolve).toHaveBeenCalledTimes(3)
+
+    expect(data.getCell({ row: 12, column: 'id' })).toEqual({ value: 12 })
+    expect(data.getCell({ row: 24, column: 'id' })).toEqual({ value: 24 })
+    // the other columns are not fetched
+    expect(data.getCell({ row: 12, column: 'double' })).toBeUndefined()
+    expect(data.getRowNumber({ row: 12 })).toEqual({ value: 12 })
+  })
+
+  it('should not fetch the cached or in-flight chunks again', async () => {
+    const fetchRows = createFetchRows()
+    const data = cachedDataFrame(fetchRows, { numRows: 25, columnDescriptors, chunkSize: 10 })
+
+    await Promise.all([
+      data.fetch?.({ rowStart: 0, rowEnd: 5, columns: ['id'] }),
+      data.fetch?.({ rowStart: 5, rowEnd: 15, columns: ['id', 'double'] }),
+    ])
+    expect(fetchRows).toHaveBeenCalledTimes(3)
+    // the missing column of the in-flight chunk is fetched separately
+    expect(fetchRows).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 0, rowEnd: 10, columns: ['double'] }))
+    expect(fetchRows).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 10, rowEnd: 20, columns: ['id', 'double'] }))
+
+    await data.fetch?.({ rowStart: 0, rowEnd: 20, columns: ['double', 'id'] })
+    expect(fetchRows).toHaveBeenCalledTimes(3)
+    expect(data.getCell({ row: 3, column: 'double' })).toEqual({ value: 6 })
+  })
+
+  it('should evict the least recently used chunks beyond maxCachedRows', async () => {
+    const fetchRows = createFetchRows()
+    const data = cachedDataFrame(fetchRows, { numRows: 25, columnDescriptors, chunkSize: 10, maxCachedRows: 20 })
+
+    await data.fetch?.({ rowStart: 0, rowEnd: 10, columns: ['id'] })
+    await data.fetch?.({ rowStart: 10, rowEnd: 20, columns: ['id'] })
+    // read the first chunk, so that the second one is the least recently used
+    expect(data.getCell({ row: 0, column: 'id' })).toEqual({ value: 0 })
+    await data.fetch?.({ rowStart: 20, rowEnd: 25, columns: ['id'] })
+
+    expect(data.getCell({ row: 0, column: 'id' })).toEqual({ value: 0 })
+    expect(data.getCell({ row: 10, column: 'id' })).toBeUndefined()
+    expect(data.getCell({ row: 20, column: 'id' })).toEqual({ value: 20 })
+
+    // the evicted chunk is fetched again
+    await data.fetch?.({ rowStart: 10, rowEnd: 11, columns: ['id'] })
+    expect(fetchRows).toHaveBeenCalledTimes(4)
+  })
+
+  it('should keep the chunks of an ongoing fetch, even beyond maxCachedRows', async () => {
+    const data = cachedDataFrame(createFetchRows(), { numRows: 25, columnDescriptors, chunkSize: 10, maxCachedRows: 10 })
+    await data.fetch?.({ rowStart: 0, rowEnd: 25, columns: ['id'] })
+    expect(data.getCell({ row: 0, column: 'id' })).toEqual({ value: 0 })
+    expect(data.getCell({ row: 24, column: 'id' })).toEqual({ value: 24 })
+  })
+
+  it('should abort a request only when all the fetch calls waiting for it are aborted', async () => {
+    const fetchRows = createFetchRows()
+    const data = cachedDataFrame(fetchRows, { numRows: 25, columnDescriptors, chunkSize: 10 })
+    const controller1 = new AbortController()
+    const controller2 = new AbortController()
+    const promise1 = data.fetch?.({ rowStart: 0, rowEnd: 5, columns: ['id'], signal: controller1.signal })
+    const promise2 = data.fetch?.({ rowStart: 5, rowEnd: 10, columns: ['id'], signal: controller2.signal })
+    const signal = fetchRows.mock.calls[0]?.[0].signal
+
+    controller1.abort()
+    await expect(promise1).rejects.toThrow('The operation was aborted.')
+    expect(signal?.aborted).toBe(false)
+
+    controller2.abort()
+    await expect(promise2).rejects.toThrow('The operation was aborted.')
+    expect(signal?.aborted).toBe(true)
+
+    // the chunk is requested again
+    await data.fetch?.({ rowStart: 0, rowEnd: 10, columns: ['id'] })
+    expect(fetchRows).toHaveBeenCalledTimes(2)
+    expect(data.getCell({ row: 0, column: 'id' })).toEqual({ value: 0 })
+  })
+
+  it('should reject if the request fails, and request the chunk again on the next fetch', async () => {
+    const fetchRows = vi.fn(() => Promise.resolve<Cells[]>([{ id: 0 }]))
+    fetchRows.mockRejectedValueOnce(new Error('Network error'))
+    const data = cachedDataFrame(fetchRows, { numRows: 1, columnDescriptors })
+    await expect(data.fetch?.({ rowStart: 0, rowEnd: 1, columns: ['id'] })).rejects.toThrow('Network error')
+    await data.fetch?.({ rowStart: 0, rowEnd: 1, columns: ['id'] })
+    expect(data.getCell({ row: 0, column: 'id' })).toEqual({ value: 0 })
+  })
+
+  it('should return the error of a failed chunk, until it is fetched again successfully', async () => {
+    const fetchRows = vi.fn(() => Promise.resolve<Cells[]>([{ id: 0, double: 0 }]))
+    fetchRows.mockRejectedValueOnce('Network error')
+    const data = cachedDataFrame(fetchRows, { numRows: 1, columnDescriptors })
+    const onResolve = vi.fn()
+    data.eventTarget?.addEventListener('resolve', onResolve)
+
+    await expect(data.fetch?.({ rowStart: 0, rowEnd: 1, columns: ['id'] })).rejects.toBe('Network error')
+    expect(onResolve).toHaveBeenCalledOnce()
+    // the thrown values are wrapped in errors
+    expect(data.getCellError?.({ row: 0, column: 'id' })).toEqual({ error: new Error('Network error') })
+    expect(data.getCellError?.({ row: 0, column: 'double' })).toBeUndefined()
+
+    await data.fetch?.({ rowStart: 0, rowEnd: 1, columns: ['id'] })
+    expect(data.getCellError?.({ row: 0, column: 'id' })).toBeUndefined()
+    expect(data.getCell({ row: 0, column: 'id' })).toEqual({ value: 0 })
+  })
+
+  it('should not return an error for an aborted request', async () => {
+    const data = cachedDataFrame(createFetchRows(), { numRows: 25, columnDescriptors, chunkSize: 10 })
+    const controller = new AbortController()
+    const promise = data.fetch?.({ rowStart: 0, rowEnd: 10, columns: ['id'], signal: controller.signal })
+    controller.abort()
+    await expect(promise).rejects.toThrow('The operation was aborted.')
+    // let the aborted request settle
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(data.getCellError?.({ row: 0, column: 'id' })).toBeUndefined()
+  })
+
+  it('should reject if the number of fetched rows is wrong', async () => {
+    const data = cachedDataFrame(() => Promise.resolve([]), { numRows: 1, columnDescriptors })
+    await expect(data.fetch?.({ rowStart: 0, rowEnd: 1, columns: ['id'] })).rejects.toThrow('Invalid number of rows fetched: 0 for the rows 0 - 1')
+  })
+
+  it('should throw if the options are invalid', () => {
+    const fetchRows = createFetchRows()
+    expect(() => cachedDataFrame(fetchRows, { numRows: -1, columnDescriptors })).toThrow('Invalid number of rows')
+    expect(() => cachedDataFrame(fetchRows, { numRows: 25, columnDescriptors, chunkSize: 0 })).toThrow('Invalid chunk size')
+    expect(() => cachedDataFrame(fetchRows, { numRows: 25, columnDescriptors, maxCachedRows: -1 })).toThrow('Invalid maximum number of cached rows')
+  })
+
+  it('should be sortable with sortableDataFrame', async () => {
+    const data = sortableDataFrame(cachedDataFrame(createFetchRows(), { numRows: 25, columnDescriptors, chunkSize: 10, maxCachedRows: 10 }))
+    const orderBy = [{ column: 'id', direction: 'descending' as const }]
+    await data.fetch?.({ rowStart: 0, rowEnd: 2, columns: ['double'], orderBy })
+    expect(data.getCell({ row: 0, column: 'double', orderBy })).toEqual({ value: 48 })
+    expect(data.getRowNumber({ row: 1, orderBy })).toEqual({ value: 23 })
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+
+import { arrayDataFrame } from '../../../src/helpers/dataframe/array.js'
+import type { ExportOptions } from '../../../src/helpers/dataframe/export.js'
+import { exportDataFrame } from '../../../src/helpers/dataframe/export.js'
+import { groupedDataFrame } from '../../../src/helpers/dataframe/group.js'
+import { sortableDataFrame } from '../../../src/helpers/dataframe/sort.js'
+import type { DataFrame } from '../../../src/helpers/dataframe/types.js'
+import { delayedDataFrame } from './fixtures.js'
+
+function createTestData() {
+  return [
+    { id: 1, name: 'Alice', age: 30 },
+    { id: 2, name: 'Bob, Jr.', age: 25 },
+    { id: 3, name: 'Charlie "Chuck"', age: null },
+    { id: 4, name: 'Dani', age: 20 },
+  ]
+}
+
+async function collect(data: DataFrame, options: ExportOptions): Promise<string[]> {
+  const chunks: string[] = []
+  for await (const chunk of exportDataFrame(data, options)) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+describe('exportDataFrame', () => {
+  it('should export all the rows and columns as CSV, with a header line', async () => {
+    const chunks = await collect(arrayDataFrame(createTestData()), { format: 'csv' })
+    expect(chunks.join('')).toBe(
+      'id,name,age\n1,Alice,30\n2,"Bob, Jr.",25\n3,"Charlie ""Chuck""",\n4,Dani,20\n'
+    )
+  })
+
+  it('should export as TSV, with a header line', async () => {
+    const chunks = await collect(arrayDataFrame(createTestData()), { format: 'tsv' })
+    expect(chunks.join('')).toBe(
+      'id\tname\tage\n1\tAlice\t30\n2\tBob, Jr.\t25\n3\t"Charlie ""Chuck"""\t\n4\tDani\t20\n'
+    )
+  })
+
+  it('should export as JSONL, with the raw values', async () => {
+    const data = arrayDataFrame([{ id: 1n, date: new Date(0), tags: ['a'], missing: undefined }])
+    const chunks = await collect(data, { format: 'jsonl' })
+    expect(chunks.join('')).toBe('{"id":"1","date":"1970-01-01T00:00:00.000Z","tags":["a"],"missing":null}\n')
+  })
+
+  it('should only export the requested columns, in order', async () => {
+    const chunks = await collect(arrayDataFrame(createTestData()), { format: 'csv', columns: ['name', 'id'] })
+    expect(chunks[0]).toBe('name,id\n')
+    expect(chunks[1]?.split('\n')[0]).toBe('Alice,1')
+  })
+
+  it('should throw if a column does not exist', async () => {
+    await expect(collect(arrayDataFrame(createTestData()), { format: 'csv', columns: ['doesnotexist'] })).rejects.toThrow('Invalid column: doesnotexist')
+  })
+
+  it('should respect the order of the rows', async () => {
+    const data = sortableDataFrame(arrayDataFrame(createTestData()))
+    const chunks = await collect(data, { format: 'csv', columns: ['id'], orderBy: [{ column: 'name', direction: 'descending' }] })
+    expect(chunks.join('')).toBe('id\n4\n3\n2\n1\n')
+  })
+
+  it('should only export the selected rows, identified by their row number, in the current order', async () => {
+    const data = sortableDataFrame(arrayDataFrame(createTestData()))
+    const chunks = await collect(data, {
+      format: 'csv',
+      columns: ['id'],
+      orderBy: [{ column: 'id', direction: 'descending' }],
+      selection: { ranges: [{ start: 0, end: 2 }] },
+    })
+    expect(chunks.join('')).toBe('id\n2\n1\n')
+  })
+
+  it('should skip the group header rows', async () => {
+    const data = groupedDataFrame(arrayDataFrame(createTestData()), { groupBy: ['age'] })
+    expect(data.numRows).toBe(8)
+    await expect(collect(data, { format: 'csv', columns: ['id'] })).resolves.toEqual(['id\n', '4\n2\n1\n3\n'])
+    await expect(collect(data, { format: 'csv', columns: ['id'], selection: { ranges: [{ start: 0, end: 2 }] } })).resolves.toEqual(['id\n', '2\n1\n'])
+  })
+
+  it('should use the stringify option for CSV and TSV', async () => {
+    const chunks = await collect(arrayDataFrame(createTestData()), { format: 'tsv', columns: ['age'], stringify: value => value === null ? 'N/A' : `${value as number} years` })
+    expect(chunks.join('')).toBe('age\n30 years\n25 years\nN/A\n20 years\n')
+  })
+
+  it('should apply the formatting options of the columns, with the locale, for CSV and TSV', async () => {
+    const data = arrayDataFrame([
+      { amount: 1234.5, day: Date.UTC(2024, 2, 5) },
+      { amount: null, day: Date.UTC(2024, 11, 31) },
+    ], undefined, { columnDescriptors: [{ name: 'amount', type: 'number' }, { name: 'day', type: 'date' }] })
+    const columnFormats = { amount: { number: { style: 'currency', currency: 'EUR' } }, day: { date: { dateStyle: 'short' } } } as const
+    const chunks = await collect(data, { format: 'tsv', columnFormats, locale: 'de-DE' })
+    expect(chunks.join('')).toBe('amount\tday\n1.234,50\u00a0€\t05.03.24\n\t31.12.24\n')
+    // the jsonl format serializes the raw values
+    const jsonl = await collect(data, { format: 'jsonl', columnFormats, locale: 'de-DE' })
+    expect(jsonl.join('')).toBe(`{"amount":1234.5,"day":${Date.UTC(2024, 2, 5)}}\n{"amount":null,"day":${Date.UTC(2024, 11, 31)}}\n`)
+  })
+
+  it('should fetch the rows in chunks, and yield one text chunk per fetched chunk', async () => {
+    const data = delayedDataFrame(arrayDataFrame(createTestData()))
+    const chunks = await collect(data, { format: 'jsonl', columns: ['id'], chunkSize: 3 })
+    expect(chunks).toEqual(['{"id":1}\n{"id":2}\n{"id":3}\n', '{"id":4}\n'])
+    expect(data.fetch).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 0, rowEnd: 3, columns: ['id'] }))
+    expect(data.fetch).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 3, rowEnd: 4, columns: ['id'] }))
+  })
+
+  it('should throw if the chunk size is invalid', async () => {
+    await expect(collect(arrayDataFrame(createTestData()), { format: 'csv', chunkSize: 0 })).rejects.toThrow('Invalid chunk size')
+  })
+
+  it('should stop with an AbortError if the signal is aborted', async () => {
+    const controller = new AbortController()
+    const data = delayedDataFrame(arrayDataFrame(createTestData()))
+    const iterator = exportDataFrame(data, { format: 'csv', chunkSize: 2, signal: controller.signal })
+    await expect(iterator.next()).resolves.toEqual({ done: false, value: 'id,name,age\n' })
+    controller.abort()
+    await expect(iterator.next()).rejects.toThrow('The operation was aborted.')
+  })
+})
@@ -0,0 +1,213 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { arrayDataFrame } from '../../../src/helpers/dataframe/array.js'
+import { filterableDataFrame } from '../../../src/helpers/dataframe/filter.js'
+import { sortableDataFrame } from '../../../src/helpers/dataframe/sort.js'
+import type { DataFrame } from '../../../src/helpers/dataframe/types.js'
+import { delayedDataFrame } from './fixtures.js'
+
+function createTestData() {
+  return [
+    { id: 1, name: 'Alice', age: 30 },
+    { id: 2, name: 'Bob', age: 25 },
+    { id: 3, name: 'Charlie', age: 35 },
+    { id: 4, name: 'Dani', age: 20 },
+  ]
+}
+
+/** Wrap a data frame so that its cells are only available after a fetch, and only for the last fetched rows */
+function evictingDataFrame(data: DataFrame, maxCachedRows: number): DataFrame {
+  const cachedRows = new Set<number>()
+  return {
+    ...data,
+    getCell({ row, column, orderBy }) {
+      return cachedRows.has(row) ? data.getCell({ row, column, orderBy }) : undefined
+    },
+    fetch({ rowStart, rowEnd }) {
+      for (let row = rowStart; row < rowEnd; row++) {
+        cachedRows.delete(row)
+        cachedRows.add(row)
+      }
+      // evict the least recently fetched rows
+      for (const row of cachedRows) {
+        if (cachedRows.size <= maxCachedRows) {
+          break
+        }
+        cachedRows.delete(row)
+      }
+      return Promise.resolve()
+    },
+  }
+}
+
+describe('filterableDataFrame', () => {
+  it('should only expose the matching rows', () => {
+    const df = filterableDataFrame(arrayDataFrame(createTestData()), ({ age }) => age >= 30)
+    expect(df.numRows).toBe(2)
+    expect(df.getCell({ row: 0, column: 'name' })?.value).toBe('Alice')
+    expect(df.getCell({ row: 1, column: 'name' })?.value).toBe('Charlie')
+    expect(df.getCell({ row: 2, column: 'name' })).toBeUndefined()
+  })
+
+  it('should return the upstream row number', () => {
+    const df = filterableDataFrame(arrayDataFrame(createTestData()), ({ age }) => age >= 30)
+    expect(df.getRowNumber({ row: 0 })?.value).toBe(0)
+    expect(df.getRowNumber({ row: 1 })?.value).toBe(2)
+  })
+
+  it('should only pass the required columns to the predicate', () => {
+    const predicate = vi.fn(() => true)
+    filterableDataFrame(arrayDataFrame(createTestData()), predicate, { columns: ['name'] })
+    expect(predicate).toHaveBeenCalledTimes(4)
+    expect(predicate).toHaveBeenCalledWith({ name: 'Alice' })
+  })
+
+  it('should throw if a predicate column does not exist', () => {
+    expect(() => filterableDataFrame(arrayDataFrame(createTestData()), () => true, { columns: ['doesnotexist'] })).toThrow('Invalid column: doesnotexist')
+  })
+
+  it('should preserve the column descriptors and the sortable flags', () => {
+    const df = filterableDataFrame(sortableDataFrame(arrayDataFrame(createTestData())), () => true)
+    expect(df.columnDescriptors.map(({ name }) => name)).toEqual(['id', 'name', 'age'])
+    expect(df.columnDescriptors.every(({ sortable }) => sortable)).toBe(true)
+  })
+
+  it('should compute the matching rows on fetch if the upstream data frame is asynchronous', async () => {
+    const df = filterableDataFrame(delayedDataFrame(arrayDataFrame(createTestData())), ({ age }) => age < 30)
+    expect(df.numRows).toBe(0)
+    const onNumRowsChange = vi.fn()
+    df.eventTarget?.addEventListener('numrowschange', onNumRowsChange)
+    await df.fetch?.({ rowStart: 0, rowEnd: 0 })
+    expect(onNumRowsChange).toHaveBeenCalledOnce()
+    expect(df.numRows).toBe(2)
+    await df.fetch?.({ rowStart: 0, rowEnd: 2, columns: ['name'] })
+    expect(df.getCell({ row: 0, column: 'name' })?.value).toBe('Bob')
+    expect(df.getCell({ row: 1, column: 'name' })?.value).toBe('Dani')
+  })
+
+  it('should fetch the upstream cells again if they were evicted before the predicate is evaluated', async () => {
+    const rows = Array.from({ length: 2500 }, (_, id) => ({ id }))
+    const df = filterableDataFrame(evictingDataFrame(arrayDataFrame(rows), 1000), ({ id }) => typeof id === 'number' && id % 2 === 0)
+    await df.fetch?.({ rowStart: 0, rowEnd: 0 })
+    expect(df.numRows).toBe(1250)
+    expect(df.getRowNumber({ row: 1249 })?.value).toBe(2498)
+  })
+
+  it('should compute the matching rows only once for the concurrent fetches with the same orderBy', async () => {
+    const upstream = delayedDataFrame(arrayDataFrame(createTestData()))
+    const upstreamFetch = vi.spyOn(upstream, 'fetch')
+    const df = filterableDataFrame(upstream, ({ age }) => age < 30, { columns: ['age'] })
+    const onNumRowsChange = vi.fn()
+    df.eventTarget?.addEventListener('numrowschange', onNumRowsChange)
+    await Promise.all([df.fetch?.({ rowStart: 0, rowEnd: 0 }), df.fetch?.({ rowStart: 0, rowEnd: 0 })])
+    expect(df.numRows).toBe(2)
+    expect(upstreamFetch).toHaveBeenCalledOnce()
+    expect(onNumRowsChange).toHaveBeenCalledOnce()
+  })
+
+  it('should reject with an AbortError if the signal is aborted', async () => {
+    const df = filterableDataFrame(delayedDataFrame(arrayDataFrame(createTestData())), () => true)
+    const controller = new AbortController()
+    const promise = df.fetch?.({ rowStart: 0, rowEnd: 0, signal: controller.signal })
+    controller.abort()
+    await expect(promise).rejects.toThrow('The operation was aborted.')
+    expect(df.numRows).toBe(0)
+  })
+
+  it('should be composable with sortableDataFrame (filter, then sort)', async () => {
+    const df = sortableDataFrame(filterableDataFrame(arrayDataFrame(createTestData()), ({ age }) => age >= 25))
+    const orderBy = [{ column: 'age', direction: 'descending' as const }]
+    await df.fetch?.({ rowStart: 0, rowEnd: df.numRows, columns: ['name'], orderBy })
+    expect(df.numRows).toBe(3)
+    expect(df.getCell({ row: 0, column: 'name', orderBy })?.value).toBe('Charlie')
+    expect(df.getCell({ row: 1, column: 'name', orderBy })?.value).toBe('Alice')
+    expect(df.getCell({ row: 2, column: 'name', orderBy })?.value).toBe('Bob')
+    expect(df.getRowNumber({ row: 0, orderBy })?.value).toBe(2)
+  })
+
+  it('should be composable with sortableDataFrame (sort, then filter)', async () => {
+    const df = filterableDataFrame(sortableDataFrame(arrayDataFrame(createTestData())), ({ age }) => age >= 25)
+    const orderBy = [{ column: 'age', direction: 'descending' as const }]
+    await df.fetch?.({ rowStart: 0, rowEnd: df.numRows, columns: ['name'], orderBy })
+    expect(df.numRows).toBe(3)
+    expect(df.getCell({ row: 0, column: 'name', orderBy })?.value).toBe('Charlie')
+    expect(df.getCell({ row: 1, column: 'name', orderBy })?.value).toBe('Alice')
+    expect(df.getCell({ row: 2, column: 'name', orderBy })?.value).toBe('Bob')
+    expect(df.getRowNumber({ row: 0, orderBy })?.value).toBe(2)
+    // the unsorted rows are computed separately
+    expect(df.getCell({ row: 0, column: 'name' })).toBeUndefined()
+    await df.fetch?.({ rowStart: 0, rowEnd: df.numRows, columns: ['name'] })
+    expect(df.getCell({ row: 0, column: 'name' })?.value).toBe('Alice')
+  })
+
+  it('should refresh the matching rows when the upstream data changes', async () => {
+    const data = arrayDataFrame(createTestData())
+    const df = filterableDataFrame(data, ({ age }) => age >= 30)
+    expect(df.numRows).toBe(2)
+
+    await new Promise<void>((done) => {
+      df.eventTarget?.addEventListener('numrowschange', () => {
+        expect(df.numRows).toBe(3)
+        expect(df.getCell({ row: 2, column: 'name' })?.value).toBe('Eve')
+        done()
+      })
+      data._array.push({ id: 5, name: 'Eve', age: 40 })
+    })
+
+    await new Promise<void>((done) => {
+      df.eventTarget?.addEventListener('update', () => {
+        expect(df.numRows).toBe(2)
+        expect(df.getCell({ row: 0, column: 'name' })?.value).toBe('Charlie')
+        done()
+      })
+      data._array[0] = { id: 1, name: 'Alice', age: 29 }
+    })
+  })
+
+  it('should dispatch an error event if the matching rows cannot be refreshed after an upstream change', async () => {
+    const data = arrayDataFrame(createTestData())
+    const error = new Error('fetch failed')
+    const fetch = vi.fn<NonNullable<DataFrame['fetch']>>().mockResolvedValueOnce(undefined).mockRejectedValue(error)
+    const df = filterableDataFrame({ ...data, fetch }, ({ age }) => age >= 30)
+    await df.fetch?.({ rowStart: 0, rowEnd: 0 })
+    expect(df.numRows).toBe(2)
+
+    const onUpdate = vi.fn()
+    df.eventTarget?.addEventListener('update', onUpdate)
+    await new Promise<void>((done) => {
+      df.eventTarget?.addEventListener('error', (event) => {
+        expect(event.detail).toBe(error)
+        done()
+      })
+      data.eventTarget?.dispatchEvent(new CustomEvent('update'))
+    })
+    expect(onUpdate).not.toHaveBeenCalled()
+  })
+
+  it('should stop listening to the upstream events when the signal is aborted', async () => {
+    const data = arrayDataFrame(createTestData())
+    const fetch = vi.fn<NonNullable<DataFrame['fetch']>>().mockResolvedValue(undefined)
+    const controller = new AbortController()
+    const df = filterableDataFrame({ ...data, fetch }, ({ age }) => age >= 30, { signal: controller.signal })
+    await df.fetch?.({ rowStart: 0, rowEnd: 0 })
+    expect(fetch).toHaveBeenCalledOnce()
+
+    controller.abort()
+    const onUpdate = vi.fn()
+    df.eventTarget?.addEventListener('update', onUpdate)
+    data.eventTarget?.dispatchEvent(new CustomEvent('update'))
+    data.eventTarget?.dispatchEvent(new CustomEvent('numrowschange'))
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(onUpdate).not.toHaveBeenCalled()
+  })
+
+  it('should set a cell in the upstream row', async () => {
+    const data = arrayDataFrame(createTestData())
+    const df = filterableDataFrame(data, ({ age }) => age >= 30)
+    // Charlie is the second matching row
+    await df.setCell?.({ row: 1, column: 'name', value: 'Charles' })
+    expect(data.getCell({ row: 2, column: 'name' })?.value).toBe('Charles')
+    expect(df.getCell({ row: 1, column: 'name' })?.value).toBe('Charles')
+  })
+})
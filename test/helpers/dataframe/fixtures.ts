@@ -0,0 +1,40 @@
+import { vi } from 'vitest'
+
+import type { DataFrame } from '../../../src/helpers/dataframe/types.js'
+
+/**
+ * Wrap a data frame so that its cells and row numbers are only available after a fetch.
+ *
+ * The fetch resolves after a timeout, or rejects with an AbortError if its signal is aborted before.
+ */
+export function delayedDataFrame(data: DataFrame): DataFrame & { fetch: ReturnType<typeof vi.fn> } {
+  const fetched = new Set<number>()
+  const fetch = vi.fn(({ rowStart, rowEnd, signal }: { rowStart: number, rowEnd: number, signal?: AbortSignal }) => {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('The operation was aborted.', 'AbortError'))
+        return
+      }
+      const timeout = setTimeout(() => {
+        for (let row = rowStart; row < rowEnd; row++) {
+          fetched.add(row)
+        }
+        resolve()
+      }, 1)
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timeout)
+        reject(new DOMException('The operation was aborted.', 'AbortError'))
+      })
+    })
+  })
+  return {
+    ...data,
+    getCell({ row, column, orderBy }) {
+      return fetched.has(row) ? data.getCell({ row, column, orderBy }) : undefined
+    },
+    getRowNumber({ row, orderBy }) {
+      return fetched.has(row) ? data.getRowNumber({ row, orderBy }) : undefined
+    },
+    fetch,
+  }
+}
@@ -0,0 +1,242 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { arrayDataFrame } from '../../../src/helpers/dataframe/array.js'
+import type { GroupedDataFrame } from '../../../src/helpers/dataframe/group.js'
+import { getGroupKey, groupedDataFrame } from '../../../src/helpers/dataframe/group.js'
+import { sortableDataFrame } from '../../../src/helpers/dataframe/sort.js'
+import type { DataFrame } from '../../../src/helpers/dataframe/types.js'
+import type { OrderBy } from '../../../src/helpers/sort.js'
+import { delayedDataFrame } from './fixtures.js'
+
+function createTestData() {
+  return [
+    { id: 1, fruit: 'banana', color: 'yellow', weight: 120 },
+    { id: 2, fruit: 'apple', color: 'red', weight: 150 },
+    { id: 3, fruit: 'banana', color: 'green', weight: 100 },
+    { id: 4, fruit: 'apple', color: 'green', weight: 130 },
+    { id: 5, fruit: 'apple', color: 'red', weight: 170 },
+  ]
+}
+
+/** Describe the rows of a grouped data frame: the group labels and the ids of the data rows */
+function describeRows(df: GroupedDataFrame, orderBy?: OrderBy): string[] {
+  return Array.from({ length: df.numRows }, (_, row) => {
+    const group = df.getGroup({ row, orderBy })
+    if (group) {
+      return `${'  '.repeat(group.depth)}${group.collapsed ? '+' : '-'} ${String(group.value)} (${group.count})`
+    }
+    return `${'  '.repeat(2)}${String(df.getCell({ row, column: 'id', orderBy })?.value)}`
+  })
+}
+
+describe('getGroupKey', () => {
+  it('should serialize the grouping values', () => {
+    expect(getGroupKey(['apple', 1])).toBe('["apple",1]')
+  })
+
+  it('should put null and undefined values in the same group', () => {
+    expect(getGroupKey([undefined])).toBe(getGroupKey([null]))
+  })
+
+  it('should put the dates with the same time in the same group', () => {
+    expect(getGroupKey([new Date(0)])).toBe(getGroupKey([new Date(0)]))
+    expect(getGroupKey([new Date(0)])).not.toBe(getGroupKey([new Date(1)]))
+  })
+
+  it('should support bigint values', () => {
+    expect(getGroupKey([1n])).toBe('["1"]')
+  })
+})
+
+describe('groupedDataFrame', () => {
+  it('should insert a group header before the rows of every group, sorted by value', () => {
+    const df = groupedDataFrame(arrayDataFrame(createTestData()), { groupBy: ['fruit'] })
+    expect(describeRows(df)).toEqual([
+      '- apple (3)',
+      '    2',
+      '    4',
+      '    5',
+      '- banana (2)',
+      '    1',
+      '    3',
+    ])
+  })
+
+  it('should nest the groups', () => {
+    const df = groupedDataFrame(arrayDataFrame(createTestData()), { groupBy: ['fruit', 'color'] })
+    expect(describeRows(df)).toEqual([
+      '- apple (3)',
+      '  - green (1)',
+      '    4',
+      '  - red (2)',
+      '    2',
+      '    5',
+      '- banana (2)',
+      '  - green (1)',
+      '    3',
+      '  - yellow (1)',
+      '    1',
+    ])
+    expect(df.getGroup({ row: 3 })).toMatchObject({ key: getGroupKey(['apple', 'red']), column: 'color', value: 'red', depth: 1 })
+  })
+
+  it('should put the null values last', () => {
+    const df = groupedDataFrame(arrayDataFrame([{ id: 1, fruit: null }, { id: 2, fruit: 'apple' }]), { groupBy: ['fruit'] })
+    expect(describeRows(df)).toEqual(['- apple (1)', '    2', '- null (1)', '    1'])
+  })
+
+  it('should sort the rows inside every group with orderBy', async () => {
+    const df = groupedDataFrame(sortableDataFrame(arrayDataFrame(createTestData())), { groupBy: ['fruit'] })
+    const orderBy: OrderBy = [{ column: 'weight', direction: 'descending' }]
+    await df.fetch?.({ rowStart: 0, rowEnd: 0, orderBy })
+    expect(describeRows(df, orderBy)).toEqual([
+      '- apple (3)',
+      '    5',
+      '    2',
+      '    4',
+      '- banana (2)',
+      '    1',
+      '    3',
+    ])
+  })
+
+  it('should skip the rows and subgroups of the collapsed groups', () => {
+    const df = groupedDataFrame(arrayDataFrame(createTestData()), {
+      groupBy: ['fruit', 'color'],
+      collapsedGroups: [getGroupKey(['apple']), getGroupKey(['banana', 'yellow'])],
+    })
+    expect(describeRows(df)).toEqual([
+      '+ apple (3)',
+      '- banana (2)',
+      '  - green (1)',
+      '    3',
+      '  + yellow (1)',
+    ])
+  })
+
+  it('should collapse and expand the groups with setCollapsedGroups, and dispatch the events', () => {
+    const df = groupedDataFrame(arrayDataFrame(createTestData()), { groupBy: ['fruit'] })
+    const onNumRowsChange = vi.fn()
+    const onUpdate = vi.fn()
+    df.eventTarget?.addEventListener('numrowschange', onNumRowsChange)
+    df.eventTarget?.addEventListener('update', onUpdate)
+
+    df.setCollapsedGroups([getGroupKey(['banana'])])
+    expect(describeRows(df)).toEqual(['- apple (3)', '    2', '    4', '    5', '+ banana (2)'])
+    expect(onNumRowsChange).toHaveBeenCalledTimes(1)
+    expect(onUpdate).toHaveBeenCalledTimes(1)
+
+    df.setCollapsedGroups([])
+    expect(df.numRows).toBe(7)
+    expect(onNumRowsChange).toHaveBeenCalledTimes(2)
+  })
+
+  it('should compute the aggregates of every group', () => {
+    const df = groupedDataFrame(arrayDataFrame(createTestData()), { groupBy: ['fruit'], aggregates: ['sum', 'max'], aggregatedColumns: ['weight'] })
+    expect(df.getGroup({ row: 0 })?.aggregates).toEqual({ weight: { sum: 450, max: 170 } })
+    expect(df.getGroup({ row: 4 })?.aggregates).toEqual({ weight: { sum: 220, max: 120 } })
+  })
+
+  it('should return empty cells and no row number for the group headers', () => {
+    const df = groupedDataFrame(arrayDataFrame(createTestData()), { groupBy: ['fruit'] })
+    expect(df.getCell({ row: 0, column: 'id' })).toEqual({ value: undefined })
+    expect(df.getRowNumber({ row: 0 })).toBeUndefined()
+    expect(df.getRowNumber({ row: 1 })?.value).toBe(1)
+    expect(df.getRowNumber({ row: 4 })).toBeUndefined()
+    expect(df.getRowNumber({ row: 5 })?.value).toBe(0)
+  })
+
+  it('should not set the cells of the group headers', async () => {
+    const df = groupedDataFrame(arrayDataFrame(createTestData()), { groupBy: ['fruit'] })
+    await expect(df.setCell?.({ row: 0, column: 'id', value: 10 })).rejects.toThrow('Row 0 is a group header row, its cells cannot be set')
+    await df.setCell?.({ row: 1, column: 'id', value: 10 })
+    expect(df.getCell({ row: 1, column: 'id' })?.value).toBe(10)
+  })
+
+  it('should compute the groups again when the upstream data is updated', async () => {
+    const data = arrayDataFrame(createTestData())
+    const df = groupedDataFrame(data, { groupBy: ['fruit'] })
+    const onUpdate = vi.fn()
+    df.eventTarget?.addEventListener('update', onUpdate)
+    await df.setCell?.({ row: 1, column: 'fruit', value: 'cherry' })
+    await vi.waitFor(() => {
+      expect(onUpdate).toHaveBeenCalled()
+    })
+    expect(describeRows(df)).toEqual([
+      '- apple (2)',
+      '    4',
+      '    5',
+      '- banana (2)',
+      '    1',
+      '    3',
+      '- cherry (1)',
+      '    2',
+    ])
+  })
+
+  it('should dispatch an error event if the groups cannot be computed again after an upstream change', async () => {
+    const data = arrayDataFrame(createTestData())
+    const error = new Error('fetch failed')
+    const fetch = vi.fn<NonNullable<DataFrame['fetch']>>().mockResolvedValueOnce(undefined).mockRejectedValue(error)
+    const df = groupedDataFrame({ ...data, fetch }, { groupBy: ['fruit'] })
+    await df.fetch?.({ rowStart: 0, rowEnd: 0 })
+    expect(df.numRows).toBe(7)
+
+    const onUpdate = vi.fn()
+    const onError = vi.fn()
+    df.eventTarget?.addEventListener('update', onUpdate)
+    df.eventTarget?.addEventListener('error', onError)
+    data.eventTarget?.dispatchEvent(new CustomEvent('update'))
+    await vi.waitFor(() => {
+      expect(onError).toHaveBeenCalledOnce()
+    })
+    expect(onError.mock.calls[0]?.[0]).toMatchObject({ detail: error })
+    expect(onUpdate).not.toHaveBeenCalled()
+  })
+
+  it('should stop listening to the upstream events when the signal is aborted', async () => {
+    const data = arrayDataFrame(createTestData())
+    const fetch = vi.fn<NonNullable<DataFrame['fetch']>>().mockResolvedValue(undefined)
+    const controller = new AbortController()
+    const df = groupedDataFrame({ ...data, fetch }, { groupBy: ['fruit'], signal: controller.signal })
+    await df.fetch?.({ rowStart: 0, rowEnd: 0 })
+    expect(fetch).toHaveBeenCalledOnce()
+
+    controller.abort()
+    const onUpdate = vi.fn()
+    df.eventTarget?.addEventListener('update', onUpdate)
+    data.eventTarget?.dispatchEvent(new CustomEvent('update'))
+    data.eventTarget?.dispatchEvent(new CustomEvent('numrowschange'))
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(onUpdate).not.toHaveBeenCalled()
+  })
+
+  it('should only know the groups after the first fetch if the upstream data frame is asynchronous', async () => {
+    const df = groupedDataFrame(delayedDataFrame(arrayDataFrame(createTestData())), { groupBy: ['fruit'] })
+    const onNumRowsChange = vi.fn()
+    df.eventTarget?.addEventListener('numrowschange', onNumRowsChange)
+    expect(df.numRows).toBe(0)
+    await df.fetch?.({ rowStart: 0, rowEnd: 2 })
+    expect(df.numRows).toBe(7)
+    expect(onNumRowsChange).toHaveBeenCalledTimes(1)
+    expect(df.getGroup({ row: 0 })?.value).toBe('apple')
+  })
+
+  it('should compute the groups only once for the concurrent fetches with the same orderBy', async () => {
+    const upstream = delayedDataFrame(arrayDataFrame(createTestData()))
+    const upstreamFetch = vi.spyOn(upstream, 'fetch')
+    const df = groupedDataFrame(upstream, { groupBy: ['fruit'] })
+    const onNumRowsChange = vi.fn()
+    df.eventTarget?.addEventListener('numrowschange', onNumRowsChange)
+    await Promise.all([df.fetch?.({ rowStart: 0, rowEnd: 0 }), df.fetch?.({ rowStart: 0, rowEnd: 0 })])
+    expect(df.numRows).toBe(7)
+    expect(upstreamFetch).toHaveBeenCalledOnce()
+    expect(onNumRowsChange).toHaveBeenCalledOnce()
+  })
+
+  it('should throw if groupBy is empty or contains an unknown column', () => {
+    expect(() => groupedDataFrame(arrayDataFrame(createTestData()), { groupBy: [] })).toThrow('groupBy must contain at least one column')
+    expect(() => groupedDataFrame(arrayDataFrame(createTestData()), { groupBy: ['doesnotexist'] })).toThrow('Invalid column: doesnotexist')
+  })
+})
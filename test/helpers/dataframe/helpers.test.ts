@@ -1,6 +1,7 @@
-import { describe, expect, it } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
 
-import { createGetRowNumber, validateColumn, validateRow } from '../../../src/helpers/dataframe/helpers.js'
+import { compareValues, createGetRowNumber, createSharedComputations, toLosslessText, validateColumn, validateRow } from '../../../src/helpers/dataframe/helpers.js'
+import type { DataFrame } from '../../../src/helpers/dataframe/types.js'
 
 describe('createGetRowNumber', () => {
   it('should return the correct row number without orderBy', () => {
@@ -56,7 +57,7 @@ describe('validateRow', () => {
 })
 
 describe('validateColumn', () => {
-  const data = {
+  const data: Pick<DataFrame, 'columnDescriptors'> = {
     columnDescriptors: [
       { name: 'col1', type: 'string', sortable: true },
       { name: 'col2', type: 'number', sortable: false },
@@ -86,7 +87,7 @@ describe('validateColumn', () => {
   })
 
   it('should accept a mutable data object', () => {
-    const mutableData = {
+    const mutableData: Pick<DataFrame, 'columnDescriptors'> = {
       columnDescriptors: [
         { name: 'col1', type: 'string', sortable: true },
       ],
@@ -100,3 +101,106 @@ describe('validateColumn', () => {
     }).not.toThrow()
   })
 })
+
+describe('toLosslessText', () => {
+  it('should not format the numbers', () => {
+    expect(toLosslessText(1234567.891)).toBe('1234567.891')
+    expect(toLosslessText(12345678901234567890n)).toBe('12345678901234567890')
+  })
+  it('should return an empty text for null and undefined', () => {
+    expect(toLosslessText(null)).toBe('')
+    expect(toLosslessText(undefined)).toBe('')
+  })
+  it('should serialize the other values', () => {
+    expect(toLosslessText('text')).toBe('text')
+    expect(toLosslessText(true)).toBe('true')
+    expect(toLosslessText(new Date('2024-01-02T03:04:05.000Z'))).toBe('2024-01-02T03:04:05.000Z')
+    expect(toLosslessText({ a: [1, 2n] })).toBe('{"a":[1,"2"]}')
+  })
+})
+
+describe('compareValues', () => {
+  it('should compare the numbers and the bigints by value', () => {
+    expect(compareValues(1, 2)).toBeLessThan(0)
+    expect(compareValues(10n, 2)).toBeGreaterThan(0)
+    expect(compareValues(2n, 2)).toBe(0)
+  })
+
+  it('should compare the strings by code units, and the dates by time', () => {
+    expect(compareValues('B', 'a')).toBeLessThan(0)
+    expect(compareValues(new Date('2024-01-02'), new Date('2024-01-01'))).toBeGreaterThan(0)
+    expect(compareValues(new Date('2024-01-01'), new Date('2024-01-01'))).toBe(0)
+  })
+
+  it('should compare the values of different types by their string representation', () => {
+    expect(compareValues(10, '9')).toBeLessThan(0)
+    expect(compareValues(false, true)).toBeLessThan(0)
+  })
+})
+
+describe('createSharedComputations', () => {
+  function createDeferredCompute() {
+    let resolve: (value: number) => void = () => undefined
+    const signals: AbortSignal[] = []
+    const compute = vi.fn((signal: AbortSignal) => {
+      signals.push(signal)
+      return new Promise<number>((r) => {
+        resolve = r
+      })
+    })
+    function resolveComputation(value: number) {
+      resolve(value)
+    }
+    return { compute, signals, resolve: resolveComputation }
+  }
+
+  it('should share the pending computation between the calls with the same key', async () => {
+    const { run } = createSharedComputations<number>()
+    const { compute, resolve } = createDeferredCompute()
+    const first = run({ key: 'a', compute })
+    const second = run({ key: 'a', compute })
+    resolve(42)
+    await expect(Promise.all([first, second])).resolves.toEqual([42, 42])
+    expect(compute).toHaveBeenCalledOnce()
+
+    // the computation is removed once settled
+    const third = run({ key: 'a', compute })
+    resolve(43)
+    await expect(third).resolves.toBe(43)
+    expect(compute).toHaveBeenCalledTimes(2)
+  })
+
+  it('should only abort the computation when all the calls are aborted', async () => {
+    const { run } = createSharedComputations<number>()
+    const { compute, signals, resolve } = createDeferredCompute()
+    const firstController = new AbortController()
+    const secondController = new AbortController()
+    const first = run({ key: 'a', signal: firstController.signal, compute })
+    const second = run({ key: 'a', signal: secondController.signal, compute })
+
+    firstController.abort()
+    await expect(first).rejects.toThrow('The operation was aborted.')
+    expect(signals[0]?.aborted).toBe(false)
+
+    secondController.abort()
+    await expect(second).rejects.toThrow('The operation was aborted.')
+    expect(signals[0]?.aborted).toBe(true)
+
+    // the next call starts a new computation
+    const third = run({ key: 'a', compute })
+    resolve(42)
+    await expect(third).resolves.toBe(42)
+    expect(compute).toHaveBeenCalledTimes(2)
+  })
+
+  it('should start a new computation after drop', async () => {
+    const { run, drop } = createSharedComputations<number>()
+    const { compute, resolve } = createDeferredCompute()
+    void run({ key: 'a', compute })
+    drop('a')
+    const second = run({ key: 'a', compute })
+    resolve(42)
+    await expect(second).resolves.toBe(42)
+    expect(compute).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { arrayDataFrame } from '../../../src/helpers/dataframe/array.js'
+import { scanSearch, searchDataFrame } from '../../../src/helpers/dataframe/search.js'
+import { sortableDataFrame } from '../../../src/helpers/dataframe/sort.js'
+import { delayedDataFrame } from './fixtures.js'
+
+function createTestData() {
+  return [
+    { id: 1, name: 'Charlie', city: 'Paris' },
+    { id: 2, name: 'Alice', city: 'London' },
+    { id: 3, name: 'Bob', city: 'Charleroi' },
+    { id: 4, name: 'alice', city: null },
+  ]
+}
+
+describe('searchDataFrame', () => {
+  it('should find the cells that contain the query, ignoring the letter case', async () => {
+    const data = arrayDataFrame(createTestData())
+    await expect(searchDataFrame(data, { query: 'char' })).resolves.toEqual([
+      { row: 0, column: 'name' },
+      { row: 2, column: 'city' },
+    ])
+    await expect(searchDataFrame(data, { query: 'ALICE' })).resolves.toEqual([
+      { row: 1, column: 'name' },
+      { row: 3, column: 'name' },
+    ])
+  })
+
+  it('should respect the letter case if caseSensitive is true', async () => {
+    const data = arrayDataFrame(createTestData())
+    await expect(searchDataFrame(data, { query: 'alice', caseSensitive: true })).resolves.toEqual([
+      { row: 3, column: 'name' },
+    ])
+  })
+
+  it('should only search the given columns, in their order', async () => {
+    const data = arrayDataFrame(createTestData())
+    await expect(searchDataFrame(data, { query: 'l', columns: ['city', 'name'] })).resolves.toEqual([
+      { row: 0, column: 'name' },
+      { row: 1, column: 'city' },
+      { row: 1, column: 'name' },
+      { row: 2, column: 'city' },
+      // null is displayed as "null"
+      { row: 3, column: 'city' },
+      { row: 3, column: 'name' },
+    ])
+  })
+
+  it('should compare the stringified values', async () => {
+    const data = arrayDataFrame(createTestData())
+    await expect(searchDataFrame(data, { query: '3', columns: ['id'] })).resolves.toEqual([
+      { row: 2, column: 'id' },
+    ])
+    await expect(searchDataFrame(data, { query: 'nul', columns: ['city'] })).resolves.toEqual([
+      { row: 3, column: 'city' },
+    ])
+    await expect(searchDataFrame(data, { query: 'nul', columns: ['city'], stringify: value => typeof value === 'string' ? value : undefined })).resolves.toEqual([])
+  })
+
+  it('should return the rows in the given order', async () => {
+    const data = sortableDataFrame(arrayDataFrame(createTestData()))
+    const orderBy = [{ column: 'name', direction: 'ascending' as const }]
+    // sorted names: Alice, Bob, Charlie, alice
+    await expect(searchDataFrame(data, { query: 'alice', orderBy })).resolves.toEqual([
+      { row: 0, column: 'name' },
+      { row: 3, column: 'name' },
+    ])
+  })
+
+  it('should match nothing if the query is empty', async () => {
+    const data = arrayDataFrame(createTestData())
+    await expect(searchDataFrame(data, { query: '' })).resolves.toEqual([])
+  })
+
+  it('should fetch the rows in chunks', async () => {
+    const data = delayedDataFrame(arrayDataFrame(createTestData()))
+    await expect(searchDataFrame(data, { query: 'bob', columns: ['name'], chunkSize: 3 })).resolves.toEqual([
+      { row: 2, column: 'name' },
+    ])
+    expect(data.fetch).toHaveBeenCalledTimes(2)
+    expect(data.fetch).toHaveBeenNthCalledWith(1, expect.objectContaining({ rowStart: 0, rowEnd: 3, columns: ['name'] }))
+    expect(data.fetch).toHaveBeenNthCalledWith(2, expect.objectContaining({ rowStart: 3, rowEnd: 4, columns: ['name'] }))
+  })
+
+  it('should use the search method of the data frame if it exists', async () => {
+    const search = vi.fn(() => Promise.resolve([{ row: 1, column: 'id' }]))
+    const data = { ...arrayDataFrame(createTestData()), search }
+    await expect(searchDataFrame(data, { query: 'x' })).resolves.toEqual([{ row: 1, column: 'id' }])
+    expect(search).toHaveBeenCalledWith(expect.objectContaining({ query: 'x', columns: ['id', 'name', 'city'] }))
+  })
+
+  it('should sort the results of the search method of the upstream data frame', async () => {
+    const search = vi.fn(() => Promise.resolve([{ row: 1, column: 'name' }, { row: 2, column: 'city' }]))
+    const data = sortableDataFrame({ ...arrayDataFrame(createTestData()), search })
+    const orderBy = [{ column: 'id', direction: 'descending' as const }]
+    await expect(data.search?.({ query: 'x', orderBy })).resolves.toEqual([
+      { row: 1, column: 'city' },
+      { row: 2, column: 'name' },
+    ])
+    // the upstream data frame is searched without orderBy
+    expect(search).toHaveBeenCalledWith(expect.not.objectContaining({ orderBy }))
+  })
+
+  it('should throw for an invalid column', async () => {
+    const data = arrayDataFrame(createTestData())
+    await expect(searchDataFrame(data, { query: 'a', columns: ['doesnotexist'] })).rejects.toThrow('Invalid column')
+  })
+
+  it('should reject with an AbortError if the signal is aborted', async () => {
+    const data = delayedDataFrame(arrayDataFrame(createTestData()))
+    const controller = new AbortController()
+    const promise = searchDataFrame(data, { query: 'a', signal: controller.signal, chunkSize: 1 })
+    controller.abort()
+    await expect(promise).rejects.toThrow('The operation was aborted.')
+  })
+})
+
+describe('scanSearch', () => {
+  it('should throw for an invalid chunk size', async () => {
+    const data = arrayDataFrame(createTestData())
+    await expect(scanSearch({ data, numRows: data.numRows, query: 'a', columns: ['name'], chunkSize: 0 })).rejects.toThrow('Invalid chunk size')
+  })
+})
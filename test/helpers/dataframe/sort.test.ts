@@ -1,6 +1,7 @@
-import { describe, expect, it } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
 
 import { arrayDataFrame } from '../../../src/helpers/dataframe/array.js'
+import { cachedDataFrame } from '../../../src/helpers/dataframe/cached.js'
 import { sortableDataFrame } from '../../../src/helpers/dataframe/sort.js'
 
 function createTestData() {
@@ -48,4 +49,50 @@ describe('sortableDataFrame', () => {
       data._array.push({ id: 4, name: 'Dave', age: 20 })
     })
   })
+
+  it('should set a cell in the upstream row, and sort the data again', async () => {
+    const data = arrayDataFrame(createTestData())
+    const sortedData = sortableDataFrame(data)
+    const orderBy = [{ column: 'age', direction: 'ascending' as const }]
+    await sortedData.fetch?.({ rowStart: 0, rowEnd: sortedData.numRows, orderBy })
+
+    const updateListener = vi.fn()
+    sortedData.eventTarget?.addEventListener('update', updateListener)
+    // Bob is the first row with this order
+    await sortedData.setCell?.({ row: 0, column: 'age', value: 40, orderBy })
+    expect(data.getCell({ row: 1, column: 'age' })?.value).toBe(40)
+    await vi.waitFor(() => {
+      expect(updateListener).toHaveBeenCalled()
+    })
+    await sortedData.fetch?.({ rowStart: 0, rowEnd: sortedData.numRows, orderBy })
+    expect(sortedData.getCell({ row: 2, column: 'name', orderBy })?.value).toBe('Bob')
+  })
+
+  it('should not provide setCell if the upstream data frame does not', () => {
+    const { setCell, ...data } = arrayDataFrame(createTestData())
+    expect(setCell).toBeDefined()
+    expect(sortableDataFrame(data).setCell).toBeUndefined()
+  })
+
+  it('should return the error of a failed sort for the row numbers and the cells, until the rows are sorted', async () => {
+    const rows = createTestData()
+    const fetchRows = vi.fn(({ rowStart, rowEnd }: { rowStart: number, rowEnd: number }) => Promise.resolve(rows.slice(rowStart, rowEnd)))
+    fetchRows.mockRejectedValueOnce(new Error('Network error'))
+    const data = sortableDataFrame(cachedDataFrame(fetchRows, { numRows: rows.length, columnDescriptors: [{ name: 'name' }, { name: 'age' }] }))
+    const orderBy = [{ column: 'age', direction: 'ascending' as const }]
+    const onResolve = vi.fn()
+    data.eventTarget?.addEventListener('resolve', onResolve)
+
+    await expect(data.fetch?.({ rowStart: 0, rowEnd: 1, columns: ['name'], orderBy })).rejects.toThrow('Network error')
+    expect(onResolve).toHaveBeenCalled()
+    expect(data.getRowNumberError?.({ row: 0, orderBy })).toEqual({ error: new Error('Network error') })
+    expect(data.getCellError?.({ row: 0, column: 'name', orderBy })).toEqual({ error: new Error('Network error') })
+    // the unsorted rows have not failed
+    expect(data.getRowNumberError?.({ row: 0 })).toBeUndefined()
+
+    await data.fetch?.({ rowStart: 0, rowEnd: 1, columns: ['name'], orderBy })
+    expect(data.getRowNumberError?.({ row: 0, orderBy })).toBeUndefined()
+    expect(data.getCellError?.({ row: 0, column: 'name', orderBy })).toBeUndefined()
+    expect(data.getCell({ row: 0, column: 'name', orderBy })?.value).toBe('Bob')
+  })
 })
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { arrayDataFrame } from '../../../src/helpers/dataframe/array.js'
+import { groupedDataFrame } from '../../../src/helpers/dataframe/group.js'
+import { sortableDataFrame } from '../../../src/helpers/dataframe/sort.js'
+import { columnStatsDataFrame, computeValuesStats, scanColumnStats } from '../../../src/helpers/dataframe/stats.js'
+import { delayedDataFrame } from './fixtures.js'
+
+function createTestData() {
+  return [
+    { id: 1, name: 'Charlie', age: 30 },
+    { id: 2, name: 'Alice', age: null },
+    { id: 3, name: 'Bob', age: 25 },
+    { id: 4, name: 'Alice', age: 20 },
+  ]
+}
+
+describe('columnStatsDataFrame', () => {
+  it('should compute the counts, the extreme values and the top values', async () => {
+    const data = arrayDataFrame(createTestData())
+    await expect(columnStatsDataFrame(data, { column: 'name' })).resolves.toEqual({
+      count: 4,
+      nullCount: 0,
+      distinctCount: 3,
+      min: 'Alice',
+      max: 'Charlie',
+      // same count: in the order of their first occurrence
+      topValues: [{ value: 'Alice', count: 2 }, { value: 'Charlie', count: 1 }, { value: 'Bob', count: 1 }],
+      histogram: undefined,
+    })
+  })
+
+  it('should compute a histogram of the numeric values, ignoring the null values', async () => {
+    const data = arrayDataFrame(createTestData())
+    const stats = await columnStatsDataFrame(data, { column: 'age', numBins: 2 })
+    expect(stats).toMatchObject({ count: 4, nullCount: 1, distinctCount: 3, min: 20, max: 30 })
+    expect(stats.histogram).toEqual([
+      { start: 20, end: 25, count: 1 },
+      // the maximum value is in the last bin
+      { start: 25, end: 30, count: 2 },
+    ])
+  })
+
+  it('should compute a histogram of the dates, by timestamp, and a single bin for a constant column', () => {
+    const dates = [new Date('2024-01-01T00:00:00Z'), new Date('2024-01-03T00:00:00Z'), new Date('2024-01-03T00:00:00Z')]
+    const stats = computeValuesStats({ values: dates, numBins: 2 })
+    expect(stats.distinctCount).toBe(2)
+    expect(stats.topValues).toEqual([{ value: dates[1], count: 2 }, { value: dates[0], count: 1 }])
+    expect(stats.histogram).toEqual([
+      { start: Date.UTC(2024, 0, 1), end: Date.UTC(2024, 0, 2), count: 1 },
+      { start: Date.UTC(2024, 0, 2), end: Date.UTC(2024, 0, 3), count: 2 },
+    ])
+    expect(computeValuesStats({ values: [5n, 5n, null] }).histogram).toEqual([{ start: 5, end: 5, count: 2 }])
+    // no histogram if a value is not numeric
+    expect(computeValuesStats({ values: [1, '2'] }).histogram).toBeUndefined()
+  })
+
+  it('should limit the number of top values', () => {
+    const stats = computeValuesStats({ values: ['a', 'b', 'b', 'c', 'c', 'c'], numTopValues: 2 })
+    expect(stats.topValues).toEqual([{ value: 'c', count: 3 }, { value: 'b', count: 2 }])
+  })
+
+  it('should use the columnStats method of the data frame if it exists', async () => {
+    const columnStats = vi.fn(() => Promise.resolve({ count: 1_000_000, nullCount: 0, distinctCount: 2, topValues: [] }))
+    const data = sortableDataFrame({ ...arrayDataFrame(createTestData()), columnStats })
+    await expect(columnStatsDataFrame(data, { column: 'id' })).resolves.toEqual({ count: 1_000_000, nullCount: 0, distinctCount: 2, topValues: [] })
+    expect(columnStats).toHaveBeenCalledWith({ column: 'id', signal: undefined })
+  })
+
+  it('should not count the group header rows of a grouped data frame', async () => {
+    const data = groupedDataFrame(arrayDataFrame(createTestData()), { groupBy: ['name'] })
+    await data.fetch?.({ rowStart: 0, rowEnd: data.numRows })
+    expect(data.numRows).toBe(7)
+    await expect(columnStatsDataFrame(data, { column: 'id' })).resolves.toMatchObject({ count: 4, min: 1, max: 4 })
+  })
+
+  it('should fetch the rows in chunks', async () => {
+    const data = delayedDataFrame(arrayDataFrame(createTestData()))
+    await expect(columnStatsDataFrame(data, { column: 'id', chunkSize: 3 })).resolves.toMatchObject({ count: 4 })
+    expect(data.fetch).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 0, rowEnd: 3, columns: ['id'] }))
+    expect(data.fetch).toHaveBeenCalledWith(expect.objectContaining({ rowStart: 3, rowEnd: 4, columns: ['id'] }))
+  })
+
+  it('should throw if the column or an option is invalid', async () => {
+    const data = arrayDataFrame(createTestData())
+    await expect(columnStatsDataFrame(data, { column: 'doesnotexist' })).rejects.toThrow('Invalid column: doesnotexist')
+    await expect(columnStatsDataFrame(data, { column: 'id', chunkSize: 0 })).rejects.toThrow('Invalid chunk size')
+    await expect(columnStatsDataFrame(data, { column: 'id', numBins: 0 })).rejects.toThrow('Invalid number of bins')
+  })
+
+  it('should reject with an AbortError if the signal is aborted', async () => {
+    const controller = new AbortController()
+    const data = delayedDataFrame(arrayDataFrame(createTestData()))
+    const promise = columnStatsDataFrame(data, { column: 'id', chunkSize: 2, signal: controller.signal })
+    controller.abort()
+    await expect(promise).rejects.toThrow('The operation was aborted.')
+  })
+})
+
+describe('scanColumnStats', () => {
+  it('should compute the statistics of the given number of rows', async () => {
+    const data = arrayDataFrame(createTestData())
+    await expect(scanColumnStats({ data, numRows: 2, column: 'id' })).resolves.toMatchObject({ count: 2, max: 2 })
+  })
+
+  it('should compare the numbers and the bigints by value', async () => {
+    const data = arrayDataFrame([{ value: 10n }, { value: 2 }, { value: 2 }, { value: 3n }])
+    const stats = await scanColumnStats({ data, numRows: 4, column: 'value', numBins: 2 })
+    expect(stats).toMatchObject({ min: 2, max: 10n, distinctCount: 3 })
+    expect(stats.histogram).toEqual([{ start: 2, end: 6, count: 3 }, { start: 6, end: 10, count: 1 }])
+  })
+})
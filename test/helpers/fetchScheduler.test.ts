@@ -0,0 +1,290 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { createFetchScheduler, getFetchRanges } from '../../src/helpers/fetchScheduler.js'
+
+describe('getFetchRanges', () => {
+  it('should return the visible rows, then the overscan rows', () => {
+    expect(getFetchRanges({ visibleRowsStart: 50, visibleRowsEnd: 60, overscan: 20, numRows: 1000 })).toEqual([
+      { rowStart: 50, rowEnd: 60, priority: 'visible' },
+      { rowStart: 60, rowEnd: 80, priority: 'overscan' },
+      { rowStart: 30, rowEnd: 50, priority: 'overscan' },
+    ])
+  })
+
+  it('should return the overscan rows and the predicted rows in the scroll direction first', () => {
+    expect(getFetchRanges({ visibleRowsStart: 50, visibleRowsEnd: 60, overscan: 20, numRows: 1000, direction: 'down' })).toEqual([
+      { rowStart: 50, rowEnd: 60, priority: 'visible' },
+      { rowStart: 60, rowEnd: 80, priority: 'overscan' },
+      { rowStart: 30, rowEnd: 50, priority: 'overscan' },
+      { rowStart: 80, rowEnd: 90, priority: 'prediction' },
+    ])
+    expect(getFetchRanges({ visibleRowsStart: 50, visibleRowsEnd: 60, overscan: 20, numRows: 1000, direction: 'up' })).toEqual([
+      { rowStart: 50, rowEnd: 60, priority: 'visible' },
+      { rowStart: 30, rowEnd: 50, priority: 'overscan' },
+      { rowStart: 60, rowEnd: 80, priority: 'overscan' },
+      { rowStart: 20, rowEnd: 30, priority: 'prediction' },
+    ])
+  })
+
+  it('should clamp the ranges to the rows, and omit the empty ranges except the visible one', () => {
+    expect(getFetchRanges({ visibleRowsStart: 0, visibleRowsEnd: 10, overscan: 20, numRows: 25, direction: 'down' })).toEqual([
+      { rowStart: 0, rowEnd: 10, priority: 'visible' },
+      { rowStart: 10, rowEnd: 25, priority: 'overscan' },
+    ])
+    expect(getFetchRanges({ visibleRowsStart: 0, visibleRowsEnd: 10, overscan: 20, numRows: 0 })).toEqual([
+      { rowStart: 0, rowEnd: 0, priority: 'visible' },
+    ])
+  })
+})
+
+/** Create a fetchRows function whose requests resolve when resolveAll is called, or reject when aborted */
+function createFetchRows() {
+  const resolvers: (() => void)[] = []
+  const fetchRows = vi.fn(({ signal }: { rowStart: number, rowEnd: number, columns: string[], signal: AbortSignal }) => {
+    return new Promise<void>((resolve, reject) => {
+      resolvers.push(resolve)
+      signal.addEventListener('abort', () => {
+        reject(new DOMException('The operation was aborted.', 'AbortError'))
+      })
+    })
+  })
+  async function resolveAll() {
+    for (const resolve of resolvers.splice(0)) {
+      resolve()
+    }
+    // let the scheduler launch the next requests
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+  return { fetchRows, resolveAll }
+}
+
+describe('createFetchScheduler', () => {
+  const columns = ['A']
+
+  it('should fetch the ranges by priority, with a limited number of concurrent requests', async () => {
+    const { fetchRows, resolveAll } = createFetchRows()
+    const scheduler = createFetchScheduler({ fetchRows, maxConcurrentFetches: 2 })
+    scheduler.schedule({ columns, ranges: [
+      { rowStart: 80, rowEnd: 90, priority: 'prediction' },
+      { rowStart: 60, rowEnd: 80, priority: 'overscan' },
+      { rowStart: 50, rowEnd: 60, priority: 'visible' },
+    ] })
+    expect(fetchRows.mock.calls.map(([{ rowStart, rowEnd }]) => [rowStart, rowEnd])).toEqual([[50, 60], [60, 80]])
+
+    await resolveAll()
+    expect(fetchRows.mock.calls.map(([{ rowStart, rowEnd }]) => [rowStart, rowEnd])).toEqual([[50, 60], [60, 80], [80, 90]])
+  })
+
+  it('should keep the requests that are still partly useful, and abort the other ones', () => {
+    const { fetchRows } = createFetchRows()
+    const scheduler = createFetchScheduler({ fetchRows, maxConcurrentFetches: 2 })
+    scheduler.schedule({ columns, ranges: [
+      { rowStart: 50, rowEnd: 60, priority: 'visible' },
+      { rowStart: 60, rowEnd: 80, priority: 'overscan' },
+    ] })
+    const [visibleSignal, overscanSignal] = fetchRows.mock.calls.map(([{ signal }]) => signal)
+
+    scheduler.schedule({ columns, ranges: [{ rowStart: 70, rowEnd: 100, priority: 'visible' }] })
+    expect(visibleSignal?.aborted).toBe(true)
+    expect(overscanSignal?.aborted).toBe(false)
+    // only the rows that are not being fetched are requested
+    expect(fetchRows).toHaveBeenCalledTimes(3)
+    expect(fetchRows).toHaveBeenLastCalledWith(expect.objectContaining({ rowStart: 80, rowEnd: 100 }))
+  })
+
+  it('should keep the requests of the columns that are still scheduled, and only request the new columns', () => {
+    const { fetchRows } = createFetchRows()
+    const scheduler = createFetchScheduler({ fetchRows, maxConcurrentFetches: 2 })
+    const ranges = [{ rowStart: 0, rowEnd: 10, priority: 'visible' as const }]
+    scheduler.schedule({ ranges, columns: ['A', 'B'] })
+
+    scheduler.schedule({ ranges, columns: ['B', 'C'] })
+    expect(fetchRows.mock.calls[0]?.[0].signal.aborted).toBe(false)
+    expect(fetchRows).toHaveBeenCalledTimes(2)
+    expect(fetchRows).toHaveBeenLastCalledWith(expect.objectContaining({ rowStart: 0, rowEnd: 10, columns: ['C'] }))
+
+    // the requests that share no column with the new columns are aborted
+    scheduler.schedule({ ranges, columns: ['D'] })
+    expect(fetchRows.mock.calls[0]?.[0].signal.aborted).toBe(true)
+    expect(fetchRows.mock.calls[1]?.[0].signal.aborted).toBe(true)
+    expect(fetchRows).toHaveBeenLastCalledWith(expect.objectContaining({ rowStart: 0, rowEnd: 10, columns: ['D'] }))
+  })
+
+  it('should keep the request of an empty visible range, and not send it again, while it is scheduled', async () => {
+    const { fetchRows, resolveAll } = createFetchRows()
+    const scheduler = createFetchScheduler({ fetchRows, maxConcurrentFetches: 1 })
+    const ranges = [{ rowStart: 0, rowEnd: 0, priority: 'visible' as const }]
+    scheduler.schedule({ columns, ranges })
+    scheduler.schedule({ columns, ranges })
+    expect(fetchRows).toHaveBeenCalledOnce()
+    expect(fetchRows.mock.calls[0]?.[0].signal.aborted).toBe(false)
+
+    // another empty range is not the same request
+    scheduler.schedule({ columns, ranges: [{ rowStart: 5, rowEnd: 5, priority: 'visible' }] })
+    expect(fetchRows.mock.calls[0]?.[0].signal.aborted).toBe(true)
+    expect(fetchRows).toHaveBeenCalledTimes(2)
+    await resolveAll()
+  })
+
+  it('should not send a failed empty range again on every schedule', async () => {
+    const fetchRows = vi.fn(() => Promise.reject(new Error('Failed to fetch')))
+    const onError = vi.fn()
+    const scheduler = createFetchScheduler({ fetchRows, maxConcurrentFetches: 1 })
+    const ranges = [{ rowStart: 0, rowEnd: 0, priority: 'visible' as const }]
+    scheduler.schedule({ columns, ranges, onError })
+    await vi.waitFor(() => {
+      expect(onError).toHaveBeenCalledOnce()
+    })
+    scheduler.schedule({ columns, ranges, onError })
+    scheduler.schedule({ columns, ranges, onError })
+    expect(fetchRows).toHaveBeenCalledOnce()
+
+    scheduler.retryFailed()
+    expect(fetchRows).toHaveBeenCalledTimes(2)
+  })
+
+  it('should call onError if a request fails, but not if it is aborted', async () => {
+    const fetchRows = vi.fn(() => Promise.reject(new Error('Failed to fetch')))
+    const onError = vi.fn()
+    const scheduler = createFetchScheduler({ fetchRows, maxConcurrentFetches: 1 })
+    scheduler.schedule({ columns, ranges: [{ rowStart: 0, rowEnd: 10, priority: 'visible' }], onError })
+    await vi.waitFor(() => {
+      expect(onError).toHaveBeenCalledWith(new Error('Failed to fetch'), { rowStart: 0, rowEnd: 10, columns, attempt: 1 })
+    })
+
+    const { fetchRows: pendingFetchRows } = createFetchRows()
+    const otherScheduler = createFetchScheduler({ fetchRows: pendingFetchRows, maxConcurrentFetches: 1 })
+    const otherOnError = vi.fn()
+    otherScheduler.schedule({ columns, ranges: [{ rowStart: 0, rowEnd: 10, priority: 'visible' }], onError: otherOnError })
+    otherScheduler.abort()
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(pendingFetchRows.mock.calls[0]?.[0].signal.aborted).toBe(true)
+    expect(otherOnError).not.toHaveBeenCalled()
+  })
+
+  it('should empty the queue on abort, and be usable again', async () => {
+    const { fetchRows, resolveAll } = createFetchRows()
+    const scheduler = createFetchScheduler({ fetchRows, maxConcurrentFetches: 1 })
+    scheduler.schedule({ columns, ranges: [
+      { rowStart: 0, rowEnd: 10, priority: 'visible' },
+      { rowStart: 10, rowEnd: 20, priority: 'overscan' },
+    ] })
+    scheduler.abort()
+    await resolveAll()
+    expect(fetchRows).toHaveBeenCalledOnce()
+
+    scheduler.schedule({ columns, ranges: [{ rowStart: 0, rowEnd: 10, priority: 'visible' }] })
+    expect(fetchRows).toHaveBeenCalledTimes(2)
+  })
+
+  it('should retry a failed request with an exponential backoff, up to the maximum number of retries', async () => {
+    vi.useFakeTimers()
+    try {
+      const fetchRows = vi.fn(() => Promise.reject(new Error('Failed to fetch')))
+      const onError = vi.fn()
+      const scheduler = createFetchScheduler({ fetchRows, maxConcurrentFetches: 1, retry: { maxRetries: 2, initialDelayMs: 100, maxDelayMs: 150 } })
+      scheduler.schedule({ columns, ranges: [{ rowStart: 0, rowEnd: 10, priority: 'visible' }], onError })
+      await vi.advanceTimersByTimeAsync(99)
+      expect(fetchRows).toHaveBeenCalledOnce()
+      await vi.advanceTimersByTimeAsync(1)
+      expect(fetchRows).toHaveBeenCalledTimes(2)
+      // the delay doubles, but is capped by maxDelayMs
+      await vi.advanceTimersByTimeAsync(149)
+      expect(fetchRows).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(1)
+      expect(fetchRows).toHaveBeenCalledTimes(3)
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(fetchRows).toHaveBeenCalledTimes(3)
+      expect(onError.mock.calls.map(([, { attempt }]) => attempt)).toEqual([1, 2, 3])
+
+      // the failed range is not requested again while it's scheduled
+      scheduler.schedule({ columns, ranges: [{ rowStart: 0, rowEnd: 20, priority: 'visible' }], onError })
+      expect(fetchRows).toHaveBeenCalledTimes(4)
+      expect(fetchRows).toHaveBeenLastCalledWith(expect.objectContaining({ rowStart: 10, rowEnd: 20 }))
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should fetch the failed requests again on retryFailed, including the ones waiting for a retry', async () => {
+    vi.useFakeTimers()
+    try {
+      const fetchRows = vi.fn(() => Promise.resolve())
+      fetchRows.mockRejectedValueOnce(new Error('Failed to fetch'))
+      fetchRows.mockRejectedValueOnce(new Error('Failed to fetch'))
+      const scheduler = createFetchScheduler({ fetchRows, maxConcurrentFetches: 2, retry: { maxRetries: 1, initialDelayMs: 1000, maxDelayMs: 1000 } })
+      scheduler.schedule({ columns, ranges: [
+        { rowStart: 0, rowEnd: 10, priority: 'visible' },
+        { rowStart: 10, rowEnd: 20, priority: 'overscan' },
+      ] })
+      await vi.advanceTimersByTimeAsync(0)
+      expect(fetchRows).toHaveBeenCalledTimes(2)
+
+      scheduler.retryFailed()
+      expect(fetchRows).toHaveBeenCalledTimes(4)
+      // the cancelled automatic retries are not launched
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(fetchRows).toHaveBeenCalledTimes(4)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should keep the failed requests on abort, and fetch them again on retryFailed', async () => {
+    vi.useFakeTimers()
+    try {
+      const fetchRows = vi.fn(() => Promise.resolve())
+      fetchRows.mockRejectedValueOnce(new Error('Failed to fetch'))
+      fetchRows.mockRejectedValueOnce(new Error('Failed to fetch'))
+      fetchRows.mockRejectedValueOnce(new Error('Failed to fetch'))
+      const scheduler = createFetchScheduler({ fetchRows, maxConcurrentFetches: 2, retry: { maxRetries: 1, initialDelayMs: 1000, maxDelayMs: 1000 } })
+      scheduler.schedule({ columns, ranges: [{ rowStart: 0, rowEnd: 10, priority: 'visible' }] })
+      // the first attempt fails, and the retry too: the request has failed
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(fetchRows).toHaveBeenCalledTimes(2)
+      scheduler.schedule({ columns, ranges: [{ rowStart: 0, rowEnd: 20, priority: 'visible' }] })
+      // the new request fails, and waits for a retry
+      await vi.advanceTimersByTimeAsync(0)
+      expect(fetchRows).toHaveBeenCalledTimes(3)
+
+      scheduler.abort()
+      // the automatic retry is cancelled
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(fetchRows).toHaveBeenCalledTimes(3)
+      scheduler.retryFailed()
+      expect(fetchRows).toHaveBeenCalledTimes(5)
+      expect(fetchRows).toHaveBeenNthCalledWith(4, expect.objectContaining({ rowStart: 0, rowEnd: 10 }))
+      expect(fetchRows).toHaveBeenNthCalledWith(5, expect.objectContaining({ rowStart: 10, rowEnd: 20 }))
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should not retry the requests that are aborted, or no longer scheduled', async () => {
+    vi.useFakeTimers()
+    try {
+      const fetchRows = vi.fn(() => Promise.reject(new Error('Failed to fetch')))
+      const scheduler = createFetchScheduler({ fetchRows, maxConcurrentFetches: 1, retry: { maxRetries: 3, initialDelayMs: 100, maxDelayMs: 1000 } })
+      scheduler.schedule({ columns, ranges: [{ rowStart: 0, rowEnd: 10, priority: 'visible' }] })
+      await vi.advanceTimersByTimeAsync(0)
+      scheduler.schedule({ columns, ranges: [{ rowStart: 50, rowEnd: 60, priority: 'visible' }] })
+      expect(fetchRows).toHaveBeenCalledTimes(2)
+      scheduler.abort()
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(fetchRows).toHaveBeenCalledTimes(2)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should throw if the maximum number of concurrent fetches is invalid', () => {
+    const { fetchRows } = createFetchRows()
+    expect(() => createFetchScheduler({ fetchRows, maxConcurrentFetches: 0 })).toThrow('Invalid maximum number of concurrent fetches')
+  })
+
+  it('should throw if the retry options are invalid', () => {
+    const { fetchRows } = createFetchRows()
+    expect(() => createFetchScheduler({ fetchRows, maxConcurrentFetches: 1, retry: { maxRetries: -1, initialDelayMs: 0, maxDelayMs: 0 } })).toThrow('Invalid maximum number of retries')
+    expect(() => createFetchScheduler({ fetchRows, maxConcurrentFetches: 1, retry: { maxRetries: 1, initialDelayMs: NaN, maxDelayMs: 0 } })).toThrow('Invalid retry delays')
+  })
+})
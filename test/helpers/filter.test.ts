@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+
+import { createFiltersPredicate, matchesFilter } from '../../src/helpers/filter.js'
+import { createStringify, stringify } from '../../src/utils/stringify.js'
+
+describe('matchesFilter', () => {
+  it('should match the values containing the text, ignoring the case', () => {
+    const filter = { type: 'contains' as const, value: 'li' }
+    expect(matchesFilter({ value: 'Alice', filter, stringify })).toBe(true)
+    expect(matchesFilter({ value: 'LISA', filter, stringify })).toBe(true)
+    expect(matchesFilter({ value: 'Bob', filter, stringify })).toBe(false)
+    expect(matchesFilter({ value: undefined, filter, stringify })).toBe(false)
+  })
+
+  it('should match the values equal to the text, once stringified', () => {
+    const filter = { type: 'equals' as const, value: 'Alice' }
+    expect(matchesFilter({ value: 'Alice', filter, stringify })).toBe(true)
+    expect(matchesFilter({ value: 'alice', filter, stringify })).toBe(false)
+  })
+
+  it('should stringify the numbers without locale for the equals and in filters', () => {
+    const filter = { type: 'equals' as const, value: '1000.5' }
+    const frenchStringify = createStringify('fr-FR')
+    expect(matchesFilter({ value: 1000.5, filter, stringify })).toBe(true)
+    expect(matchesFilter({ value: 1000.5, filter, stringify: frenchStringify })).toBe(true)
+    expect(matchesFilter({ value: '1,000.5', filter, stringify })).toBe(false)
+    expect(matchesFilter({ value: 12345678901234567890n, filter: { type: 'in', values: ['12345678901234567890'] }, stringify: frenchStringify })).toBe(true)
+  })
+
+  it('should match the numeric values in the range, limits included', () => {
+    const filter = { type: 'range' as const, min: 10, max: 20 }
+    expect(matchesFilter({ value: 10, filter, stringify })).toBe(true)
+    expect(matchesFilter({ value: 20n, filter, stringify })).toBe(true)
+    expect(matchesFilter({ value: 21, filter, stringify })).toBe(false)
+    expect(matchesFilter({ value: '15', filter, stringify })).toBe(false)
+    expect(matchesFilter({ value: 1000, filter: { type: 'range', min: 10 }, stringify })).toBe(true)
+    expect(matchesFilter({ value: -1000, filter: { type: 'range', max: 10 }, stringify })).toBe(true)
+  })
+
+  it('should match the null and undefined values', () => {
+    expect(matchesFilter({ value: null, filter: { type: 'isNull' }, stringify })).toBe(true)
+    expect(matchesFilter({ value: undefined, filter: { type: 'isNull' }, stringify })).toBe(true)
+    expect(matchesFilter({ value: 0, filter: { type: 'isNull' }, stringify })).toBe(false)
+    expect(matchesFilter({ value: null, filter: { type: 'isNotNull' }, stringify })).toBe(false)
+    expect(matchesFilter({ value: '', filter: { type: 'isNotNull' }, stringify })).toBe(true)
+  })
+
+  it('should match the values in the list, once stringified', () => {
+    const filter = { type: 'in' as const, values: ['Alice', 'true'] }
+    expect(matchesFilter({ value: 'Alice', filter, stringify })).toBe(true)
+    expect(matchesFilter({ value: true, filter, stringify })).toBe(true)
+    expect(matchesFilter({ value: 'alice', filter, stringify })).toBe(false)
+  })
+
+  it('should use the stringify function', () => {
+    const filter = { type: 'equals' as const, value: 'yes' }
+    expect(matchesFilter({ value: true, filter, stringify: (value: unknown) => value ? 'yes' : 'no' })).toBe(true)
+  })
+})
+
+describe('createFiltersPredicate', () => {
+  it('should keep the rows matching all the filters, and ignore the undefined filters', () => {
+    const predicate = createFiltersPredicate({
+      filters: {
+        name: { type: 'contains', value: 'a' },
+        age: { type: 'range', min: 25 },
+        id: undefined,
+      },
+      stringify,
+    })
+    expect(predicate({ name: 'Alice', age: 30 })).toBe(true)
+    expect(predicate({ name: 'Dani', age: 20 })).toBe(false)
+    expect(predicate({ name: 'Bob', age: 25 })).toBe(false)
+  })
+
+  it('should keep all the rows if there are no filters', () => {
+    const predicate = createFiltersPredicate({ filters: {}, stringify })
+    expect(predicate({ name: 'Alice' })).toBe(true)
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatCellValue, formatValue } from '../../src/helpers/format.js'
+import { stringify } from '../../src/utils/stringify.js'
+
+describe('formatCellValue', () => {
+  it('stringifies the values if the column has no type, or a string, number or boolean type', () => {
+    expect(formatCellValue({ value: 1234.5, stringify })).toBe('1,234.5')
+    expect(formatCellValue({ value: 'text', type: 'string', stringify })).toBe('text')
+    expect(formatCellValue({ value: 1234.5, type: 'number', stringify })).toBe('1,234.5')
+    expect(formatCellValue({ value: true, type: 'boolean', stringify })).toBe('true')
+  })
+
+  it('stringifies null and undefined, whatever the type', () => {
+    expect(formatCellValue({ value: null, type: 'date', stringify })).toBe('null')
+    expect(formatCellValue({ value: undefined, type: 'json', stringify })).toBeUndefined()
+  })
+
+  it('formats the dates and the timestamps in UTC', () => {
+    const date = new Date('2024-03-05T14:07:09.123Z')
+    expect(formatCellValue({ value: date, type: 'date', stringify })).toBe('2024-03-05')
+    expect(formatCellValue({ value: date, type: 'timestamp', stringify })).toBe('2024-03-05 14:07:09')
+    // numbers and bigints are milliseconds since the epoch, strings are parsed
+    expect(formatCellValue({ value: date.getTime(), type: 'timestamp', stringify })).toBe('2024-03-05 14:07:09')
+    expect(formatCellValue({ value: BigInt(date.getTime()), type: 'date', stringify })).toBe('2024-03-05')
+    expect(formatCellValue({ value: '2024-03-05T14:07:09Z', type: 'date', stringify })).toBe('2024-03-05')
+    // invalid dates are stringified
+    expect(formatCellValue({ value: 'not a date', type: 'date', stringify })).toBe('not a date')
+  })
+
+  it('collapses the JSON, lists and structs on a single line', () => {
+    expect(formatCellValue({ value: '{\n  "a": 1,\n  "b": [true, null]\n}', type: 'json', stringify })).toBe('{"a":1,"b":[true,null]}')
+    expect(formatCellValue({ value: 'not JSON', type: 'json', stringify })).toBe('not JSON')
+    expect(formatCellValue({ value: [1, 2n, 'three'], type: 'list', stringify })).toBe('[1,2,"three"]')
+    expect(formatCellValue({ value: { a: { b: 1 } }, type: 'struct', stringify })).toBe('{"a":{"b":1}}')
+  })
+
+  it('shows a hexadecimal preview of the binary values', () => {
+    expect(formatCellValue({ value: new TextEncoder().encode('Hello'), type: 'binary', stringify })).toBe('48 65 6c 6c 6f (5 bytes)')
+    expect(formatCellValue({ value: new Uint8Array([1]).buffer, type: 'binary', stringify })).toBe('01 (1 byte)')
+    expect(formatCellValue({ value: new Uint8Array(1000).fill(255), type: 'binary', stringify })).toBe('ff ff ff ff ff ff ff ff … (1,000 bytes)')
+  })
+
+  it('applies the formatting options of the column before the type', () => {
+    const date = new Date('2024-03-05T23:30:00Z')
+    expect(formatCellValue({ value: date, type: 'timestamp', format: { date: { dateStyle: 'medium', timeZone: 'Asia/Tokyo' } }, stringify })).toBe('Mar 6, 2024')
+    expect(formatCellValue({ value: 1234.5, type: 'number', format: { number: { style: 'currency', currency: 'EUR' } }, locale: 'de-DE', stringify })).toBe('1.234,50 €')
+    // the options that don't apply to the value are ignored
+    expect(formatCellValue({ value: [1, 2], type: 'list', format: { number: { style: 'percent' } }, stringify })).toBe('[1,2]')
+  })
+})
+
+describe('formatValue', () => {
+  it('formats the numbers and the bigints with the number options and the locale', () => {
+    expect(formatValue({ value: 0.256, format: { number: { style: 'percent' } }, stringify })).toBe('26%')
+    expect(formatValue({ value: 1234567n, format: { number: { notation: 'compact' } }, locale: 'fr-FR', stringify })).toBe('1,2 M')
+  })
+
+  it('formats the dates, and the values of the date and timestamp columns, in UTC by default', () => {
+    const date = new Date('2024-03-05T23:30:00Z')
+    expect(formatValue({ value: date, format: { date: { dateStyle: 'short' } }, stringify })).toBe('3/5/24')
+    expect(formatValue({ value: date.getTime(), type: 'timestamp', format: { date: { dateStyle: 'short', timeStyle: 'short', timeZone: 'Europe/Paris' } }, locale: 'fr-FR', stringify })).toBe('06/03/2024 00:30')
+    // without the type, the numbers are not dates
+    expect(formatValue({ value: date.getTime(), format: { date: { dateStyle: 'short' } }, stringify })).toBe('1,709,681,400,000')
+  })
+
+  it('stringifies the values without formatting options, ignoring the display format of the type', () => {
+    expect(formatValue({ value: new Date('2024-03-05T14:07:09Z'), type: 'date', stringify })).toBe('2024-03-05T14:07:09.000Z')
+    expect(formatValue({ value: 'text', format: { number: { style: 'percent' } }, stringify })).toBe('text')
+    expect(formatValue({ value: null, format: { date: { dateStyle: 'short' } }, stringify })).toBe('null')
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'vitest'
+
+import type { HistoryEntry } from '../../src/helpers/history.js'
+import { getDefaultHistory, maxHistoryLength, pushHistoryEntry, redoHistoryEntry, undoHistoryEntry } from '../../src/helpers/history.js'
+
+function sortEntry(previous: string[], next: string[], timestamp = 0): HistoryEntry {
+  return {
+    type: 'orderBy',
+    previous: previous.map(column => ({ column, direction: 'ascending' as const })),
+    next: next.map(column => ({ column, direction: 'ascending' as const })),
+    timestamp,
+  }
+}
+
+describe('pushHistoryEntry', () => {
+  test('adds the change to the past, and clears the future', () => {
+    const history = { past: [sortEntry([], ['a'])], future: [sortEntry(['a'], ['b'])] }
+    const entry = sortEntry(['a'], ['c'])
+    expect(pushHistoryEntry({ history, entry })).toEqual({ past: [sortEntry([], ['a']), entry], future: [] })
+  })
+
+  test('merges the change with the last one, keeping its previous value', () => {
+    const history = { past: [sortEntry([], ['a'])], future: [] }
+    const entry = sortEntry(['a'], ['b'], 1)
+    expect(pushHistoryEntry({ history, entry, merge: true })).toEqual({ past: [sortEntry([], ['b'], 1)], future: [] })
+  })
+
+  test('does not merge changes of different types', () => {
+    const history = { past: [sortEntry([], ['a'])], future: [] }
+    const entry: HistoryEntry = { type: 'columnWidths', previous: [], next: [100], timestamp: 0 }
+    expect(pushHistoryEntry({ history, entry, merge: true }).past).toHaveLength(2)
+  })
+
+  test('drops the oldest changes beyond the maximum length', () => {
+    let history = getDefaultHistory()
+    for (let i = 0; i < maxHistoryLength + 5; i++) {
+      history = pushHistoryEntry({ history, entry: sortEntry([], [`${i}`]) })
+    }
+    expect(history.past).toHaveLength(maxHistoryLength)
+    expect(history.past[0]).toEqual(sortEntry([], ['5']))
+  })
+})
+
+describe('undoHistoryEntry and redoHistoryEntry', () => {
+  test('return undefined if there is nothing to undo or redo', () => {
+    expect(undoHistoryEntry(getDefaultHistory())).toBeUndefined()
+    expect(redoHistoryEntry(getDefaultHistory())).toBeUndefined()
+  })
+
+  test('move the changes between the past and the future', () => {
+    const first = sortEntry([], ['a'])
+    const second = sortEntry(['a'], ['b'])
+    const history = { past: [first, second], future: [] }
+
+    const undone = undoHistoryEntry(history)
+    expect(undone).toEqual({ history: { past: [first], future: [second] }, entry: second })
+    const undoneTwice = undone && undoHistoryEntry(undone.history)
+    expect(undoneTwice).toEqual({ history: { past: [], future: [first, second] }, entry: first })
+
+    const redone = undoneTwice && redoHistoryEntry(undoneTwice.history)
+    expect(redone).toEqual({ history: { past: [first], future: [second] }, entry: first })
+  })
+})
@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest'
 
 import type { Scale, ScrollState } from '../../src/helpers/scroll.js'
-import { computeDerivedValues, createScale, getScrollActionForRow, initializeScrollState, scrollReducer } from '../../src/helpers/scroll.js'
+import { computeDerivedValues, computeRenderedColumns, createScale, getRenderedColumns, getScrollActionForRow, getScrollActionForScaleChange, initializeScrollState, scrollReducer } from '../../src/helpers/scroll.js'
 
 describe('createScale', () => {
   it('creates a scale with factor=1 when the number of rows is low', () => {
@@ -84,6 +84,61 @@ describe('createScale', () => {
     expect(scale.virtualCanvasHeight).toBe(50) // headerHeight + numRows * rowHeight
     expect(scale.factor).toBe(1)
   })
+
+  it('takes the custom row heights into account', () => {
+    const parameters = {
+      clientHeight: 100,
+      headerHeight: 50,
+      maxElementHeight: 30_000,
+      numRows: 10,
+      rowHeight: 20,
+      rowHeights: new Map([[5, 100], [2, 50], [20, 1_000]]), // unsorted, and row 20 does not exist
+    }
+    const scale = createScale(parameters)
+    expect(scale.parameters).toEqual(parameters)
+    expect(scale.virtualCanvasHeight).toBe(360) // headerHeight + 8 * rowHeight + 50 + 100
+    expect(scale.getRowHeight(1)).toBe(20)
+    expect(scale.getRowHeight(2)).toBe(50)
+    expect([0, 2, 3, 5, 6, 10].map(row => scale.getRowTop(row))).toEqual([0, 40, 90, 130, 230, 310])
+    expect([0, 39, 40, 89, 90, 129, 130, 229, 230, 250].map(offset => scale.getRowAt(offset))).toEqual([0, 1, 2, 2, 3, 4, 5, 5, 6, 7])
+  })
+
+  it('locates the rows with custom heights among millions of rows', () => {
+    const scale = createScale({
+      clientHeight: 500,
+      headerHeight: 50,
+      maxElementHeight: 30_000,
+      numRows: 10_000_000,
+      rowHeight: 33,
+      rowHeights: new Map([[5_000_000, 1_000]]),
+    })
+    expect(scale.virtualCanvasHeight).toBe(50 + 10_000_000 * 33 + 1_000 - 33)
+    expect(scale.getRowAt(scale.getRowTop(5_000_000) + 999)).toBe(5_000_000)
+    expect(scale.getRowAt(scale.getRowTop(9_000_000))).toBe(9_000_000)
+  })
+
+  it('adds the footer height to the canvas height', () => {
+    const scale = createScale({
+      clientHeight: 100,
+      footerHeight: 40,
+      headerHeight: 50,
+      maxElementHeight: 30_000,
+      numRows: 10,
+      rowHeight: 20,
+    })
+    expect(scale.virtualCanvasHeight).toBe(290) // headerHeight + numRows * rowHeight + footerHeight
+  })
+
+  it('throws if a custom row height is not positive', () => {
+    expect(() => createScale({
+      clientHeight: 100,
+      headerHeight: 50,
+      maxElementHeight: 30_000,
+      numRows: 10,
+      rowHeight: 20,
+      rowHeights: new Map([[2, 0]]),
+    })).toThrow('Invalid height for row 2')
+  })
 })
 
 describe('computeDerivedValues', () => {
@@ -155,6 +210,29 @@ describe('computeDerivedValues', () => {
     expect(renderedRowsStart).toBe(0) // cannot go below 0
     expect(renderedRowsEnd).toBe(42) // can add full padding at the end
   })
+
+  it('computes derived values correctly with custom row heights', () => {
+    const scale = createScale({
+      clientHeight: 100,
+      headerHeight: 50,
+      maxElementHeight: 1_000_000,
+      numRows: 100,
+      rowHeight: 20,
+      rowHeights: new Map([[1, 60]]),
+    })
+    const { sliceTop, visibleRowsStart, visibleRowsEnd, renderedRowsStart, renderedRowsEnd } = computeDerivedValues({
+      scale,
+      scrollTop: 100,
+      scrollTopAnchor: 100,
+      localOffset: 0,
+      padding: 1,
+    })
+    expect(visibleRowsStart).toBe(1) // rows 0, 1 and 2 are at [0, 20), [20, 80) and [80, 100) below the header
+    expect(visibleRowsEnd).toBe(6)
+    expect(renderedRowsStart).toBe(0)
+    expect(renderedRowsEnd).toBe(7)
+    expect(sliceTop).toBe(0)
+  })
 })
 
 describe('initializeScrollState', () => {
@@ -165,6 +243,7 @@ describe('initializeScrollState', () => {
       scrollTop: undefined,
       scrollTopAnchor: undefined,
       localOffset: 0,
+      isLargeScroll: false,
     })
   })
 })
@@ -243,6 +322,36 @@ describe('getScrollActionForRow', () => {
     })
   })
 
+  it('takes the footer into account, when the row is hidden below it', () => {
+    const scale = createScale({
+      clientHeight: 100,
+      footerHeight: 20,
+      headerHeight: 50,
+      maxElementHeight: 1_000_000,
+      numRows: 100,
+      rowHeight: 20,
+    })
+    // row 0 ends at 70px, visible
+    expect(getScrollActionForRow({ scale, rowIndex: 2, scrollTopAnchor: 0, localOffset: 0 })).toBeUndefined()
+    // row 1 ends at 90px, below the top of the footer (80px)
+    expect(getScrollActionForRow({ scale, rowIndex: 3, scrollTopAnchor: 0, localOffset: 0 })).toEqual({ type: 'SCROLL_TO', scrollTop: 10 })
+  })
+
+  it('uses the custom height of the row', () => {
+    const scale = createScale({
+      clientHeight: 100,
+      headerHeight: 50,
+      maxElementHeight: 1_000_000,
+      numRows: 100,
+      rowHeight: 20,
+      rowHeights: new Map([[3, 200]]),
+    })
+    // the end of row 3 (rowIndex 5) is at 50 + 60 + 200 = 310px
+    expect(getScrollActionForRow({ scale, rowIndex: 5, scrollTopAnchor: 0, localOffset: 0 })).toEqual({ type: 'SCROLL_TO', scrollTop: 210 })
+    // row 4 (rowIndex 6) starts at 50 + 60 + 200 = 310px
+    expect(getScrollActionForRow({ scale, rowIndex: 6, scrollTopAnchor: 400, localOffset: 0 })).toEqual({ type: 'SCROLL_TO', scrollTop: 260 })
+  })
+
   describe('in virtual scrolling mode (scale.factor > 1)', () => {
     it.each([
       { rowIndex: 1, virtualScrollBase: 0, localOffset: 0 },
@@ -380,6 +489,60 @@ function createVirtualScale(): Scale {
   })
 }
 
+describe('getScrollActionForScaleChange', () => {
+  const parameters = {
+    clientHeight: 1_000,
+    headerHeight: 50,
+    maxElementHeight: 1_000_000,
+    numRows: 1_000,
+    rowHeight: 33,
+  }
+
+  it('returns a scrollTop action to keep the first visible row in place when the rows above it get taller', () => {
+    const previousScale = createScale(parameters)
+    const scale = createScale({ ...parameters, rowHeights: new Map([[5, 100], [10, 133], [500, 100]]) })
+    // the first visible row is row 10, with 10 hidden pixels: 50 + 10 * 33 + 10 = 390
+    const action = getScrollActionForScaleChange({ previousScale, scale, scrollTopAnchor: 390, localOffset: 0 })
+    // only the rows above the first visible row are taken into account
+    expect(action).toEqual({ type: 'SCROLL_TO', scrollTop: 390 + 67 })
+  })
+
+  it('returns a scrollTop action when the rows above the first visible row get shorter', () => {
+    const previousScale = createScale({ ...parameters, rowHeights: new Map([[5, 100]]) })
+    const scale = createScale(parameters)
+    const action = getScrollActionForScaleChange({ previousScale, scale, scrollTopAnchor: 457, localOffset: 0 })
+    expect(action).toEqual({ type: 'SCROLL_TO', scrollTop: 390 })
+  })
+
+  it.each([
+    { scrollTopAnchor: 0 },
+    { scrollTopAnchor: 40 },
+  ])('returns undefined if the header row is visible (%o)', ({ scrollTopAnchor }) => {
+    const previousScale = createScale(parameters)
+    const scale = createScale({ ...parameters, rowHeights: new Map([[0, 100]]) })
+    expect(getScrollActionForScaleChange({ previousScale, scale, scrollTopAnchor, localOffset: 0 })).toBeUndefined()
+  })
+
+  it('returns undefined if only the rows below the first visible row change', () => {
+    const previousScale = createScale(parameters)
+    const scale = createScale({ ...parameters, rowHeights: new Map([[11, 100]]) })
+    expect(getScrollActionForScaleChange({ previousScale, scale, scrollTopAnchor: 390, localOffset: 0 })).toBeUndefined()
+  })
+
+  it('returns a local scroll action in virtual scrolling mode, for a small change', () => {
+    const virtualParameters = { ...parameters, maxElementHeight: 10_000 }
+    const previousScale = createScale(virtualParameters)
+    const scale = createScale({ ...virtualParameters, rowHeights: new Map([[5, 100]]) })
+    const scrollTopAnchor = previousScale.fromVirtual(390)
+    const action = getScrollActionForScaleChange({ previousScale, scale, scrollTopAnchor, localOffset: 0 })
+    if (action?.type !== 'LOCAL_SCROLL') {
+      throw new Error('Expected a local scroll action')
+    }
+    // the first visible row is at the same virtual position, with the new scale
+    expect(scale.toVirtual(scrollTopAnchor) + action.delta).toBeCloseTo(390 + 67)
+  })
+})
+
 describe('scrollReducer', () => {
   describe('SET_SCALE action', () => {
     it('sets the scale in the state', () => {
@@ -398,6 +561,7 @@ describe('scrollReducer', () => {
         scrollTop: 100,
         scrollTopAnchor: 200,
         localOffset: 10,
+        isLargeScroll: false,
       }
       const scale = createNormalScale()
       const newState = scrollReducer(initialState, { type: 'SET_SCALE', scale })
@@ -414,6 +578,7 @@ describe('scrollReducer', () => {
         scrollTop: 100,
         scrollTopAnchor: 200,
         localOffset: 0,
+        isLargeScroll: false,
       }
       const newScale = createNormalScale()
       const newState = scrollReducer(initialState, { type: 'SET_SCALE', scale: newScale })
@@ -444,6 +609,7 @@ describe('scrollReducer', () => {
         scrollTop: 100,
         scrollTopAnchor: 200,
         localOffset: 10,
+        isLargeScroll: false,
       }
       const newState = scrollReducer(initialState, { type: 'LOCAL_SCROLL', delta: 15 })
       expect(newState.localOffset).toBe(25)
@@ -470,6 +636,7 @@ describe('scrollReducer', () => {
         scrollTop: 150,
         scrollTopAnchor: 800,
         localOffset: 120,
+        isLargeScroll: false,
       }
       const newState = scrollReducer(initialState, { type: 'GLOBAL_SCROLL', scrollTop })
       expect(newState.scrollTop).toBe(scrollTop)
@@ -485,6 +652,7 @@ describe('scrollReducer', () => {
         scrollTop: 150,
         scrollTopAnchor: 800,
         localOffset: 120,
+        isLargeScroll: false,
       }
       const newState = scrollReducer(initialState, { type: 'SCROLL_TO', scrollTop: 250 })
       expect(newState.scrollTop).toBe(250)
@@ -502,6 +670,7 @@ describe('scrollReducer', () => {
       scrollTop: initialScrollTop,
       scrollTopAnchor: initialScrollTop,
       localOffset: 200,
+      isLargeScroll: false,
     }
 
     it('updates the state', () => {
@@ -558,6 +727,7 @@ describe('scrollReducer', () => {
       const stateWithLargeLocalOffset: ScrollState = {
         ...initialState,
         localOffset: 16_499, // below the largeScrollPx threshold (500 * 33 = 16,500)
+        isLargeScroll: false,
       }
       const newState = scrollReducer(stateWithLargeLocalOffset, { type: 'ON_SCROLL', scrollTop: nearScrollTop })
       expect(newState.scrollTop).toBe(nearScrollTop)
@@ -583,5 +753,83 @@ describe('scrollReducer', () => {
       expect(newState.scrollTopAnchor).toBe(maxScrollTop)
       expect(newState.localOffset).toBe(0)
     })
+
+    it('flags the scroll changes larger than 500 rows as large scrolls', () => {
+      expect(scrollReducer(initialState, { type: 'ON_SCROLL', scrollTop: farScrollTop }).isLargeScroll).toBe(true)
+      expect(scrollReducer(initialState, { type: 'ON_SCROLL', scrollTop: nearScrollTop }).isLargeScroll).toBe(false)
+      expect(scrollReducer({ ...initialState, scrollTop: undefined }, { type: 'ON_SCROLL', scrollTop: farScrollTop }).isLargeScroll).toBe(false)
+    })
+
+    it('does not flag the programmatic scrolls as large scrolls', () => {
+      const newState = scrollReducer({ ...initialState, isLargeScroll: true }, { type: 'SCROLL_TO', scrollTop: farScrollTop })
+      expect(newState.isLargeScroll).toBe(false)
+    })
+  })
+})
+
+describe('computeRenderedColumns', () => {
+  // 20 columns of 100px, after the row headers (50px)
+  const columnOffsets = Array.from({ length: 21 }, (_, i) => 50 + i * 100)
+
+  it('returns undefined if the viewport width is unknown or null', () => {
+    expect(computeRenderedColumns({ columnOffsets, numPinnedColumns: 0, scrollLeft: 0, viewportWidth: undefined, padding: 2 })).toBeUndefined()
+    expect(computeRenderedColumns({ columnOffsets, numPinnedColumns: 0, scrollLeft: 0, viewportWidth: 0, padding: 2 })).toBeUndefined()
+  })
+
+  it('renders the columns in the viewport, plus the padding', () => {
+    expect(computeRenderedColumns({ columnOffsets, numPinnedColumns: 0, scrollLeft: 0, viewportWidth: 400, padding: 2 })).toEqual({
+      renderedColumnsStart: 0,
+      renderedColumnsEnd: 6, // columns 0 to 3 are visible
+      leftSpacerWidth: 0,
+      rightSpacerWidth: 1_400,
+    })
+    expect(computeRenderedColumns({ columnOffsets, numPinnedColumns: 0, scrollLeft: 1_000, viewportWidth: 400, padding: 2 })).toEqual({
+      renderedColumnsStart: 8, // columns 10 to 13 are visible, column 9 is hidden by the row headers
+      renderedColumnsEnd: 16,
+      leftSpacerWidth: 800,
+      rightSpacerWidth: 400,
+    })
+  })
+
+  it('ignores the columns hidden by the pinned columns', () => {
+    expect(computeRenderedColumns({ columnOffsets, numPinnedColumns: 2, scrollLeft: 1_000, viewportWidth: 400, padding: 0 })).toEqual({
+      renderedColumnsStart: 12, // columns 12 and 13 are visible, beside the pinned columns
+      renderedColumnsEnd: 14,
+      leftSpacerWidth: 1_000,
+      rightSpacerWidth: 600,
+    })
+  })
+
+  it('stays within the bounds', () => {
+    expect(computeRenderedColumns({ columnOffsets, numPinnedColumns: 0, scrollLeft: 1_700, viewportWidth: 400, padding: 5 })).toEqual({
+      renderedColumnsStart: 12,
+      renderedColumnsEnd: 20,
+      leftSpacerWidth: 1_200,
+      rightSpacerWidth: 0,
+    })
+  })
+})
+
+describe('getRenderedColumns', () => {
+  const columns = [{ name: 'A', pinned: 'left' as const }, { name: 'B' }, { name: 'C' }, { name: 'D' }, { name: 'E' }]
+
+  it('renders all the columns if they are not virtualized', () => {
+    expect(getRenderedColumns({ columns }).map(c => c.type === 'column' ? c.column.name : c.width)).toEqual(['A', 'B', 'C', 'D', 'E'])
+  })
+
+  it('renders the pinned columns, the range of columns, and the spacers', () => {
+    const renderedColumns = { renderedColumnsStart: 2, renderedColumnsEnd: 4, leftSpacerWidth: 100, rightSpacerWidth: 50 }
+    expect(getRenderedColumns({ columns, renderedColumns })).toEqual([
+      { type: 'column', column: columns[0], visibleColumnIndex: 0 },
+      { type: 'spacer', side: 'left', width: 100 },
+      { type: 'column', column: columns[2], visibleColumnIndex: 2 },
+      { type: 'column', column: columns[3], visibleColumnIndex: 3 },
+      { type: 'spacer', side: 'right', width: 50 },
+    ])
+  })
+
+  it('omits the spacers with a null width', () => {
+    const renderedColumns = { renderedColumnsStart: 1, renderedColumnsEnd: 5, leftSpacerWidth: 0, rightSpacerWidth: 0 }
+    expect(getRenderedColumns({ columns, renderedColumns }).every(({ type }) => type === 'column')).toBe(true)
   })
 })
@@ -1,6 +1,6 @@
 import { describe, expect, it, test } from 'vitest'
 
-import { areValidRanges, isSelected, isValidIndex, isValidRange, selectRange, toggleIndex, toggleIndexInSelection, unselectRange } from '../../src/helpers/selection.js'
+import { areValidRanges, getCellRangeBounds, isCellInRange, isSelected, isValidIndex, isValidRange, selectRange, toggleIndex, toggleIndexInSelection, unselectRange } from '../../src/helpers/selection.js'
 
 describe('an index', () => {
   test('is a positive integer', () => {
@@ -169,3 +169,27 @@ describe('toggleIndexInSelection', () => {
     ).toEqual({ ranges: [], anchor: 0 })
   })
 })
+
+describe('getCellRangeBounds', () => {
+  it('should return the inclusive bounds of the range, whatever the direction', () => {
+    const bounds = { minColIndex: 2, maxColIndex: 4, minRowIndex: 3, maxRowIndex: 5 }
+    expect(getCellRangeBounds({ anchor: { colIndex: 2, rowIndex: 3 }, head: { colIndex: 4, rowIndex: 5 } })).toEqual(bounds)
+    expect(getCellRangeBounds({ anchor: { colIndex: 4, rowIndex: 5 }, head: { colIndex: 2, rowIndex: 3 } })).toEqual(bounds)
+    expect(getCellRangeBounds({ anchor: { colIndex: 2, rowIndex: 5 }, head: { colIndex: 4, rowIndex: 3 } })).toEqual(bounds)
+  })
+})
+
+describe('isCellInRange', () => {
+  const range = { anchor: { colIndex: 4, rowIndex: 3 }, head: { colIndex: 2, rowIndex: 5 } }
+  it('should return true for the cells inside the rectangle, limits included', () => {
+    expect(isCellInRange({ range, colIndex: 2, rowIndex: 3 })).toBe(true)
+    expect(isCellInRange({ range, colIndex: 3, rowIndex: 4 })).toBe(true)
+    expect(isCellInRange({ range, colIndex: 4, rowIndex: 5 })).toBe(true)
+  })
+  it('should return false for the cells outside the rectangle', () => {
+    expect(isCellInRange({ range, colIndex: 1, rowIndex: 4 })).toBe(false)
+    expect(isCellInRange({ range, colIndex: 5, rowIndex: 4 })).toBe(false)
+    expect(isCellInRange({ range, colIndex: 3, rowIndex: 2 })).toBe(false)
+    expect(isCellInRange({ range, colIndex: 3, rowIndex: 6 })).toBe(false)
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+
+import { applyViewState, getViewState, migrateViewState, parseViewState, viewStateVersion } from '../../src/helpers/viewState.js'
+
+describe('getViewState', () => {
+  it('should return the defined values, with the current version', () => {
+    const orderBy = [{ column: 'A', direction: 'ascending' as const }]
+    const selection = { ranges: [{ start: 0, end: 2 }], anchor: 1 }
+    expect(getViewState({ orderBy, selection })).toEqual({ version: viewStateVersion, orderBy, selection })
+    expect(getViewState({})).toEqual({ version: viewStateVersion })
+  })
+
+  it('should return a serializable value', () => {
+    const viewState = getViewState({
+      orderBy: [{ column: 'A', direction: 'descending' }],
+      columnsVisibility: { B: { hidden: true } },
+      selection: { ranges: [{ start: 3, end: 5 }] },
+      cellPosition: { colIndex: 2, rowIndex: 4 },
+    })
+    expect(parseViewState(JSON.parse(JSON.stringify(viewState)))).toEqual(viewState)
+  })
+})
+
+describe('parseViewState', () => {
+  it.for([
+    undefined,
+    null,
+    'view',
+    [],
+    {},
+    { version: '1' },
+    { version: 0 },
+    { version: 1.5 },
+    // from a newer version
+    { version: viewStateVersion + 1 },
+  ])('should return undefined if the value is not a view state: %o', (value) => {
+    expect(parseViewState(value)).toBeUndefined()
+  })
+
+  it('should ignore the invalid fields', () => {
+    expect(parseViewState({
+      version: 1,
+      orderBy: [{ column: 'A', direction: 'up' }],
+      columnsVisibility: 'B',
+      selection: { ranges: [{ start: 2, end: 1 }] },
+      cellPosition: { colIndex: 0, rowIndex: 1 },
+      unknown: true,
+    })).toEqual({ version: 1 })
+  })
+
+  it('should keep only the hidden columns, and the valid anchor', () => {
+    expect(parseViewState({
+      version: 1,
+      columnsVisibility: { A: { hidden: true }, B: { hidden: false }, C: undefined },
+      selection: { ranges: [{ start: 0, end: 1 }], anchor: -1 },
+    })).toEqual({
+      version: 1,
+      columnsVisibility: { A: { hidden: true } },
+      selection: { ranges: [{ start: 0, end: 1 }], anchor: undefined },
+    })
+  })
+})
+
+describe('migrateViewState', () => {
+  it('should keep the view states of the current version as is', () => {
+    const value = { version: viewStateVersion, orderBy: [{ column: 'A', direction: 'ascending' }] }
+    expect(migrateViewState({ value })).toEqual(value)
+  })
+
+  it.for([
+    // from an older version, without a migration
+    { version: 0 },
+    // from a newer version
+    { version: viewStateVersion + 1 },
+  ])('should not support the versions without a migration: %o', (value) => {
+    expect(migrateViewState({ value })).toBeUndefined()
+  })
+
+  it('should migrate a previous version with its migration', () => {
+    const migrations = {
+      0: ({ sort, ...viewState }: Record<string, unknown>) => ({ ...viewState, version: 1, orderBy: sort }),
+      1: (viewState: Record<string, unknown>) => viewState,
+    }
+    const orderBy = [{ column: 'A', direction: 'descending' }]
+    expect(migrateViewState({ value: { version: 0, sort: orderBy }, migrations })).toEqual({ version: 1, orderBy })
+  })
+})
+
+describe('applyViewState', () => {
+  it('should return the props of a view state, without the version', () => {
+    const cellPosition = { colIndex: 3, rowIndex: 10 }
+    expect(applyViewState({ version: 1, cellPosition })).toEqual({ cellPosition })
+  })
+
+  it('should return no props if the value is not a view state', () => {
+    expect(applyViewState({ orderBy: [] })).toEqual({})
+  })
+})
@@ -0,0 +1,78 @@
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+
+import { useColumnComputations } from '../../src/hooks/useColumnComputations.js'
+
+/** Create a compute function whose computations resolve when resolve is called, or reject when aborted */
+function createCompute() {
+  const resolvers = new Map<string, () => void>()
+  const compute = vi.fn(({ column, signal }: { source: object, column: string, signal: AbortSignal }) => {
+    return new Promise<{ status: 'resolved', value: string }>((resolve, reject) => {
+      resolvers.set(column, () => {
+        resolve({ status: 'resolved', value: `value of ${column}` })
+      })
+      signal.addEventListener('abort', () => {
+        reject(new DOMException('The operation was aborted.', 'AbortError'))
+      })
+    })
+  })
+  return { compute, resolvers }
+}
+
+describe('useColumnComputations', () => {
+  it('should compute every column, and only abort the computations of the removed columns', async () => {
+    const { compute, resolvers } = createCompute()
+    const source = {}
+    const { result, rerender } = renderHook(({ columns }) => useColumnComputations({ source, columns, compute }), { initialProps: { columns: ['A', 'B'] } })
+    expect(compute).toHaveBeenCalledTimes(2)
+    expect(result.current('A')).toEqual({ status: 'pending' })
+    const [signalA, signalB] = compute.mock.calls.map(([{ signal }]) => signal)
+
+    rerender({ columns: ['A', 'C'] })
+    expect(signalA?.aborted).toBe(false)
+    expect(signalB?.aborted).toBe(true)
+    expect(compute).toHaveBeenCalledTimes(3)
+
+    act(() => {
+      resolvers.get('A')?.()
+    })
+    await waitFor(() => {
+      expect(result.current('A')).toEqual({ status: 'resolved', value: 'value of A' })
+    })
+
+    // the aborted computation is started again, but not the resolved one
+    rerender({ columns: ['A', 'B'] })
+    expect(compute).toHaveBeenCalledTimes(4)
+    expect(compute).toHaveBeenLastCalledWith(expect.objectContaining({ column: 'B' }))
+  })
+
+  it('should abort all the computations, and forget the results, when the source changes', () => {
+    const { compute } = createCompute()
+    const columns = ['A']
+    const { result, rerender } = renderHook(({ source }) => useColumnComputations({ source, columns, compute }), { initialProps: { source: {} } })
+    const signal = compute.mock.calls[0]?.[0].signal
+
+    const source = {}
+    rerender({ source })
+    expect(signal?.aborted).toBe(true)
+    expect(compute).toHaveBeenCalledTimes(2)
+    expect(compute).toHaveBeenLastCalledWith(expect.objectContaining({ source, column: 'A' }))
+    expect(result.current('A')).toEqual({ status: 'pending' })
+  })
+
+  it('should call onError if a computation fails, and not compute anything without a source', async () => {
+    const onError = vi.fn()
+    const compute = vi.fn(() => Promise.reject(new Error('failed')))
+    const source = {}
+    const columns = ['A']
+    const { result } = renderHook(() => useColumnComputations({ source, columns, compute, onError }))
+    await waitFor(() => {
+      expect(result.current('A')).toEqual({ status: 'rejected' })
+    })
+    expect(onError).toHaveBeenCalledWith(new Error('failed'))
+
+    const { result: disabledResult } = renderHook(() => useColumnComputations({ source: undefined, columns, compute }))
+    expect(compute).toHaveBeenCalledOnce()
+    expect(disabledResult.current('A')).toBeUndefined()
+  })
+})
@@ -0,0 +1,61 @@
+import { act, renderHook } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { ColumnsVisibilityContext } from '../../src/contexts/ColumnsVisibilityContext.js'
+import type { DataFrameMethods } from '../../src/contexts/DataContext.js'
+import { DataFrameMethodsContext, NumRowsContext } from '../../src/contexts/DataContext.js'
+import { largeScrollFetchDelayMs } from '../../src/helpers/constants.js'
+import type { RenderedColumns } from '../../src/helpers/scroll.js'
+import { useFetchCells } from '../../src/hooks/useFetchCells.js'
+
+const visibleColumnsParameters = ['A', 'B', 'C', 'D'].map((name, index) => ({ name, index }))
+
+type Fetch = NonNullable<DataFrameMethods['fetch']>
+
+function createWrapper(fetch: Fetch) {
+  const dataFrameMethods = { getRowNumber: () => undefined, getCell: () => undefined, fetch }
+  return function Wrapper({ children }: { children: ReactNode }) {
+    return (
+      <DataFrameMethodsContext.Provider value={dataFrameMethods}>
+        <NumRowsContext.Provider value={1000}>
+          <ColumnsVisibilityContext.Provider value={{ numberOfVisibleColumns: 4, visibleColumnsParameters }}>
+            {children}
+          </ColumnsVisibilityContext.Provider>
+        </NumRowsContext.Provider>
+      </DataFrameMethodsContext.Provider>
+    )
+  }
+}
+
+function getRenderedColumns(renderedColumnsStart: number): RenderedColumns {
+  return { renderedColumnsStart, renderedColumnsEnd: renderedColumnsStart + 2, leftSpacerWidth: 0, rightSpacerWidth: 0 }
+}
+
+describe('useFetchCells', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should only fetch the new columns, without delay, on a horizontal scroll after a large scroll', () => {
+    const fetch = vi.fn<Fetch>(() => new Promise<void>(() => undefined))
+    const range = { visibleRowsStart: 500, visibleRowsEnd: 510 }
+    const { rerender } = renderHook(({ renderedColumns }) => useFetchCells({ range, renderedColumns, isLargeScroll: true, overscan: 0 }), {
+      initialProps: { renderedColumns: getRenderedColumns(0) },
+      wrapper: createWrapper(fetch),
+    })
+    expect(fetch).not.toHaveBeenCalled()
+    act(() => {
+      vi.advanceTimersByTime(largeScrollFetchDelayMs)
+    })
+    expect(fetch).toHaveBeenCalledExactlyOnceWith(expect.objectContaining({ rowStart: 500, rowEnd: 510, columns: ['A', 'B'] }))
+
+    rerender({ renderedColumns: getRenderedColumns(1) })
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(fetch).toHaveBeenLastCalledWith(expect.objectContaining({ rowStart: 500, rowEnd: 510, columns: ['C'] }))
+    expect(fetch.mock.calls[0]?.[0].signal?.aborted).toBe(false)
+  })
+})
@@ -0,0 +1,118 @@
+import { fireEvent, render } from '@testing-library/react'
+import { useContext } from 'react'
+import { describe, expect, it, vi } from 'vitest'
+
+import { CellSelectionContext } from '../../src/contexts/CellSelectionContext.js'
+import { ColumnsVisibilityContext } from '../../src/contexts/ColumnsVisibilityContext.js'
+import { NumRowsContext } from '../../src/contexts/DataContext.js'
+import { CellNavigationProvider } from '../../src/providers/CellNavigationProvider.js'
+import { CellSelectionProvider } from '../../src/providers/CellSelectionProvider.js'
+import type { HighTableProps } from '../../src/types.js'
+
+function TestComponent() {
+  const { cellSelection, isCellSelected, onCellMouseDown, onCellMouseEnter, onTableKeyDown } = useContext(CellSelectionContext)
+  const cells = [{ colIndex: 2, rowIndex: 2 }, { colIndex: 3, rowIndex: 3 }, { colIndex: 4, rowIndex: 4 }]
+  return (
+    <div data-testid="table" onKeyDown={onTableKeyDown}>
+      <span data-testid="cell-selection">{JSON.stringify(cellSelection)}</span>
+      {cells.map(cell => (
+        <span
+          key={`${cell.colIndex}-${cell.rowIndex}`}
+          data-testid={`cell-${cell.colIndex}-${cell.rowIndex}`}
+          data-selected={isCellSelected?.(cell)}
+          onMouseDown={(event) => { onCellMouseDown?.(event, cell) }}
+          onMouseEnter={(event) => { onCellMouseEnter?.(event, cell) }}
+        />
+      ))}
+    </div>
+  )
+}
+
+function renderWithNavigation(props: Pick<HighTableProps, 'cellSelection' | 'onCellSelectionChange'> = {}) {
+  return render(
+    <NumRowsContext.Provider value={9}>
+      <ColumnsVisibilityContext.Provider value={{ numberOfVisibleColumns: 4 }}>
+        <CellNavigationProvider cellPosition={{ colIndex: 2, rowIndex: 2 }}>
+          <CellSelectionProvider {...props}>
+            <TestComponent />
+          </CellSelectionProvider>
+        </CellNavigationProvider>
+      </ColumnsVisibilityContext.Provider>
+    </NumRowsContext.Provider>
+  )
+}
+
+describe('CellSelectionProvider', () => {
+  it('disables the cell selection if no props are passed', () => {
+    const { getByTestId } = renderWithNavigation()
+    expect(getByTestId('cell-selection').textContent).toBe('')
+    expect(getByTestId('cell-2-2').getAttribute('data-selected')).toBeNull()
+  })
+
+  it('is read-only if the cell selection is controlled and onCellSelectionChange is not passed', () => {
+    const range = { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 3, rowIndex: 3 } }
+    const { getByTestId } = renderWithNavigation({ cellSelection: { range } })
+    expect(getByTestId('cell-3-3').getAttribute('data-selected')).toBe('true')
+    expect(getByTestId('cell-4-4').getAttribute('data-selected')).toBe('false')
+
+    fireEvent.keyDown(getByTestId('table'), { key: 'ArrowRight', shiftKey: true })
+    expect(getByTestId('cell-selection').textContent).toBe(JSON.stringify({ range }))
+  })
+
+  it('extends the selection from the current cell with Shift+Arrow, and clears it with Escape', () => {
+    const onCellSelectionChange = vi.fn()
+    const { getByTestId } = renderWithNavigation({ onCellSelectionChange })
+
+    fireEvent.keyDown(getByTestId('table'), { key: 'ArrowRight', shiftKey: true })
+    fireEvent.keyDown(getByTestId('table'), { key: 'ArrowDown', shiftKey: true })
+    expect(onCellSelectionChange).toHaveBeenLastCalledWith({ range: { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 3, rowIndex: 3 } } })
+    expect(getByTestId('cell-3-3').getAttribute('data-selected')).toBe('true')
+    expect(getByTestId('cell-4-4').getAttribute('data-selected')).toBe('false')
+
+    fireEvent.keyDown(getByTestId('table'), { key: 'Escape' })
+    expect(onCellSelectionChange).toHaveBeenLastCalledWith({ range: undefined })
+    expect(getByTestId('cell-3-3').getAttribute('data-selected')).toBe('false')
+  })
+
+  it('extends the selection to the edges of the table with Ctrl+Shift+Arrow', () => {
+    const onCellSelectionChange = vi.fn()
+    const { getByTestId } = renderWithNavigation({ onCellSelectionChange })
+
+    fireEvent.keyDown(getByTestId('table'), { key: 'ArrowRight', shiftKey: true, ctrlKey: true })
+    fireEvent.keyDown(getByTestId('table'), { key: 'ArrowDown', shiftKey: true, ctrlKey: true })
+    // 4 visible columns + the row headers column, 9 rows + the header row
+    expect(onCellSelectionChange).toHaveBeenLastCalledWith({ range: { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 5, rowIndex: 10 } } })
+  })
+
+  it('clears the selection when moving without Shift', () => {
+    const range = { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 3, rowIndex: 3 } }
+    const onCellSelectionChange = vi.fn()
+    const { getByTestId } = renderWithNavigation({ cellSelection: { range }, onCellSelectionChange })
+
+    fireEvent.keyDown(getByTestId('table'), { key: 'ArrowLeft' })
+    expect(onCellSelectionChange).toHaveBeenCalledWith({ range: undefined })
+  })
+
+  it('selects a range by dragging the mouse over the cells', () => {
+    const onCellSelectionChange = vi.fn()
+    const { getByTestId } = renderWithNavigation({ onCellSelectionChange })
+
+    fireEvent.mouseDown(getByTestId('cell-2-2'), { button: 0, buttons: 1 })
+    fireEvent.mouseEnter(getByTestId('cell-4-4'), { buttons: 1 })
+    expect(onCellSelectionChange).toHaveBeenLastCalledWith({ range: { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 4, rowIndex: 4 } } })
+    expect(getByTestId('cell-3-3').getAttribute('data-selected')).toBe('true')
+
+    // releasing the button ends the gesture
+    fireEvent.mouseUp(window)
+    fireEvent.mouseEnter(getByTestId('cell-3-3'), { buttons: 1 })
+    expect(onCellSelectionChange).toHaveBeenLastCalledWith({ range: { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 4, rowIndex: 4 } } })
+  })
+
+  it('extends the selection from the current cell with Shift+click', () => {
+    const onCellSelectionChange = vi.fn()
+    const { getByTestId } = renderWithNavigation({ onCellSelectionChange })
+
+    fireEvent.mouseDown(getByTestId('cell-4-4'), { button: 0, shiftKey: true })
+    expect(onCellSelectionChange).toHaveBeenLastCalledWith({ range: { anchor: { colIndex: 2, rowIndex: 2 }, head: { colIndex: 4, rowIndex: 4 } } })
+  })
+})
@@ -0,0 +1,123 @@
+import { fireEvent, render } from '@testing-library/react'
+import { useContext } from 'react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { ColumnOrderContext } from '../../src/contexts/ColumnOrderContext.js'
+import { ColumnParametersContext } from '../../src/contexts/ColumnParametersContext.js'
+import { ColumnNamesContext } from '../../src/contexts/DataContext.js'
+import { ColumnOrderProvider } from '../../src/providers/ColumnOrderProvider.js'
+import { ColumnParametersProvider } from '../../src/providers/ColumnParametersProvider.js'
+import type { HighTableProps } from '../../src/types.js'
+
+vi.stubGlobal('localStorage', (() => {
+  const store = new Map<string, string>()
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    removeItem: (key: string) => { store.delete(key) },
+    setItem: (key: string, value: string) => { store.set(key, value) },
+    clear: () => { store.clear() },
+    get length() { return store.size },
+  }
+})())
+
+// delete the local storage before each test
+beforeEach(() => {
+  localStorage.clear()
+})
+
+const columnNames = ['id', 'name', 'status']
+
+function TestComponent() {
+  const columnParameters = useContext(ColumnParametersContext)
+  const { moveColumn } = useContext(ColumnOrderContext)
+  return (
+    <div>
+      <span data-testid="column-parameters">{JSON.stringify(columnParameters.map(({ name, index }) => ({ name, index })))}</span>
+      {moveColumn && columnNames.flatMap(name => columnNames.map(target => (
+        <button key={`${name}-${target}`} data-testid={`move-${name}-${target}`} onClick={() => { moveColumn(name, target) }} />
+      )))}
+    </div>
+  )
+}
+
+function renderWithColumns(props: Pick<HighTableProps, 'columnOrder' | 'onColumnOrderChange'> & { localStorageKey?: string } = {}) {
+  return render(
+    <ColumnNamesContext.Provider value={columnNames}>
+      <ColumnParametersProvider>
+        <ColumnOrderProvider {...props}>
+          <TestComponent />
+        </ColumnOrderProvider>
+      </ColumnParametersProvider>
+    </ColumnNamesContext.Provider>
+  )
+}
+
+describe('ColumnOrderProvider', () => {
+  it('keeps the data frame order by default, and allows moving the columns', () => {
+    const { getByTestId } = renderWithColumns()
+    expect(getByTestId('column-parameters').textContent).toBe(JSON.stringify([
+      { name: 'id', index: 0 },
+      { name: 'name', index: 1 },
+      { name: 'status', index: 2 },
+    ]))
+
+    fireEvent.click(getByTestId('move-id-status'))
+    expect(getByTestId('column-parameters').textContent).toBe(JSON.stringify([
+      { name: 'name', index: 1 },
+      { name: 'status', index: 2 },
+      { name: 'id', index: 0 },
+    ]))
+
+    fireEvent.click(getByTestId('move-status-name'))
+    expect(getByTestId('column-parameters').textContent).toBe(JSON.stringify([
+      { name: 'status', index: 2 },
+      { name: 'name', index: 1 },
+      { name: 'id', index: 0 },
+    ]))
+  })
+
+  it('appends the unlisted columns, and ignores the unknown names', () => {
+    const { getByTestId } = renderWithColumns({ columnOrder: ['status', 'doesnotexist', 'id'] })
+    expect(getByTestId('column-parameters').textContent).toBe(JSON.stringify([
+      { name: 'status', index: 2 },
+      { name: 'id', index: 0 },
+      { name: 'name', index: 1 },
+    ]))
+  })
+
+  it('is read-only if the column order is controlled and onColumnOrderChange is not passed', () => {
+    const { queryByTestId } = renderWithColumns({ columnOrder: ['status'] })
+    expect(queryByTestId('move-name-status')).toBeNull()
+  })
+
+  it('calls onColumnOrderChange with the new order of all the columns, in controlled mode', () => {
+    const onColumnOrderChange = vi.fn()
+    const { getByTestId } = renderWithColumns({ columnOrder: ['status'], onColumnOrderChange })
+    fireEvent.click(getByTestId('move-name-status'))
+    expect(onColumnOrderChange).toHaveBeenCalledWith(['name', 'status', 'id'])
+    // the parent has not updated the prop
+    expect(getByTestId('column-parameters').textContent).toContain('[{"name":"status"')
+  })
+
+  it('calls onColumnOrderChange in uncontrolled mode', () => {
+    const onColumnOrderChange = vi.fn()
+    const { getByTestId } = renderWithColumns({ onColumnOrderChange })
+    fireEvent.click(getByTestId('move-name-id'))
+    expect(onColumnOrderChange).toHaveBeenCalledWith(['name', 'id', 'status'])
+  })
+
+  it('persists the column order in the local storage, in uncontrolled mode', () => {
+    const localStorageKey = 'key'
+    const { getByTestId, unmount } = renderWithColumns({ localStorageKey })
+    fireEvent.click(getByTestId('move-status-id'))
+    expect(localStorage.getItem(localStorageKey)).toBe(JSON.stringify(['status', 'id', 'name']))
+    unmount()
+
+    const { getByTestId: getByTestIdAfterReload } = renderWithColumns({ localStorageKey })
+    expect(getByTestIdAfterReload('column-parameters').textContent).toBe(JSON.stringify([
+      { name: 'status', index: 2 },
+      { name: 'id', index: 0 },
+      { name: 'name', index: 1 },
+    ]))
+  })
+})
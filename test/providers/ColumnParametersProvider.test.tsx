@@ -3,7 +3,7 @@ import { useContext } from 'react'
 import { describe, expect, it } from 'vitest'
 
 import { ColumnParametersContext } from '../../src/contexts/ColumnParametersContext.js'
-import { ColumnNamesContext } from '../../src/contexts/DataContext.js'
+import { ColumnNamesContext, ColumnTypesContext } from '../../src/contexts/DataContext.js'
 import type { ColumnConfiguration } from '../../src/helpers/columnConfiguration.js'
 import { ColumnParametersProvider } from '../../src/providers/ColumnParametersProvider.js'
 
@@ -57,6 +57,31 @@ describe('ColumnParametersProvider', () => {
     ]))
   })
 
+  it('includes the column types, overridden by the columnConfiguration', () => {
+    const columnNames = ['id', 'date', 'payload']
+    const columnTypes = new Map([['id', 'number'], ['date', 'string']] as const)
+    const columnConfiguration: ColumnConfiguration = {
+      date: { type: 'date' },
+      payload: { type: 'json' },
+    }
+
+    const { getByTestId } = render(
+      <ColumnNamesContext.Provider value={columnNames}>
+        <ColumnTypesContext.Provider value={columnTypes}>
+          <ColumnParametersProvider columnConfiguration={columnConfiguration}>
+            <TestComponent />
+          </ColumnParametersProvider>
+        </ColumnTypesContext.Provider>
+      </ColumnNamesContext.Provider>
+    )
+
+    expect(getByTestId('column-parameters').textContent).toBe(JSON.stringify([
+      { name: 'id', index: 0, type: 'number' },
+      { name: 'date', index: 1, type: 'date' },
+      { name: 'payload', index: 2, type: 'json' },
+    ]))
+  })
+
   it('includes minWidth in column configuration', () => {
     const columnNames = ['id', 'name']
     const columnConfiguration: ColumnConfiguration = {
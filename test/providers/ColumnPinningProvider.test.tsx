@@ -0,0 +1,84 @@
+import { fireEvent, render } from '@testing-library/react'
+import { useContext } from 'react'
+import { describe, expect, it } from 'vitest'
+
+import { ColumnParametersContext } from '../../src/contexts/ColumnParametersContext.js'
+import { ColumnPinningContext } from '../../src/contexts/ColumnPinningContext.js'
+import { ColumnNamesContext } from '../../src/contexts/DataContext.js'
+import type { ColumnConfiguration } from '../../src/helpers/columnConfiguration.js'
+import { ColumnParametersProvider } from '../../src/providers/ColumnParametersProvider.js'
+import { ColumnPinningProvider } from '../../src/providers/ColumnPinningProvider.js'
+
+const columnNames = ['id', 'name', 'status']
+
+function TestComponent() {
+  const columnParameters = useContext(ColumnParametersContext)
+  const { getPinColumn, getUnpinColumn } = useContext(ColumnPinningContext)
+  return (
+    <div>
+      <span data-testid="column-parameters">{JSON.stringify(columnParameters.map(({ name, pinned }) => ({ name, pinned })))}</span>
+      {columnNames.map((name) => {
+        const pinColumn = getPinColumn?.(name)
+        const unpinColumn = getUnpinColumn?.(name)
+        return (
+          <span key={name}>
+            {pinColumn && <button data-testid={`pin-${name}`} onClick={pinColumn} />}
+            {unpinColumn && <button data-testid={`unpin-${name}`} onClick={unpinColumn} />}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
+
+function renderWithColumns(columnConfiguration?: ColumnConfiguration) {
+  return render(
+    <ColumnNamesContext.Provider value={columnNames}>
+      <ColumnParametersProvider columnConfiguration={columnConfiguration}>
+        <ColumnPinningProvider>
+          <TestComponent />
+        </ColumnPinningProvider>
+      </ColumnParametersProvider>
+    </ColumnNamesContext.Provider>
+  )
+}
+
+describe('ColumnPinningProvider', () => {
+  it('keeps the order if no column is pinned', () => {
+    const { getByTestId } = renderWithColumns()
+    expect(getByTestId('column-parameters').textContent).toBe(JSON.stringify([
+      { name: 'id' },
+      { name: 'name' },
+      { name: 'status' },
+    ]))
+  })
+
+  it('shows the initially pinned columns first', () => {
+    const { getByTestId, queryByTestId } = renderWithColumns({ status: { pinned: 'left' } })
+    expect(getByTestId('column-parameters').textContent).toBe(JSON.stringify([
+      { name: 'status', pinned: 'left' },
+      { name: 'id' },
+      { name: 'name' },
+    ]))
+    expect(queryByTestId('pin-status')).toBeNull()
+    expect(queryByTestId('unpin-id')).toBeNull()
+  })
+
+  it('pins and unpins the columns', () => {
+    const { getByTestId } = renderWithColumns({ status: { pinned: 'left' } })
+
+    fireEvent.click(getByTestId('pin-name'))
+    expect(getByTestId('column-parameters').textContent).toBe(JSON.stringify([
+      { name: 'name', pinned: 'left' },
+      { name: 'status', pinned: 'left' },
+      { name: 'id' },
+    ]))
+
+    fireEvent.click(getByTestId('unpin-status'))
+    expect(getByTestId('column-parameters').textContent).toBe(JSON.stringify([
+      { name: 'name', pinned: 'left' },
+      { name: 'id' },
+      { name: 'status' },
+    ]))
+  })
+})
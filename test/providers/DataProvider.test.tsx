@@ -5,7 +5,7 @@ import { describe, expect, it, vi } from 'vitest'
 import { ColumnNamesContext, DataFrameMethodsContext, DataKeyContext, DataVersionContext, ExclusiveSortContext, NumRowsContext, SortableColumnsContext } from '../../src/contexts/DataContext.js'
 import type { DataFrame, DataFrameEvents } from '../../src/helpers/dataframe/index.js'
 import { arrayDataFrame } from '../../src/helpers/dataframe/index.js'
-import { createEventTarget } from '../../src/helpers/typedEventTarget.js'
+import { createEventTarget, TypedCustomEvent } from '../../src/helpers/typedEventTarget.js'
 import { DataProvider } from '../../src/providers/DataProvider.js'
 
 function DisplayComponent() {
@@ -53,9 +53,9 @@ function DisplayComponent() {
   )
 }
 
-function TestComponent({ data }: { data: DataFrame }) {
+function TestComponent({ data, onError }: { data: DataFrame, onError?: (error: unknown) => void }) {
   return (
-    <DataProvider data={data}>
+    <DataProvider data={data} onError={onError}>
       <DisplayComponent />
     </DataProvider>
   )
@@ -189,6 +189,17 @@ describe('DataProvider', () => {
       expect(updatedVersion).toBe(initialVersion + 3)
       expect(getByTestId('data-key').textContent).toBe(key)
     })
+    it('should pass the error of an error event to onError', async () => {
+      const data = arrayDataFrame([{ a: 1 }, { a: 2 }])
+      const onError = vi.fn()
+      render(<TestComponent data={data} onError={onError} />)
+      const error = new Error('refresh failed')
+      // eslint-disable-next-line @typescript-eslint/require-await
+      await act(async () => {
+        data.eventTarget?.dispatchEvent(new TypedCustomEvent('error', { detail: error }))
+      })
+      expect(onError).toHaveBeenCalledExactlyOnceWith(error)
+    })
   })
 
   describe('on unobservable data frame change', () => {
@@ -0,0 +1,136 @@
+import { fireEvent, render } from '@testing-library/react'
+import { act, useContext } from 'react'
+import { describe, expect, it, vi } from 'vitest'
+
+import { DataFrameMethodsContext, DataVersionContext, NumRowsContext } from '../../src/contexts/DataContext.js'
+import { FiltersContext } from '../../src/contexts/FiltersContext.js'
+import { arrayDataFrame } from '../../src/helpers/dataframe/index.js'
+import { DataProvider } from '../../src/providers/DataProvider.js'
+import { FiltersProvider } from '../../src/providers/FiltersProvider.js'
+import type { HighTableProps } from '../../src/types.js'
+
+function TestComponent() {
+  const { filters, setColumnFilter } = useContext(FiltersContext)
+  const numRows = useContext(NumRowsContext)
+  const version = useContext(DataVersionContext)
+  const { getCell } = useContext(DataFrameMethodsContext)
+  return (
+    <div>
+      <span data-testid="filters">{JSON.stringify(filters)}</span>
+      <span data-testid="num-rows">{numRows}</span>
+      <span data-testid="version">{version}</span>
+      <span data-testid="first-name">{getCell({ row: 0, column: 'name' })?.value}</span>
+      <button data-testid="filter-name" onClick={() => setColumnFilter?.('name', { type: 'contains', value: 'a' })}>Filter name</button>
+      <button data-testid="clear-name" onClick={() => setColumnFilter?.('name', undefined)}>Clear name</button>
+    </div>
+  )
+}
+
+const data = arrayDataFrame([
+  { name: 'Bob', age: 25 },
+  { name: 'Alice', age: 30 },
+  { name: 'Charlie', age: 35 },
+])
+
+function renderWithData(props: Omit<HighTableProps, 'data'> = {}) {
+  return render(
+    <DataProvider data={data}>
+      <FiltersProvider data={data} {...props}>
+        <TestComponent />
+      </FiltersProvider>
+    </DataProvider>
+  )
+}
+
+describe('FiltersProvider', () => {
+  it('provides empty filters and the unfiltered data by default', () => {
+    const { getByTestId } = renderWithData()
+
+    expect(getByTestId('filters').textContent).toBe('{}')
+    expect(getByTestId('num-rows').textContent).toBe('3')
+    expect(getByTestId('first-name').textContent).toBe('Bob')
+  })
+
+  it('provides the filtered data if filters are passed to the provider', () => {
+    const { getByTestId } = renderWithData({ filters: { age: { type: 'range', min: 30 } } })
+
+    expect(getByTestId('filters').textContent).toBe('{"age":{"type":"range","min":30}}')
+    expect(getByTestId('num-rows').textContent).toBe('2')
+    expect(getByTestId('first-name').textContent).toBe('Alice')
+  })
+
+  it('removes the columns that do not exist from the filters and logs a warning', () => {
+    const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => void 0)
+    const { getByTestId } = renderWithData({ filters: { doesnotexist: { type: 'isNull' } } })
+
+    expect(getByTestId('filters').textContent).toBe('{}')
+    expect(getByTestId('num-rows').textContent).toBe('3')
+    expect(consoleWarnSpy).toHaveBeenCalledWith('Column "doesnotexist" is in filters but does not exist. It will be ignored. Fix the filters state.')
+    consoleWarnSpy.mockRestore()
+  })
+
+  it('sets and clears the filter of a column, and calls onFiltersChange', () => {
+    const onFiltersChange = vi.fn()
+    const { getByTestId } = renderWithData({ onFiltersChange })
+    const version = Number(getByTestId('version').textContent)
+
+    act(() => {
+      fireEvent.click(getByTestId('filter-name'))
+    })
+    expect(onFiltersChange).toHaveBeenCalledWith({ name: { type: 'contains', value: 'a' } })
+    expect(getByTestId('filters').textContent).toBe('{"name":{"type":"contains","value":"a"}}')
+    expect(getByTestId('num-rows').textContent).toBe('2')
+    expect(getByTestId('first-name').textContent).toBe('Alice')
+    expect(Number(getByTestId('version').textContent)).toBeGreaterThan(version)
+
+    act(() => {
+      fireEvent.click(getByTestId('clear-name'))
+    })
+    expect(onFiltersChange).toHaveBeenLastCalledWith({ name: undefined })
+    expect(getByTestId('filters').textContent).toBe('{}')
+    expect(getByTestId('num-rows').textContent).toBe('3')
+    expect(getByTestId('first-name').textContent).toBe('Bob')
+  })
+
+  it('is read-only if the filters are controlled and onFiltersChange is not passed', () => {
+    const { getByTestId } = renderWithData({ filters: {} })
+
+    act(() => {
+      fireEvent.click(getByTestId('filter-name'))
+    })
+    expect(getByTestId('filters').textContent).toBe('{}')
+    expect(getByTestId('num-rows').textContent).toBe('3')
+  })
+
+  it('disposes the filtered data frame when the filters change, and on unmount', () => {
+    const upstream = arrayDataFrame([{ name: 'Bob', age: 25 }, { name: 'Alice', age: 30 }])
+    if (!upstream.eventTarget) {
+      throw new Error('The upstream data frame has no event target')
+    }
+    const addEventListener = vi.spyOn(upstream.eventTarget, 'addEventListener')
+    function getSignals() {
+      return addEventListener.mock.calls.flatMap(([, , options]) => typeof options === 'object' && options.signal ? [options.signal] : [])
+    }
+    function renderFilters(filters: HighTableProps['filters']) {
+      return (
+        <DataProvider data={upstream}>
+          <FiltersProvider data={upstream} filters={filters}>
+            <TestComponent />
+          </FiltersProvider>
+        </DataProvider>
+      )
+    }
+    const { rerender, unmount } = render(renderFilters({ age: { type: 'range', min: 30 } }))
+    const [firstSignal] = getSignals()
+    expect(firstSignal?.aborted).toBe(false)
+
+    rerender(renderFilters({ age: { type: 'range', min: 20 } }))
+    expect(firstSignal?.aborted).toBe(true)
+    const lastSignal = getSignals().at(-1)
+    expect(lastSignal).not.toBe(firstSignal)
+    expect(lastSignal?.aborted).toBe(false)
+
+    unmount()
+    expect(lastSignal?.aborted).toBe(true)
+  })
+})
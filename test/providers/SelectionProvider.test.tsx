@@ -5,6 +5,7 @@ import { describe, expect, it, vi } from 'vitest'
 import { DataFrameMethodsContext, NumRowsContext } from '../../src/contexts/DataContext.js'
 import { SelectionContext } from '../../src/contexts/SelectionContext.js'
 import { arrayDataFrame } from '../../src/helpers/dataframe/array.js'
+import { groupedDataFrame } from '../../src/helpers/dataframe/group.js'
 import { SelectionProvider } from '../../src/providers/SelectionProvider.js'
 
 function TestComponent() {
@@ -70,4 +71,32 @@ describe('SelectionProvider', () => {
       expect(getByTestId('is-row-10-selected').textContent).toBe('false')
     })
   })
+
+  describe('with group header rows', () => {
+    it('selects all the data rows, and skips the group header rows', async () => {
+      const data = groupedDataFrame(arrayDataFrame(Array.from({ length: 5 }, (_, i) => ({ id: i, even: i % 2 === 0 }))), { groupBy: ['even'] })
+      const onSelectionChange = vi.fn()
+      const { getByTestId } = render(
+        <DataFrameMethodsContext.Provider value={data}>
+          <NumRowsContext.Provider value={data.numRows}>
+            <SelectionProvider onSelectionChange={onSelectionChange}>
+              <TestComponent />
+            </SelectionProvider>
+          </NumRowsContext.Provider>
+        </DataFrameMethodsContext.Provider>
+      )
+      // 2 group header rows, and 5 data rows
+      expect(data.numRows).toBe(7)
+
+      // await is required, the sync version does not work
+      // eslint-disable-next-line @typescript-eslint/require-await
+      await act(async () => {
+        fireEvent.click(getByTestId('toggle-all-rows'))
+      })
+      expect(onSelectionChange).toHaveBeenCalledExactlyOnceWith(
+        { ranges: [{ start: 0, end: 5 }], anchor: undefined }
+      )
+      expect(getByTestId('all-rows-selected').textContent).toBe('true')
+    })
+  })
 })
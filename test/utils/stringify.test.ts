@@ -1,6 +1,6 @@
 import { describe, expect, test } from 'vitest'
 
-import { stringify } from '../../src/utils/stringify.js'
+import { createStringify, stringify } from '../../src/utils/stringify.js'
 
 describe('stringify', () => {
   test('returns the same string if input is a string', () => {
@@ -91,3 +91,19 @@ describe('stringify', () => {
     expect(stringify(new RangeError('out of bounds'))).toBe('RangeError: out of bounds')
   })
 })
+
+describe('createStringify', () => {
+  test('formats the numbers with the locale', () => {
+    const stringifyFr = createStringify('fr-FR')
+    expect(stringifyFr(1000.123456789)).toBe('1\u202f000,1234568')
+    expect(stringifyFr(1234567890n)).toBe('1\u202f234\u202f567\u202f890')
+    expect(stringifyFr([1.5, { a: 2.5 }])).toBe('[\n  1,5,\n  {\n    a: 2,5\n  }\n]')
+  })
+
+  test('formats the other values as the default stringify function', () => {
+    const stringifyDe = createStringify('de-DE')
+    expect(stringifyDe('Hello')).toBe('Hello')
+    expect(stringifyDe(new Date('2020-01-01T00:00:00.000Z'))).toBe('2020-01-01T00:00:00.000Z')
+    expect(stringifyDe(null)).toBe('null')
+  })
+})